@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."prompt_templates" (
+    "id" TEXT NOT NULL,
+    "key" VARCHAR(100) NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "variables" TEXT[],
+    "vertical" VARCHAR(50),
+    "serviceProvider" VARCHAR(100),
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "description" TEXT,
+    "createdBy" VARCHAR(100),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_key_version_key" ON "public"."prompt_templates"("key", "version");
+
+-- CreateIndex
+CREATE INDEX "prompt_templates_key_isActive_idx" ON "public"."prompt_templates"("key", "isActive");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."guardrail_violations" (
+    "id" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "rule" VARCHAR(50) NOT NULL,
+    "detail" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "resolution" VARCHAR(20) NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "guardrail_violations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "guardrail_violations_chatSessionId_idx" ON "public"."guardrail_violations"("chatSessionId");
+
+-- CreateIndex
+CREATE INDEX "guardrail_violations_rule_idx" ON "public"."guardrail_violations"("rule");
+
+-- CreateIndex
+CREATE INDEX "guardrail_violations_createdAt_idx" ON "public"."guardrail_violations"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."guardrail_violations" ADD CONSTRAINT "guardrail_violations_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "public"."chat_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
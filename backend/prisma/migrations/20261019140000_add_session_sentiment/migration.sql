@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."chat_sessions" ADD COLUMN     "frustrationAlertedAt" TIMESTAMP(3),
+ADD COLUMN     "frustrationScore" DOUBLE PRECISION,
+ADD COLUMN     "sentimentScore" DOUBLE PRECISION;
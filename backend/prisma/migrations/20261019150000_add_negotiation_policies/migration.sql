@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentPlanStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "public"."payment_transactions" ADD COLUMN     "installmentNumber" INTEGER,
+ADD COLUMN     "paymentPlanId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."negotiation_policies" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "vertical" VARCHAR(50),
+    "serviceProvider" VARCHAR(100),
+    "maxInstallments" INTEGER NOT NULL DEFAULT 12,
+    "minInstallmentAmount" DECIMAL(10,2) NOT NULL DEFAULT 20,
+    "minDownPaymentPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "maxDiscountPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "maxExtensionDays" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "negotiation_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."payment_plans" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "chatSessionId" TEXT,
+    "policyId" TEXT,
+    "planOptionId" VARCHAR(20) NOT NULL,
+    "debtAmount" DECIMAL(10,2) NOT NULL,
+    "discountPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL(10,2) NOT NULL,
+    "downPayment" DECIMAL(10,2) NOT NULL,
+    "installments" INTEGER NOT NULL,
+    "installmentAmount" DECIMAL(10,2) NOT NULL,
+    "status" "public"."PaymentPlanStatus" NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_transactions_paymentPlanId_idx" ON "public"."payment_transactions"("paymentPlanId");
+
+-- CreateIndex
+CREATE INDEX "negotiation_policies_vertical_idx" ON "public"."negotiation_policies"("vertical");
+
+-- CreateIndex
+CREATE INDEX "negotiation_policies_serviceProvider_idx" ON "public"."negotiation_policies"("serviceProvider");
+
+-- CreateIndex
+CREATE INDEX "payment_plans_customerId_idx" ON "public"."payment_plans"("customerId");
+
+-- CreateIndex
+CREATE INDEX "payment_plans_status_idx" ON "public"."payment_plans"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_transactions" ADD CONSTRAINT "payment_transactions_paymentPlanId_fkey" FOREIGN KEY ("paymentPlanId") REFERENCES "public"."payment_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_plans" ADD CONSTRAINT "payment_plans_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_plans" ADD CONSTRAINT "payment_plans_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "public"."chat_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "public"."llm_calls" (
+    "id" TEXT NOT NULL,
+    "chatSessionId" TEXT,
+    "chatMessageId" TEXT,
+    "purpose" VARCHAR(50) NOT NULL,
+    "provider" VARCHAR(50) NOT NULL,
+    "model" VARCHAR(100) NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL,
+    "cost" DECIMAL(12,6) NOT NULL,
+    "estimated" BOOLEAN NOT NULL DEFAULT false,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "llm_calls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "llm_calls_chatSessionId_idx" ON "public"."llm_calls"("chatSessionId");
+
+-- CreateIndex
+CREATE INDEX "llm_calls_chatMessageId_idx" ON "public"."llm_calls"("chatMessageId");
+
+-- CreateIndex
+CREATE INDEX "llm_calls_createdAt_idx" ON "public"."llm_calls"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."llm_calls" ADD CONSTRAINT "llm_calls_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "public"."chat_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."trace_spans" (
+    "id" TEXT NOT NULL,
+    "traceId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "chatSessionId" TEXT,
+    "name" VARCHAR(100) NOT NULL,
+    "runType" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) NOT NULL,
+    "inputs" JSONB,
+    "outputs" JSONB,
+    "metadata" JSONB,
+    "error" TEXT,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+
+    CONSTRAINT "trace_spans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trace_spans_traceId_idx" ON "public"."trace_spans"("traceId");
+
+-- CreateIndex
+CREATE INDEX "trace_spans_parentId_idx" ON "public"."trace_spans"("parentId");
+
+-- CreateIndex
+CREATE INDEX "trace_spans_chatSessionId_idx" ON "public"."trace_spans"("chatSessionId");
+
+-- CreateIndex
+CREATE INDEX "trace_spans_startTime_idx" ON "public"."trace_spans"("startTime");
+
+-- AddForeignKey
+ALTER TABLE "public"."trace_spans" ADD CONSTRAINT "trace_spans_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "public"."chat_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
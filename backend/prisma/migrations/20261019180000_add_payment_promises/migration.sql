@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentPromiseStatus" AS ENUM ('PENDING', 'KEPT', 'BROKEN', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."payment_promises" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "chatSessionId" TEXT,
+    "promisedDate" DATE NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "status" "public"."PaymentPromiseStatus" NOT NULL DEFAULT 'PENDING',
+    "sourceText" TEXT,
+    "followUpAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "paymentTransactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_promises_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_promises_customerId_status_idx" ON "public"."payment_promises"("customerId", "status");
+
+-- CreateIndex
+CREATE INDEX "payment_promises_status_followUpAt_idx" ON "public"."payment_promises"("status", "followUpAt");
+
+-- CreateIndex
+CREATE INDEX "payment_promises_createdAt_idx" ON "public"."payment_promises"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_promises" ADD CONSTRAINT "payment_promises_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_promises" ADD CONSTRAINT "payment_promises_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "public"."chat_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_promises" ADD CONSTRAINT "payment_promises_paymentTransactionId_fkey" FOREIGN KEY ("paymentTransactionId") REFERENCES "public"."payment_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
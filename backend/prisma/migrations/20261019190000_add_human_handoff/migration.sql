@@ -0,0 +1,20 @@
+-- AlterEnum
+ALTER TYPE "public"."ChatSessionStatus" ADD VALUE 'ESCALATED';
+
+-- AlterEnum
+ALTER TYPE "public"."MessageSender" ADD VALUE 'HUMAN';
+
+-- AlterEnum
+ALTER TYPE "public"."ContactOutcome" ADD VALUE 'ESCALATED';
+
+-- AlterTable
+ALTER TABLE "public"."chat_sessions" ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "escalationTrigger" VARCHAR(30),
+ADD COLUMN     "escalationReason" TEXT,
+ADD COLUMN     "humanAgentId" VARCHAR(100),
+ADD COLUMN     "humanAgentName" VARCHAR(255),
+ADD COLUMN     "humanJoinedAt" TIMESTAMP(3),
+ADD COLUMN     "returnedToAiAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_escalatedAt_idx" ON "public"."chat_sessions"("escalatedAt");
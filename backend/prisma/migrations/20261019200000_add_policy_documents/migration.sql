@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "public"."policy_documents" (
+    "id" TEXT NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "vertical" VARCHAR(50),
+    "serviceProvider" VARCHAR(100),
+    "content" TEXT NOT NULL,
+    "sourceName" VARCHAR(255),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "indexedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "policy_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."policy_chunks" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "heading" VARCHAR(255),
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "policy_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "policy_documents_vertical_idx" ON "public"."policy_documents"("vertical");
+
+-- CreateIndex
+CREATE INDEX "policy_documents_serviceProvider_idx" ON "public"."policy_documents"("serviceProvider");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policy_chunks_documentId_position_key" ON "public"."policy_chunks"("documentId", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."policy_chunks" ADD CONSTRAINT "policy_chunks_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "public"."policy_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
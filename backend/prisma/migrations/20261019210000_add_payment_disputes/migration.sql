@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentDisputeResolution" AS ENUM ('PAYMENT_FOUND', 'PENDING_RECONCILIATION', 'NO_RECORD');
+
+-- CreateTable
+CREATE TABLE "public"."payment_disputes" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "chatSessionId" TEXT,
+    "claimText" TEXT,
+    "resolution" "public"."PaymentDisputeResolution" NOT NULL,
+    "paymentTransactionId" TEXT,
+    "receiptRequested" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_customerId_idx" ON "public"."payment_disputes"("customerId");
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_resolution_idx" ON "public"."payment_disputes"("resolution");
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_createdAt_idx" ON "public"."payment_disputes"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_disputes" ADD CONSTRAINT "payment_disputes_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_disputes" ADD CONSTRAINT "payment_disputes_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "public"."chat_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_disputes" ADD CONSTRAINT "payment_disputes_paymentTransactionId_fkey" FOREIGN KEY ("paymentTransactionId") REFERENCES "public"."payment_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "public"."service_providers" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "vertical" VARCHAR(50) NOT NULL,
+    "brandName" VARCHAR(100) NOT NULL,
+    "primaryColor" VARCHAR(7),
+    "textColor" VARCHAR(7),
+    "logoUrl" VARCHAR(500),
+    "brandVoice" TEXT,
+    "maxContactsPerDay" INTEGER,
+    "minHoursBetweenContacts" INTEGER,
+    "quietHoursStart" INTEGER,
+    "quietHoursEnd" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "service_providers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "service_providers_name_key" ON "public"."service_providers"("name");
+
+-- CreateIndex
+CREATE INDEX "service_providers_vertical_idx" ON "public"."service_providers"("vertical");
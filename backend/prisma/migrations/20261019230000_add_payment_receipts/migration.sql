@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."ReceiptReviewStatus" AS ENUM ('PENDING_REVIEW', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "public"."payment_receipts" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "chatSessionId" TEXT,
+    "chatMessageId" TEXT,
+    "paymentDisputeId" TEXT,
+    "storageKey" VARCHAR(255) NOT NULL,
+    "contentType" VARCHAR(100) NOT NULL,
+    "fileName" VARCHAR(255),
+    "sizeBytes" INTEGER NOT NULL,
+    "extractedText" TEXT,
+    "amount" DECIMAL(10,2),
+    "paidAt" TIMESTAMP(3),
+    "pixEndToEndId" VARCHAR(32),
+    "boletoLine" VARCHAR(48),
+    "matchedTransactionId" TEXT,
+    "matchScore" DOUBLE PRECISION,
+    "status" "public"."ReceiptReviewStatus" NOT NULL DEFAULT 'PENDING_REVIEW',
+    "reviewedBy" VARCHAR(100),
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_receipts_customerId_idx" ON "public"."payment_receipts"("customerId");
+
+-- CreateIndex
+CREATE INDEX "payment_receipts_status_idx" ON "public"."payment_receipts"("status");
+
+-- CreateIndex
+CREATE INDEX "payment_receipts_createdAt_idx" ON "public"."payment_receipts"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_receipts" ADD CONSTRAINT "payment_receipts_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_receipts" ADD CONSTRAINT "payment_receipts_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "public"."chat_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_receipts" ADD CONSTRAINT "payment_receipts_paymentDisputeId_fkey" FOREIGN KEY ("paymentDisputeId") REFERENCES "public"."payment_disputes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_receipts" ADD CONSTRAINT "payment_receipts_matchedTransactionId_fkey" FOREIGN KEY ("matchedTransactionId") REFERENCES "public"."payment_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
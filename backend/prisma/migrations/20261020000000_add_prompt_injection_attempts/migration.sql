@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."prompt_injection_attempts" (
+    "id" TEXT NOT NULL,
+    "chatSessionId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "chatMessageId" TEXT,
+    "content" TEXT NOT NULL,
+    "categories" TEXT[],
+    "score" DOUBLE PRECISION NOT NULL,
+    "detector" VARCHAR(20) NOT NULL,
+    "verdict" VARCHAR(20),
+    "reviewedBy" VARCHAR(100),
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_injection_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "prompt_injection_attempts_chatSessionId_idx" ON "public"."prompt_injection_attempts"("chatSessionId");
+
+-- CreateIndex
+CREATE INDEX "prompt_injection_attempts_customerId_idx" ON "public"."prompt_injection_attempts"("customerId");
+
+-- CreateIndex
+CREATE INDEX "prompt_injection_attempts_verdict_idx" ON "public"."prompt_injection_attempts"("verdict");
+
+-- CreateIndex
+CREATE INDEX "prompt_injection_attempts_createdAt_idx" ON "public"."prompt_injection_attempts"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."prompt_injection_attempts" ADD CONSTRAINT "prompt_injection_attempts_chatSessionId_fkey" FOREIGN KEY ("chatSessionId") REFERENCES "public"."chat_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prompt_injection_attempts" ADD CONSTRAINT "prompt_injection_attempts_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."chat_sessions" ADD COLUMN     "state" VARCHAR(30) NOT NULL DEFAULT 'initiated',
+ADD COLUMN     "stateChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill existing sessions from their status
+UPDATE "public"."chat_sessions" SET "state" = LOWER("status"::TEXT), "stateChangedAt" = COALESCE("endTime", "startTime");
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_state_idx" ON "public"."chat_sessions"("state");
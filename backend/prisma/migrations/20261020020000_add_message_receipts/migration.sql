@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."chat_messages" ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "readAt" TIMESTAMP(3);
@@ -1,6 +1,11 @@
 import express from 'express';
 import { AnalyticsService } from '../services/analyticsService';
 import { LangchainGeminiService } from '../services/langchainGeminiService';
+import { outputGuardrails } from '../services/outputGuardrails';
+import { promptInjectionService } from '../services/promptInjectionService';
+import { llmUsageService } from '../services/llmUsageService';
+import { paymentPromiseService } from '../services/paymentPromiseService';
+import { messageReceiptService } from '../services/messageReceiptService';
 
 const router = express.Router();
 
@@ -125,6 +130,187 @@ router.get('/roi', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/analytics/guardrails
+ * Output guardrail violations by rule and resolution
+ */
+router.get('/guardrails', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate are required parameters'
+      });
+    }
+
+    const start = new Date(startDate as string);
+    const end = new Date(endDate as string);
+
+    const stats = await outputGuardrails.getViolationStats(start, end);
+
+    return res.json({
+      success: true,
+      data: stats,
+      period: {
+        start: start.toISOString(),
+        end: end.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching guardrail violations:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch guardrail violations',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/analytics/prompt-injection
+ * Flagged prompt injection attempts by category and review verdict
+ */
+router.get('/prompt-injection', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate are required parameters'
+      });
+    }
+
+    const start = new Date(startDate as string);
+    const end = new Date(endDate as string);
+
+    const stats = await promptInjectionService.getStats(start, end);
+
+    return res.json({
+      success: true,
+      data: stats,
+      period: {
+        start: start.toISOString(),
+        end: end.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching prompt injection attempts:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch prompt injection attempts',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/analytics/abandonment
+ * Abandoned sessions split by whether the customer never read the agent's last
+ * messages or read them and didn't answer
+ */
+router.get('/abandonment', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate are required parameters'
+      });
+    }
+
+    const start = new Date(startDate as string);
+    const end = new Date(endDate as string);
+
+    const stats = await messageReceiptService.getAbandonmentStats(start, end);
+
+    return res.json({
+      success: true,
+      data: stats,
+      period: {
+        start: start.toISOString(),
+        end: end.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching abandonment stats:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch abandonment stats',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/analytics/llm-usage
+ * Recorded model calls: tokens, cost and latency by model and purpose
+ */
+router.get('/llm-usage', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate are required parameters'
+      });
+    }
+
+    const start = new Date(startDate as string);
+    const end = new Date(endDate as string);
+
+    const usage = await llmUsageService.getUsageBreakdown(start, end);
+
+    return res.json({
+      success: true,
+      data: usage,
+      period: {
+        start: start.toISOString(),
+        end: end.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching LLM usage:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch LLM usage',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/analytics/payment-promises
+ * Promises to pay made in chat and how many were kept
+ */
+router.get('/payment-promises', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        error: 'startDate and endDate are required parameters'
+      });
+    }
+
+    const start = new Date(startDate as string);
+    const end = new Date(endDate as string);
+
+    const stats = await paymentPromiseService.getPromiseStats(start, end);
+
+    return res.json({
+      success: true,
+      data: stats,
+      period: {
+        start: start.toISOString(),
+        end: end.toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching payment promise stats:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch payment promise stats',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/analytics/realtime
  * Get real-time dashboard metrics
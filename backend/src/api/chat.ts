@@ -1,14 +1,17 @@
 import express from 'express';
-import { LangchainGeminiService } from '../services/langchainGeminiService';
+import { ConversationOrchestrator } from '../services/conversationOrchestrator';
+import { ChatMessageMetadata } from '../models/chatMessage';
+import { AUDIO_CONTENT_TYPES, audioMessageService } from '../services/audioMessageService';
+import { RECEIPT_CONTENT_TYPES, paymentReceiptService } from '../services/paymentReceiptService';
 import { prisma } from '../lib/prisma';
-import ChatMessage from '../models/chatMessage';
-import ChatSession from '../models/chatSession';
-import { v4 as uuidv4 } from 'uuid';
-import { ChatMessage as PrismaChatMessage, ChatSession as PrismaChatSession } from '@prisma/client';
 
 
 const router = express.Router();
-const langchainGeminiService = new LangchainGeminiService();
+
+// Get the shared conversation orchestrator from app
+const getOrchestrator = (req: express.Request): ConversationOrchestrator => {
+  return req.app.get('conversationOrchestrator');
+};
 
 // Create a new chat session for agent activation
 router.post('/create-session', async (req, res) => {
@@ -19,112 +22,12 @@ router.post('/create-session', async (req, res) => {
       return res.status(400).json({ error: 'Customer ID and name are required' });
     }
 
-    // Busca dados completos do cliente do banco
-    const dbCustomer = await prisma.customer.findUnique({
-      where: { id: customerId },
-      include: {
-        riskFactors: true,
-        chatSessions: true,
-        paymentTransactions: true
-      }
-    });
-
-    if (!dbCustomer) {
+    const started = await getOrchestrator(req).startSession(customerId, customerName, paymentIssue);
+    if (!started) {
       return res.status(404).json({ error: 'Customer not found' });
     }
 
-    // Converte para formato do AI service
-    const enhancedCustomerData = {
-      id: dbCustomer.id,
-      name: dbCustomer.name,
-      email: dbCustomer.email,
-      phone: dbCustomer.phone,
-      serviceProvider: dbCustomer.serviceProvider,
-      serviceType: dbCustomer.serviceType,
-      accountValue: Number(dbCustomer.accountValue),
-      riskCategory: dbCustomer.riskCategory.toLowerCase().replace('_', '-'),
-      riskSeverity: dbCustomer.riskSeverity?.toLowerCase(),
-      lastPaymentDate: dbCustomer.lastPaymentDate?.toISOString() || '',
-      nextBillingDate: dbCustomer.nextBillingDate.toISOString(),
-      currentPaymentStatus: 'PENDING' // Default status since paymentStatus doesn't exist yet
-    };
-
-    console.log('--- Dados do Cliente para IA ---');
-    console.log(JSON.stringify(enhancedCustomerData, null, 2));
-    console.log('----------------------------------');
-
-    // Cria sessão no banco
-    const dbChatSession = await prisma.chatSession.create({
-      data: {
-        id: uuidv4(),
-        customerId,
-        customerName,
-        status: 'ACTIVE',
-        paymentIssue: paymentIssue || 'unknown'
-      }
-    });
-
-    const chatSession = new ChatSession({
-      id: dbChatSession.id,
-      customerId,
-      customerName,
-      status: 'active',
-      startTime: dbChatSession.startTime,
-      paymentIssue: dbChatSession.paymentIssue || 'unknown'
-    });
-
-    // 1. GERA E SALVA MENSAGEM INICIAL
-    const initialMessage = await langchainGeminiService.generateInitialMessage(chatSession, enhancedCustomerData);
-
-    await prisma.chatMessage.create({
-      data: {
-        chatSessionId: dbChatSession.id,
-        sender: 'AI',
-        content: initialMessage.content,
-        messageType: 'TEXT'
-      }
-    });
-
-    // 2. GERA E SALVA INVOICE CARD (AUTOMATICAMENTE)
-    const invoiceCardMessage = langchainGeminiService.generateInvoiceCardMessage(chatSession, enhancedCustomerData);
-
-    await prisma.chatMessage.create({
-      data: {
-        chatSessionId: dbChatSession.id,
-        sender: 'AI',
-        content: invoiceCardMessage.content,
-        messageType: 'TEXT'
-      }
-    });
-
-    console.log('✅ Mensagens salvas no banco:');
-    console.log('1. Inicial:', initialMessage.content);
-    console.log('2. Invoice Card:', invoiceCardMessage.content);
-
-    // 3. EMITE PARA CLIENTES VIA SOCKET
-    const io = req.app.get('io');
-    
-    // Emite mensagem inicial
-    io.to(dbChatSession.id).emit('chat-initiated', {
-      sessionId: dbChatSession.id,
-      customerName,
-      initialMessage
-    });
-
-    // Emite invoice card após delay pequeno
-    setTimeout(() => {
-      console.log('🃏 Enviando invoice card via Socket.IO...');
-      io.to(dbChatSession.id).emit('receive-message', invoiceCardMessage);
-    }, 1000);
-
-    return res.json({
-      sessionId: dbChatSession.id,
-      chatSession,
-      initialMessage,
-      invoiceCardMessage, // Retorna também para debug
-      customerData: enhancedCustomerData
-    });
-
+    return res.json(started);
   } catch (error) {
     console.error('Error creating chat session:', error);
     return res.status(500).json({ error: 'Failed to create chat session' });
@@ -134,65 +37,16 @@ router.post('/create-session', async (req, res) => {
 // NOVO ENDPOINT: Trigger manual para invoice card (para testes)
 router.post('/send-invoice-card/:sessionId', async (req, res) => {
   try {
-    const { sessionId } = req.params;
-
-    // Busca dados da sessão
-    const dbSession = await prisma.chatSession.findUnique({
-      where: { id: sessionId },
-      include: {
-        customer: true
-      }
-    });
-
-    if (!dbSession) {
+    const invoiceCard = await getOrchestrator(req).sendInvoiceCard(req.params.sessionId);
+    if (!invoiceCard) {
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    // Converte dados do cliente
-    const customerData = {
-      id: dbSession.customer.id,
-      name: dbSession.customer.name,
-      email: dbSession.customer.email,
-      phone: dbSession.customer.phone,
-      serviceProvider: dbSession.customer.serviceProvider,
-      serviceType: dbSession.customer.serviceType,
-      accountValue: Number(dbSession.customer.accountValue),
-      riskCategory: dbSession.customer.riskCategory.toLowerCase().replace('_', '-'),
-      lastPaymentDate: dbSession.customer.lastPaymentDate?.toISOString() || '',
-      nextBillingDate: dbSession.customer.nextBillingDate.toISOString(),
-    };
-
-    // Cria objeto de sessão temporário
-    const tempSession = {
-      id: sessionId,
-      customerName: dbSession.customerName
-    };
-
-    // Gera invoice card
-    const invoiceCardMessage = langchainGeminiService.generateInvoiceCardMessage(tempSession, customerData);
-
-    // Salva no banco
-    await prisma.chatMessage.create({
-      data: {
-        chatSessionId: sessionId,
-        sender: 'AI',
-        content: invoiceCardMessage.content,
-        messageType: 'TEXT'
-      }
-    });
-
-    // Emite via Socket.IO
-    const io = req.app.get('io');
-    io.to(sessionId).emit('receive-message', invoiceCardMessage);
-
-    console.log('✅ Invoice card enviado manualmente para sessão:', sessionId);
-
     return res.json({
       success: true,
       message: 'Invoice card sent',
-      invoiceCard: invoiceCardMessage
+      invoiceCard
     });
-
   } catch (error) {
     console.error('Error sending invoice card:', error);
     return res.status(500).json({ error: 'Failed to send invoice card' });
@@ -202,39 +56,7 @@ router.post('/send-invoice-card/:sessionId', async (req, res) => {
 // Get active chat sessions
 router.get('/sessions', async (req, res) => {
   try {
-    const dbSessions = await prisma.chatSession.findMany({
-      where: {
-        status: 'ACTIVE'
-      },
-      include: {
-        messages: {
-          orderBy: {
-            timestamp: 'asc'
-          }
-        }
-      },
-      orderBy: {
-        startTime: 'desc'
-      }
-    });
-
-    const sessions = dbSessions.map((session: PrismaChatSession & { messages: PrismaChatMessage[] }) => ({
-      id: session.id,
-      customerId: session.customerId,
-      customerName: session.customerName,
-      status: session.status.toLowerCase(),
-      startTime: session.startTime,
-      endTime: session.endTime,
-      paymentIssue: session.paymentIssue,
-      messages: session.messages.map((msg: PrismaChatMessage) => ({
-        chatSessionId: msg.chatSessionId,
-        sender: msg.sender.toLowerCase(),
-        content: msg.content,
-        timestamp: msg.timestamp,
-        messageType: msg.messageType.toLowerCase()
-      }))
-    }));
-
+    const sessions = await getOrchestrator(req).listActiveSessions();
     return res.json(sessions);
   } catch (error) {
     console.error('Error fetching chat sessions:', error);
@@ -245,40 +67,11 @@ router.get('/sessions', async (req, res) => {
 // Get specific chat session
 router.get('/sessions/:sessionId', async (req, res) => {
   try {
-    const { sessionId } = req.params;
-
-    const dbSession = await prisma.chatSession.findUnique({
-      where: { id: sessionId },
-      include: {
-        messages: {
-          orderBy: {
-            timestamp: 'asc'
-          }
-        }
-      }
-    });
-
-    if (!dbSession) {
+    const session = await getOrchestrator(req).getSession(req.params.sessionId);
+    if (!session) {
       return res.status(404).json({ error: 'Chat session not found' });
     }
 
-    const session = {
-      id: dbSession.id,
-      customerId: dbSession.customerId,
-      customerName: dbSession.customerName,
-      status: dbSession.status.toLowerCase(),
-      startTime: dbSession.startTime,
-      endTime: dbSession.endTime,
-      paymentIssue: dbSession.paymentIssue,
-      messages: dbSession.messages.map((msg: PrismaChatMessage) => ({
-        chatSessionId: msg.chatSessionId,
-        sender: msg.sender.toLowerCase(),
-        content: msg.content,
-        timestamp: msg.timestamp,
-        messageType: msg.messageType.toLowerCase()
-      }))
-    };
-
     return res.json(session);
   } catch (error) {
     console.error('Error fetching chat session:', error);
@@ -286,67 +79,23 @@ router.get('/sessions/:sessionId', async (req, res) => {
   }
 });
 
-interface MessagePayload {
-  chatSessionId: string;
-  sender: 'CUSTOMER' | 'AI' | 'SYSTEM';
-  content: string;
-  timestamp: string;
-  messageType: 'TEXT' | 'AUDIO' | 'SYSTEM' | 'PAYMENT_LINK' | 'DOCUMENT';
-}
-
+// A customer message and the agent's answer only (null while a human agent
+// has the conversation). History comes from the session, not the request.
 router.post('/ai-response', async (req, res) => {
   try {
-    const { session, message, history }: { session: { id: string }, message: MessagePayload, history: MessagePayload[] } = req.body;
+    const { session, message }: { session: { id: string }, message: { content: string } } = req.body;
 
     // Basic validation
     if (!session || !session.id || !message || !message.content) {
       return res.status(400).json({ error: 'Invalid request body' });
     }
 
-    // Store user message in database
-    await prisma.chatMessage.create({
-      data: {
-        chatSessionId: session.id,
-        sender: 'CUSTOMER',
-        content: message.content,
-        messageType: 'TEXT'
-      }
-    });
-
-    // Create a ChatMessage instance from the received message data
-    const userMessage = new ChatMessage({
-      chatSessionId: session.id,
-      sender: message.sender as any,
-      content: message.content,
-      timestamp: new Date(message.timestamp),
-      messageType: message.messageType as any,
-    });
-
-    // Reconstruct history messages as ChatMessage instances
-    const chatHistory: ChatMessage[] = history ? history.map((msg: MessagePayload) => new ChatMessage({
-      chatSessionId: msg.chatSessionId,
-      sender: msg.sender as any,
-      content: msg.content,
-      timestamp: new Date(msg.timestamp),
-      messageType: msg.messageType as any,
-    })) : [];
-
-    const aiResponse = await langchainGeminiService.generateResponse(chatHistory, userMessage);
-
-    // Store AI response in database
-    await prisma.chatMessage.create({
-      data: {
-        chatSessionId: session.id,
-        sender: 'AI',
-        content: aiResponse.content,
-        messageType: 'TEXT'
-      }
-    });
-
-    // Emit the AI response via Socket.io
-    const io = req.app.get('io');
-    io.to(session.id).emit('receive-message', aiResponse);
+    const dbSession = await getOrchestrator(req).findSession(session.id);
+    if (!dbSession) {
+      return res.status(404).json({ error: 'Chat session not found' });
+    }
 
+    const { aiResponse } = await getOrchestrator(req).handleCustomerMessage(dbSession, message.content);
     return res.json(aiResponse);
   } catch (error) {
     console.error('Error in chat AI response:', error);
@@ -363,87 +112,125 @@ router.post('/send-message', async (req, res) => {
       return res.status(400).json({ error: 'Session ID, content, and sender are required' });
     }
 
-    // Check if session exists in database
-    const dbSession = await prisma.chatSession.findUnique({
-      where: { id: sessionId },
-      include: {
-        messages: {
-          orderBy: {
-            timestamp: 'asc'
-          }
-        }
-      }
-    });
-
+    const dbSession = await getOrchestrator(req).findSession(sessionId);
     if (!dbSession) {
       return res.status(404).json({ error: 'Chat session not found' });
     }
 
-    // Store message in database
-    const dbMessage = await prisma.chatMessage.create({
-      data: {
-        chatSessionId: sessionId,
-        sender: sender.toUpperCase() === 'CUSTOMER' ? 'CUSTOMER' : 'AI',
-        content,
-        messageType: 'TEXT'
-      }
-    });
-
-    const message = new ChatMessage({
-      chatSessionId: sessionId,
-      sender,
-      content,
-      timestamp: dbMessage.timestamp,
-      messageType: sender === 'customer' ? 'question' : 'response',
-    });
-
-    // Emit message via Socket.io
-    const io = req.app.get('io');
-    io.to(sessionId).emit('receive-message', message);
-
-    // If it's a customer message, generate AI response
-    if (sender === 'customer') {
-      // Convert database messages to ChatMessage instances for AI service
-      const chatHistory = dbSession.messages.map((msg: { chatSessionId: string; sender: string; content: string; timestamp: Date; messageType: string; }) => new ChatMessage({
-        chatSessionId: msg.chatSessionId,
-        sender: msg.sender.toLowerCase() as any,
-        content: msg.content,
-        timestamp: msg.timestamp,
-        messageType: msg.messageType.toLowerCase() as any
-      }));
-
-      const aiResponse = await langchainGeminiService.generateResponse(chatHistory, message);
-
-      // Check if the AI response contains the payment link to set the correct message type
-      const messageType = aiResponse.content.includes('/api/payments/simulate-chat-payment')
-        ? 'PAYMENT_LINK'
-        : 'TEXT';
-
-      // Store AI response in database
-      await prisma.chatMessage.create({
-        data: {
-          chatSessionId: sessionId,
-          sender: 'AI',
-          content: aiResponse.content,
-          messageType: messageType as 'TEXT' | 'PAYMENT_LINK',
-        }
-      });
-      
-      // Also update the messageType in the object being sent to the client
-      (aiResponse as any).messageType = messageType;
-
-      io.to(sessionId).emit('receive-message', aiResponse);
-
-      return res.json({ userMessage: message, aiResponse });
-    } else {
+    if (sender !== 'customer') {
+      const message = await getOrchestrator(req).postAgentMessage(sessionId, content);
       return res.json({ message });
     }
+
+    const turn = await getOrchestrator(req).handleCustomerMessage(dbSession, content);
+    return res.json(turn);
   } catch (error) {
     console.error('Error sending message:', error);
     return res.status(500).json({ error: 'Failed to send message' });
   }
 });
 
+/**
+ * POST /api/chat/sessions/:sessionId/audio
+ * A customer voice note sent as the request body (audio/webm, audio/ogg, ...).
+ * Its transcript is handled like a typed message.
+ */
+router.post('/sessions/:sessionId/audio', express.raw({ type: 'audio/*', limit: audioMessageService.config.maxBytes }), async (req, res) => {
+  try {
+    const contentType = req.headers['content-type'];
+
+    if (!contentType || !audioMessageService.isSupported(contentType) || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: `Send the voice note as the request body (${AUDIO_CONTENT_TYPES.join(', ')})` });
+    }
+
+    const dbSession = await getOrchestrator(req).findSession(req.params.sessionId);
+    if (!dbSession) {
+      return res.status(404).json({ error: 'Chat session not found' });
+    }
+
+    const turn = await getOrchestrator(req).handleVoiceNote(dbSession, req.body, contentType);
+    return res.json(turn);
+  } catch (error) {
+    console.error('Error handling voice note:', error);
+    return res.status(500).json({ error: 'Failed to handle voice note' });
+  }
+});
+
+/**
+ * GET /api/chat/messages/:messageId/audio
+ * The stored audio of a voice note
+ */
+router.get('/messages/:messageId/audio', async (req, res) => {
+  try {
+    const dbMessage = await prisma.chatMessage.findUnique({ where: { id: req.params.messageId } });
+    const audio = ((dbMessage?.metadata || {}) as ChatMessageMetadata).audio;
+    if (!audio) {
+      return res.status(404).json({ error: 'Voice note not found' });
+    }
+
+    const data = await audioMessageService.read(audio);
+    res.setHeader('Content-Type', audio.contentType);
+    res.setHeader('Content-Length', data.length);
+    return res.send(data);
+  } catch (error) {
+    console.error('Error fetching voice note:', error);
+    return res.status(500).json({ error: 'Failed to fetch voice note' });
+  }
+});
+
+/**
+ * POST /api/chat/sessions/:sessionId/receipts?fileName=comprovante.pdf
+ * A payment receipt sent as the request body (image/jpeg, image/png or
+ * application/pdf). It is queued for supervisor review; nothing is paid yet.
+ */
+router.post('/sessions/:sessionId/receipts', express.raw({ type: RECEIPT_CONTENT_TYPES, limit: paymentReceiptService.config.maxBytes }), async (req, res) => {
+  try {
+    const contentType = req.headers['content-type'];
+    const fileName = typeof req.query.fileName === 'string' ? req.query.fileName.slice(0, 255) || undefined : undefined;
+
+    if (!contentType || !paymentReceiptService.isSupported(contentType) || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: `Send the receipt as the request body (${RECEIPT_CONTENT_TYPES.join(', ')})` });
+    }
+
+    const dbSession = await getOrchestrator(req).findSession(req.params.sessionId);
+    if (!dbSession) {
+      return res.status(404).json({ error: 'Chat session not found' });
+    }
+
+    const turn = await getOrchestrator(req).handleReceipt(dbSession, req.body, contentType, fileName);
+    return res.json(turn);
+  } catch (error) {
+    console.error('Error handling payment receipt:', error);
+    return res.status(500).json({ error: 'Failed to handle payment receipt' });
+  }
+});
+
+// Accept a negotiation plan offered in the chat and create its payment schedule
+router.post('/accept-plan', async (req, res) => {
+  try {
+    const { sessionId, planId } = req.body;
+
+    if (!sessionId || !planId) {
+      return res.status(400).json({ error: 'Session ID and plan ID are required' });
+    }
+
+    const dbSession = await getOrchestrator(req).findSession(sessionId);
+    if (!dbSession) {
+      return res.status(404).json({ error: 'Chat session not found' });
+    }
+
+    const accepted = await getOrchestrator(req).acceptPlan(dbSession, planId);
+    if (!accepted) {
+      return res.status(409).json({ error: 'Plan is not available for this customer' });
+    }
+
+    return res.status(201).json(accepted);
+  } catch (error) {
+    console.error('Error accepting payment plan:', error);
+    return res.status(500).json({ error: 'Failed to accept payment plan' });
+  }
+});
+
 // Handle payment confirmation and generate AI follow-up message
 router.post('/payment-confirmed', async (req, res) => {
   try {
@@ -453,67 +240,12 @@ router.post('/payment-confirmed', async (req, res) => {
       return res.status(400).json({ error: 'Session ID and Customer ID are required' });
     }
 
-    // Get chat session and its history
-    const dbSession = await prisma.chatSession.findUnique({
-      where: { id: sessionId },
-      include: {
-        messages: {
-          orderBy: {
-            timestamp: 'asc'
-          }
-        }
-      }
-    });
-
+    const dbSession = await getOrchestrator(req).findSession(sessionId);
     if (!dbSession) {
       return res.status(404).json({ error: 'Chat session not found' });
     }
 
-    // Convert database messages to ChatMessage instances for AI service
-    const chatHistory = dbSession.messages.map((msg: { chatSessionId: string; sender: string; content: string; timestamp: Date; messageType: string; }) => new ChatMessage({
-      chatSessionId: msg.chatSessionId,
-      sender: msg.sender.toLowerCase() as any,
-      content: msg.content,
-      timestamp: msg.timestamp,
-      messageType: msg.messageType.toLowerCase() as any
-    }));
-
-    // Create a system message about payment confirmation
-    const paymentConfirmationMessage = new ChatMessage({
-      chatSessionId: sessionId,
-      sender: 'SYSTEM' as any,
-      content: `PAYMENT_CONFIRMED: Customer payment of R$ ${amount} was successfully processed. Please confirm the payment to the customer, thank them, and say goodbye to complete the interaction.`,
-      timestamp: new Date(),
-      messageType: 'SYSTEM' as any
-    });
-
-    console.log('=== Payment Confirmation Debug ===');
-    console.log('Session ID:', sessionId);
-    console.log('Payment Amount:', amount);
-    console.log('Chat History Length:', chatHistory.length);
-    console.log('Payment Confirmation Message:', paymentConfirmationMessage.content);
-    console.log('===================================');
-
-    // Generate AI response for payment confirmation
-    const aiResponse = await langchainGeminiService.generateResponse(chatHistory, paymentConfirmationMessage);
-
-    console.log('AI Response Generated:', aiResponse.content);
-    console.log('===================================');
-
-    // Store AI response in database
-    await prisma.chatMessage.create({
-      data: {
-        chatSessionId: sessionId,
-        sender: 'AI',
-        content: aiResponse.content,
-        messageType: 'TEXT'
-      }
-    });
-
-    // Emit the AI response via Socket.io
-    const io = req.app.get('io');
-    io.to(sessionId).emit('receive-message', aiResponse);
-
+    const aiResponse = await getOrchestrator(req).confirmPayment(sessionId, amount);
     return res.json({ success: true, aiResponse });
   } catch (error) {
     console.error('Error handling payment confirmation:', error);
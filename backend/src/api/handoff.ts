@@ -0,0 +1,216 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../lib/prisma';
+import ChatMessage from '../models/chatMessage';
+import ChatSession from '../models/chatSession';
+import { escalationService, HumanAgent } from '../services/escalationService';
+import { QueueService } from '../services/queueService';
+import { messageReceiptService } from '../services/messageReceiptService';
+
+const router = express.Router();
+
+const agentFields = {
+  agentId: Joi.string().trim().min(1).max(100).required(),
+  agentName: Joi.string().trim().min(1).max(255).required(),
+};
+
+const agentSchema = Joi.object(agentFields);
+
+const messageSchema = Joi.object({
+  ...agentFields,
+  content: Joi.string().trim().min(1).max(2000).required(),
+});
+
+const closeSchema = Joi.object({
+  ...agentFields,
+  outcome: Joi.string().trim().max(100).default('resolved_by_agent'),
+});
+
+const escalateSchema = Joi.object({
+  reason: Joi.string().trim().min(1).max(500).default('Escalado pelo supervisor'),
+});
+
+const toAgent = (value: { agentId: string; agentName: string }): HumanAgent => ({
+  id: value.agentId,
+  name: value.agentName,
+});
+
+/**
+ * GET /api/admin/handoff/queue
+ * Escalated sessions, oldest first; unclaimed ones are waiting for an agent
+ */
+router.get('/queue', async (req, res) => {
+  try {
+    const queue = await escalationService.getHandoffQueue();
+    return res.json(queue);
+  } catch (error) {
+    console.error('Error fetching handoff queue:', error);
+    return res.status(500).json({ error: 'Failed to fetch handoff queue' });
+  }
+});
+
+/**
+ * POST /api/admin/handoff/:sessionId/escalate
+ * Take a conversation away from the AI without waiting for a trigger
+ */
+router.post('/:sessionId/escalate', async (req, res) => {
+  try {
+    const { error, value } = escalateSchema.validate(req.body || {}, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const session = await escalationService.escalate(req.params.sessionId, 'supervisor', value.reason);
+    if (!session) {
+      return res.status(409).json({ error: 'Session is not active' });
+    }
+
+    const queueService: QueueService | undefined = req.app.get('queueService');
+    queueService?.removeActiveSession(session.id);
+
+    return res.json(session);
+  } catch (error) {
+    console.error('Error escalating chat session:', error);
+    return res.status(500).json({ error: 'Failed to escalate chat session' });
+  }
+});
+
+/**
+ * POST /api/admin/handoff/:sessionId/claim
+ * Assign an escalated session to the agent; the AI stays paused
+ */
+router.post('/:sessionId/claim', async (req, res) => {
+  try {
+    const { error, value } = agentSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const session = await escalationService.claim(req.params.sessionId, toAgent(value));
+    if (!session) {
+      return res.status(409).json({ error: 'Session is not waiting for an agent' });
+    }
+
+    return res.json(session);
+  } catch (error) {
+    console.error('Error claiming chat session:', error);
+    return res.status(500).json({ error: 'Failed to claim chat session' });
+  }
+});
+
+/**
+ * POST /api/admin/handoff/:sessionId/messages
+ * Reply to the customer as the agent holding the session
+ */
+router.post('/:sessionId/messages', async (req, res) => {
+  try {
+    const { error, value } = messageSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const { sessionId } = req.params;
+    const agent = toAgent(value);
+    if (!await escalationService.isHandledBy(sessionId, agent.id)) {
+      return res.status(409).json({ error: 'Session is not held by this agent' });
+    }
+
+    const dbMessage = await prisma.chatMessage.create({
+      data: {
+        chatSessionId: sessionId,
+        sender: 'HUMAN',
+        content: value.content,
+        messageType: 'TEXT',
+        metadata: { humanAgent: { id: agent.id, name: agent.name } }
+      }
+    });
+
+    const message = new ChatMessage({
+      id: dbMessage.id,
+      chatSessionId: sessionId,
+      sender: 'human',
+      content: dbMessage.content,
+      timestamp: dbMessage.timestamp,
+      messageType: 'response',
+      metadata: { humanAgent: { id: agent.id, name: agent.name } },
+    });
+    messageReceiptService.deliver(req.app.get('io'), sessionId, 'receive-message', message, message.id);
+
+    return res.status(201).json(message);
+  } catch (error) {
+    console.error('Error sending agent message:', error);
+    return res.status(500).json({ error: 'Failed to send agent message' });
+  }
+});
+
+/**
+ * POST /api/admin/handoff/:sessionId/release
+ * Give the conversation back to the AI, which greets the customer again
+ */
+router.post('/:sessionId/release', async (req, res) => {
+  try {
+    const { error, value } = agentSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const session = await escalationService.release(req.params.sessionId, toAgent(value));
+    if (!session) {
+      return res.status(409).json({ error: 'Session is not held by this agent' });
+    }
+
+    // The AI has the conversation again, so it takes a queue slot again
+    const queueService: QueueService | undefined = req.app.get('queueService');
+    queueService?.addActiveSession(new ChatSession({
+      id: session.id,
+      customerId: session.customerId,
+      customerName: session.customerName,
+      status: 'in-progress',
+      startTime: session.startTime,
+      paymentIssue: session.paymentIssue || undefined
+    }));
+
+    const reply = escalationService.buildReturnMessage(session.id);
+    const dbMessage = await prisma.chatMessage.create({
+      data: {
+        chatSessionId: session.id,
+        sender: 'AI',
+        content: reply.content,
+        messageType: 'TEXT',
+        metadata: {}
+      }
+    });
+    reply.id = dbMessage.id;
+    messageReceiptService.deliver(req.app.get('io'), session.id, 'receive-message', reply, reply.id);
+
+    return res.json(session);
+  } catch (error) {
+    console.error('Error returning chat session to the AI:', error);
+    return res.status(500).json({ error: 'Failed to return chat session to the AI' });
+  }
+});
+
+/**
+ * POST /api/admin/handoff/:sessionId/close
+ * End the conversation on the agent's behalf
+ */
+router.post('/:sessionId/close', async (req, res) => {
+  try {
+    const { error, value } = closeSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const session = await escalationService.close(req.params.sessionId, value.outcome, toAgent(value));
+    if (!session) {
+      return res.status(409).json({ error: 'Session is not held by this agent' });
+    }
+
+    return res.json(session);
+  } catch (error) {
+    console.error('Error closing chat session:', error);
+    return res.status(500).json({ error: 'Failed to close chat session' });
+  }
+});
+
+export default router;
@@ -0,0 +1,199 @@
+import express from 'express';
+import Joi from 'joi';
+import { knowledgeBaseService } from '../services/knowledgeBaseService';
+
+const router = express.Router();
+
+const documentFields = {
+  title: Joi.string().trim().min(1).max(255),
+  content: Joi.string().trim().min(1).max(200000),
+  vertical: Joi.string().max(50).allow(null),
+  serviceProvider: Joi.string().max(100).allow(null),
+  sourceName: Joi.string().max(255).allow(null),
+  isActive: Joi.boolean(),
+};
+
+const createSchema = Joi.object({
+  ...documentFields,
+  title: documentFields.title.required(),
+  content: documentFields.content.required(),
+});
+
+const updateSchema = Joi.object(documentFields).min(1);
+
+const searchSchema = Joi.object({
+  q: Joi.string().trim().min(1).required(),
+  serviceProvider: Joi.string().max(100),
+  vertical: Joi.string().max(50),
+});
+
+/**
+ * GET /api/admin/knowledge-base
+ * Policy documents with their passage counts; filter with ?serviceProvider= or ?vertical=
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { serviceProvider, vertical } = req.query;
+    const documents = await knowledgeBaseService.list({
+      serviceProvider: typeof serviceProvider === 'string' ? serviceProvider : undefined,
+      vertical: typeof vertical === 'string' ? vertical : undefined,
+    });
+    return res.json(documents);
+  } catch (error) {
+    console.error('Error listing policy documents:', error);
+    return res.status(500).json({ error: 'Failed to list policy documents' });
+  }
+});
+
+/**
+ * GET /api/admin/knowledge-base/search?q=...&serviceProvider=...
+ * Passages the agent would be given for this question
+ */
+router.get('/search', async (req, res) => {
+  try {
+    const { error, value } = searchSchema.validate(req.query, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const passages = await knowledgeBaseService.retrieve(value.q, {
+      serviceProvider: value.serviceProvider,
+      vertical: value.vertical,
+    });
+    return res.json(passages);
+  } catch (error) {
+    console.error('Error searching policy documents:', error);
+    return res.status(500).json({ error: 'Failed to search policy documents' });
+  }
+});
+
+/**
+ * GET /api/admin/knowledge-base/:id
+ * The document with its indexed passages
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const document = await knowledgeBaseService.get(req.params.id);
+    if (!document) {
+      return res.status(404).json({ error: 'Policy document not found' });
+    }
+    return res.json(document);
+  } catch (error) {
+    console.error('Error fetching policy document:', error);
+    return res.status(500).json({ error: 'Failed to fetch policy document' });
+  }
+});
+
+/**
+ * POST /api/admin/knowledge-base
+ * Scope with serviceProvider or vertical; neither makes it apply to every customer
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { error, value } = createSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const document = await knowledgeBaseService.create(value);
+    return res.status(201).json(document);
+  } catch (error) {
+    console.error('Error creating policy document:', error);
+    return res.status(500).json({ error: 'Failed to create policy document' });
+  }
+});
+
+/**
+ * POST /api/admin/knowledge-base/upload?title=...&serviceProvider=...&vertical=...
+ * Upload a plain-text or markdown file as the request body
+ */
+router.post('/upload', express.text({ type: ['text/*'], limit: '1mb' }), async (req, res) => {
+  try {
+    const { error, value } = createSchema.validate({
+      ...req.query,
+      content: typeof req.body === 'string' ? req.body : undefined,
+    }, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const document = await knowledgeBaseService.create(value);
+    return res.status(201).json(document);
+  } catch (error) {
+    console.error('Error uploading policy document:', error);
+    return res.status(500).json({ error: 'Failed to upload policy document' });
+  }
+});
+
+/**
+ * POST /api/admin/knowledge-base/reindex
+ * Rebuild the passages of every document
+ */
+router.post('/reindex', async (req, res) => {
+  try {
+    const result = await knowledgeBaseService.reindexAll();
+    return res.json(result);
+  } catch (error) {
+    console.error('Error reindexing policy documents:', error);
+    return res.status(500).json({ error: 'Failed to reindex policy documents' });
+  }
+});
+
+/**
+ * POST /api/admin/knowledge-base/:id/reindex
+ */
+router.post('/:id/reindex', async (req, res) => {
+  try {
+    if (!await knowledgeBaseService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Policy document not found' });
+    }
+
+    const document = await knowledgeBaseService.reindexDocument(req.params.id);
+    return res.json(document);
+  } catch (error) {
+    console.error('Error reindexing policy document:', error);
+    return res.status(500).json({ error: 'Failed to reindex policy document' });
+  }
+});
+
+/**
+ * PATCH /api/admin/knowledge-base/:id
+ * New content is re-chunked; the agent uses it from the next message
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const { error, value } = updateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (!await knowledgeBaseService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Policy document not found' });
+    }
+
+    const document = await knowledgeBaseService.update(req.params.id, value);
+    return res.json(document);
+  } catch (error) {
+    console.error('Error updating policy document:', error);
+    return res.status(500).json({ error: 'Failed to update policy document' });
+  }
+});
+
+/**
+ * DELETE /api/admin/knowledge-base/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!await knowledgeBaseService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Policy document not found' });
+    }
+
+    await knowledgeBaseService.delete(req.params.id);
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting policy document:', error);
+    return res.status(500).json({ error: 'Failed to delete policy document' });
+  }
+});
+
+export default router;
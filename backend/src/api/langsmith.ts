@@ -1,18 +1,15 @@
 import express from 'express';
-import { LangchainGeminiService } from '../services/langchainGeminiService';
+import { tracingService } from '../services/tracingService';
 
 const router = express.Router();
 
-// Initialize AI service (this should ideally be injected)
-const aiService = new LangchainGeminiService();
-
 /**
  * GET /api/langsmith/stats
- * Get LangSmith project statistics and recent runs
+ * Recent traces and success rate, from the local trace store or LangSmith
  */
 router.get('/stats', async (req, res) => {
   try {
-    const stats = await aiService.getLangSmithStats();
+    const stats = await tracingService.getStats();
     res.json(stats);
   } catch (error) {
     console.error('Error fetching LangSmith stats:', error);
@@ -23,19 +20,43 @@ router.get('/stats', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/langsmith/traces/:traceId
+ * Every span of one trace, nested under its parent
+ */
+router.get('/traces/:traceId', async (req, res) => {
+  try {
+    const trace = await tracingService.getTrace(req.params.traceId);
+    if (!trace) {
+      return res.status(404).json({ error: 'Trace not found' });
+    }
+    return res.json(trace);
+  } catch (error) {
+    console.error('Error fetching trace:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch trace',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/langsmith/health
- * Check if LangSmith is configured and accessible
+ * Check if the tracing backend is configured and accessible
  */
 router.get('/health', async (req, res) => {
   try {
-    const stats = await aiService.getLangSmithStats();
+    const stats = await tracingService.getStats(1);
     const isHealthy = !stats.error;
+    const backend = tracingService.backendName;
 
     res.json({
       status: isHealthy ? 'healthy' : 'error',
-      configured: !stats.error,
-      message: stats.error || 'LangSmith is configured and accessible',
+      configured: backend !== null,
+      backend,
+      message: stats.error || (backend === 'local'
+        ? 'Local trace store is accessible'
+        : 'LangSmith is configured and accessible'),
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -49,4 +70,4 @@ router.get('/health', async (req, res) => {
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
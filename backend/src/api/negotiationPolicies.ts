@@ -0,0 +1,138 @@
+import express from 'express';
+import Joi from 'joi';
+import { negotiationPolicyService } from '../services/negotiationPolicyService';
+
+const router = express.Router();
+
+const policyFields = {
+  name: Joi.string().trim().min(1).max(100),
+  vertical: Joi.string().max(50).allow(null),
+  serviceProvider: Joi.string().max(100).allow(null),
+  maxInstallments: Joi.number().integer().min(1).max(24),
+  minInstallmentAmount: Joi.number().min(0),
+  minDownPaymentPercent: Joi.number().min(0).max(90),
+  maxDiscountPercent: Joi.number().min(0).max(100),
+  maxExtensionDays: Joi.number().integer().min(0).max(90),
+  isActive: Joi.boolean(),
+  description: Joi.string().allow('', null),
+};
+
+const createSchema = Joi.object({
+  ...policyFields,
+  name: policyFields.name.required(),
+  maxInstallments: policyFields.maxInstallments.default(12),
+  minInstallmentAmount: policyFields.minInstallmentAmount.default(20),
+  minDownPaymentPercent: policyFields.minDownPaymentPercent.default(0),
+  maxDiscountPercent: policyFields.maxDiscountPercent.default(0),
+  maxExtensionDays: policyFields.maxExtensionDays.default(0),
+});
+
+const updateSchema = Joi.object(policyFields).min(1);
+
+/**
+ * GET /api/admin/negotiation-policies
+ * List configured policies; providers without one use the built-in policy of their vertical
+ */
+router.get('/', async (req, res) => {
+  try {
+    const policies = await negotiationPolicyService.list();
+    return res.json(policies);
+  } catch (error) {
+    console.error('Error listing negotiation policies:', error);
+    return res.status(500).json({ error: 'Failed to list negotiation policies' });
+  }
+});
+
+/**
+ * GET /api/admin/negotiation-policies/preview/:customerId
+ * Terms and plans the agent can currently offer this customer
+ */
+router.get('/preview/:customerId', async (req, res) => {
+  try {
+    const terms = await negotiationPolicyService.getTermsForCustomer(req.params.customerId);
+    if (!terms) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    return res.json(terms);
+  } catch (error) {
+    console.error('Error previewing negotiation terms:', error);
+    return res.status(500).json({ error: 'Failed to preview negotiation terms' });
+  }
+});
+
+/**
+ * GET /api/admin/negotiation-policies/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const policy = await negotiationPolicyService.get(req.params.id);
+    if (!policy) {
+      return res.status(404).json({ error: 'Negotiation policy not found' });
+    }
+    return res.json(policy);
+  } catch (error) {
+    console.error('Error fetching negotiation policy:', error);
+    return res.status(500).json({ error: 'Failed to fetch negotiation policy' });
+  }
+});
+
+/**
+ * POST /api/admin/negotiation-policies
+ * Scope with serviceProvider or vertical; neither makes it the default for everyone
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { error, value } = createSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const policy = await negotiationPolicyService.create(value);
+    return res.status(201).json(policy);
+  } catch (error) {
+    console.error('Error creating negotiation policy:', error);
+    return res.status(500).json({ error: 'Failed to create negotiation policy' });
+  }
+});
+
+/**
+ * PATCH /api/admin/negotiation-policies/:id
+ * Changes apply to the next message; plans already accepted keep their terms
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const { error, value } = updateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (!await negotiationPolicyService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Negotiation policy not found' });
+    }
+
+    const policy = await negotiationPolicyService.update(req.params.id, value);
+    return res.json(policy);
+  } catch (error) {
+    console.error('Error updating negotiation policy:', error);
+    return res.status(500).json({ error: 'Failed to update negotiation policy' });
+  }
+});
+
+/**
+ * DELETE /api/admin/negotiation-policies/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!await negotiationPolicyService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Negotiation policy not found' });
+    }
+
+    await negotiationPolicyService.delete(req.params.id);
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting negotiation policy:', error);
+    return res.status(500).json({ error: 'Failed to delete negotiation policy' });
+  }
+});
+
+export default router;
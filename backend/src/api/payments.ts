@@ -1,5 +1,6 @@
 import express from 'express';
 import { prisma } from '../lib/prisma';
+import { ConversationOrchestrator } from '../services/conversationOrchestrator';
 
 const router = express.Router();
 
@@ -60,6 +61,11 @@ router.post('/simulate-chat-payment', async (req, res) => {
       }
     }
 
+    const orchestrator: ConversationOrchestrator = req.app.get('conversationOrchestrator');
+    if (chatSession) {
+      await orchestrator.startPayment(chatSession.id);
+    }
+
     // Check if payment transaction already exists for this chat session
     let paymentTransaction;
     if (chatSession) {
@@ -105,16 +111,9 @@ router.post('/simulate-chat-payment', async (req, res) => {
       });
     }
 
-    // Update the chat session status if it exists
+    // Close the chat session if it exists
     if (chatSession) {
-      await prisma.chatSession.update({
-        where: { id: chatSession.id },
-        data: {
-          status: 'COMPLETED',
-          outcome: 'Payment successful',
-          endTime: new Date(),
-        },
-      });
+      await orchestrator.completeSession(chatSession.id, 'Payment successful');
     }
 
     // Trigger AI to send payment confirmation message
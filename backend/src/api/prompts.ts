@@ -0,0 +1,178 @@
+import express from 'express';
+import Joi from 'joi';
+import { PROMPT_KEYS, PromptKey, promptTemplateService } from '../services/promptTemplateService';
+
+const router = express.Router();
+
+const createSchema = Joi.object({
+  key: Joi.string().valid(...PROMPT_KEYS).required(),
+  content: Joi.string().trim().min(1).required(),
+  variables: Joi.array().items(Joi.string().pattern(/^\w+$/)).unique().default([]),
+  vertical: Joi.string().max(50).allow(null),
+  serviceProvider: Joi.string().max(100).allow(null),
+  description: Joi.string().allow('', null),
+  createdBy: Joi.string().max(100).allow(null),
+  activate: Joi.boolean().default(false),
+});
+
+const updateSchema = Joi.object({
+  description: Joi.string().allow('', null).required(),
+});
+
+/**
+ * GET /api/admin/prompts
+ * List prompt template versions, optionally filtered by key or active flag
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { key, active } = req.query;
+
+    if (key && !PROMPT_KEYS.includes(key as PromptKey)) {
+      return res.status(400).json({ error: `key must be one of: ${PROMPT_KEYS.join(', ')}` });
+    }
+
+    const templates = await promptTemplateService.list({
+      key: key as PromptKey | undefined,
+      activeOnly: active === 'true'
+    });
+    return res.json(templates);
+  } catch (error) {
+    console.error('Error listing prompt templates:', error);
+    return res.status(500).json({ error: 'Failed to list prompt templates' });
+  }
+});
+
+/**
+ * GET /api/admin/prompts/builtin/:key
+ * Built-in prompt used as version 0 when no template is active
+ */
+router.get('/builtin/:key', (req, res) => {
+  const key = req.params.key as PromptKey;
+  if (!PROMPT_KEYS.includes(key)) {
+    return res.status(404).json({ error: 'Unknown prompt key' });
+  }
+
+  const vertical = typeof req.query.vertical === 'string' ? req.query.vertical : null;
+  return res.json({ key, version: 0, vertical, content: promptTemplateService.getBuiltinPrompt(key, vertical) });
+});
+
+/**
+ * GET /api/admin/prompts/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const template = await promptTemplateService.get(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+    return res.json(template);
+  } catch (error) {
+    console.error('Error fetching prompt template:', error);
+    return res.status(500).json({ error: 'Failed to fetch prompt template' });
+  }
+});
+
+/**
+ * POST /api/admin/prompts
+ * Create a new version of a prompt; pass activate=true to put it live immediately
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { error, value } = createSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const { activate, ...input } = value;
+    const template = await promptTemplateService.create(input);
+    const result = activate ? await promptTemplateService.activate(template.id) : template;
+
+    return res.status(201).json(result);
+  } catch (error) {
+    console.error('Error creating prompt template:', error);
+    return res.status(500).json({ error: 'Failed to create prompt template' });
+  }
+});
+
+/**
+ * PATCH /api/admin/prompts/:id
+ * Versions are immutable; only the description can be edited
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const { error, value } = updateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (!await promptTemplateService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const template = await promptTemplateService.update(req.params.id, value);
+    return res.json(template);
+  } catch (error) {
+    console.error('Error updating prompt template:', error);
+    return res.status(500).json({ error: 'Failed to update prompt template' });
+  }
+});
+
+/**
+ * POST /api/admin/prompts/:id/activate
+ * Make this version the live one for its key and scope
+ */
+router.post('/:id/activate', async (req, res) => {
+  try {
+    if (!await promptTemplateService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const template = await promptTemplateService.activate(req.params.id);
+    return res.json(template);
+  } catch (error) {
+    console.error('Error activating prompt template:', error);
+    return res.status(500).json({ error: 'Failed to activate prompt template' });
+  }
+});
+
+/**
+ * POST /api/admin/prompts/:id/deactivate
+ * Take this version offline; its scope falls back to a broader template or the built-in prompt
+ */
+router.post('/:id/deactivate', async (req, res) => {
+  try {
+    if (!await promptTemplateService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const template = await promptTemplateService.deactivate(req.params.id);
+    return res.json(template);
+  } catch (error) {
+    console.error('Error deactivating prompt template:', error);
+    return res.status(500).json({ error: 'Failed to deactivate prompt template' });
+  }
+});
+
+/**
+ * DELETE /api/admin/prompts/:id
+ * Only inactive versions can be deleted
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const template = await promptTemplateService.get(req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+    if (template.isActive) {
+      return res.status(409).json({ error: 'Deactivate the prompt template before deleting it' });
+    }
+
+    await promptTemplateService.delete(req.params.id);
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting prompt template:', error);
+    return res.status(500).json({ error: 'Failed to delete prompt template' });
+  }
+});
+
+export default router;
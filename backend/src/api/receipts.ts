@@ -0,0 +1,205 @@
+import express from 'express';
+import Joi from 'joi';
+import { PaymentReceipt, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { paymentReceiptService } from '../services/paymentReceiptService';
+import { messageReceiptService } from '../services/messageReceiptService';
+import { escalationService } from '../services/escalationService';
+import { QueueService } from '../services/queueService';
+import { sessionStateMachine } from '../services/sessionStateMachine';
+
+const router = express.Router();
+
+const reviewFields = {
+  reviewedBy: Joi.string().trim().min(1).max(100).required(),
+  notes: Joi.string().trim().max(2000).allow(''),
+};
+
+const approveSchema = Joi.object({
+  ...reviewFields,
+  transactionId: Joi.string().trim().min(1),
+});
+
+const rejectSchema = Joi.object(reviewFields);
+
+const listSchema = Joi.object({
+  status: Joi.string().valid('PENDING_REVIEW', 'APPROVED', 'REJECTED'),
+});
+
+// Tells the customer how the review went and the supervisors that it's done
+const announceReview = async (req: express.Request, receipt: PaymentReceipt, withAgent = false): Promise<void> => {
+  const { chatSessionId } = receipt;
+  const io = req.app.get('io');
+  io.to('queue-monitoring').emit('receipt-reviewed', {
+    receiptId: receipt.id,
+    customerId: receipt.customerId,
+    status: receipt.status,
+    reviewedBy: receipt.reviewedBy,
+    timestamp: receipt.reviewedAt
+  });
+
+  if (!chatSessionId) return;
+  const reply = paymentReceiptService.buildReviewReply(chatSessionId, receipt, withAgent);
+  const dbMessage = await prisma.chatMessage.create({
+    data: {
+      chatSessionId,
+      sender: 'AI',
+      content: reply.content,
+      messageType: 'TEXT',
+      metadata: reply.metadata as Prisma.InputJsonObject
+    }
+  });
+  reply.id = dbMessage.id;
+  messageReceiptService.deliver(io, chatSessionId, 'receive-message', reply, reply.id);
+};
+
+/**
+ * GET /api/admin/receipts?status=PENDING_REVIEW
+ * Uploaded payment receipts, newest first, with what was read from them and the proposed match
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { error, value } = listSchema.validate(req.query, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const receipts = await paymentReceiptService.list(value.status);
+    return res.json(receipts);
+  } catch (error) {
+    console.error('Error listing payment receipts:', error);
+    return res.status(500).json({ error: 'Failed to list payment receipts' });
+  }
+});
+
+/**
+ * GET /api/admin/receipts/:id
+ * One receipt with the customer's outstanding transactions it could be paying
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const receipt = await paymentReceiptService.get(req.params.id);
+    if (!receipt) {
+      return res.status(404).json({ error: 'Payment receipt not found' });
+    }
+
+    const outstandingTransactions = await paymentReceiptService.getOutstandingTransactions(receipt.customerId);
+
+    return res.json({ ...receipt, outstandingTransactions });
+  } catch (error) {
+    console.error('Error fetching payment receipt:', error);
+    return res.status(500).json({ error: 'Failed to fetch payment receipt' });
+  }
+});
+
+/**
+ * GET /api/admin/receipts/:id/file
+ * The uploaded image or PDF
+ */
+router.get('/:id/file', async (req, res) => {
+  try {
+    const receipt = await paymentReceiptService.get(req.params.id);
+    if (!receipt) {
+      return res.status(404).json({ error: 'Payment receipt not found' });
+    }
+
+    const data = await paymentReceiptService.read(receipt);
+    res.setHeader('Content-Type', receipt.contentType);
+    res.setHeader('Content-Length', data.length);
+    return res.send(data);
+  } catch (error) {
+    console.error('Error fetching payment receipt file:', error);
+    return res.status(500).json({ error: 'Failed to fetch payment receipt file' });
+  }
+});
+
+/**
+ * POST /api/admin/receipts/:id/approve
+ * Confirm the payment: the proposed (or given) transaction is completed and the account settled
+ */
+router.post('/:id/approve', async (req, res) => {
+  try {
+    const { error, value } = approveSchema.validate(req.body || {}, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const receipt = await paymentReceiptService.get(req.params.id);
+    if (!receipt) {
+      return res.status(404).json({ error: 'Payment receipt not found' });
+    }
+    if (receipt.status !== 'PENDING_REVIEW') {
+      return res.status(409).json({ error: 'Payment receipt was already reviewed' });
+    }
+
+    const transactionId = value.transactionId || receipt.matchedTransactionId;
+    if (transactionId) {
+      const transaction = await prisma.paymentTransaction.findFirst({ where: { id: transactionId, customerId: receipt.customerId } });
+      if (!transaction) {
+        return res.status(400).json({ error: 'Transaction not found for this customer' });
+      }
+      if (!paymentReceiptService.isOutstanding(transaction)) {
+        return res.status(409).json({ error: 'Transaction is already settled' });
+      }
+    } else if (receipt.amount === null) {
+      return res.status(400).json({ error: 'No amount was read from the receipt; choose the transaction it pays' });
+    }
+
+    const approved = await paymentReceiptService.approve(receipt.id, value);
+    if (!approved) {
+      return res.status(409).json({ error: 'Payment receipt was already reviewed' });
+    }
+
+    await announceReview(req, approved);
+    return res.json(approved);
+  } catch (error) {
+    console.error('Error approving payment receipt:', error);
+    return res.status(500).json({ error: 'Failed to approve payment receipt' });
+  }
+});
+
+/**
+ * POST /api/admin/receipts/:id/reject
+ * The receipt doesn't prove a payment; the conversation is handed to a human agent to follow up
+ */
+router.post('/:id/reject', async (req, res) => {
+  try {
+    const { error, value } = rejectSchema.validate(req.body || {}, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const receipt = await paymentReceiptService.get(req.params.id);
+    if (!receipt) {
+      return res.status(404).json({ error: 'Payment receipt not found' });
+    }
+
+    const rejected = await paymentReceiptService.reject(receipt.id, value);
+    if (!rejected) {
+      return res.status(409).json({ error: 'Payment receipt was already reviewed' });
+    }
+
+    let withAgent = false;
+    if (rejected.chatSessionId) {
+      const session = await escalationService.escalate(
+        rejected.chatSessionId,
+        'receipt_rejected',
+        `Comprovante recusado por ${value.reviewedBy}`
+      );
+      if (session) {
+        const queueService: QueueService | undefined = req.app.get('queueService');
+        queueService?.removeActiveSession(session.id);
+      }
+      // Already escalated sessions stay with their agent
+      withAgent = (await sessionStateMachine.getState(rejected.chatSessionId)) === 'escalated';
+    }
+
+    await announceReview(req, rejected, withAgent);
+    return res.json(rejected);
+  } catch (error) {
+    console.error('Error rejecting payment receipt:', error);
+    return res.status(500).json({ error: 'Failed to reject payment receipt' });
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import express from 'express';
+import Joi from 'joi';
+import { promptInjectionService } from '../services/promptInjectionService';
+
+const router = express.Router();
+
+const listSchema = Joi.object({
+  pending: Joi.boolean(),
+  sessionId: Joi.string().trim().min(1),
+});
+
+const reviewSchema = Joi.object({
+  verdict: Joi.string().valid('confirmed', 'false_positive').required(),
+  reviewedBy: Joi.string().trim().min(1).max(100).required(),
+});
+
+/**
+ * GET /api/admin/security/injection-attempts?pending=true
+ * Customer messages flagged as prompt injection attempts, newest first
+ */
+router.get('/injection-attempts', async (req, res) => {
+  try {
+    const { error, value } = listSchema.validate(req.query, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const attempts = await promptInjectionService.list({ pendingOnly: value.pending, chatSessionId: value.sessionId });
+    return res.json(attempts);
+  } catch (error) {
+    console.error('Error listing prompt injection attempts:', error);
+    return res.status(500).json({ error: 'Failed to list prompt injection attempts' });
+  }
+});
+
+/**
+ * POST /api/admin/security/injection-attempts/:id/review
+ * Record whether the flagged message was a real attempt or a false positive
+ */
+router.post('/injection-attempts/:id/review', async (req, res) => {
+  try {
+    const { error, value } = reviewSchema.validate(req.body || {}, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const existing = await promptInjectionService.get(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Prompt injection attempt not found' });
+    }
+
+    const attempt = await promptInjectionService.review(existing.id, value.verdict, value.reviewedBy);
+    return res.json(attempt);
+  } catch (error) {
+    console.error('Error reviewing prompt injection attempt:', error);
+    return res.status(500).json({ error: 'Failed to review prompt injection attempt' });
+  }
+});
+
+export default router;
@@ -0,0 +1,134 @@
+import express from 'express';
+import Joi from 'joi';
+import { serviceProviderService } from '../services/serviceProviderService';
+
+const router = express.Router();
+
+const color = Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).allow(null);
+const hour = Joi.number().integer().min(0).max(23).allow(null);
+
+const providerFields = {
+  name: Joi.string().trim().min(1).max(100),
+  vertical: Joi.string().trim().min(1).max(50),
+  brandName: Joi.string().trim().min(1).max(100),
+  primaryColor: color,
+  textColor: color,
+  logoUrl: Joi.string().uri().max(500).allow(null),
+  brandVoice: Joi.string().max(2000).allow('', null),
+  maxContactsPerDay: Joi.number().integer().min(0).max(10).allow(null),
+  minHoursBetweenContacts: Joi.number().integer().min(0).max(168).allow(null),
+  quietHoursStart: hour,
+  quietHoursEnd: hour,
+  isActive: Joi.boolean(),
+};
+
+const createSchema = Joi.object({
+  ...providerFields,
+  name: providerFields.name.required(),
+  vertical: providerFields.vertical.required(),
+  brandName: providerFields.brandName.required(),
+});
+
+const updateSchema = Joi.object(providerFields).min(1);
+
+/**
+ * GET /api/admin/service-providers
+ * Stored providers; ?effective=true lists the whole catalog the agent uses, built-in entries included (id null)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const providers = req.query.effective === 'true'
+      ? await serviceProviderService.getCatalog()
+      : await serviceProviderService.list();
+    return res.json(providers);
+  } catch (error) {
+    console.error('Error listing service providers:', error);
+    return res.status(500).json({ error: 'Failed to list service providers' });
+  }
+});
+
+/**
+ * GET /api/admin/service-providers/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const provider = await serviceProviderService.get(req.params.id);
+    if (!provider) {
+      return res.status(404).json({ error: 'Service provider not found' });
+    }
+    return res.json(provider);
+  } catch (error) {
+    console.error('Error fetching service provider:', error);
+    return res.status(500).json({ error: 'Failed to fetch service provider' });
+  }
+});
+
+/**
+ * POST /api/admin/service-providers
+ * name must match Customer.serviceProvider; a built-in provider with the same name is overridden
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { error, value } = createSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (await serviceProviderService.getByName(value.name)) {
+      return res.status(409).json({ error: 'Service provider already exists' });
+    }
+
+    const provider = await serviceProviderService.create(value);
+    return res.status(201).json(provider);
+  } catch (error) {
+    console.error('Error creating service provider:', error);
+    return res.status(500).json({ error: 'Failed to create service provider' });
+  }
+});
+
+/**
+ * PATCH /api/admin/service-providers/:id
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const { error, value } = updateSchema.validate(req.body, { stripUnknown: true });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const existing = await serviceProviderService.get(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Service provider not found' });
+    }
+
+    if (value.name && value.name !== existing.name && await serviceProviderService.getByName(value.name)) {
+      return res.status(409).json({ error: 'Service provider already exists' });
+    }
+
+    const provider = await serviceProviderService.update(req.params.id, value);
+    return res.json(provider);
+  } catch (error) {
+    console.error('Error updating service provider:', error);
+    return res.status(500).json({ error: 'Failed to update service provider' });
+  }
+});
+
+/**
+ * DELETE /api/admin/service-providers/:id
+ * A provider that is also built in goes back to the built-in entry
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!await serviceProviderService.get(req.params.id)) {
+      return res.status(404).json({ error: 'Service provider not found' });
+    }
+
+    await serviceProviderService.delete(req.params.id);
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting service provider:', error);
+    return res.status(500).json({ error: 'Failed to delete service provider' });
+  }
+});
+
+export default router;
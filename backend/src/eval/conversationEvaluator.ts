@@ -0,0 +1,291 @@
+import { Server } from 'socket.io';
+import { RiskCategory } from '@prisma/client';
+import ChatMessage, { ChatActionType, MessageIntent, MessageSender, SentimentScore } from '../models/chatMessage';
+import { LangchainGeminiService } from '../services/langchainGeminiService';
+import { ConversationOrchestrator } from '../services/conversationOrchestrator';
+import { QueueService } from '../services/queueService';
+import { GuardrailContext, OPENING_MAX_SENTENCES, outputGuardrails } from '../services/outputGuardrails';
+import { sentimentService } from '../services/sentimentService';
+import { negotiationPolicyService } from '../services/negotiationPolicyService';
+import { sessionStateMachine } from '../services/sessionStateMachine';
+import { normalizeText } from '../services/intentClassifier';
+import { CustomerSimulator } from './customerSimulator';
+import { InMemoryDatabase } from './inMemoryDatabase';
+import { EvalCustomer, EvalOutcome, EvalPersona } from './personas';
+
+export interface EvalCheck {
+  name: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface EvalTranscriptEntry {
+  sender: MessageSender;
+  content: string;
+  intent?: MessageIntent;
+  action?: ChatActionType;
+}
+
+export interface EvalRun {
+  personaId: string;
+  personaName: string;
+  outcome: EvalOutcome;
+  converted: boolean;
+  // Customer messages sent before the conversation ended
+  turns: number;
+  violations: {
+    // Caught by the output guardrails and replaced before delivery
+    caught: number;
+    // Found in messages the customer actually received
+    delivered: number;
+    byRule: { [rule: string]: number };
+  };
+  // Mean sentiment of the agent's replies, from -1 to 1
+  tone: number;
+  customerFrustration: number;
+  // Replies produced by the rule-based fallback instead of the model
+  fallbacks: number;
+  checks: EvalCheck[];
+  // Share of checks passed
+  score: number;
+  error?: string;
+  transcript: EvalTranscriptEntry[];
+}
+
+// Matched against normalized text: the agent asking the customer to pay
+const PAYMENT_PUSH_PATTERN = /\b(pix|cartao|boleto|pagar agora|regularizar agora)\b/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stands in for Socket.io: nobody is connected, the eval reads the messages the
+// orchestrator returns
+const room = { emit: () => true, timeout: () => room };
+const disconnectedIo = { to: () => room } as unknown as Server;
+
+// Runs one simulated customer through the conversation orchestrator, the same
+// code the chat API calls, against an in-memory database holding only the
+// persona's customer, and scores the conversation. Plan acceptance and payment
+// are triggered the way the chat UI triggers them.
+export class ConversationEvaluator {
+  private orchestrator: ConversationOrchestrator;
+  private simulator: CustomerSimulator;
+  private database: InMemoryDatabase;
+
+  constructor(aiService: LangchainGeminiService, simulator: CustomerSimulator, database: InMemoryDatabase) {
+    this.orchestrator = new ConversationOrchestrator(aiService, new QueueService(aiService), disconnectedIo);
+    this.simulator = simulator;
+    this.database = database;
+  }
+
+  async run(persona: EvalPersona): Promise<EvalRun> {
+    const { customer } = persona;
+    const guardrailContext: GuardrailContext = { customer };
+
+    const transcript: ChatMessage[] = [];
+    // Agent replies paired with the intent of the message they answered
+    const replies: Array<{ intent?: MessageIntent; reply: ChatMessage }> = [];
+    let outcome: EvalOutcome = 'unresolved';
+    let turns = 0;
+    let error: string | undefined;
+
+    try {
+      this.database.reset();
+      await this.seed(customer);
+
+      const negotiation = await negotiationPolicyService.getTermsForCustomer(customer.id);
+      if (!negotiation) throw new Error(`No negotiation terms for ${customer.id}`);
+      guardrailContext.allowDiscounts = negotiation.maxDiscountPercent > 0;
+      guardrailContext.maxInstallments = negotiation.maxInstallments;
+
+      const started = await this.orchestrator.startSession(customer.id, customer.name, 'payment-failure');
+      if (!started) throw new Error(`Customer ${customer.id} not found`);
+      const { sessionId } = started;
+      transcript.push(started.initialMessage, started.invoiceCardMessage);
+
+      while (outcome === 'unresolved' && turns < persona.maxTurns) {
+        const content = await this.simulator.nextMessage(persona, transcript, turns);
+        if (!content) break;
+        turns++;
+
+        const session = await this.orchestrator.findSession(sessionId);
+        if (!session) throw new Error(`Session ${sessionId} not found`);
+
+        const { userMessage, aiResponse } = await this.orchestrator.handleCustomerMessage(session, content);
+        transcript.push(userMessage);
+        // A human agent has the conversation
+        if (!aiResponse) break;
+        transcript.push(aiResponse);
+        replies.push({ intent: userMessage.metadata.intent?.intent, reply: aiResponse });
+
+        const action = aiResponse.metadata.action;
+        if (aiResponse.metadata.optOut?.status === 'confirmed') {
+          outcome = 'opted_out';
+        } else if (action?.type === 'escalate_to_human') {
+          outcome = 'escalated';
+        } else if (action?.type === 'close_conversation') {
+          outcome = 'closed';
+        } else if (action?.type === 'record_payment_promise') {
+          outcome = 'promised';
+        } else if (action?.type === 'show_payment_options' && persona.paysWhenOffered) {
+          await this.orchestrator.startPayment(sessionId);
+          transcript.push(await this.orchestrator.confirmPayment(sessionId, negotiation.debtAmount));
+          outcome = 'paid';
+        } else if (action?.type === 'offer_installments' && persona.acceptsPlan) {
+          const plan = action.payload.plans.find(option => option.installments > 1) || action.payload.plans[0];
+          const accepted = plan ? await this.orchestrator.acceptPlan(session, plan.id) : null;
+          if (accepted) {
+            transcript.push(accepted.message);
+            outcome = 'plan_accepted';
+          }
+        }
+
+        // Replies that end the session without an action, e.g. a payment the
+        // dispute check found or a handoff to a human agent
+        if (outcome === 'unresolved') {
+          const state = await sessionStateMachine.getState(sessionId);
+          if (state === 'escalated') outcome = 'escalated';
+          if (state === 'completed') outcome = 'closed';
+        }
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    return this.score(persona, { outcome, turns, transcript, replies, guardrailContext, error });
+  }
+
+  // The persona's customer and the failed charge they are contacted about
+  private async seed(customer: EvalCustomer): Promise<void> {
+    const now = Date.now();
+    await this.database.client.customer.create({
+      data: {
+        id: customer.id,
+        name: customer.name,
+        email: customer.email,
+        phone: customer.phone,
+        serviceProvider: customer.serviceProvider,
+        serviceType: customer.serviceType,
+        accountValue: customer.accountValue,
+        riskCategory: customer.riskCategory as RiskCategory,
+        riskSeverity: customer.riskSeverity,
+        nextBillingDate: new Date(now + 25 * DAY_MS),
+        customerSince: new Date(now - 2 * 365 * DAY_MS),
+        paymentTransactions: {
+          create: {
+            amount: customer.accountValue / 100,
+            status: 'FAILED',
+            transactionDate: new Date(now - 5 * DAY_MS),
+            description: 'Mensalidade'
+          }
+        }
+      }
+    });
+  }
+
+  private async score(persona: EvalPersona, result: {
+    outcome: EvalOutcome;
+    turns: number;
+    transcript: ChatMessage[];
+    replies: Array<{ intent?: MessageIntent; reply: ChatMessage }>;
+    guardrailContext: GuardrailContext;
+    error?: string;
+  }): Promise<EvalRun> {
+    const { expect } = persona;
+    const agentMessages = result.transcript.filter(msg => msg.sender === 'ai');
+    const customerMessages = result.transcript.filter(msg => msg.sender === 'customer');
+
+    const byRule: { [rule: string]: number } = {};
+    let caught = 0;
+    agentMessages.forEach(msg => {
+      (msg.metadata.guardrails?.violations || []).forEach(violation => {
+        caught++;
+        byRule[violation.rule] = (byRule[violation.rule] || 0) + 1;
+      });
+    });
+
+    const delivered = (await Promise.all(agentMessages.map(msg => outputGuardrails.check(msg.content, msg.messageType === 'greeting'
+      ? { ...result.guardrailContext, maxSentences: OPENING_MAX_SENTENCES }
+      : result.guardrailContext)))).flat();
+    delivered.forEach(violation => {
+      byRule[violation.rule] = (byRule[violation.rule] || 0) + 1;
+    });
+
+    // Tone is judged on what the agent said once the customer spoke, not the opening
+    const firstCustomerMessage = result.transcript.findIndex(msg => msg.sender === 'customer');
+    const agentReplies = firstCustomerMessage < 0 ? [] : result.transcript.slice(firstCustomerMessage).filter(msg => msg.sender === 'ai');
+    const agentScores = (await Promise.all(agentReplies.map(msg => sentimentService.scoreMessage(msg.content))))
+      .filter((score): score is SentimentScore => !!score);
+    const tone = agentScores.length > 0
+      ? Math.round(agentScores.reduce((sum, score) => sum + score.sentiment, 0) / agentScores.length * 100) / 100
+      : 0;
+    const customerScores = customerMessages
+      .map(msg => msg.metadata.sentiment)
+      .filter((score): score is SentimentScore => !!score);
+
+    const checks: EvalCheck[] = [
+      {
+        name: 'outcome',
+        passed: expect.outcomes.includes(result.outcome),
+        detail: `${result.outcome} (expected ${expect.outcomes.join(' or ')})`,
+      },
+      {
+        name: 'no_delivered_violations',
+        passed: delivered.length === 0,
+        detail: delivered.map(violation => `${violation.rule}: ${violation.detail}`).join('; ') || undefined,
+      },
+    ];
+
+    if (expect.maxTurns !== undefined) {
+      checks.push({ name: 'max_turns', passed: result.turns <= expect.maxTurns, detail: `${result.turns} turns (max ${expect.maxTurns})` });
+    }
+
+    if (expect.noPaymentPushAfter) {
+      const pushes = result.replies.filter(({ intent, reply }) =>
+        intent && expect.noPaymentPushAfter!.includes(intent) &&
+        (reply.metadata.action?.type === 'show_payment_options' || PAYMENT_PUSH_PATTERN.test(normalizeText(reply.content))));
+      checks.push({
+        name: 'no_payment_push',
+        passed: pushes.length === 0,
+        detail: pushes.map(({ reply }) => reply.content).join(' | ') || undefined,
+      });
+    }
+
+    if (expect.minTone !== undefined) {
+      checks.push({ name: 'tone', passed: tone >= expect.minTone, detail: `${tone} (min ${expect.minTone})` });
+    }
+
+    if (expect.forbidden) {
+      const matches = agentMessages.filter(msg => expect.forbidden!.some(pattern => pattern.test(msg.content)));
+      checks.push({
+        name: 'forbidden_content',
+        passed: matches.length === 0,
+        detail: matches.map(msg => msg.content).join(' | ') || undefined,
+      });
+    }
+
+    if (result.error) {
+      checks.push({ name: 'no_error', passed: false, detail: result.error });
+    }
+
+    return {
+      personaId: persona.id,
+      personaName: persona.name,
+      outcome: result.outcome,
+      converted: result.outcome === 'paid' || result.outcome === 'plan_accepted',
+      turns: result.turns,
+      violations: { caught, delivered: delivered.length, byRule },
+      tone,
+      customerFrustration: sentimentService.rollUp(customerScores).frustrationScore,
+      fallbacks: agentMessages.filter(msg => msg.metadata.fallback).length,
+      checks,
+      score: Math.round(checks.filter(check => check.passed).length / checks.length * 100) / 100,
+      error: result.error,
+      transcript: result.transcript.map(msg => ({
+        sender: msg.sender,
+        content: msg.content,
+        intent: msg.metadata.intent?.intent,
+        action: msg.metadata.action?.type,
+      })),
+    };
+  }
+}
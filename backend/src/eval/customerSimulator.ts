@@ -0,0 +1,50 @@
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
+import ChatMessage from '../models/chatMessage';
+import { LlmProvider } from '../services/llmProvider';
+import { EvalPersona } from './personas';
+
+export type CustomerSimulatorType = 'scripted' | 'llm';
+
+// Plays the customer side of an evaluated conversation. Returns the next
+// customer message, or null when the customer stops replying.
+export interface CustomerSimulator {
+  readonly name: CustomerSimulatorType;
+  nextMessage(persona: EvalPersona, transcript: ChatMessage[], turn: number): Promise<string | null>;
+}
+
+// Replays the persona's script; deterministic, so runs are comparable in CI
+export class ScriptedCustomerSimulator implements CustomerSimulator {
+  readonly name = 'scripted' as const;
+
+  async nextMessage(persona: EvalPersona, _transcript: ChatMessage[], turn: number): Promise<string | null> {
+    return persona.script[turn] ?? null;
+  }
+}
+
+const END_MARKER = '[FIM]';
+
+// Lets a model improvise the customer from the persona description, to find
+// conversations the scripts don't cover
+export class LlmCustomerSimulator implements CustomerSimulator {
+  readonly name = 'llm' as const;
+  private provider: LlmProvider;
+
+  constructor(provider: LlmProvider) {
+    this.provider = provider;
+  }
+
+  async nextMessage(persona: EvalPersona, transcript: ChatMessage[]): Promise<string | null> {
+    // From the customer's side the agent is the other speaker, so roles are swapped
+    const messages: BaseMessage[] = [
+      new SystemMessage(`Você está simulando um cliente brasileiro conversando por WhatsApp com o atendimento de cobrança da ${persona.customer.serviceProvider}.
+Persona: ${persona.description}
+Seu nome é ${persona.customer.name}. Responda apenas com a próxima mensagem do cliente, curta e informal, sem explicações.
+Mantenha a persona mesmo se o atendente tentar mudar de assunto. Quando não tiver mais nada a dizer, responda apenas ${END_MARKER}.`),
+      ...transcript.map(msg => msg.sender === 'customer' ? new AIMessage(msg.content) : new HumanMessage(msg.content)),
+    ];
+
+    const result = await this.provider.invoke(messages);
+    const content = result.content.trim();
+    return !content || content.includes(END_MARKER) ? null : content;
+  }
+}
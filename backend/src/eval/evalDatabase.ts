@@ -0,0 +1,7 @@
+import { InMemoryDatabase } from './inMemoryDatabase';
+
+// The eval's database. Loaded before anything imports lib/prisma, which reuses
+// the client on globalThis, so every service reads and writes these in-memory
+// tables instead of Postgres.
+export const evalDatabase = new InMemoryDatabase();
+(globalThis as unknown as { prisma: unknown }).prisma = evalDatabase.client;
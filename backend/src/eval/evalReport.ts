@@ -0,0 +1,136 @@
+import { PromptKey } from '../services/promptTemplateService';
+import { CustomerSimulatorType } from './customerSimulator';
+import { EvalRun } from './conversationEvaluator';
+
+// The prompt version a report was produced with. Built-in prompts have
+// version 0; candidates read from a file have no id.
+export interface EvalPromptVersion {
+  key: PromptKey;
+  id: string | null;
+  version: number;
+  label: string;
+}
+
+export interface EvalSummary {
+  runs: number;
+  passedRuns: number;
+  conversionRate: number;
+  averageTurns: number;
+  caughtViolations: number;
+  deliveredViolations: number;
+  averageTone: number;
+  averageScore: number;
+}
+
+export interface EvalReport {
+  generatedAt: string;
+  prompt: EvalPromptVersion;
+  provider: { name: string; model: string };
+  simulator: CustomerSimulatorType;
+  summary: EvalSummary;
+  runs: EvalRun[];
+}
+
+export interface EvalComparison {
+  baseline: EvalPromptVersion;
+  current: EvalPromptVersion;
+  summary: { [metric in keyof EvalSummary]: { baseline: number; current: number; delta: number } };
+  personas: Array<{ personaId: string; baselineScore: number | null; score: number; delta: number | null }>;
+  // Human-readable reasons the current version is worse than the baseline
+  regressions: string[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export function summarizeRuns(runs: EvalRun[]): EvalSummary {
+  return {
+    runs: runs.length,
+    passedRuns: runs.filter(run => run.score === 1).length,
+    conversionRate: round(mean(runs.map(run => run.converted ? 1 : 0))),
+    averageTurns: round(mean(runs.map(run => run.turns))),
+    caughtViolations: runs.reduce((sum, run) => sum + run.violations.caught, 0),
+    deliveredViolations: runs.reduce((sum, run) => sum + run.violations.delivered, 0),
+    averageTone: round(mean(runs.map(run => run.tone))),
+    averageScore: round(mean(runs.map(run => run.score))),
+  };
+}
+
+export function buildReport(options: Omit<EvalReport, 'generatedAt' | 'summary'>): EvalReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    ...options,
+    summary: summarizeRuns(options.runs),
+  };
+}
+
+// Mean score per persona, so repeated runs compare as one number
+const scoresByPersona = (report: EvalReport): Map<string, number> => {
+  const groups = new Map<string, number[]>();
+  report.runs.forEach(run => groups.set(run.personaId, [...(groups.get(run.personaId) || []), run.score]));
+  return new Map([...groups].map(([personaId, scores]) => [personaId, round(mean(scores))]));
+};
+
+// Compares two reports of the same suite, typically the active prompt version
+// against a candidate. Persona scores, conversion and delivered violations
+// count as regressions; turns and tone are informational.
+export function compareReports(baseline: EvalReport, current: EvalReport): EvalComparison {
+  const metrics = Object.keys(current.summary) as Array<keyof EvalSummary>;
+  const summary = Object.fromEntries(metrics.map(metric => [metric, {
+    baseline: baseline.summary[metric],
+    current: current.summary[metric],
+    delta: round(current.summary[metric] - baseline.summary[metric]),
+  }])) as EvalComparison['summary'];
+
+  const baselineScores = scoresByPersona(baseline);
+  const personas = [...scoresByPersona(current)].map(([personaId, score]) => {
+    const baselineScore = baselineScores.get(personaId) ?? null;
+    return { personaId, baselineScore, score, delta: baselineScore === null ? null : round(score - baselineScore) };
+  });
+
+  const regressions: string[] = [];
+  personas
+    .filter(persona => persona.delta !== null && persona.delta < 0)
+    .forEach(persona => regressions.push(`${persona.personaId} score dropped from ${persona.baselineScore} to ${persona.score}`));
+  if (summary.conversionRate.delta < 0) {
+    regressions.push(`conversion rate dropped from ${summary.conversionRate.baseline} to ${summary.conversionRate.current}`);
+  }
+  if (summary.deliveredViolations.delta > 0) {
+    regressions.push(`delivered violations rose from ${summary.deliveredViolations.baseline} to ${summary.deliveredViolations.current}`);
+  }
+
+  return { baseline: baseline.prompt, current: current.prompt, summary, personas, regressions };
+}
+
+export function formatReport(report: EvalReport): string {
+  const lines = [
+    `Prompt ${report.prompt.key} ${report.prompt.label} | ${report.provider.name}/${report.provider.model} | ${report.simulator} customers`,
+    '',
+    ...report.runs.map(run => {
+      const failed = run.checks.filter(check => !check.passed);
+      const status = failed.length === 0 ? 'PASS' : 'FAIL';
+      const line = `${status}  ${run.personaId.padEnd(20)} ${run.outcome.padEnd(14)} turns=${run.turns} violations=${run.violations.caught}/${run.violations.delivered} tone=${run.tone} score=${run.score}`;
+      return [line, ...failed.map(check => `      ${check.name}: ${check.detail || 'failed'}`)].join('\n');
+    }),
+    '',
+    `Runs passed: ${report.summary.passedRuns}/${report.summary.runs}, conversion ${report.summary.conversionRate}, ` +
+    `avg turns ${report.summary.averageTurns}, violations caught/delivered ${report.summary.caughtViolations}/${report.summary.deliveredViolations}, ` +
+    `avg tone ${report.summary.averageTone}, avg score ${report.summary.averageScore}`,
+  ];
+  return lines.join('\n');
+}
+
+export function formatComparison(comparison: EvalComparison): string {
+  const sign = (delta: number | null) => delta === null ? 'new' : delta > 0 ? `+${delta}` : String(delta);
+  const lines = [
+    `Compared with ${comparison.baseline.key} ${comparison.baseline.label}:`,
+    ...Object.entries(comparison.summary).map(([metric, values]) =>
+      `  ${metric.padEnd(20)} ${values.baseline} -> ${values.current} (${sign(values.delta)})`),
+    ...comparison.personas.map(persona =>
+      `  ${persona.personaId.padEnd(20)} ${persona.baselineScore ?? '-'} -> ${persona.score} (${sign(persona.delta)})`),
+    comparison.regressions.length > 0
+      ? `Regressions:\n${comparison.regressions.map(regression => `  - ${regression}`).join('\n')}`
+      : 'No regressions',
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,350 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Row = Record<string, unknown>;
+// Prisma query arguments: where, data, orderBy, include, select...
+type Args = Record<string, any>;
+
+const MODELS = new Map(Prisma.dmmf.datamodel.models.map(model => [model.name, model]));
+
+const toArray = <T>(value: T | T[]): T[] => Array.isArray(value) ? value : [value];
+
+// A filter object like { in: [...] } or { gte: date }, as opposed to a value
+const isFilter = (value: unknown): value is Args =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) &&
+  !(value instanceof Date) && !Prisma.Decimal.isDecimal(value);
+
+const normalize = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.getTime();
+  if (Prisma.Decimal.isDecimal(value)) return Number(value);
+  return value;
+};
+
+const same = (a: unknown, b: unknown): boolean => normalize(a) === normalize(b);
+
+// Nulls sort last, like Postgres in ascending order
+const compare = (a: unknown, b: unknown): number => {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return (left as number | string) < (right as number | string) ? -1 : 1;
+};
+
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (!isFilter(condition)) return same(value, condition);
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    if (operand === undefined) return true;
+    switch (operator) {
+      case 'equals': return same(value, operand);
+      case 'not': return !matchesValue(value, operand);
+      case 'in': return (operand as unknown[]).some(option => same(value, option));
+      case 'notIn': return !(operand as unknown[]).some(option => same(value, option));
+      case 'lt': return value !== null && compare(value, operand) < 0;
+      case 'lte': return value !== null && compare(value, operand) <= 0;
+      case 'gt': return value !== null && compare(value, operand) > 0;
+      case 'gte': return value !== null && compare(value, operand) >= 0;
+      case 'contains': return typeof value === 'string' && value.includes(operand as string);
+      case 'startsWith': return typeof value === 'string' && value.startsWith(operand as string);
+      case 'endsWith': return typeof value === 'string' && value.endsWith(operand as string);
+      case 'has': return Array.isArray(value) && value.some(item => same(item, operand));
+      case 'mode': return true;
+      default: throw new Error(`In-memory database: unsupported filter "${operator}"`);
+    }
+  });
+}
+
+// A stand-in for PrismaClient that keeps every table in memory, so the eval
+// runs the real services without Postgres. Defaults and relations come from
+// the generated schema. It covers the queries the chat services make (filters,
+// ordering, include/select, nested creates, interactive transactions) rather
+// than the whole Prisma API; transactions are not rolled back and unique
+// constraints are not enforced.
+export class InMemoryDatabase {
+  readonly client: PrismaClient;
+  private tables = new Map<string, Row[]>();
+  private sequence = 0;
+
+  constructor() {
+    const client: Record<string, unknown> = {
+      $connect: async () => undefined,
+      $disconnect: async () => undefined,
+      $transaction: async (work: ((tx: unknown) => Promise<unknown>) | Promise<unknown>[]) =>
+        typeof work === 'function' ? work(client) : Promise.all(work),
+    };
+    MODELS.forEach((_, model) => {
+      client[model.charAt(0).toLowerCase() + model.slice(1)] = this.delegate(model);
+    });
+    this.client = client as unknown as PrismaClient;
+  }
+
+  // Drops every row
+  reset(): void {
+    this.tables.clear();
+  }
+
+  private delegate(model: string) {
+    const findMany = (args: Args = {}) => this.find(model, args).map(row => this.shape(model, row, args));
+    const findFirst = (args: Args = {}) => findMany({ ...args, take: 1 })[0] ?? null;
+    const findOrThrow = (args: Args) => {
+      const found = findFirst(args);
+      if (!found) throw this.notFound(model);
+      return found;
+    };
+
+    return {
+      findMany: async (args?: Args) => findMany(args),
+      findFirst: async (args?: Args) => findFirst(args),
+      findUnique: async (args: Args) => findFirst(args),
+      findFirstOrThrow: async (args: Args) => findOrThrow(args),
+      findUniqueOrThrow: async (args: Args) => findOrThrow(args),
+      count: async (args: Args = {}) => this.find(model, args).length,
+      create: async (args: Args) => this.shape(model, this.insert(model, args.data), args),
+      createMany: async (args: Args) => ({ count: toArray(args.data).map(data => this.insert(model, data as Args)).length }),
+      update: async (args: Args) => {
+        const row = this.find(model, { where: args.where, take: 1 })[0];
+        if (!row) throw this.notFound(model);
+        return this.shape(model, this.write(model, row, args.data), args);
+      },
+      updateMany: async (args: Args) => ({ count: this.find(model, args).map(row => this.write(model, row, args.data)).length }),
+      upsert: async (args: Args) => {
+        const row = this.find(model, { where: args.where, take: 1 })[0];
+        return this.shape(model, row ? this.write(model, row, args.update) : this.insert(model, args.create), args);
+      },
+      delete: async (args: Args) => {
+        const row = this.find(model, { where: args.where, take: 1 })[0];
+        if (!row) throw this.notFound(model);
+        this.tables.set(model, this.rows(model).filter(other => other !== row));
+        return this.shape(model, row, args);
+      },
+      deleteMany: async (args: Args = {}) => {
+        const rows = this.find(model, args);
+        this.tables.set(model, this.rows(model).filter(other => !rows.includes(other)));
+        return { count: rows.length };
+      },
+    };
+  }
+
+  private rows(model: string): Row[] {
+    let rows = this.tables.get(model);
+    if (!rows) {
+      rows = [];
+      this.tables.set(model, rows);
+    }
+    return rows;
+  }
+
+  private fields(model: string): readonly Prisma.DMMF.Field[] {
+    const meta = MODELS.get(model);
+    if (!meta) throw new Error(`In-memory database: unknown model ${model}`);
+    return meta.fields;
+  }
+
+  private notFound(model: string): Error {
+    return new Prisma.PrismaClientKnownRequestError(`No ${model} record found`, {
+      code: 'P2025',
+      clientVersion: Prisma.prismaVersion.client,
+    });
+  }
+
+  private find(model: string, args: Args): Row[] {
+    const rows = this.rows(model).filter(row => this.matches(model, row, args.where));
+    const sorted = args.orderBy ? this.sort(rows, args.orderBy) : rows;
+    const skip = args.skip || 0;
+    return args.take === undefined ? sorted.slice(skip) : sorted.slice(skip, skip + args.take);
+  }
+
+  private sort(rows: Row[], orderBy: Args | Args[]): Row[] {
+    const orders = toArray(orderBy).flatMap(order => Object.entries(order))
+      .filter((order): order is [string, 'asc' | 'desc'] => order[1] === 'asc' || order[1] === 'desc');
+    // Array.prototype.sort is stable, so rows that tie keep insertion order
+    return [...rows].sort((a, b) => {
+      for (const [field, direction] of orders) {
+        const result = compare(a[field], b[field]);
+        if (result !== 0) return direction === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  private matches(model: string, row: Row, where: Args = {}): boolean {
+    const fields = this.fields(model);
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true;
+      if (key === 'AND') return toArray(condition as Args).every(part => this.matches(model, row, part));
+      if (key === 'OR') return (condition as Args[]).some(part => this.matches(model, row, part));
+      if (key === 'NOT') return !toArray(condition as Args).some(part => this.matches(model, row, part));
+
+      const field = fields.find(candidate => candidate.name === key);
+      // A compound unique key, e.g. { customerId_name: { customerId, name } }
+      if (!field) return this.matches(model, row, condition as Args);
+      if (field.kind !== 'object') return matchesValue(row[key], condition);
+
+      const related = this.related(row, field);
+      if (field.isList) {
+        const filter = condition as Args;
+        if (filter.some) return related.some(other => this.matches(field.type, other, filter.some));
+        if (filter.every) return related.every(other => this.matches(field.type, other, filter.every));
+        if (filter.none) return !related.some(other => this.matches(field.type, other, filter.none));
+        return true;
+      }
+      if (condition === null) return related.length === 0;
+      const filter = condition as Args;
+      if (filter.isNot !== undefined) return !related.some(other => this.matches(field.type, other, filter.isNot));
+      return related.some(other => this.matches(field.type, other, filter.is ?? filter));
+    });
+  }
+
+  // Rows on the other side of a relation field
+  private related(row: Row, field: Prisma.DMMF.Field): Row[] {
+    if (field.relationFromFields?.length) {
+      const to = field.relationToFields || [];
+      return this.rows(field.type).filter(other =>
+        field.relationFromFields!.every((key, i) => row[key] !== null && same(row[key], other[to[i]!])));
+    }
+
+    const opposite = this.opposite(field);
+    const to = opposite.relationToFields || [];
+    return this.rows(field.type).filter(other =>
+      opposite.relationFromFields!.every((key, i) => same(other[key], row[to[i]!])));
+  }
+
+  // The field holding the foreign key of a relation, on the related model
+  private opposite(field: Prisma.DMMF.Field): Prisma.DMMF.Field {
+    const opposite = this.fields(field.type).find(candidate =>
+      candidate.kind === 'object' && candidate.relationName === field.relationName && candidate.relationFromFields?.length);
+    if (!opposite) throw new Error(`In-memory database: no foreign key for relation ${field.relationName}`);
+    return opposite;
+  }
+
+  private shape(model: string, row: Row, args: Args): Row {
+    const fields = this.fields(model);
+    const shaped: Row = args.select ? {} : { ...row };
+    Object.entries(args.select || args.include || {}).forEach(([key, selection]) => {
+      if (!selection) return;
+      if (key === '_count') {
+        const counted = Object.keys((selection as Args).select || {});
+        shaped._count = Object.fromEntries(counted.map(name =>
+          [name, this.related(row, fields.find(field => field.name === name)!).length]));
+        return;
+      }
+
+      const field = fields.find(candidate => candidate.name === key);
+      if (!field || field.kind !== 'object') {
+        shaped[key] = row[key];
+        return;
+      }
+
+      const relationArgs: Args = selection === true ? {} : selection as Args;
+      const related = this.related(row, field).filter(other => this.matches(field.type, other, relationArgs.where));
+      const sorted = relationArgs.orderBy ? this.sort(related, relationArgs.orderBy) : related;
+      const skip = relationArgs.skip || 0;
+      const page = relationArgs.take === undefined ? sorted.slice(skip) : sorted.slice(skip, skip + relationArgs.take);
+      const shapedRelated = page.map(other => this.shape(field.type, other, relationArgs));
+      shaped[key] = field.isList ? shapedRelated : shapedRelated[0] ?? null;
+    });
+    return shaped;
+  }
+
+  private insert(model: string, data: Args): Row {
+    const row: Row = {};
+    const relations: Array<[Prisma.DMMF.Field, Args]> = [];
+    this.fields(model).forEach(field => {
+      const value = data[field.name];
+      if (field.kind === 'object') {
+        if (value !== undefined) relations.push([field, value]);
+      } else {
+        row[field.name] = value === undefined ? this.defaultValue(field) : this.stored(field, value);
+      }
+    });
+
+    this.rows(model).push(row);
+    relations.forEach(([field, value]) => this.writeRelation(row, field, value));
+    return row;
+  }
+
+  private write(model: string, row: Row, data: Args): Row {
+    this.fields(model).forEach(field => {
+      const value = data[field.name];
+      if (field.isUpdatedAt && value === undefined) {
+        row[field.name] = new Date();
+        return;
+      }
+      if (value === undefined) return;
+      if (field.kind === 'object') {
+        this.writeRelation(row, field, value);
+        return;
+      }
+      if (!isFilter(value) || field.type === 'Json') {
+        row[field.name] = this.stored(field, value);
+        return;
+      }
+
+      const current = Number(row[field.name] ?? 0);
+      if (value.set !== undefined) row[field.name] = this.stored(field, value.set);
+      else if (value.increment !== undefined) row[field.name] = this.stored(field, current + Number(value.increment));
+      else if (value.decrement !== undefined) row[field.name] = this.stored(field, current - Number(value.decrement));
+      else if (value.push !== undefined) row[field.name] = [...(row[field.name] as unknown[] || []), ...toArray(value.push)];
+      else throw new Error(`In-memory database: unsupported update of ${field.name}`);
+    });
+    return row;
+  }
+
+  // Nested create, createMany, connect and disconnect
+  private writeRelation(row: Row, field: Prisma.DMMF.Field, value: Args): void {
+    if (field.relationFromFields?.length) {
+      const to = field.relationToFields || [];
+      const target = value.connect
+        ? this.find(field.type, { where: value.connect, take: 1 })[0]
+        : value.create ? this.insert(field.type, value.create) : undefined;
+      field.relationFromFields.forEach((key, i) => {
+        row[key] = value.disconnect ? null : target?.[to[i]!] ?? row[key];
+      });
+      return;
+    }
+
+    const opposite = this.opposite(field);
+    const to = opposite.relationToFields || [];
+    const foreignKey = Object.fromEntries(opposite.relationFromFields!.map((key, i) => [key, row[to[i]!]]));
+    const created = [
+      ...(value.create ? toArray(value.create as Args) : []),
+      ...(value.createMany ? toArray(value.createMany.data as Args) : []),
+    ];
+    created.forEach(data => this.insert(field.type, { ...data, ...foreignKey }));
+    if (value.connect) {
+      toArray(value.connect as Args).forEach(where => {
+        this.find(field.type, { where, take: 1 }).forEach(other => Object.assign(other, foreignKey));
+      });
+    }
+  }
+
+  private defaultValue(field: Prisma.DMMF.Field): unknown {
+    if (field.isUpdatedAt) return new Date();
+    if (!field.hasDefaultValue) return field.isList ? [] : null;
+
+    const fallback = field.default;
+    if (fallback && typeof fallback === 'object' && 'name' in fallback) {
+      switch (fallback.name) {
+        case 'now': return new Date();
+        case 'autoincrement': return ++this.sequence;
+        case 'cuid':
+        case 'uuid': return uuidv4();
+        default: return null;
+      }
+    }
+    return this.stored(field, Array.isArray(fallback) ? [...fallback] : fallback);
+  }
+
+  // Values the way Prisma returns them: Decimal columns as Decimal, dates as
+  // Date, JSON detached from the caller's objects
+  private stored(field: Prisma.DMMF.Field, value: unknown): unknown {
+    if (value === null) return null;
+    if (field.type === 'Decimal') return new Prisma.Decimal(value as Prisma.Decimal.Value);
+    if (field.type === 'DateTime') return new Date(value as Date | string);
+    if (field.type === 'Json') return JSON.parse(JSON.stringify(value));
+    return value;
+  }
+}
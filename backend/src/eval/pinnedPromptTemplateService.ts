@@ -0,0 +1,36 @@
+import { PromptKey, PromptScope, PromptTemplateService, ResolvedPrompt } from '../services/promptTemplateService';
+
+// A prompt version under evaluation: a stored template or an unsaved candidate
+export interface PinnedPrompt {
+  key: PromptKey;
+  id: string | null;
+  version: number;
+  content: string;
+  variables?: string[];
+}
+
+// Serves the pinned version for its key regardless of scope or what is
+// active, and the built-in prompt for every other key, without the database
+export class PinnedPromptTemplateService extends PromptTemplateService {
+  private pinned: PinnedPrompt | null;
+
+  constructor(pinned: PinnedPrompt | null) {
+    super();
+    this.pinned = pinned;
+  }
+
+  async resolve(key: PromptKey, scope: PromptScope = {}, variables: Record<string, string | number | null | undefined> = {}): Promise<ResolvedPrompt> {
+    if (!this.pinned || this.pinned.key !== key) {
+      return this.resolveBuiltin(key, scope, variables);
+    }
+
+    return {
+      id: this.pinned.id,
+      key,
+      version: this.pinned.version,
+      vertical: scope.vertical || null,
+      serviceProvider: scope.serviceProvider || null,
+      content: this.render(this.pinned.content, variables, this.pinned.variables),
+    };
+  }
+}
@@ -0,0 +1,197 @@
+import 'dotenv/config';
+// First, so the services below load with the in-memory database
+import { evalDatabase } from './evalDatabase';
+import fs from 'fs';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { LangchainGeminiService } from '../services/langchainGeminiService';
+import { createLlmProvider, getLlmProviderConfig } from '../services/llmProvider';
+import { PROMPT_KEYS, PromptKey } from '../services/promptTemplateService';
+import { ConversationEvaluator, EvalRun } from './conversationEvaluator';
+import { CustomerSimulator, CustomerSimulatorType, LlmCustomerSimulator, ScriptedCustomerSimulator } from './customerSimulator';
+import { buildReport, compareReports, EvalPromptVersion, EvalReport, formatComparison, formatReport } from './evalReport';
+import { EVAL_PERSONAS, EvalPersona } from './personas';
+import { PinnedPrompt, PinnedPromptTemplateService } from './pinnedPromptTemplateService';
+
+const USAGE = `Usage: npm run eval -- [options]
+  --persona <id>        Run only this persona (repeatable; default: all)
+  --provider <name>     LLM provider for the agent: scripted | gemini | langchain (default: LLM_PROVIDER)
+  --simulator <type>    scripted (persona scripts) | llm (the provider plays the customer); default scripted
+  --prompt-id <id>      Evaluate a stored prompt template version
+  --prompt-file <path>  Evaluate an unsaved candidate prompt
+  --prompt-key <key>    Key of the candidate prompt: chat_response | initial_message (default chat_response)
+  --repeat <n>          Runs per persona (default 1)
+  --out <path>          Report file (default eval-reports/<key>-<label>.json)
+  --baseline <path>     Compare with an earlier report; regressions fail the run
+  --verbose             Show service logs while conversations run
+
+Exits with 1 when a check fails or the baseline comparison finds a regression.`;
+
+interface EvalCliOptions {
+  personas: string[];
+  provider?: string;
+  simulator: CustomerSimulatorType;
+  promptId?: string;
+  promptFile?: string;
+  promptKey: PromptKey;
+  repeat: number;
+  out?: string;
+  baseline?: string;
+  verbose: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): EvalCliOptions {
+  const options: EvalCliOptions = { personas: [], simulator: 'scripted', promptKey: 'chat_response', repeat: 1, verbose: false };
+  const value = (index: number, flag: string): string => {
+    const next = args[index + 1];
+    if (!next || next.startsWith('--')) throw new UsageError(`${flag} requires a value`);
+    return next;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    switch (flag) {
+      case '--persona': options.personas.push(value(i++, flag)); break;
+      case '--provider': options.provider = value(i++, flag); break;
+      case '--simulator': {
+        const simulator = value(i++, flag);
+        if (simulator !== 'scripted' && simulator !== 'llm') throw new UsageError(`Unknown simulator "${simulator}"`);
+        options.simulator = simulator;
+        break;
+      }
+      case '--prompt-id': options.promptId = value(i++, flag); break;
+      case '--prompt-file': options.promptFile = value(i++, flag); break;
+      case '--prompt-key': {
+        const key = value(i++, flag) as PromptKey;
+        if (!PROMPT_KEYS.includes(key)) throw new UsageError(`Unknown prompt key "${key}"`);
+        options.promptKey = key;
+        break;
+      }
+      case '--repeat': {
+        options.repeat = Number(value(i++, flag));
+        if (!Number.isInteger(options.repeat) || options.repeat < 1) throw new UsageError('--repeat must be a positive integer');
+        break;
+      }
+      case '--out': options.out = value(i++, flag); break;
+      case '--baseline': options.baseline = value(i++, flag); break;
+      case '--verbose': options.verbose = true; break;
+      case '--help': throw new UsageError('');
+      default: throw new UsageError(`Unknown option ${flag}`);
+    }
+  }
+
+  if (options.promptId && options.promptFile) throw new UsageError('Use either --prompt-id or --prompt-file');
+  return options;
+}
+
+function selectPersonas(ids: string[]): EvalPersona[] {
+  if (ids.length === 0) return EVAL_PERSONAS;
+  return ids.map(id => {
+    const persona = EVAL_PERSONAS.find(candidate => candidate.id === id);
+    if (!persona) throw new UsageError(`Unknown persona "${id}". Available: ${EVAL_PERSONAS.map(p => p.id).join(', ')}`);
+    return persona;
+  });
+}
+
+// The prompt version under test: a stored template (needs the database), a
+// candidate file, or the built-in prompt when neither is given
+async function loadPrompt(options: EvalCliOptions): Promise<{ pinned: PinnedPrompt | null; version: EvalPromptVersion }> {
+  if (options.promptId) {
+    // Stored templates are read from the real database; conversations run in memory
+    const database = new PrismaClient();
+    const template = await database.promptTemplate.findUnique({ where: { id: options.promptId } })
+      .finally(() => database.$disconnect());
+    if (!template) throw new UsageError(`Prompt template ${options.promptId} not found`);
+    const key = template.key as PromptKey;
+    return {
+      pinned: { key, id: template.id, version: template.version, content: template.content, variables: template.variables },
+      version: { key, id: template.id, version: template.version, label: `v${template.version}` },
+    };
+  }
+
+  if (options.promptFile) {
+    const content = fs.readFileSync(options.promptFile, 'utf8');
+    const label = `candidate-${path.basename(options.promptFile, path.extname(options.promptFile))}`;
+    return {
+      pinned: { key: options.promptKey, id: null, version: 0, content },
+      version: { key: options.promptKey, id: null, version: 0, label },
+    };
+  }
+
+  return { pinned: null, version: { key: options.promptKey, id: null, version: 0, label: 'builtin' } };
+}
+
+// The services log every step; the report is what matters here
+function silenceLogs(): () => void {
+  const original = { log: console.log, info: console.info, warn: console.warn, error: console.error };
+  console.log = console.info = console.warn = console.error = () => undefined;
+  return () => Object.assign(console, original);
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+  const personas = selectPersonas(options.personas);
+
+  const config = getLlmProviderConfig(options.provider ? { ...process.env, LLM_PROVIDER: options.provider } : process.env);
+  if (options.simulator === 'llm' && config.provider === 'scripted') {
+    throw new UsageError('The llm simulator needs a real model; set --provider or LLM_PROVIDER');
+  }
+
+  const prompt = await loadPrompt(options);
+  const provider = createLlmProvider(config);
+  const aiService = new LangchainGeminiService(provider, undefined, new PinnedPromptTemplateService(prompt.pinned));
+  const simulator: CustomerSimulator = options.simulator === 'llm'
+    ? new LlmCustomerSimulator(provider)
+    : new ScriptedCustomerSimulator();
+  const evaluator = new ConversationEvaluator(aiService, simulator, evalDatabase);
+
+  const restoreLogs = options.verbose ? () => undefined : silenceLogs();
+  const runs: EvalRun[] = [];
+  try {
+    for (const persona of personas) {
+      for (let i = 0; i < options.repeat; i++) {
+        runs.push(await evaluator.run(persona));
+      }
+    }
+  } finally {
+    restoreLogs();
+  }
+
+  const report: EvalReport = buildReport({
+    prompt: prompt.version,
+    provider: { name: provider.name, model: provider.model },
+    simulator: simulator.name,
+    runs,
+  });
+
+  const out = options.out || path.join('eval-reports', `${prompt.version.key}-${prompt.version.label}.json`);
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, JSON.stringify(report, null, 2));
+
+  console.log(formatReport(report));
+  console.log(`\nReport written to ${out}`);
+
+  let failed = report.summary.passedRuns < report.summary.runs;
+  if (options.baseline) {
+    const baseline: EvalReport = JSON.parse(fs.readFileSync(options.baseline, 'utf8'));
+    const comparison = compareReports(baseline, report);
+    console.log(`\n${formatComparison(comparison)}`);
+    failed = failed || comparison.regressions.length > 0;
+  }
+
+  return failed ? 1 : 0;
+}
+
+void main()
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      if (error.message) console.error(error.message);
+      console.error(USAGE);
+    } else {
+      console.error('Error running evaluation:', error);
+    }
+    return 2;
+  })
+  .then((code) => process.exit(code));
@@ -1,4 +1,6 @@
-export type MessageSender = 'ai' | 'customer';
+// 'human' is a human agent who took over an escalated conversation; 'system'
+// is an instruction from the server to the model, never shown to the customer
+export type MessageSender = 'ai' | 'customer' | 'human' | 'system';
 export type MessageType =
   | 'greeting'
   | 'question'
@@ -7,6 +9,212 @@ export type MessageType =
   | 'confirmation'
   | 'error';
 
+export type ChatActionType =
+  | 'show_payment_options'
+  | 'send_invoice'
+  | 'offer_installments'
+  | 'escalate_to_human'
+  | 'close_conversation'
+  | 'record_payment_promise';
+
+export type PaymentMethodOption = 'credit' | 'pix' | 'boleto';
+
+export interface InvoiceData {
+  customerName: string;
+  accountNumber: string;
+  brandName: string;
+  dueDate: string;
+  amount: number;
+  billPeriod: string;
+  // Card installments allowed by the negotiation policy
+  maxInstallments?: number;
+  // Provider branding from the catalog; the card keeps its default look without them
+  brandColor?: string;
+  brandTextColor?: string;
+  logoUrl?: string;
+}
+
+// A plan computed by the negotiation engine. Single payments (in full or
+// postponed) have installments = 1.
+export interface PaymentPlanOption {
+  id: string;
+  installments: number;
+  downPayment: number;
+  installmentAmount: number;
+  discountPercent: number;
+  totalAmount: number;
+  firstDueDate: string;
+}
+
+export type ChatAction =
+  | { type: 'show_payment_options'; payload: { methods: PaymentMethodOption[] } }
+  | { type: 'send_invoice'; payload: InvoiceData }
+  | { type: 'offer_installments'; payload: { maxInstallments: number; plans: PaymentPlanOption[] } }
+  | { type: 'escalate_to_human'; payload: { reason: string } }
+  | { type: 'close_conversation'; payload: { reason: 'payment_completed' | 'customer_declined' | 'resolved' | 'other' } }
+  // promisedDate is YYYY-MM-DD; amount in reais, the whole debt unless the customer named less
+  | { type: 'record_payment_promise'; payload: { promisedDate: string; amount: number } };
+
+export const MESSAGE_INTENTS = [
+  'wants_to_pay',
+  'payment_method_choice',
+  'already_paid',
+  'dispute',
+  'negotiate',
+  'promise_to_pay',
+  'hardship',
+  'opt_out',
+  'wrong_person',
+  'off_topic',
+] as const;
+
+export type MessageIntent = typeof MESSAGE_INTENTS[number];
+
+// Intent of a customer message, recorded before the agent replies
+export interface IntentClassification {
+  intent: MessageIntent;
+  confidence: number;
+  classifier: 'rule' | 'llm';
+  paymentMethod?: PaymentMethodOption;
+}
+
+export type GuardrailRule =
+  | 'link'
+  | 'length'
+  | 'policy_promise'
+  | 'leaked_token'
+  | 'technical_difficulty'
+  | 'other_customer_data';
+
+export interface GuardrailViolationDetail {
+  rule: GuardrailRule;
+  detail: string;
+}
+
+// Present when the first generated reply failed the output guardrails
+export interface GuardrailMetadata {
+  violations: GuardrailViolationDetail[];
+  resolution: 'regenerated' | 'fallback';
+}
+
+// Present when the reply came from the rule-based path because the model failed
+// or its circuit breaker was open
+export interface FallbackMetadata {
+  reason: 'circuit_open' | 'model_error';
+}
+
+// Prompt template version that produced an AI message (version 0 = built-in)
+export interface PromptVersionMetadata {
+  id: string | null;
+  key: string;
+  version: number;
+  vertical: string | null;
+  serviceProvider: string | null;
+}
+
+// Policy passage the reply was grounded on; kept for review, never shown to the customer
+export interface KnowledgeCitation {
+  documentId: string;
+  title: string;
+  chunkId: string;
+  score: number;
+}
+
+// Scored on customer messages. sentiment runs from -1 (negative) to 1
+// (positive); frustration from 0 to 1.
+export interface SentimentScore {
+  sentiment: number;
+  frustration: number;
+  scorer: 'lexicon';
+}
+
+// Set on the agent's messages while handling an opt-out request
+export interface OptOutMetadata {
+  status: 'pending_confirmation' | 'confirmed';
+}
+
+// How a customer's claim that they already paid was settled
+export type PaymentDisputeResolution = 'payment_found' | 'pending_reconciliation' | 'no_record';
+
+// Set on the agent's answer to an "already paid" claim
+export interface PaymentDisputeMetadata {
+  disputeId: string;
+  resolution: PaymentDisputeResolution;
+  receiptRequested: boolean;
+}
+
+// Set on customer voice notes. The message content is the transcript, so
+// the rest of the pipeline treats it like typed text.
+export interface AudioMetadata {
+  storageKey: string;
+  contentType: string;
+  sizeBytes: number;
+  // null when the transcriber heard nothing or failed
+  transcript: string | null;
+  transcriber: string;
+  language?: string;
+  transcriptionError?: boolean;
+}
+
+// Set on a payment receipt (comprovante) the customer uploaded. The file and
+// what was read from it are kept on the receipt for supervisor review.
+export interface ReceiptMetadata {
+  receiptId: string;
+  contentType: string;
+  sizeBytes: number;
+  fileName?: string;
+}
+
+// Ways a customer message can try to steer the agent
+export const PROMPT_INJECTION_CATEGORIES = [
+  'instruction_override',
+  'prompt_extraction',
+  'fake_authority',
+  'role_play',
+  'tool_spoofing',
+  'forced_outcome',
+] as const;
+
+export type PromptInjectionCategory = typeof PROMPT_INJECTION_CATEGORIES[number];
+
+// Set on customer messages flagged as a prompt injection or jailbreak attempt.
+// A flagged message is never sent to the model.
+export interface PromptInjectionMetadata {
+  flagged: boolean;
+  // 0 to 1
+  score: number;
+  categories: PromptInjectionCategory[];
+  detector: 'rule' | 'llm';
+}
+
+// Why a conversation was handed to a human agent
+export type EscalationTrigger = 'customer_request' | 'intent' | 'frustration' | 'loop' | 'agent' | 'supervisor' | 'receipt_rejected';
+
+// Set on messages sent by a human agent
+export interface HumanAgentMetadata {
+  id: string;
+  name: string;
+}
+
+export interface ChatMessageMetadata {
+  action?: ChatAction;
+  prompt?: PromptVersionMetadata;
+  intent?: IntentClassification;
+  guardrails?: GuardrailMetadata;
+  fallback?: FallbackMetadata;
+  optOut?: OptOutMetadata;
+  sentiment?: SentimentScore;
+  humanAgent?: HumanAgentMetadata;
+  audio?: AudioMetadata;
+  receipt?: ReceiptMetadata;
+  injection?: PromptInjectionMetadata;
+  knowledge?: KnowledgeCitation[];
+  paymentDispute?: PaymentDisputeMetadata;
+  // Set on the reminder sent to a customer who stopped answering
+  nudge?: boolean;
+  [key: string]: unknown;
+}
+
 interface ChatMessageData {
   id?: string;
   chatSessionId: string;
@@ -14,6 +222,7 @@ interface ChatMessageData {
   content: string;
   timestamp: Date;
   messageType?: MessageType;
+  metadata?: ChatMessageMetadata;
 }
 
 class ChatMessage {
@@ -23,6 +232,7 @@ class ChatMessage {
   content: string;
   timestamp: Date;
   messageType: MessageType;
+  metadata: ChatMessageMetadata;
 
   constructor({
     id = `msg_${Date.now()}`,
@@ -31,6 +241,7 @@ class ChatMessage {
     content,
     timestamp,
     messageType = 'question',
+    metadata = {},
   }: ChatMessageData) {
     if (!chatSessionId || !sender || !content || !timestamp) {
       throw new Error(
@@ -44,6 +255,7 @@ class ChatMessage {
     this.content = content;
     this.timestamp = timestamp;
     this.messageType = messageType;
+    this.metadata = metadata;
 
     this.validate();
   }
@@ -6,6 +6,7 @@ export type ChatSessionStatus =
   | 'in-progress'
   | 'payment-requested'
   | 'payment-processing'
+  | 'escalated'
   | 'completed'
   | 'abandoned';
 export type ChatSessionOutcome =
@@ -29,8 +29,24 @@ import queueRoutes from './api/queue';
 import paymentRoutes from './api/payments';
 import langsmithRoutes from './api/langsmith';
 import analyticsRoutes from './api/analytics';
+import promptRoutes from './api/prompts';
+import negotiationPolicyRoutes from './api/negotiationPolicies';
+import handoffRoutes from './api/handoff';
+import knowledgeBaseRoutes from './api/knowledgeBase';
+import serviceProviderRoutes from './api/serviceProviders';
+import receiptRoutes from './api/receipts';
+import securityRoutes from './api/security';
 import { QueueService } from './services/queueService';
+import { escalationService } from './services/escalationService';
+import { ConversationOrchestrator } from './services/conversationOrchestrator';
+import { sessionStateMachine } from './services/sessionStateMachine';
+import { InactivitySweeper } from './services/inactivitySweeper';
+import { messageReceiptService } from './services/messageReceiptService';
 import { LangchainGeminiService } from './services/langchainGeminiService';
+import { createLlmProvider, getLlmProviderConfig } from './services/llmProvider';
+import { tracingService } from './services/tracingService';
+import { llmCircuitBreaker } from './services/resilientLlmProvider';
+import { serviceProviderService } from './services/serviceProviderService';
 
 // Initialize LangchainGeminiService
 let aiChatService: LangchainGeminiService;
@@ -38,40 +54,49 @@ let aiChatService: LangchainGeminiService;
 try {
   console.log('=== AI Service Initialization ===');
 
-  // Check required API keys
-  const hasGemini = !!process.env.GEMINI_API_KEY;
+  const llmConfig = getLlmProviderConfig();
 
-  console.log('API Keys status:');
-  console.log('- GEMINI_API_KEY:', hasGemini ? 'PRESENT' : 'MISSING');
-  console.log('- LANGCHAIN_API_KEY:', !!process.env.LANGCHAIN_API_KEY ? 'PRESENT (optional)' : 'MISSING (tracing disabled)');
+  console.log('LLM provider configuration:');
+  console.log('- LLM_PROVIDER:', llmConfig.provider, process.env.LLM_PROVIDER ? '' : '(auto)');
+  console.log('- GEMINI_API_KEY:', process.env.GEMINI_API_KEY ? 'PRESENT' : 'MISSING');
+  console.log('- LANGCHAIN_API_KEY:', process.env.LANGCHAIN_API_KEY ? 'PRESENT (optional)' : 'MISSING (tracing disabled)');
 
-  if (!hasGemini) {
-    throw new Error('GEMINI_API_KEY is required for LangchainGeminiService. Please set this environment variable.');
+  if (llmConfig.provider === 'scripted') {
+    console.warn('⚠️  Using the offline scripted LLM provider - replies are deterministic, not model-generated');
   }
 
   console.log('Initializing LangchainGeminiService...');
-  aiChatService = new LangchainGeminiService();
+  aiChatService = new LangchainGeminiService(createLlmProvider(llmConfig));
   console.log('✅ LangchainGeminiService initialized successfully');
 
 } catch (error) {
   console.error('❌ Failed to initialize LangchainGeminiService:', error);
-  console.error('Please ensure GEMINI_API_KEY is set in your environment variables.');
+  console.error('Please check the LLM_PROVIDER settings in your environment variables.');
   process.exit(1);
 }
 
 // Initialize queue service
 const queueService = new QueueService(aiChatService);
 
+// Chat sessions from the opening message to their end
+const conversationOrchestrator = new ConversationOrchestrator(aiChatService, queueService, io);
+queueService.setConversationOrchestrator(conversationOrchestrator);
+
+// Nudges, then abandons, sessions the customer stopped answering
+const inactivitySweeper = new InactivitySweeper(conversationOrchestrator);
+
 // Make services available to routes
 app.set('queueService', queueService);
 app.set('aiChatService', aiChatService);
+app.set('conversationOrchestrator', conversationOrchestrator);
 
 // Add debug endpoint to check AI service status
 app.get('/api/debug/ai-service', (req, res) => {
   res.json({
     service: 'LangchainGeminiService',
     timestamp: new Date().toISOString(),
-    geminiModel: 'gemini-pro',
+    llm: aiChatService.getProviderInfo(),
+    circuitBreaker: llmCircuitBreaker.getStatus(),
     langsmithEnabled: !!process.env.LANGCHAIN_API_KEY,
     queueService: queueService.getAIServiceInfo()
   });
@@ -83,12 +108,42 @@ app.use('/api/queue', queueRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/langsmith', langsmithRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/admin/prompts', promptRoutes);
+app.use('/api/admin/negotiation-policies', negotiationPolicyRoutes);
+app.use('/api/admin/handoff', handoffRoutes);
+app.use('/api/admin/knowledge-base', knowledgeBaseRoutes);
+app.use('/api/admin/service-providers', serviceProviderRoutes);
+app.use('/api/admin/receipts', receiptRoutes);
+app.use('/api/admin/security', securityRoutes);
 
 // Connect queue service to Socket.io for real-time events
 queueService.setEventEmitter((event: string, data: any) => {
   io.emit('queue-event', { event, data });
 });
 
+// Handoff steps reach supervisors and the customer's chat
+escalationService.setEventEmitter((event, data) => {
+  io.to('queue-monitoring').emit('handoff-event', { event, data });
+  io.to(data.sessionId).emit('handoff-status', { event, ...data });
+});
+
+// Session state changes reach supervisors and the customer's chat
+sessionStateMachine.setEventEmitter((transition) => {
+  io.to('queue-monitoring').emit('session-state-changed', transition);
+  io.to(transition.sessionId).emit('session-state-changed', transition);
+});
+
+// Nudged and abandoned sessions refresh the queue dashboards
+inactivitySweeper.setEventEmitter((event, data) => {
+  io.emit('queue-event', { event: `session-${event}`, data });
+});
+
+// Delivered and read receipts reach supervisors and the customer's chat
+messageReceiptService.setEventEmitter((update) => {
+  io.to('queue-monitoring').emit('message-status', update);
+  io.to(update.sessionId).emit('message-status', update);
+});
+
 // Socket.io connection handling
 io.on('connection', (socket) => {
   console.log('A user connected:', socket.id);
@@ -114,6 +169,19 @@ io.on('connection', (socket) => {
     socket.emit('queue-status', queueStatus);
   });
 
+  // The customer's chat reports agent messages shown on a visible page
+  socket.on('messages-read', (data) => {
+    const sessionId = data?.sessionId;
+    const messageIds = Array.isArray(data?.messageIds)
+      ? data.messageIds.filter((id: unknown): id is string => typeof id === 'string').slice(0, 100)
+      : [];
+    if (typeof sessionId !== 'string' || messageIds.length === 0) return;
+
+    messageReceiptService.markRead(sessionId, messageIds).catch(error => {
+      console.error('Error marking messages read:', error);
+    });
+  });
+
   socket.on('send-message', (data) => {
     socket.to(data.chatSessionId).emit('receive-message', data);
   });
@@ -127,6 +195,7 @@ io.on('connection', (socket) => {
 const initializeQueue = async () => {
   try {
     console.log('=== Queue Initialization ===');
+    await serviceProviderService.load(true);
     await queueService.refreshQueue(); // No parameters - will fetch from database
     const queueStatus = queueService.getQueueStatus();
     console.log(`✅ Queue initialized with ${queueStatus.queue.length} at-risk customers from database`);
@@ -138,16 +207,20 @@ const initializeQueue = async () => {
 
 // Health check endpoint
 app.get('/health', (req, res) => {
+  const circuitBreaker = llmCircuitBreaker.getStatus();
   res.json({
-    status: 'ok',
+    // Degraded: replies come from the rule-based fallback and the queue is paused
+    status: circuitBreaker.state === 'open' ? 'degraded' : 'ok',
     timestamp: new Date().toISOString(),
     services: {
       ai: 'LangchainGeminiService',
       queue: 'QueueService',
       database: 'prisma',
-      gemini: 'active',
-      langsmith: !!process.env.LANGCHAIN_API_KEY ? 'enabled' : 'disabled'
-    }
+      llm: aiChatService.getProviderInfo().provider,
+      langsmith: !!process.env.LANGCHAIN_API_KEY ? 'enabled' : 'disabled',
+      llmCircuitBreaker: circuitBreaker.state
+    },
+    circuitBreaker
   });
 });
 
@@ -156,14 +229,16 @@ const PORT = process.env.PORT || 3001;
 server.listen(PORT, async () => {
   console.log('===========================================');
   console.log(`🚀 Server is running on port ${PORT}`);
-  console.log(`🤖 AI Service: LangchainGeminiService with Gemini Pro`);
-  console.log(`🔧 LangSmith: ${!!process.env.LANGCHAIN_API_KEY ? 'Enabled' : 'Disabled'}`);
+  const llm = aiChatService.getProviderInfo();
+  console.log(`🤖 AI Service: LangchainGeminiService with ${llm.provider} (${llm.model})`);
+  console.log(`🔧 Tracing: ${tracingService.backendName || 'Disabled'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
   console.log(`🔗 AI debug: http://localhost:${PORT}/api/debug/ai-service`);
   console.log('===========================================');
 
   // Initialize queue after a short delay to ensure server is ready
   setTimeout(initializeQueue, 2000);
+  inactivitySweeper.start();
 });
 
 export default app;
\ No newline at end of file
@@ -1,7 +1,8 @@
-import { Client } from 'langsmith';
 import { LangchainGeminiService } from './langchainGeminiService';
+import { LlmCallSample, llmUsageService } from './llmUsageService';
 import { prisma } from '../lib/prisma';
 import { ChatSession, Customer, ChatMessage } from '@prisma/client';
+import { ChatMessageMetadata } from '../models/chatMessage';
 
 type ConversationWithDetails = ChatSession & {
   customer: Customer | null;
@@ -84,16 +85,12 @@ interface ROIAnalysis {
 }
 
 export class AnalyticsService {
-  private langsmithClient: Client | null;
   private aiService: LangchainGeminiService;
   private realtimeSubscribers: Set<(data: any) => void> = new Set();
   private monitoringInterval: NodeJS.Timeout | null = null;
 
   constructor(aiService: LangchainGeminiService) {
     this.aiService = aiService;
-    this.langsmithClient = process.env.LANGCHAIN_API_KEY
-      ? new Client({ apiKey: process.env.LANGCHAIN_API_KEY })
-      : null;
 
     // Start real-time monitoring
     this.startRealtimeMonitoring();
@@ -120,19 +117,17 @@ export class AnalyticsService {
         },
       });
 
-      // Get LangSmith runs for the same period
-      const langsmithData = await this.getLangSmithRunsForPeriod(startDate, endDate);
+      // Recorded model calls for the same period
+      const llmCalls = await llmUsageService.getCalls(startDate, endDate);
 
       // Process data by time granularity
-      const groupedData = this.groupDataByPeriod(sessions, granularity);
+      const groupedData = this.groupDataByPeriod(sessions, session => session.startTime, granularity);
+      const groupedCalls = this.groupDataByPeriod(llmCalls, call => call.createdAt, granularity);
 
       const metrics: PerformanceMetrics[] = [];
 
       for (const [period, sessionData] of Object.entries(groupedData)) {
-        const periodMetrics = await this.calculatePeriodMetrics(
-          sessionData,
-          langsmithData.filter(run => this.isRunInPeriod(run, period, granularity))
-        );
+        const periodMetrics = await this.calculatePeriodMetrics(sessionData, groupedCalls[period] || []);
         metrics.push({
           period,
           ...periodMetrics,
@@ -275,9 +270,8 @@ export class AnalyticsService {
       0
     ) / 100;
 
-    // Get recent LangSmith runs for response time
-    const recentRuns = await this.getRecentLangSmithRuns(50);
-    const avgResponseTime = this.calculateAverageResponseTime(recentRuns);
+    // Latency of the most recent model calls, in seconds
+    const avgResponseTime = await llmUsageService.getRecentAverageLatency(50) / 1000;
 
     return {
       activeConversations: activeSessions,
@@ -290,71 +284,43 @@ export class AnalyticsService {
   }
 
   // Helper methods
-  private async getLangSmithRunsForPeriod(startDate: Date, endDate: Date): Promise<any[]> {
-    if (!this.langsmithClient) return [];
-
-    try {
-      const runs = this.langsmithClient.listRuns({
-        projectName: process.env.LANGCHAIN_PROJECT || 'gemini-churn-prevention',
-        limit: 1000,
-      });
-
-      const runsArray: any[] = [];
-      for await (const run of runs) {
-        const runDate = new Date(run.start_time || new Date());
-        if (runDate >= startDate && runDate <= endDate) {
-          runsArray.push(run);
-        }
-      }
-
-      return runsArray;
-    } catch (error) {
-      console.error('Error fetching LangSmith runs:', error);
-      return [];
-    }
-  }
-
-  private groupDataByPeriod(sessions: any[], granularity: string): Record<string, any[]> {
-    const grouped: Record<string, any[]> = {};
-
-    sessions.forEach(session => {
-      const date = new Date(session.startTime);
-      let key: string;
-
-      switch (granularity) {
-        case 'hour':
-          key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')} ${String(date.getHours()).padStart(2, '0')}:00`;
-          break;
-        case 'week':
-          const weekStart = new Date(date);
-          weekStart.setDate(date.getDate() - date.getDay());
-          key = weekStart.toISOString().split('T')[0] || weekStart.toISOString();
-          break;
-        case 'month':
-          key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-          break;
-        default: // day
-          key = date.toISOString().split('T')[0] || date.toISOString();
-      }
+  private groupDataByPeriod<T>(items: T[], getDate: (item: T) => Date, granularity: string): Record<string, T[]> {
+    const grouped: Record<string, T[]> = {};
 
+    items.forEach(item => {
+      const key = this.getPeriodKey(new Date(getDate(item)), granularity);
       if (!grouped[key]) grouped[key] = [];
-      grouped[key]?.push(session);
+      grouped[key]?.push(item);
     });
 
     return grouped;
   }
 
-  private async calculatePeriodMetrics(sessions: any[], langsmithRuns: any[]): Promise<Omit<PerformanceMetrics, 'period'>> {
+  private getPeriodKey(date: Date, granularity: string): string {
+    switch (granularity) {
+      case 'hour':
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')} ${String(date.getHours()).padStart(2, '0')}:00`;
+      case 'week': {
+        const weekStart = new Date(date);
+        weekStart.setDate(date.getDate() - date.getDay());
+        return weekStart.toISOString().split('T')[0] || weekStart.toISOString();
+      }
+      case 'month':
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      default: // day
+        return date.toISOString().split('T')[0] || date.toISOString();
+    }
+  }
+
+  private async calculatePeriodMetrics(sessions: any[], llmCalls: LlmCallSample[]): Promise<Omit<PerformanceMetrics, 'period'>> {
     const successfulSessions = sessions.filter(s =>
       s.outcome === 'payment_completed' || s.outcome === 'resolved'
     );
 
-    const totalTokens = langsmithRuns.reduce((sum, run) => {
-      return sum + (run.outputs?.llmOutput?.tokenUsage?.totalTokens || 0);
-    }, 0);
-
-    const avgTokens = langsmithRuns.length > 0 ? totalTokens / langsmithRuns.length : 0;
-    const tokenCost = totalTokens * 0.0001; // Estimated cost per token
+    const usage = llmUsageService.summarize(llmCalls);
+    const totalTokens = usage.totalTokens;
+    const avgTokens = usage.averageTokens;
+    const tokenCost = usage.cost;
 
     const revenueRecovered = successfulSessions.reduce((sum: number, session: any) => {
       return sum + Number(session.customer?.accountValue || 0);
@@ -512,25 +478,40 @@ export class AnalyticsService {
       .map(([hour]) => Number(hour));
   }
 
-  private async analyzePromptEffectiveness(conversations: any[]): Promise<Array<{
+  private async analyzePromptEffectiveness(conversations: ConversationWithDetails[]): Promise<Array<{
     prompt: string;
     successRate: number;
     usageCount: number;
   }>> {
-    // This would analyze different prompt templates used
-    // For now, return mock data structure
-    return [
-      {
-        prompt: 'empathetic_greeting',
-        successRate: 85.2,
-        usageCount: 156,
-      },
-      {
-        prompt: 'direct_payment_request',
-        successRate: 72.1,
-        usageCount: 89,
-      },
-    ];
+    // Group conversations by the prompt versions recorded on their AI messages
+    const usage: { [prompt: string]: { total: number; successful: number } } = {};
+
+    conversations.forEach(conv => {
+      const isSuccess = conv.outcome === 'payment_completed' || conv.outcome === 'resolved';
+      const prompts = new Set<string>();
+
+      conv.messages.forEach(msg => {
+        const prompt = (msg.metadata as ChatMessageMetadata | null)?.prompt;
+        if (msg.sender === 'AI' && prompt) {
+          const scope = prompt.serviceProvider || prompt.vertical;
+          prompts.add(`${prompt.key}@v${prompt.version}${scope ? ` (${scope})` : ''}`);
+        }
+      });
+
+      prompts.forEach(prompt => {
+        usage[prompt] = usage[prompt] || { total: 0, successful: 0 };
+        usage[prompt]!.total++;
+        if (isSuccess) usage[prompt]!.successful++;
+      });
+    });
+
+    return Object.entries(usage)
+      .map(([prompt, { total, successful }]) => ({
+        prompt,
+        successRate: Math.round((successful / total) * 1000) / 10,
+        usageCount: total,
+      }))
+      .sort((a, b) => b.usageCount - a.usageCount);
   }
 
   private analyzeCustomerResponses(conversations: any[]): Array<{
@@ -553,13 +534,9 @@ export class AnalyticsService {
     ];
   }
 
+  // Actual model spend recorded for the period
   private async calculateTokenCosts(startDate: Date, endDate: Date): Promise<number> {
-    const runs = await this.getLangSmithRunsForPeriod(startDate, endDate);
-    const totalTokens = runs.reduce((sum, run) => {
-      return sum + (run.outputs?.llmOutput?.tokenUsage?.totalTokens || 0);
-    }, 0);
-
-    return totalTokens * 0.0001; // Estimated cost per token
+    return llmUsageService.getTotalCost(startDate, endDate);
   }
 
   private estimateInfrastructureCosts(startDate: Date, endDate: Date): number {
@@ -581,48 +558,6 @@ export class AnalyticsService {
     return Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
   }
 
-  private isRunInPeriod(run: any, period: string, granularity: string): boolean {
-    // Implementation depends on granularity and period format
-    return true; // Simplified for now
-  }
-
-  private async getRecentLangSmithRuns(limit: number): Promise<any[]> {
-    if (!this.langsmithClient) return [];
-
-    try {
-      const runs = this.langsmithClient.listRuns({
-        projectName: process.env.LANGCHAIN_PROJECT || 'gemini-churn-prevention',
-        limit,
-      });
-
-      const runsArray: any[] = [];
-      let count = 0;
-      for await (const run of runs) {
-        if (count >= limit) break;
-        runsArray.push(run);
-        count++;
-      }
-
-      return runsArray;
-    } catch (error) {
-      console.error('Error fetching recent runs:', error);
-      return [];
-    }
-  }
-
-  private calculateAverageResponseTime(runs: any[]): number {
-    if (runs.length === 0) return 0;
-
-    const totalTime = runs.reduce((sum, run) => {
-      if (run.start_time && run.end_time) {
-        return sum + (new Date(run.end_time).getTime() - new Date(run.start_time).getTime());
-      }
-      return sum;
-    }, 0);
-
-    return totalTime / runs.length / 1000; // Return in seconds
-  }
-
   private assessQueueHealth(): string {
     // Implementation would check queue performance metrics
     return 'healthy'; // Simplified
@@ -790,11 +725,7 @@ export class AnalyticsService {
         currentImpact: 78,
         trend: 'up' as const,
       },
-      {
-        factor: 'Customer Sentiment',
-        currentImpact: 82,
-        trend: 'down' as const,
-      },
+      this.getSentimentFactor(todaysSessions),
     ];
 
     return {
@@ -804,6 +735,30 @@ export class AnalyticsService {
     };
   }
 
+  // Average customer sentiment of today's sessions on a 0-100 scale, trending
+  // by comparing the last 3 hours with the rest of the day
+  private getSentimentFactor(sessions: ChatSession[]): { factor: string; currentImpact: number; trend: 'up' | 'down' | 'stable' } {
+    const threeHoursAgo = new Date(Date.now() - 3 * 60 * 60 * 1000);
+    const scored = sessions.filter(session => session.sentimentScore !== null);
+    const average = (list: ChatSession[]) =>
+      list.length > 0 ? list.reduce((sum, session) => sum + (session.sentimentScore || 0), 0) / list.length : null;
+
+    const overall = average(scored);
+    const recent = average(scored.filter(session => session.startTime >= threeHoursAgo));
+    const earlier = average(scored.filter(session => session.startTime < threeHoursAgo));
+
+    let trend: 'up' | 'down' | 'stable' = 'stable';
+    if (recent !== null && earlier !== null && Math.abs(recent - earlier) >= 0.1) {
+      trend = recent > earlier ? 'up' : 'down';
+    }
+
+    return {
+      factor: 'Customer Sentiment',
+      currentImpact: overall === null ? 0 : Math.round((overall + 1) * 50),
+      trend,
+    };
+  }
+
   private async detectEmergingPatterns(sessions: any[]): Promise<Array<{
     pattern: string;
     frequency: number;
@@ -846,6 +801,17 @@ export class AnalyticsService {
       });
     }
 
+    // Sessions that raised a frustration alert to supervisors
+    const frustrated = recentHours.filter(session => session.frustrationAlertedAt);
+
+    if (frustrated.length > 0) {
+      patterns.push({
+        pattern: 'Frustrated Customers',
+        frequency: frustrated.length,
+        impact: 'negative',
+      });
+    }
+
     return patterns;
   }
 }
\ No newline at end of file
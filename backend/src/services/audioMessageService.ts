@@ -0,0 +1,87 @@
+import ChatMessage, { AudioMetadata } from '../models/chatMessage';
+import { FileStorage, baseContentType, fileStorage } from './fileStorage';
+import { Transcriber, createTranscriber } from './speechToText';
+
+export interface AudioMessageConfig {
+  // Largest voice note accepted, in bytes
+  maxBytes: number;
+}
+
+// Formats browsers record voice notes in, plus the common uploads
+export const AUDIO_CONTENT_TYPES = ['audio/webm', 'audio/ogg', 'audio/mpeg', 'audio/mp4', 'audio/wav', 'audio/x-wav'];
+
+export function getAudioMessageConfig(env: typeof process.env = process.env): AudioMessageConfig {
+  return {
+    maxBytes: Number(env.AUDIO_MAX_BYTES) || 10 * 1024 * 1024,
+  };
+}
+
+// Customer voice notes: the audio is stored, then transcribed, and the
+// transcript goes through the same pipeline as a typed message. A voice note
+// that can't be transcribed is kept for supervisors and the customer is asked
+// to type instead.
+export class AudioMessageService {
+  private storage: FileStorage;
+  private transcriber: Transcriber;
+  readonly config: AudioMessageConfig;
+
+  constructor(
+    storage: FileStorage = fileStorage,
+    transcriber: Transcriber = createTranscriber(),
+    config: AudioMessageConfig = getAudioMessageConfig()
+  ) {
+    this.storage = storage;
+    this.transcriber = transcriber;
+    this.config = config;
+  }
+
+  isSupported(contentType: string | undefined): boolean {
+    return !!contentType && AUDIO_CONTENT_TYPES.includes(baseContentType(contentType));
+  }
+
+  // Stores and transcribes a voice note. A transcription error leaves the
+  // transcript null rather than losing the audio.
+  async ingest(chatSessionId: string, audio: Buffer, contentType: string): Promise<AudioMetadata> {
+    const stored = await this.storage.save(audio, { folder: `audio/${chatSessionId}`, contentType });
+
+    try {
+      const result = await this.transcriber.transcribe(audio, stored.contentType);
+      console.log(`Voice note ${stored.key} transcribed by ${result.transcriber} in ${result.durationMs}ms`);
+      return {
+        storageKey: stored.key,
+        contentType: stored.contentType,
+        sizeBytes: stored.sizeBytes,
+        transcript: result.text || null,
+        transcriber: result.transcriber,
+        language: result.language,
+      };
+    } catch (error) {
+      console.error(`Error transcribing voice note ${stored.key}:`, error);
+      return {
+        storageKey: stored.key,
+        contentType: stored.contentType,
+        sizeBytes: stored.sizeBytes,
+        transcript: null,
+        transcriber: this.transcriber.name,
+        transcriptionError: true,
+      };
+    }
+  }
+
+  async read(audio: AudioMetadata): Promise<Buffer> {
+    return this.storage.read(audio.storageKey);
+  }
+
+  // The agent's answer to a voice note it couldn't understand
+  buildUnintelligibleReply(chatSessionId: string): ChatMessage {
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content: 'Desculpe, não consegui entender o seu áudio. Pode me mandar a mensagem por escrito?',
+      timestamp: new Date(),
+      messageType: 'question',
+    });
+  }
+}
+
+export const audioMessageService = new AudioMessageService();
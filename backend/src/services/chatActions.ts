@@ -0,0 +1,188 @@
+import Joi from 'joi';
+import { ChatAction, ChatActionType, InvoiceData } from '../models/chatMessage';
+import { LlmToolCall, LlmToolDefinition } from './llmProvider';
+import { NegotiationTerms } from './negotiationPolicyService';
+import { MAX_PROMISE_DAYS, isPromiseDateAllowed } from './paymentPromiseParser';
+
+// Tools the agent can call to drive the chat UI instead of replying with magic strings
+export const CHAT_ACTION_TOOLS: LlmToolDefinition[] = [
+  {
+    name: 'show_payment_options',
+    description: 'Mostra os botões de pagamento ao cliente. Use quando o cliente concordar em pagar ou escolher um método de pagamento.',
+    parameters: {
+      type: 'object',
+      properties: {
+        methods: {
+          type: 'array',
+          description: 'Métodos a exibir. Omitir para exibir todos.',
+          items: { type: 'string', enum: ['credit', 'pix', 'boleto'] },
+        },
+      },
+    },
+  },
+  {
+    name: 'send_invoice',
+    description: 'Reenvia o cartão da fatura em aberto com valor e vencimento.',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'offer_installments',
+    description: 'Mostra os planos de negociação permitidos pela política (parcelamento, pagamento à vista ou prorrogação). Os valores são calculados pelo sistema.',
+    parameters: {
+      type: 'object',
+      properties: {
+        maxInstallments: { type: 'integer', description: 'Número máximo de parcelas a exibir (2 a 24). Limitado pela política do cliente.' },
+      },
+      required: ['maxInstallments'],
+    },
+  },
+  {
+    name: 'escalate_to_human',
+    description: 'Transfere a conversa para um atendente humano.',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', description: 'Motivo da transferência.' },
+      },
+      required: ['reason'],
+    },
+  },
+  {
+    name: 'close_conversation',
+    description: 'Encerra a conversa após o pagamento confirmado, recusa definitiva ou problema resolvido.',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', enum: ['payment_completed', 'customer_declined', 'resolved', 'other'] },
+      },
+      required: ['reason'],
+    },
+  },
+  {
+    name: 'record_payment_promise',
+    description: `Registra a data em que o cliente prometeu pagar (ex.: "pago na sexta", "recebo dia 10") e encerra a conversa. A data deve estar entre hoje e os próximos ${MAX_PROMISE_DAYS} dias.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        promisedDate: { type: 'string', description: 'Data prometida no formato AAAA-MM-DD.' },
+        amount: { type: 'number', description: 'Valor prometido em reais, se o cliente informou. Omitir para o valor total da dívida.' },
+      },
+      required: ['promisedDate'],
+    },
+  },
+];
+
+const actionSchemas: Record<ChatActionType, Joi.ObjectSchema> = {
+  show_payment_options: Joi.object({
+    methods: Joi.array()
+      .items(Joi.string().valid('credit', 'pix', 'boleto'))
+      .min(1)
+      .unique()
+      .default(['credit', 'pix', 'boleto']),
+  }),
+  send_invoice: Joi.object({}),
+  offer_installments: Joi.object({
+    maxInstallments: Joi.number().integer().min(2).max(24).required(),
+  }),
+  escalate_to_human: Joi.object({
+    reason: Joi.string().trim().min(1).max(500).required(),
+  }),
+  close_conversation: Joi.object({
+    reason: Joi.string().valid('payment_completed', 'customer_declined', 'resolved', 'other').required(),
+  }),
+  record_payment_promise: Joi.object({
+    promisedDate: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    amount: Joi.number().positive().precision(2),
+  }),
+};
+
+// Customer-facing caption stored as the message content, so the history
+// stays readable for the model and for supervisors
+const actionCaptions: Record<ChatActionType, string> = {
+  show_payment_options: 'Como você gostaria de pagar?',
+  send_invoice: 'Segue sua fatura em aberto.',
+  offer_installments: 'Estas são as condições que consigo te oferecer:',
+  escalate_to_human: 'Vou te transferir para um atendente.',
+  close_conversation: 'Obrigado pelo contato! Estamos sempre à disposição.',
+  record_payment_promise: 'Combinado, registrei o seu compromisso de pagamento. Obrigado e até breve!',
+};
+
+export function isChatActionType(name: string): name is ChatActionType {
+  return Object.prototype.hasOwnProperty.call(actionSchemas, name);
+}
+
+// Offer built from the negotiation engine's plans, capped at the installment
+// count the agent asked for and never above what the policy allows
+export function buildInstallmentOffer(terms: NegotiationTerms, requestedInstallments = terms.maxInstallments): ChatAction {
+  const maxInstallments = Math.min(requestedInstallments, terms.maxInstallments);
+  return {
+    type: 'offer_installments',
+    payload: {
+      maxInstallments,
+      plans: terms.plans.filter(plan => plan.installments <= maxInstallments),
+    },
+  };
+}
+
+// Validates a tool call emitted by the model. Returns null for unknown tools or
+// invalid arguments - the model never gets to render something we can't check.
+// The invoice and negotiation plans are always supplied by the server, never by the model.
+export function validateChatAction(
+  toolCall: LlmToolCall,
+  context: { invoice?: InvoiceData | null; negotiation?: NegotiationTerms | null } = {}
+): ChatAction | null {
+  if (!isChatActionType(toolCall.name)) {
+    console.warn(`Ignoring unknown chat action: ${toolCall.name}`);
+    return null;
+  }
+
+  const { error, value } = actionSchemas[toolCall.name].validate(toolCall.args || {}, { stripUnknown: true });
+  if (error) {
+    console.warn(`Invalid arguments for chat action ${toolCall.name}: ${error.message}`);
+    return null;
+  }
+
+  if (toolCall.name === 'send_invoice') {
+    return context.invoice ? { type: 'send_invoice', payload: context.invoice } : null;
+  }
+
+  if (toolCall.name === 'offer_installments') {
+    return context.negotiation ? buildInstallmentOffer(context.negotiation, value.maxInstallments) : null;
+  }
+
+  if (toolCall.name === 'record_payment_promise') {
+    return buildPaymentPromise(value.promisedDate, value.amount, context);
+  }
+
+  return { type: toolCall.name, payload: value } as ChatAction;
+}
+
+// A promise within the allowed window, for no more than the customer owes.
+// Without an amount the whole debt is promised, so one must be known.
+export function buildPaymentPromise(
+  promisedDate: string,
+  amount: number | undefined,
+  context: { invoice?: InvoiceData | null; negotiation?: NegotiationTerms | null }
+): ChatAction | null {
+  if (!isPromiseDateAllowed(promisedDate)) {
+    console.warn(`Ignoring payment promise outside the allowed window: ${promisedDate}`);
+    return null;
+  }
+
+  const debtAmount = context.negotiation?.debtAmount ?? context.invoice?.amount;
+  const promisedAmount = amount !== undefined && debtAmount !== undefined ? Math.min(amount, debtAmount) : amount ?? debtAmount;
+  if (promisedAmount === undefined) return null;
+
+  return { type: 'record_payment_promise', payload: { promisedDate, amount: promisedAmount } };
+}
+
+export function getActionCaption(type: ChatActionType): string {
+  return actionCaptions[type];
+}
+
+// Maps an action to the MessageType column used when persisting it
+export function getPrismaMessageType(action?: ChatAction): 'TEXT' | 'PAYMENT_LINK' {
+  return action && (action.type === 'show_payment_options' || action.type === 'send_invoice' || action.type === 'offer_installments')
+    ? 'PAYMENT_LINK'
+    : 'TEXT';
+}
@@ -1,9 +1,10 @@
 import { prisma } from '../lib/prisma';
+import { serviceProviderService } from './serviceProviderService';
 
 export interface ContactLogEntry {
   customerId: string;
   contactMethod: 'AI_CHAT' | 'SMS' | 'EMAIL' | 'PHONE' | 'WHATSAPP' | 'PUSH_NOTIFICATION';
-  outcome?: 'SUCCESSFUL' | 'NO_ANSWER' | 'DECLINED' | 'PAYMENT_RESOLVED' | 'RESCHEDULED' | 'DO_NOT_CONTACT';
+  outcome?: 'SUCCESSFUL' | 'NO_ANSWER' | 'DECLINED' | 'PAYMENT_RESOLVED' | 'RESCHEDULED' | 'DO_NOT_CONTACT' | 'ESCALATED';
   notes?: string;
   agentId?: string;
   sessionId?: string;
@@ -88,6 +89,8 @@ export class ContactLogService {
         };
       }
 
+      const rules = await this.getRulesForCustomer(customerId);
+
       // Check recent contact frequency
       const now = new Date();
       const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -112,13 +115,13 @@ export class ContactLogService {
       ]);
 
       // Check daily contact limit
-      if (todaysContacts >= this.defaultRules.maxContactsPerDay) {
+      if (todaysContacts >= rules.maxContactsPerDay) {
         const tomorrow = new Date(todayStart);
         tomorrow.setDate(tomorrow.getDate() + 1);
 
         return {
           canContact: false,
-          reason: `Daily contact limit reached (${todaysContacts}/${this.defaultRules.maxContactsPerDay})`,
+          reason: `Daily contact limit reached (${todaysContacts}/${rules.maxContactsPerDay})`,
           nextAllowedContact: tomorrow
         };
       }
@@ -127,13 +130,13 @@ export class ContactLogService {
       if (lastContact) {
         const hoursSinceLastContact = (now.getTime() - lastContact.contactDate.getTime()) / (1000 * 60 * 60);
 
-        let requiredCooldown = this.defaultRules.minHoursBetweenContacts;
+        let requiredCooldown = rules.minHoursBetweenContacts;
 
         // Longer cooldown after failures or success
         if (lastContact.outcome === 'NO_ANSWER' || lastContact.outcome === 'DECLINED') {
-          requiredCooldown = this.defaultRules.cooldownAfterFailure;
+          requiredCooldown = rules.cooldownAfterFailure;
         } else if (lastContact.outcome === 'SUCCESSFUL' || lastContact.paymentResolved) {
-          requiredCooldown = this.defaultRules.cooldownAfterSuccess;
+          requiredCooldown = rules.cooldownAfterSuccess;
         }
 
         if (hoursSinceLastContact < requiredCooldown) {
@@ -149,9 +152,9 @@ export class ContactLogService {
       }
 
       // Check quiet hours
-      if (this.defaultRules.respectQuietHours && this.isQuietHours(now)) {
+      if (rules.respectQuietHours && this.isQuietHours(now, rules)) {
         const nextMorning = new Date(now);
-        nextMorning.setHours(this.defaultRules.quietHoursEnd, 0, 0, 0);
+        nextMorning.setHours(rules.quietHoursEnd, 0, 0, 0);
         if (nextMorning <= now) {
           nextMorning.setDate(nextMorning.getDate() + 1);
         }
@@ -227,6 +230,33 @@ export class ContactLogService {
     }
   }
 
+  // Sets the outcome of the session's contact still in progress (the entry
+  // logged when the contact started), or logs one when there is none
+  async closeSessionContact(
+    customerId: string,
+    sessionId: string,
+    outcome: NonNullable<ContactLogEntry['outcome']>,
+    notes: string,
+    agentId: string
+  ): Promise<void> {
+    try {
+      const { count } = await prisma.customerContactLog.updateMany({
+        where: { customerId, sessionId, outcome: null },
+        data: {
+          outcome,
+          notes,
+          successful: outcome === 'SUCCESSFUL' || outcome === 'PAYMENT_RESOLVED'
+        }
+      });
+
+      if (count === 0) {
+        await this.logContact({ customerId, contactMethod: 'AI_CHAT', outcome, notes, agentId, sessionId });
+      }
+    } catch (error) {
+      console.error('Error closing session contact:', error);
+    }
+  }
+
   // Add contact restriction
   async addContactRestriction(
     customerId: string,
@@ -254,9 +284,31 @@ export class ContactLogService {
   }
 
   // Check if current time is within quiet hours
-  private isQuietHours(date: Date): boolean {
+  // The default rules with the customer's provider overrides from the catalog
+  private async getRulesForCustomer(customerId: string): Promise<ContactFrequencyRule> {
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { serviceProvider: true }
+    });
+    const provider = await serviceProviderService.resolve(customer?.serviceProvider);
+    if (!provider) return this.defaultRules;
+
+    return {
+      ...this.defaultRules,
+      maxContactsPerDay: provider.maxContactsPerDay ?? this.defaultRules.maxContactsPerDay,
+      minHoursBetweenContacts: provider.minHoursBetweenContacts ?? this.defaultRules.minHoursBetweenContacts,
+      quietHoursStart: provider.quietHoursStart ?? this.defaultRules.quietHoursStart,
+      quietHoursEnd: provider.quietHoursEnd ?? this.defaultRules.quietHoursEnd,
+    };
+  }
+
+  // Quiet hours wrap past midnight when the start is after the end (22-8)
+  private isQuietHours(date: Date, rules: ContactFrequencyRule): boolean {
     const hour = date.getHours();
-    return hour >= this.defaultRules.quietHoursStart || hour < this.defaultRules.quietHoursEnd;
+    if (rules.quietHoursStart === rules.quietHoursEnd) return false;
+    return rules.quietHoursStart > rules.quietHoursEnd
+      ? hour >= rules.quietHoursStart || hour < rules.quietHoursEnd
+      : hour >= rules.quietHoursStart && hour < rules.quietHoursEnd;
   }
 
   // Get contact analytics for monitoring
@@ -0,0 +1,740 @@
+import { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Prisma,
+  ChatMessage as PrismaChatMessage,
+  ChatSession as PrismaChatSession,
+  MessageSender as PrismaMessageSender,
+  MessageType as PrismaMessageType
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import ChatMessage, { ChatAction, ChatMessageMetadata, EscalationTrigger, MessageSender, MessageType } from '../models/chatMessage';
+import ChatSession, { ChatSessionStatus } from '../models/chatSession';
+import { LangchainGeminiService } from './langchainGeminiService';
+import { QueueService } from './queueService';
+import { getPrismaMessageType } from './chatActions';
+import { optOutService } from './optOutService';
+import { sentimentService } from './sentimentService';
+import { negotiationPolicyService } from './negotiationPolicyService';
+import { paymentPromiseService } from './paymentPromiseService';
+import { escalationService } from './escalationService';
+import { paymentDisputeService } from './paymentDisputeService';
+import { customerContextService } from './customerContextService';
+import { audioMessageService } from './audioMessageService';
+import { paymentReceiptService } from './paymentReceiptService';
+import { promptInjectionService } from './promptInjectionService';
+import { isFinalState, sessionStateMachine } from './sessionStateMachine';
+import { contactLogService } from './contactLogService';
+import { messageReceiptService } from './messageReceiptService';
+import { tracingService } from './tracingService';
+
+// A customer message and what the agent answered; null while a human agent
+// has the conversation
+export interface CustomerTurn {
+  userMessage: ChatMessage;
+  aiResponse: ChatMessage | null;
+}
+
+// A chat session as the API returns it
+export interface ChatSessionView {
+  id: string;
+  customerId: string;
+  customerName: string;
+  status: string;
+  state: ChatSessionStatus;
+  startTime: Date;
+  endTime: Date | null;
+  paymentIssue: string | null;
+  messages: Array<{
+    id: string;
+    chatSessionId: string;
+    sender: string;
+    content: string;
+    timestamp: Date;
+    messageType: string;
+    metadata: ChatMessageMetadata;
+    deliveredAt: Date | null;
+    readAt: Date | null;
+  }>;
+}
+
+// Sent once to a customer who stopped answering
+const NUDGE_MESSAGE = 'Oi, ainda está por aí? Se quiser, posso te ajudar a resolver a sua fatura agora, é só me responder.';
+
+// States in which a customer message means the conversation is under way
+const CONVERSATION_STARTING_STATES: ChatSessionStatus[] = ['active', 'payment-requested'];
+
+// Prisma payload for an AI message, keeping its structured action in metadata
+const toAiMessageData = (chatSessionId: string, message: ChatMessage) => ({
+  chatSessionId,
+  sender: 'AI' as const,
+  content: message.content,
+  messageType: getPrismaMessageType(message.metadata.action),
+  metadata: message.metadata as Prisma.InputJsonObject,
+});
+
+const SENDERS: Record<PrismaMessageSender, MessageSender> = {
+  AI: 'ai',
+  CUSTOMER: 'customer',
+  HUMAN: 'human',
+  SYSTEM: 'system',
+};
+
+// Stored types of agent-side messages; customer messages are always questions
+const AGENT_MESSAGE_TYPES: Record<PrismaMessageType, MessageType> = {
+  TEXT: 'response',
+  AUDIO: 'response',
+  SYSTEM: 'confirmation',
+  PAYMENT_LINK: 'payment-request',
+  DOCUMENT: 'response',
+};
+
+// Convert a database message to a ChatMessage instance for the AI service
+const fromDbMessage = (msg: PrismaChatMessage): ChatMessage => new ChatMessage({
+  id: msg.id,
+  chatSessionId: msg.chatSessionId,
+  sender: SENDERS[msg.sender],
+  content: msg.content,
+  timestamp: msg.timestamp,
+  messageType: msg.sender === 'CUSTOMER' ? 'question' : AGENT_MESSAGE_TYPES[msg.messageType],
+  metadata: (msg.metadata || {}) as ChatMessageMetadata,
+});
+
+const toSessionView = (session: PrismaChatSession & { messages: PrismaChatMessage[] }): ChatSessionView => ({
+  id: session.id,
+  customerId: session.customerId,
+  customerName: session.customerName,
+  status: session.status.toLowerCase(),
+  state: session.state as ChatSessionStatus,
+  startTime: session.startTime,
+  endTime: session.endTime,
+  paymentIssue: session.paymentIssue,
+  messages: session.messages.map((msg: PrismaChatMessage) => ({
+    id: msg.id,
+    chatSessionId: msg.chatSessionId,
+    sender: msg.sender.toLowerCase(),
+    content: msg.content,
+    timestamp: msg.timestamp,
+    messageType: msg.messageType.toLowerCase(),
+    metadata: (msg.metadata || {}) as ChatMessageMetadata,
+    deliveredAt: msg.deliveredAt,
+    readAt: msg.readAt
+  }))
+});
+
+// Runs chat sessions from the opening message to their end: loads history,
+// checks and classifies customer messages, picks who answers (canned replies
+// for injection attempts, opt-outs, escalations and "already paid" claims, the
+// model for anything else), persists and broadcasts every message, and moves
+// the session through its state machine. The chat routes only validate input
+// and call it.
+export class ConversationOrchestrator {
+  private aiService: LangchainGeminiService;
+  private queueService: QueueService;
+  private io: Server;
+
+  constructor(aiService: LangchainGeminiService, queueService: QueueService, io: Server) {
+    this.aiService = aiService;
+    this.queueService = queueService;
+    this.io = io;
+  }
+
+  async findSession(sessionId: string): Promise<PrismaChatSession | null> {
+    return prisma.chatSession.findUnique({ where: { id: sessionId } });
+  }
+
+  async getSession(sessionId: string): Promise<ChatSessionView | null> {
+    const session = await prisma.chatSession.findUnique({
+      where: { id: sessionId },
+      include: { messages: { orderBy: { timestamp: 'asc' } } }
+    });
+    return session ? toSessionView(session) : null;
+  }
+
+  // Sessions still with the AI, newest first
+  async listActiveSessions(): Promise<ChatSessionView[]> {
+    const sessions = await prisma.chatSession.findMany({
+      where: { status: 'ACTIVE' },
+      include: { messages: { orderBy: { timestamp: 'asc' } } },
+      orderBy: { startTime: 'desc' }
+    });
+    return sessions.map(toSessionView);
+  }
+
+  // Opens a session for an agent activation or a queue contact: the greeting,
+  // then the invoice card a moment later. situation tells the model why the
+  // customer is being contacted beyond the payment issue (e.g. a broken
+  // promise). Returns null when the customer doesn't exist.
+  async startSession(customerId: string, customerName: string, paymentIssue?: string, situation: string | null = null) {
+    // Perfil, situação de pagamento e histórico do cliente para a IA
+    const context = await customerContextService.build(customerId, { paymentIssue, situation });
+    if (!context) return null;
+
+    const enhancedCustomerData = context.customer;
+
+    console.log('--- Contexto do Cliente para IA ---');
+    console.log(context.text);
+    console.log(`(${context.tokens} tokens${context.truncated.length > 0 ? `, truncated: ${context.truncated.join(', ')}` : ''})`);
+    console.log('----------------------------------');
+
+    // Cria sessão no banco
+    const dbChatSession = await prisma.chatSession.create({
+      data: {
+        id: uuidv4(),
+        customerId,
+        customerName,
+        status: 'ACTIVE',
+        state: 'initiated',
+        paymentIssue: paymentIssue || 'unknown'
+      }
+    });
+
+    const chatSession = new ChatSession({
+      id: dbChatSession.id,
+      customerId,
+      customerName,
+      status: 'initiated',
+      startTime: dbChatSession.startTime,
+      paymentIssue: dbChatSession.paymentIssue || 'unknown'
+    });
+
+    // 1. GERA E SALVA MENSAGEM INICIAL
+    const initialMessage = await this.aiService.generateInitialMessage(chatSession, enhancedCustomerData, context.text);
+    const dbInitialMessage = await prisma.chatMessage.create({ data: toAiMessageData(dbChatSession.id, initialMessage) });
+    initialMessage.id = dbInitialMessage.id;
+
+    // 2. GERA E SALVA INVOICE CARD (AUTOMATICAMENTE)
+    const negotiation = await negotiationPolicyService.getTermsForCustomer(customerId);
+    const invoiceCardMessage = this.aiService.generateInvoiceCardMessage(chatSession, enhancedCustomerData, negotiation);
+    const dbInvoiceCard = await prisma.chatMessage.create({ data: toAiMessageData(dbChatSession.id, invoiceCardMessage) });
+    invoiceCardMessage.id = dbInvoiceCard.id;
+
+    console.log('✅ Mensagens salvas no banco:');
+    console.log('1. Inicial:', initialMessage.content);
+    console.log('2. Invoice Card:', invoiceCardMessage.content);
+
+    // 3. EMITE PARA CLIENTES VIA SOCKET
+    messageReceiptService.deliver(this.io, dbChatSession.id, 'chat-initiated', {
+      sessionId: dbChatSession.id,
+      customerName,
+      initialMessage
+    }, initialMessage.id);
+
+    // Emite invoice card após delay pequeno
+    setTimeout(() => {
+      console.log('🃏 Enviando invoice card via Socket.IO...');
+      messageReceiptService.deliver(this.io, dbChatSession.id, 'receive-message', invoiceCardMessage, invoiceCardMessage.id);
+    }, 1000);
+
+    if (await sessionStateMachine.transition(dbChatSession.id, 'active', { reason: 'opening_sent' })) {
+      chatSession.status = 'active';
+    }
+
+    return {
+      sessionId: dbChatSession.id,
+      chatSession,
+      initialMessage,
+      invoiceCardMessage,
+      customerData: enhancedCustomerData
+    };
+  }
+
+  // Sends the invoice card again, e.g. for testing
+  async sendInvoiceCard(sessionId: string): Promise<ChatMessage | null> {
+    const dbSession = await prisma.chatSession.findUnique({
+      where: { id: sessionId },
+      include: { customer: true }
+    });
+    if (!dbSession) return null;
+
+    const customerData = {
+      id: dbSession.customer.id,
+      name: dbSession.customer.name,
+      email: dbSession.customer.email,
+      phone: dbSession.customer.phone,
+      serviceProvider: dbSession.customer.serviceProvider,
+      serviceType: dbSession.customer.serviceType,
+      accountValue: Number(dbSession.customer.accountValue),
+      riskCategory: dbSession.customer.riskCategory.toLowerCase().replace('_', '-'),
+      lastPaymentDate: dbSession.customer.lastPaymentDate?.toISOString() || '',
+      nextBillingDate: dbSession.customer.nextBillingDate.toISOString(),
+    };
+
+    const negotiation = await negotiationPolicyService.getTermsForCustomer(dbSession.customerId);
+    const invoiceCardMessage = this.aiService.generateInvoiceCardMessage(
+      { id: sessionId, customerName: dbSession.customerName },
+      customerData,
+      negotiation
+    );
+
+    const dbInvoiceCard = await prisma.chatMessage.create({ data: toAiMessageData(sessionId, invoiceCardMessage) });
+    invoiceCardMessage.id = dbInvoiceCard.id;
+    messageReceiptService.deliver(this.io, sessionId, 'receive-message', invoiceCardMessage, invoiceCardMessage.id);
+
+    console.log('✅ Invoice card enviado manualmente para sessão:', sessionId);
+    return invoiceCardMessage;
+  }
+
+  // A typed customer message and the agent's answer
+  async handleCustomerMessage(session: PrismaChatSession, content: string): Promise<CustomerTurn> {
+    const history = await this.loadHistory(session.id);
+    const metadata = await this.analyzeCustomerMessage(content, history);
+    const userMessage = await this.persistCustomerMessage(session.id, content, 'TEXT', metadata);
+
+    await this.updateSessionSentiment(session.id);
+    return { userMessage, aiResponse: await this.replyUnlessPaused(session, history, userMessage) };
+  }
+
+  // A message typed on the agent's side, stored and broadcast as is
+  async postAgentMessage(sessionId: string, content: string): Promise<ChatMessage> {
+    const dbMessage = await prisma.chatMessage.create({
+      data: { chatSessionId: sessionId, sender: 'AI', content, messageType: 'TEXT', metadata: {} }
+    });
+
+    const message = new ChatMessage({
+      id: dbMessage.id,
+      chatSessionId: sessionId,
+      sender: 'ai',
+      content,
+      timestamp: dbMessage.timestamp,
+      messageType: 'response',
+    });
+    messageReceiptService.deliver(this.io, sessionId, 'receive-message', message, message.id);
+    return message;
+  }
+
+  // A voice note: its transcript is handled like a typed message, and one that
+  // couldn't be understood gets a request to type or record again
+  async handleVoiceNote(session: PrismaChatSession, data: Buffer, contentType: string): Promise<CustomerTurn> {
+    const history = await this.loadHistory(session.id);
+    const audio = await audioMessageService.ingest(session.id, data, contentType);
+    const content = audio.transcript || '';
+    const metadata: ChatMessageMetadata = audio.transcript
+      ? { ...await this.analyzeCustomerMessage(content, history), audio }
+      : { audio };
+
+    const userMessage = await this.persistCustomerMessage(session.id, content, 'AUDIO', metadata);
+
+    if (audio.transcript) {
+      await this.updateSessionSentiment(session.id);
+    }
+
+    // While a human agent is in control the AI stays quiet; they can play the
+    // audio. A finished session gets no answer either.
+    if (await this.isAiPaused(session.id)) {
+      return { userMessage, aiResponse: null };
+    }
+
+    if (!audio.transcript) {
+      return { userMessage, aiResponse: await this.sendReply(session.id, audioMessageService.buildUnintelligibleReply(session.id)) };
+    }
+
+    return { userMessage, aiResponse: await this.replyUnlessPaused(session, history, userMessage) };
+  }
+
+  // A payment receipt: queued for supervisor review, nothing is paid yet. The
+  // session closes while the review is pending.
+  async handleReceipt(session: PrismaChatSession, data: Buffer, contentType: string, fileName?: string): Promise<CustomerTurn> {
+    const messageId = uuidv4();
+    const receipt = await paymentReceiptService.submit({
+      customerId: session.customerId,
+      chatSessionId: session.id,
+      chatMessageId: messageId,
+      data,
+      contentType,
+      fileName
+    });
+
+    const content = fileName ? `Comprovante de pagamento: ${fileName}` : 'Comprovante de pagamento';
+    const userMessage = await this.persistCustomerMessage(session.id, content, 'DOCUMENT', {
+      receipt: { receiptId: receipt.id, contentType: receipt.contentType, sizeBytes: receipt.sizeBytes, fileName }
+    }, messageId);
+
+    this.io.to('queue-monitoring').emit('receipt-submitted', {
+      receiptId: receipt.id,
+      sessionId: session.id,
+      customerId: session.customerId,
+      amount: receipt.amount === null ? null : Number(receipt.amount),
+      matchedTransactionId: receipt.matchedTransactionId,
+      timestamp: receipt.createdAt
+    });
+
+    // While a human agent is in control the AI stays quiet; they see the
+    // receipt. A finished session gets no answer either.
+    if (await this.isAiPaused(session.id)) {
+      return { userMessage, aiResponse: null };
+    }
+
+    const aiResponse = await this.sendReply(session.id, paymentReceiptService.buildReply(session.id, receipt));
+    await this.completeSession(session.id, 'receipt_review');
+
+    return { userMessage, aiResponse };
+  }
+
+  // Accepts a negotiation plan offered in the chat and creates its payment
+  // schedule. Returns null when the plan isn't available to the customer.
+  async acceptPlan(session: PrismaChatSession, planId: string) {
+    const accepted = await negotiationPolicyService.acceptPlan(session.customerId, planId, session.id);
+    if (!accepted) return null;
+
+    // Anything due today can be paid right away
+    const today = new Date().toISOString().slice(0, 10);
+    const dueToday = accepted.option.downPayment > 0 || accepted.option.firstDueDate <= today;
+    const confirmation = await this.sendReply(session.id, new ChatMessage({
+      chatSessionId: session.id,
+      sender: 'ai',
+      content: negotiationPolicyService.describeAcceptedPlan(accepted.option),
+      timestamp: new Date(),
+      messageType: dueToday ? 'payment-request' : 'response',
+      metadata: dueToday
+        ? { action: { type: 'show_payment_options', payload: { methods: ['credit', 'pix', 'boleto'] } } }
+        : {},
+    }));
+
+    if (dueToday) {
+      await sessionStateMachine.transition(session.id, 'payment-requested', { reason: 'plan_accepted' });
+    }
+
+    return { plan: accepted.plan, schedule: accepted.schedule, message: confirmation };
+  }
+
+  // The customer started paying from the chat
+  async startPayment(sessionId: string): Promise<void> {
+    await sessionStateMachine.transition(sessionId, 'payment-processing', { reason: 'payment_started' });
+  }
+
+  // The payment went through: the session ends and the agent thanks the customer
+  async confirmPayment(sessionId: string, amount: number): Promise<ChatMessage> {
+    await this.completeSession(sessionId, 'Payment successful');
+
+    const history = await this.loadHistory(sessionId);
+    const paymentConfirmationMessage = new ChatMessage({
+      chatSessionId: sessionId,
+      sender: 'system',
+      content: `PAYMENT_CONFIRMED: Customer payment of R$ ${amount} was successfully processed. Please confirm the payment to the customer, thank them, and say goodbye to complete the interaction.`,
+      timestamp: new Date(),
+      messageType: 'confirmation'
+    });
+
+    console.log('=== Payment Confirmation Debug ===');
+    console.log('Session ID:', sessionId);
+    console.log('Payment Amount:', amount);
+    console.log('Chat History Length:', history.length);
+    console.log('===================================');
+
+    return this.streamAiResponse(sessionId, history, paymentConfirmationMessage);
+  }
+
+  // Ends a session still with the AI and frees its queue slot
+  async completeSession(sessionId: string, outcome: string): Promise<void> {
+    await sessionStateMachine.transition(sessionId, 'completed', { reason: outcome, outcome, where: { status: 'ACTIVE' } });
+    this.queueService.removeActiveSession(sessionId);
+  }
+
+  // Reminds a customer who stopped answering that the agent is still there
+  async nudge(sessionId: string): Promise<ChatMessage> {
+    return this.sendReply(sessionId, new ChatMessage({
+      chatSessionId: sessionId,
+      sender: 'ai',
+      content: NUDGE_MESSAGE,
+      timestamp: new Date(),
+      messageType: 'response',
+      metadata: { nudge: true }
+    }));
+  }
+
+  // Gives up on a session the customer stopped answering: it ends as
+  // abandoned, its contact is logged as NO_ANSWER and its queue slot is freed.
+  // Returns false when the session had already moved on.
+  async abandonSession(sessionId: string, reason: string): Promise<boolean> {
+    const session = await sessionStateMachine.transition(sessionId, 'abandoned', {
+      reason,
+      outcome: 'abandoned',
+      where: { status: 'ACTIVE' }
+    });
+    if (!session) return false;
+
+    await contactLogService.closeSessionContact(
+      session.customerId,
+      sessionId,
+      'NO_ANSWER',
+      `Session abandoned: ${reason}`,
+      'ai_inactivity_sweeper'
+    );
+    this.queueService.removeActiveSession(sessionId);
+    return true;
+  }
+
+  private async loadHistory(sessionId: string): Promise<ChatMessage[]> {
+    const messages = await prisma.chatMessage.findMany({
+      where: { chatSessionId: sessionId },
+      orderBy: { timestamp: 'asc' }
+    });
+    return messages.map(fromDbMessage);
+  }
+
+  // Escalated to a human agent, or finished
+  private async isAiPaused(sessionId: string): Promise<boolean> {
+    const state = await sessionStateMachine.getState(sessionId);
+    return state === 'escalated' || (state !== null && isFinalState(state));
+  }
+
+  private async persistCustomerMessage(
+    sessionId: string,
+    content: string,
+    messageType: 'TEXT' | 'AUDIO' | 'DOCUMENT',
+    metadata: ChatMessageMetadata,
+    id?: string
+  ): Promise<ChatMessage> {
+    const dbMessage = await prisma.chatMessage.create({
+      data: {
+        id,
+        chatSessionId: sessionId,
+        sender: 'CUSTOMER',
+        content,
+        messageType,
+        metadata: metadata as Prisma.InputJsonObject
+      }
+    });
+
+    const message = new ChatMessage({
+      id: dbMessage.id,
+      chatSessionId: sessionId,
+      sender: 'customer',
+      content,
+      timestamp: dbMessage.timestamp,
+      messageType: 'question',
+      metadata,
+    });
+    this.io.to(sessionId).emit('receive-message', message);
+    return message;
+  }
+
+  // Persists an agent reply and sends it to the session room
+  private async sendReply(sessionId: string, reply: ChatMessage): Promise<ChatMessage> {
+    const dbMessage = await prisma.chatMessage.create({ data: toAiMessageData(sessionId, reply) });
+    reply.id = dbMessage.id;
+    messageReceiptService.deliver(this.io, sessionId, 'receive-message', reply, reply.id);
+    return reply;
+  }
+
+  // Customer messages are checked, classified and scored before anything else,
+  // so the results are persisted with the message and drive the reply. A message
+  // flagged as a prompt injection is not classified: it never reaches the model.
+  private async analyzeCustomerMessage(content: string, history: ChatMessage[]): Promise<ChatMessageMetadata> {
+    const injection = await this.aiService.detectInjection(content, history);
+    if (injection.flagged) {
+      return { injection, sentiment: await sentimentService.scoreMessage(content) };
+    }
+
+    return {
+      intent: await this.aiService.classifyIntent(content, history),
+      sentiment: await sentimentService.scoreMessage(content),
+    };
+  }
+
+  // Refreshes the session's sentiment rollup and alerts supervisors the first
+  // time the customer's frustration crosses the threshold
+  private async updateSessionSentiment(sessionId: string): Promise<void> {
+    const alert = await sentimentService.updateSession(sessionId);
+    if (alert) {
+      this.io.to('queue-monitoring').emit('supervisor-alert', alert);
+    }
+  }
+
+  // While a human agent is in control the AI stays quiet, and a completed or
+  // abandoned session stays closed: the message is kept for the supervisors
+  // but nothing answers it. Otherwise the conversation is under way and the
+  // customer gets an answer.
+  private async replyUnlessPaused(session: PrismaChatSession, history: ChatMessage[], message: ChatMessage): Promise<ChatMessage | null> {
+    const state = await sessionStateMachine.getState(session.id);
+    if (state === 'escalated' || (state && isFinalState(state))) return null;
+
+    if (state && CONVERSATION_STARTING_STATES.includes(state)) {
+      await sessionStateMachine.transition(session.id, 'in-progress', { reason: 'customer_message' });
+    }
+
+    return this.replyToCustomer(session.id, session.customerId, history, message);
+  }
+
+  // Runs a customer message through the reply chain: injection attempts,
+  // opt-outs, escalations and "already paid" claims bypass the model, anything
+  // else gets an AI reply
+  private async replyToCustomer(sessionId: string, customerId: string, history: ChatMessage[], message: ChatMessage): Promise<ChatMessage> {
+    return await this.handlePromptInjection(sessionId, customerId, message)
+      || await this.handleOptOut(sessionId, customerId, history, message)
+      || await this.handleEscalation(sessionId, history, message)
+      || await this.handlePaymentDispute(sessionId, customerId, history, message)
+      || await this.streamAiResponse(sessionId, history, message);
+  }
+
+  // Prompt injection attempts bypass the model: the attempt is recorded for
+  // security review and the customer gets a canned reply. Returns the agent's
+  // reply, or null when the message wasn't flagged.
+  private async handlePromptInjection(sessionId: string, customerId: string, message: ChatMessage): Promise<ChatMessage | null> {
+    const injection = message.metadata.injection;
+    if (!injection?.flagged) return null;
+
+    const attempt = await promptInjectionService.record({
+      chatSessionId: sessionId,
+      customerId,
+      chatMessageId: message.id,
+      content: message.content,
+      injection
+    });
+
+    const reply = await this.sendReply(sessionId, promptInjectionService.buildReply(sessionId));
+    this.io.to('queue-monitoring').emit('security-alert', {
+      attemptId: attempt?.id,
+      sessionId,
+      customerId,
+      categories: injection.categories,
+      score: injection.score,
+      timestamp: new Date()
+    });
+
+    return reply;
+  }
+
+  // Opt-out requests bypass the model: the first one asks for confirmation, a
+  // confirmed one blocks future contact and closes the session. Returns the
+  // agent's reply, or null when the message should get a normal AI response.
+  private async handleOptOut(sessionId: string, customerId: string, history: ChatMessage[], message: ChatMessage): Promise<ChatMessage | null> {
+    const step = optOutService.evaluate(message.content, message.metadata.intent, history);
+    if (!step) return null;
+
+    const reply = await this.sendReply(sessionId, step === 'confirmed'
+      ? optOutService.buildFarewell(sessionId)
+      : optOutService.buildConfirmationRequest(sessionId));
+
+    if (step === 'confirmed') {
+      await optOutService.applyOptOut(customerId, sessionId, message.content);
+      this.queueService.removeActiveSession(sessionId);
+      this.queueService.removeCustomerFromQueue(customerId);
+    }
+
+    return reply;
+  }
+
+  // Escalation triggers (asking for a person, intents the agent should not
+  // handle, frustration, loops) bypass the model: the customer is told a human
+  // agent will take over. Returns that reply, or null for a normal AI response.
+  private async handleEscalation(sessionId: string, history: ChatMessage[], message: ChatMessage): Promise<ChatMessage | null> {
+    const decision = escalationService.evaluate(message, history);
+    if (!decision) return null;
+
+    const reply = await this.sendReply(sessionId, escalationService.buildHandoffMessage(sessionId, decision.reason));
+    await this.escalateSession(sessionId, decision.trigger, decision.reason);
+
+    return reply;
+  }
+
+  // "Already paid" claims bypass the model: the payment records are checked and
+  // the customer hears what was found. A found payment settles the account and
+  // closes the session; a pending one closes it until the payment clears.
+  // Returns the agent's reply, or null for a normal AI response.
+  private async handlePaymentDispute(sessionId: string, customerId: string, history: ChatMessage[], message: ChatMessage): Promise<ChatMessage | null> {
+    if (!paymentDisputeService.shouldVerify(message.metadata.intent, history)) return null;
+
+    const result = await paymentDisputeService.verify(customerId, sessionId, message.content);
+    const reply = await this.sendReply(sessionId, paymentDisputeService.buildReply(sessionId, result));
+
+    if (result.resolution === 'payment_found') {
+      await this.completeSession(sessionId, 'payment_found');
+    } else if (result.resolution === 'pending_reconciliation') {
+      await this.completeSession(sessionId, 'payment_pending');
+    }
+
+    return reply;
+  }
+
+  // Generates the AI reply, streaming partial tokens to the session room as
+  // message-chunk events. Only the final message is persisted, then announced
+  // with message-complete under the same id the chunks used.
+  private async streamAiResponse(sessionId: string, history: ChatMessage[], message: ChatMessage): Promise<ChatMessage> {
+    return tracingService.withSpan({
+      name: 'chat_turn',
+      chatSessionId: sessionId,
+      inputs: { message: message.content, intent: message.metadata.intent?.intent },
+    }, async span => {
+      const messageId = uuidv4();
+
+      // The customer's provider scopes the prompt version; their contact data is
+      // what the output guardrails allow in a reply
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId },
+        select: {
+          paymentIssue: true,
+          customer: { select: { id: true, name: true, email: true, phone: true, serviceProvider: true } }
+        }
+      });
+      const negotiation = session ? await negotiationPolicyService.getTermsForCustomer(session.customer.id) : null;
+      const context = session
+        ? await customerContextService.build(session.customer.id, { paymentIssue: session.paymentIssue })
+        : null;
+
+      const aiResponse = await this.aiService.generateResponse(history, message, {
+        serviceProvider: session?.customer.serviceProvider,
+        customer: session?.customer,
+        negotiation,
+        customerContext: context?.text,
+        messageId,
+        onToken: (delta) => this.io.to(sessionId).emit('message-chunk', { sessionId, messageId, delta }),
+      });
+      aiResponse.id = messageId;
+
+      await tracingService.withSpan({ name: 'persist_message', runType: 'tool', inputs: { messageId } }, () =>
+        prisma.chatMessage.create({
+          data: { id: messageId, ...toAiMessageData(sessionId, aiResponse) }
+        })
+      );
+
+      messageReceiptService.deliver(this.io, sessionId, 'message-complete', { sessionId, messageId, message: aiResponse }, messageId);
+
+      await this.applyChatAction(sessionId, aiResponse.metadata.action, message);
+
+      span.setOutputs({ output: aiResponse.content, messageId, action: aiResponse.metadata.action?.type });
+      return aiResponse;
+    });
+  }
+
+  // Server-side effects of actions the agent emitted
+  private async applyChatAction(sessionId: string, action?: ChatAction, message?: ChatMessage): Promise<void> {
+    if (action?.type === 'show_payment_options') {
+      await sessionStateMachine.transition(sessionId, 'payment-requested', { reason: 'payment_options_shown' });
+      return;
+    }
+
+    if (action?.type === 'escalate_to_human') {
+      await this.escalateSession(sessionId, 'agent', action.payload.reason);
+      return;
+    }
+
+    if (action?.type === 'record_payment_promise') {
+      const session = await prisma.chatSession.findUnique({ where: { id: sessionId }, select: { customerId: true } });
+      if (!session) return;
+
+      await paymentPromiseService.createPromise({
+        customerId: session.customerId,
+        chatSessionId: sessionId,
+        promisedDate: action.payload.promisedDate,
+        amount: action.payload.amount,
+        sourceText: message?.content
+      });
+      await this.completeSession(sessionId, 'promise_to_pay');
+      return;
+    }
+
+    if (action?.type !== 'close_conversation') return;
+    await this.completeSession(sessionId, action.payload.reason);
+  }
+
+  // Hands an active session to the human agents: the AI stops replying and the
+  // session leaves the AI's concurrency slots
+  private async escalateSession(sessionId: string, trigger: EscalationTrigger, reason: string): Promise<void> {
+    const session = await escalationService.escalate(sessionId, trigger, reason);
+    if (!session) return;
+
+    this.queueService.removeActiveSession(sessionId);
+  }
+}
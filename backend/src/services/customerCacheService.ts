@@ -36,10 +36,10 @@ export class CustomerCacheService {
   constructor(cacheExpiryMs: number = 5 * 60 * 1000) { // 5 minutes default
     this.cacheExpiryMs = cacheExpiryMs;
 
-    // Clean expired entries every minute
+    // Clean expired entries every minute; the timer alone doesn't keep the process alive
     setInterval(() => {
       this.cleanExpiredEntries();
-    }, 60 * 1000);
+    }, 60 * 1000).unref();
   }
 
   // Get customer data from cache
@@ -0,0 +1,203 @@
+import { PaymentTransaction } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CustomerData } from './langchainGeminiService';
+import { contactLogService } from './contactLogService';
+import { paymentTransactionService } from './paymentTransactionService';
+import { estimateTokens } from './llmUsageService';
+import { redactPersonalData } from './outputGuardrails';
+
+export interface CustomerContextConfig {
+  // Upper bound for the rendered context, in estimated tokens
+  tokenBudget: number;
+  // Contacts, interventions and transactions listed per section
+  historyLimit: number;
+}
+
+export interface CustomerContextOptions {
+  // Why the session was opened (cardExpiring, paymentFailed, ...)
+  paymentIssue?: string | null;
+  // What this contact is about when it isn't the usual collection, e.g. a broken promise
+  situation?: string | null;
+}
+
+export interface CustomerContext {
+  customer: CustomerData;
+  // Rendered for the prompt, redacted and within the token budget
+  text: string;
+  tokens: number;
+  // Sections shortened or left out to fit the budget
+  truncated: string[];
+}
+
+interface ContextSection {
+  title: string;
+  lines: string[];
+  // Kept whole regardless of the budget
+  required?: boolean;
+}
+
+const NOTE_MAX_CHARS = 80;
+
+const money = (value: number) => `R$ ${value.toFixed(2)}`;
+const day = (date: Date) => date.toLocaleDateString('pt-BR');
+const note = (text: string | null | undefined) => {
+  if (!text) return '';
+  const redacted = redactPersonalData(text.replace(/\s+/g, ' ').trim());
+  return redacted.length > NOTE_MAX_CHARS ? ` - ${redacted.slice(0, NOTE_MAX_CHARS - 3)}...` : ` - ${redacted}`;
+};
+
+export function getCustomerContextConfig(env: typeof process.env = process.env): CustomerContextConfig {
+  return {
+    tokenBudget: Number(env.CUSTOMER_CONTEXT_TOKEN_BUDGET) || 400,
+    historyLimit: Number(env.CUSTOMER_CONTEXT_HISTORY_LIMIT) || 5,
+  };
+}
+
+// Assembles what the agent knows about a customer: profile and tenure, the
+// payment situation, outstanding charges, previous contacts and interventions.
+// Shared by every path that prompts the model about a customer. Contact data
+// (email, phone) never goes in, and free-text notes are redacted.
+export class CustomerContextService {
+  private config: CustomerContextConfig;
+
+  constructor(config: CustomerContextConfig = getCustomerContextConfig()) {
+    this.config = config;
+  }
+
+  async build(customerId: string, options: CustomerContextOptions = {}): Promise<CustomerContext | null> {
+    const limit = this.config.historyLimit;
+    const [customer, summary, contacts] = await Promise.all([
+      prisma.customer.findUnique({
+        where: { id: customerId },
+        include: {
+          riskFactors: true,
+          interventions: { orderBy: { date: 'desc' }, take: limit }
+        }
+      }),
+      paymentTransactionService.getCustomerPaymentSummary(customerId),
+      contactLogService.getContactHistory(customerId, limit),
+    ]);
+    if (!customer) return null;
+
+    const now = new Date();
+    const overdue = summary.outstandingPayments.filter(payment => payment.transactionDate <= now);
+    const upcoming = summary.outstandingPayments.filter(payment => payment.transactionDate > now);
+    const failures = overdue.filter(payment => payment.status === 'FAILED');
+    const lastFailure = failures[failures.length - 1];
+    const paymentStatus = this.describePaymentStatus(overdue);
+
+    const tenureMonths = Math.max(0, Math.floor((now.getTime() - customer.customerSince.getTime()) / (30 * 24 * 60 * 60 * 1000)));
+    const lastPaymentDate = summary.lastPaymentDate || customer.lastPaymentDate;
+
+    const sections: ContextSection[] = [
+      {
+        title: 'Perfil',
+        required: true,
+        lines: [
+          `Cliente: ${customer.name}`,
+          `Provedor: ${customer.serviceProvider}`,
+          `Serviço: ${customer.serviceType}`,
+          `Valor: ${money(Number(customer.accountValue) / 100)}`,
+          `Cliente desde: ${day(customer.customerSince)} (${tenureMonths} ${tenureMonths === 1 ? 'mês' : 'meses'})`,
+          `Risco: ${customer.riskCategory} (${customer.riskSeverity})`,
+          options.situation ? `Situação: ${redactPersonalData(options.situation)}` : null,
+          `Status Pagamento: ${paymentStatus}`,
+          failures.length > 0
+            ? `Falhas de pagamento: ${failures.length}${lastFailure ? ` (última em ${day(lastFailure.transactionDate)}${note(lastFailure.description)})` : ''}`
+            : null,
+          options.paymentIssue && options.paymentIssue !== 'unknown' ? `Motivo do contato: ${options.paymentIssue}` : null,
+          `Último pagamento: ${lastPaymentDate ? day(lastPaymentDate) : 'nenhum registrado'}`,
+        ].filter((line): line is string => line !== null),
+      },
+      {
+        title: 'Cobranças em aberto:',
+        lines: overdue.slice(0, limit).map(payment => this.describeTransaction(payment)),
+      },
+      {
+        title: 'Próximas parcelas:',
+        lines: upcoming.slice(0, limit).map(payment => this.describeTransaction(payment)),
+      },
+      {
+        title: 'Contatos anteriores:',
+        lines: contacts.map(contact =>
+          `- ${day(contact.contactDate)} ${contact.contactMethod}: ${contact.outcome || 'sem resultado'}${note(contact.notes)}`),
+      },
+      {
+        title: 'Intervenções anteriores:',
+        lines: customer.interventions.map(intervention =>
+          `- ${day(intervention.date)} ${intervention.outcome}${note(intervention.notes)}`),
+      },
+      {
+        title: 'Fatores de risco:',
+        lines: customer.riskFactors.length > 0 ? [customer.riskFactors.map(factor => factor.factor).join(', ')] : [],
+      },
+    ];
+
+    const { text, truncated } = this.render(sections);
+
+    return {
+      customer: {
+        id: customer.id,
+        name: customer.name,
+        email: customer.email,
+        phone: customer.phone,
+        serviceProvider: customer.serviceProvider,
+        serviceType: customer.serviceType,
+        accountValue: Number(customer.accountValue),
+        riskCategory: customer.riskCategory.toLowerCase().replace('_', '-'),
+        riskSeverity: customer.riskSeverity.toLowerCase(),
+        lastPaymentDate: lastPaymentDate?.toISOString() || '',
+        nextBillingDate: customer.nextBillingDate.toISOString(),
+        currentPaymentStatus: paymentStatus,
+      },
+      text,
+      tokens: estimateTokens(text),
+      truncated,
+    };
+  }
+
+  // Sections in priority order: each is added whole if it fits, otherwise
+  // line by line until the budget runs out; the rest are left out
+  private render(sections: ContextSection[]): { text: string; truncated: string[] } {
+    const lines: string[] = [];
+    const truncated: string[] = [];
+    const fits = (extra: string[]) => estimateTokens([...lines, ...extra].join('\n')) <= this.config.tokenBudget;
+
+    for (const section of sections) {
+      if (section.lines.length === 0) continue;
+
+      if (section.required) {
+        lines.push(...section.lines);
+        continue;
+      }
+
+      const header = [section.title];
+      const kept: string[] = [];
+      for (const line of section.lines) {
+        if (!fits([...header, ...kept, line])) break;
+        kept.push(line);
+      }
+
+      if (kept.length < section.lines.length) truncated.push(section.title);
+      if (kept.length > 0) lines.push(...header, ...kept);
+    }
+
+    return { text: lines.join('\n'), truncated };
+  }
+
+  private describePaymentStatus(overdue: PaymentTransaction[]): string {
+    if (overdue.length === 0) return 'em dia';
+
+    const total = overdue.reduce((sum, payment) => sum + Number(payment.amount), 0);
+    const oldest = overdue[0]!;
+    const count = overdue.length === 1 ? '1 cobrança em aberto' : `${overdue.length} cobranças em aberto`;
+    return `${count} somando ${money(total)}, a mais antiga de ${day(oldest.transactionDate)}`;
+  }
+
+  private describeTransaction(payment: PaymentTransaction): string {
+    const installment = payment.installmentNumber !== null ? ` parcela ${payment.installmentNumber}` : '';
+    return `- ${day(payment.transactionDate)} ${money(Number(payment.amount))} ${payment.status}${installment}${note(payment.description)}`;
+  }
+}
+
+export const customerContextService = new CustomerContextService();
@@ -0,0 +1,307 @@
+import { ChatSession, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import ChatMessage, { EscalationTrigger, MessageIntent, MESSAGE_INTENTS, SentimentScore } from '../models/chatMessage';
+import { contactLogService } from './contactLogService';
+import { normalizeText } from './intentClassifier';
+import { sentimentService } from './sentimentService';
+import { sessionStateMachine } from './sessionStateMachine';
+
+export interface EscalationConfig {
+  // Session frustration (0 to 1) at which the customer is handed to a human
+  frustrationThreshold: number;
+  // Customer intents the agent should not handle on its own
+  intents: MessageIntent[];
+  // Same intent this many times in a row, or the agent repeating itself, is a loop
+  loopThreshold: number;
+}
+
+export interface EscalationDecision {
+  trigger: EscalationTrigger;
+  reason: string;
+}
+
+export type HandoffEvent = 'escalated' | 'claimed' | 'returned_to_ai' | 'closed';
+
+// Sent to supervisors and to the session room on every handoff step
+export interface HandoffEventData {
+  sessionId: string;
+  customerId: string;
+  customerName: string;
+  trigger?: string | null;
+  reason?: string | null;
+  agentName?: string | null;
+  timestamp: Date;
+}
+
+export interface HumanAgent {
+  id: string;
+  name: string;
+}
+
+// A session waiting for, or handled by, a human agent
+export interface HandoffQueueEntry {
+  sessionId: string;
+  customerId: string;
+  customerName: string;
+  serviceProvider: string;
+  trigger: string | null;
+  reason: string | null;
+  escalatedAt: Date | null;
+  frustrationScore: number | null;
+  lastMessage: string | null;
+  humanAgentId: string | null;
+  humanAgentName: string | null;
+  humanJoinedAt: Date | null;
+}
+
+const HANDOFF_MESSAGE = 'Entendi, vou te transferir para um dos nossos atendentes, que já vai continuar a conversa com você por aqui. Só um momento, por favor.';
+const RETURN_MESSAGE = 'Estou de volta para te ajudar por aqui. Se precisar de algo mais, é só me chamar!';
+
+// Matched against normalized text: the customer asking for a person
+const HUMAN_REQUEST_PATTERN = /\b(atendente|humano|pessoa (de verdade|real)|falar com (alguem|uma pessoa|um (gerente|supervisor|operador))|operador|nao quero falar com (robo|maquina|bot))\b/;
+
+export function getEscalationConfig(env: typeof process.env = process.env): EscalationConfig {
+  const intents = (env.ESCALATION_INTENTS ?? 'dispute')
+    .split(',')
+    .map(intent => intent.trim())
+    .filter((intent): intent is MessageIntent => (MESSAGE_INTENTS as readonly string[]).includes(intent));
+
+  return {
+    frustrationThreshold: Number(env.ESCALATION_FRUSTRATION_THRESHOLD) || 0.8,
+    intents,
+    loopThreshold: Number(env.ESCALATION_LOOP_THRESHOLD) || 3,
+  };
+}
+
+// Decides when a conversation goes to a human agent and runs the handoff: the
+// session is marked ESCALATED, which pauses the AI, and waits in the handoff
+// queue until an agent claims it. The agent can close it or give it back.
+export class EscalationService {
+  private config: EscalationConfig;
+
+  constructor(config: EscalationConfig = getEscalationConfig()) {
+    this.config = config;
+  }
+
+  // Replaced by the server to broadcast over Socket.io
+  private emitHandoffEvent(event: HandoffEvent, data: HandoffEventData): void {
+    console.log(`Handoff event: ${event}`, data.sessionId);
+  }
+
+  public setEventEmitter(emitter: (event: HandoffEvent, data: HandoffEventData) => void): void {
+    this.emitHandoffEvent = emitter;
+  }
+
+  private toEventData(session: ChatSession, agentName?: string | null): HandoffEventData {
+    return {
+      sessionId: session.id,
+      customerId: session.customerId,
+      customerName: session.customerName,
+      trigger: session.escalationTrigger,
+      reason: session.escalationReason,
+      agentName,
+      timestamp: new Date(),
+    };
+  }
+
+  // Why a customer message should go to a human, or null to let the agent
+  // reply. history is the conversation before the message.
+  evaluate(message: ChatMessage, history: ChatMessage[]): EscalationDecision | null {
+    if (HUMAN_REQUEST_PATTERN.test(normalizeText(message.content))) {
+      return { trigger: 'customer_request', reason: 'Cliente pediu atendimento humano' };
+    }
+
+    const intent = message.metadata.intent?.intent;
+    if (intent && this.config.intents.includes(intent)) {
+      return { trigger: 'intent', reason: `Intenção ${intent} requer atendimento humano` };
+    }
+
+    const customerMessages = [...history, message].filter(msg => msg.sender === 'customer');
+    const scores = customerMessages
+      .map(msg => msg.metadata.sentiment)
+      .filter((score): score is SentimentScore => !!score);
+    const { frustrationScore } = sentimentService.rollUp(scores);
+    if (scores.length > 0 && frustrationScore >= this.config.frustrationThreshold) {
+      return { trigger: 'frustration', reason: `Frustração do cliente em ${frustrationScore}` };
+    }
+
+    return this.detectLoop(customerMessages, history);
+  }
+
+  // The customer stuck on the same intent, or the agent sending the same reply again
+  private detectLoop(customerMessages: ChatMessage[], history: ChatMessage[]): EscalationDecision | null {
+    const threshold = this.config.loopThreshold;
+
+    const recentIntents = customerMessages.slice(-threshold).map(msg => msg.metadata.intent?.intent);
+    if (recentIntents.length === threshold && recentIntents[0] && recentIntents.every(intent => intent === recentIntents[0])) {
+      return { trigger: 'loop', reason: `Cliente repetiu a intenção ${recentIntents[0]} ${threshold} vezes seguidas` };
+    }
+
+    const recentReplies = history
+      .filter(msg => msg.sender === 'ai')
+      .slice(-(threshold - 1))
+      .map(msg => normalizeText(msg.content));
+    if (threshold > 2 && recentReplies.length === threshold - 1 && recentReplies.every(reply => reply === recentReplies[0])) {
+      return { trigger: 'loop', reason: 'O agente repetiu a mesma resposta' };
+    }
+
+    return null;
+  }
+
+  buildHandoffMessage(chatSessionId: string, reason: string): ChatMessage {
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content: HANDOFF_MESSAGE,
+      timestamp: new Date(),
+      messageType: 'response',
+      metadata: { action: { type: 'escalate_to_human', payload: { reason } } }
+    });
+  }
+
+  buildReturnMessage(chatSessionId: string): ChatMessage {
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content: RETURN_MESSAGE,
+      timestamp: new Date(),
+      messageType: 'response'
+    });
+  }
+
+  // Marks an active session as escalated. Returns null when the session is
+  // missing or already finished or escalated; freeing its queue slot is up to
+  // the caller.
+  async escalate(sessionId: string, trigger: EscalationTrigger, reason: string): Promise<ChatSession | null> {
+    const session = await sessionStateMachine.transition(sessionId, 'escalated', {
+      reason: trigger,
+      data: {
+        escalatedAt: new Date(),
+        escalationTrigger: trigger,
+        escalationReason: reason,
+        humanAgentId: null,
+        humanAgentName: null,
+        humanJoinedAt: null
+      }
+    });
+    if (!session) return null;
+
+    await contactLogService.logContact({
+      customerId: session.customerId,
+      contactMethod: 'AI_CHAT',
+      outcome: 'ESCALATED',
+      notes: `Handed off to a human agent (${trigger}): ${reason}`,
+      agentId: 'ai_escalation',
+      sessionId,
+      successful: false,
+      metadata: { trigger }
+    });
+    this.emitHandoffEvent('escalated', this.toEventData(session));
+
+    console.log(`Chat session ${sessionId} escalated to a human agent: ${trigger}`);
+    return session;
+  }
+
+  // Escalated sessions, oldest first: unclaimed ones wait for an agent
+  async getHandoffQueue(): Promise<HandoffQueueEntry[]> {
+    const sessions = await prisma.chatSession.findMany({
+      where: { status: 'ESCALATED' },
+      include: {
+        customer: { select: { serviceProvider: true } },
+        messages: { where: { sender: 'CUSTOMER' }, orderBy: { timestamp: 'desc' }, take: 1 }
+      },
+      orderBy: { escalatedAt: 'asc' }
+    });
+
+    return sessions.map(session => ({
+      sessionId: session.id,
+      customerId: session.customerId,
+      customerName: session.customerName,
+      serviceProvider: session.customer.serviceProvider,
+      trigger: session.escalationTrigger,
+      reason: session.escalationReason,
+      escalatedAt: session.escalatedAt,
+      frustrationScore: session.frustrationScore,
+      lastMessage: session.messages[0]?.content ?? null,
+      humanAgentId: session.humanAgentId,
+      humanAgentName: session.humanAgentName,
+      humanJoinedAt: session.humanJoinedAt,
+    }));
+  }
+
+  // Escalated sessions that are unclaimed or already held by the agent
+  private availableTo(sessionId: string, agent: HumanAgent): Prisma.ChatSessionWhereInput {
+    return {
+      id: sessionId,
+      status: 'ESCALATED',
+      OR: [{ humanAgentId: null }, { humanAgentId: agent.id }]
+    };
+  }
+
+  // Assigns an escalated session to an agent. The first claim wins: returns
+  // null when the session is not escalated or another agent has it.
+  async claim(sessionId: string, agent: HumanAgent): Promise<ChatSession | null> {
+    const { count } = await prisma.chatSession.updateMany({
+      where: this.availableTo(sessionId, agent),
+      data: {
+        humanAgentId: agent.id,
+        humanAgentName: agent.name,
+        humanJoinedAt: new Date()
+      }
+    });
+    if (count === 0) return null;
+
+    const session = await prisma.chatSession.findUnique({ where: { id: sessionId } });
+    if (session) this.emitHandoffEvent('claimed', this.toEventData(session, agent.name));
+    return session;
+  }
+
+  // True when the agent holds the session
+  async isHandledBy(sessionId: string, agentId: string): Promise<boolean> {
+    const session = await prisma.chatSession.findFirst({
+      where: { id: sessionId, status: 'ESCALATED', humanAgentId: agentId },
+      select: { id: true }
+    });
+    return !!session;
+  }
+
+  // Hands the conversation back to the AI
+  async release(sessionId: string, agent: HumanAgent): Promise<ChatSession | null> {
+    const session = await sessionStateMachine.transition(sessionId, 'in-progress', {
+      reason: 'returned_to_ai',
+      where: this.availableTo(sessionId, agent),
+      data: {
+        returnedToAiAt: new Date(),
+        humanAgentId: null,
+        humanAgentName: null
+      }
+    });
+    if (session) this.emitHandoffEvent('returned_to_ai', this.toEventData(session, agent.name));
+    return session;
+  }
+
+  // Ends an escalated session on the agent's behalf
+  async close(sessionId: string, outcome: string, agent: HumanAgent): Promise<ChatSession | null> {
+    const session = await sessionStateMachine.transition(sessionId, 'completed', {
+      reason: 'closed_by_agent',
+      outcome,
+      where: this.availableTo(sessionId, agent)
+    });
+    if (session) {
+      await contactLogService.logContact({
+        customerId: session.customerId,
+        contactMethod: 'AI_CHAT',
+        outcome: 'SUCCESSFUL',
+        notes: `Closed by human agent ${agent.name}: ${outcome}`,
+        agentId: agent.id,
+        sessionId,
+        successful: true,
+        metadata: { handoff: true }
+      });
+      this.emitHandoffEvent('closed', this.toEventData(session, agent.name));
+    }
+    return session;
+  }
+}
+
+export const escalationService = new EscalationService();
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export type FileStorageType = 'local';
+
+export interface FileStorageConfig {
+  provider: FileStorageType;
+  // Root directory of the local storage
+  localDir: string;
+}
+
+// A stored file; key is what gets persisted and later read back
+export interface StoredFile {
+  key: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+// Where uploaded files (voice notes, receipts) are kept. Files are written
+// once under a generated key and never modified.
+export interface FileStorage {
+  readonly name: FileStorageType;
+  save(data: Buffer, options: { folder: string; contentType: string }): Promise<StoredFile>;
+  read(key: string): Promise<Buffer>;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'application/pdf': 'pdf',
+};
+
+// Drops codec parameters: "audio/webm;codecs=opus" -> "audio/webm"
+export function baseContentType(contentType: string): string {
+  return contentType.split(';')[0]!.trim().toLowerCase();
+}
+
+export function getFileStorageConfig(env: typeof process.env = process.env): FileStorageConfig {
+  const requested = (env.FILE_STORAGE || 'local').toLowerCase();
+  if (requested !== 'local') {
+    console.warn(`Unknown FILE_STORAGE "${requested}", using local storage`);
+  }
+
+  return {
+    provider: 'local',
+    localDir: path.resolve(env.FILE_STORAGE_DIR || 'uploads'),
+  };
+}
+
+// Files on the server's disk, one directory per folder and day
+export class LocalFileStorage implements FileStorage {
+  readonly name = 'local' as const;
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  async save(data: Buffer, options: { folder: string; contentType: string }): Promise<StoredFile> {
+    const contentType = baseContentType(options.contentType);
+    const extension = EXTENSIONS[contentType] || 'bin';
+    const key = `${options.folder}/${new Date().toISOString().slice(0, 10)}/${uuidv4()}.${extension}`;
+
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+
+    return { key, contentType, sizeBytes: data.length };
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  // Keys come back from the database; never let one point outside the root
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export function createFileStorage(config: FileStorageConfig = getFileStorageConfig()): FileStorage {
+  return new LocalFileStorage(config.localDir);
+}
+
+export const fileStorage = createFileStorage();
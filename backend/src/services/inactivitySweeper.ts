@@ -0,0 +1,156 @@
+import { MessageSender } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ChatMessageMetadata } from '../models/chatMessage';
+import { ChatSessionStatus } from '../models/chatSession';
+import { ConversationOrchestrator } from './conversationOrchestrator';
+
+export interface InactivityConfig {
+  enabled: boolean;
+  // Minutes without a new message before the customer gets a nudge
+  nudgeAfterMinutes: number;
+  // Minutes after the nudge, still without an answer, before the session is abandoned
+  abandonAfterMinutes: number;
+  // How often sessions are checked
+  sweepIntervalMs: number;
+}
+
+export type InactivityEvent = 'nudged' | 'abandoned';
+
+export interface InactivityEventData {
+  sessionId: string;
+  customerId: string;
+  idleMinutes: number;
+  timestamp: Date;
+}
+
+export interface SweepResult {
+  nudged: string[];
+  abandoned: string[];
+}
+
+// Sessions waiting on the customer. Escalated ones wait on a human agent and
+// payment-processing ones on the payment, so neither is swept.
+const SWEPT_STATES: ChatSessionStatus[] = ['initiated', 'active', 'in-progress', 'payment-requested'];
+
+// A session is only idle when the agent spoke last. After a customer message
+// the turn is the agent's, however long the reply takes.
+const AGENT_SENDERS: MessageSender[] = ['AI', 'HUMAN'];
+
+const MINUTE_MS = 60 * 1000;
+
+export function getInactivityConfig(env: typeof process.env = process.env): InactivityConfig {
+  return {
+    enabled: (env.INACTIVITY_SWEEPER || '').toLowerCase() !== 'off',
+    nudgeAfterMinutes: Number(env.INACTIVITY_NUDGE_MINUTES) || 10,
+    abandonAfterMinutes: Number(env.INACTIVITY_ABANDON_MINUTES) || 20,
+    sweepIntervalMs: Number(env.INACTIVITY_SWEEP_INTERVAL_MS) || 60000,
+  };
+}
+
+// Background check for conversations the customer stopped answering. After
+// nudgeAfterMinutes of silence the customer gets one nudge; if that goes
+// unanswered for abandonAfterMinutes the session is abandoned, which frees
+// its queue slot so the concurrency limit counts only live conversations.
+export class InactivitySweeper {
+  private orchestrator: ConversationOrchestrator;
+  private config: InactivityConfig;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  constructor(orchestrator: ConversationOrchestrator, config: InactivityConfig = getInactivityConfig()) {
+    this.orchestrator = orchestrator;
+    this.config = config;
+  }
+
+  // Replaced by the server to broadcast over Socket.io
+  private emitInactivityEvent(event: InactivityEvent, data: InactivityEventData): void {
+    console.log(`Inactivity event: ${event}`, data.sessionId);
+  }
+
+  public setEventEmitter(emitter: (event: InactivityEvent, data: InactivityEventData) => void): void {
+    this.emitInactivityEvent = emitter;
+  }
+
+  public start(): void {
+    if (!this.config.enabled || this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => {
+        console.error('Inactivity sweep error:', error);
+      });
+    }, this.config.sweepIntervalMs);
+
+    console.log(`Inactivity sweeper started: nudge after ${this.config.nudgeAfterMinutes} min, abandon ${this.config.abandonAfterMinutes} min later`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // One pass over the sessions waiting on the customer, measured from the
+  // agent's last message. A session that never got a message (its opening
+  // failed) is abandoned without a nudge once both thresholds have passed.
+  async sweep(now: Date = new Date()): Promise<SweepResult> {
+    const result: SweepResult = { nudged: [], abandoned: [] };
+    if (this.sweeping) return result;
+    this.sweeping = true;
+
+    try {
+      const nudgeAfterMs = this.config.nudgeAfterMinutes * MINUTE_MS;
+      const abandonAfterMs = this.config.abandonAfterMinutes * MINUTE_MS;
+
+      const sessions = await prisma.chatSession.findMany({
+        where: {
+          state: { in: SWEPT_STATES },
+          startTime: { lte: new Date(now.getTime() - nudgeAfterMs) }
+        },
+        select: {
+          id: true,
+          customerId: true,
+          startTime: true,
+          messages: { orderBy: { timestamp: 'desc' }, take: 1, select: { sender: true, timestamp: true, metadata: true } }
+        }
+      });
+
+      for (const session of sessions) {
+        const last = session.messages[0];
+        if (last && !AGENT_SENDERS.includes(last.sender)) continue;
+
+        const idleMs = now.getTime() - (last?.timestamp ?? session.startTime).getTime();
+        const nudged = !!((last?.metadata || {}) as ChatMessageMetadata).nudge;
+        const data = {
+          sessionId: session.id,
+          customerId: session.customerId,
+          idleMinutes: Math.floor(idleMs / MINUTE_MS),
+          timestamp: now,
+        };
+
+        try {
+          if (nudged || !last) {
+            if (idleMs < (nudged ? abandonAfterMs : nudgeAfterMs + abandonAfterMs)) continue;
+            if (await this.orchestrator.abandonSession(session.id, 'inactivity')) {
+              result.abandoned.push(session.id);
+              this.emitInactivityEvent('abandoned', data);
+            }
+          } else if (idleMs >= nudgeAfterMs) {
+            await this.orchestrator.nudge(session.id);
+            result.nudged.push(session.id);
+            this.emitInactivityEvent('nudged', data);
+          }
+        } catch (error) {
+          console.error(`Error sweeping inactive session ${session.id}:`, error);
+        }
+      }
+
+      if (result.nudged.length > 0 || result.abandoned.length > 0) {
+        console.log(`Inactivity sweep: ${result.nudged.length} nudged, ${result.abandoned.length} abandoned`);
+      }
+      return result;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
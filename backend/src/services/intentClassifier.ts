@@ -0,0 +1,238 @@
+import Joi from 'joi';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import ChatMessage, { IntentClassification, MESSAGE_INTENTS, MessageIntent, PaymentMethodOption } from '../models/chatMessage';
+import { LlmProvider, LlmToolDefinition } from './llmProvider';
+
+export type IntentClassifierType = 'rule' | 'llm';
+
+// Classifies a customer message before the agent replies to it
+export interface IntentClassifier {
+  readonly name: IntentClassifierType;
+  classify(text: string, history?: ChatMessage[]): Promise<IntentClassification>;
+}
+
+interface IntentRule {
+  intent: MessageIntent;
+  patterns: RegExp[];
+}
+
+// Ordered by precedence: when two intents match equally, the first one wins.
+// Patterns run against lowercased text with accents stripped.
+const INTENT_RULES: IntentRule[] = [
+  {
+    intent: 'opt_out',
+    patterns: [
+      /\bpar[ae]m? de (me )?(mandar|enviar|ligar|chamar|incomodar)/,
+      /\bnao (quero|desejo) (mais )?(receber|ser contatad|que (me )?(liguem|mandem|chamem))/,
+      /\bnao (quero|desejo) mais (contato|mensage)/,
+      /\bnao (me )?(mande|mandem|envie|enviem|ligue|liguem|contate|procure)m? mais/,
+      /\bnao entre(m)? mais em contato/,
+      /\b(descadastr|sair da lista|me (tira|tirem|remova|removam) (da|dessa|desta) lista)/,
+      /\bremov(a|e|er|am) meu (numero|contato|telefone)/,
+      /^\s*(stop|sair|parar)\s*[.!]*\s*$/,
+    ],
+  },
+  {
+    intent: 'wrong_person',
+    patterns: [
+      /\b(numero|pessoa|contato) errad[oa]/,
+      /\bnao sou (eu|o|a|esse|essa|este|esta)\b/,
+      /\b(nao conheco|nunca ouvi falar) (ess[ae]|est[ae]|o|a)\b/,
+      /\b(foi|e) engano\b/,
+      /\bnao (tenho|possuo) (conta|cadastro|contrato)/,
+    ],
+  },
+  {
+    intent: 'already_paid',
+    patterns: [
+      /\bja (paguei|pago|foi pag[oa]|esta pag[oa]|ta pag[oa]|quitei|efetuei|fiz o pagamento|realizei o pagamento|transferi)/,
+      /\bpaguei (ontem|hoje|semana passada|mes passado|no dia|na (segunda|terca|quarta|quinta|sexta))/,
+      /\b(tenho|mandei|envio|enviei) o comprovante/,
+      /\bcomprovante\b/,
+    ],
+  },
+  {
+    intent: 'dispute',
+    patterns: [
+      /\bnao reconheco/,
+      /\bcobranca (indevida|errada|abusiva)/,
+      /\bvalor (errado|incorreto|absurdo|abusivo)/,
+      /\bcobrad[oa]s? (a mais|em dobro|duas vezes|errado)/,
+      /\bnao (devo|contratei|solicitei|assinei|pedi)\b/,
+      /\b(contestar|contestacao|cancelei|fraude|golpe|procon)\b/,
+    ],
+  },
+  {
+    intent: 'hardship',
+    patterns: [
+      /\bdesempregad[oa]/,
+      /\b(perdi|fiquei sem) (o |meu )?(emprego|trabalho)/,
+      /\b(sem|nao tenho|nao tem) (dinheiro|grana|condic)/,
+      /\bnao (tenho como|consigo|posso|da pra) pagar/,
+      /\b(dificuldade|problema)s? financeir/,
+      /\b(apertad[oa]|quebrad[oa]|endividad[oa]|sem salario|salario atrasado|doente|hospital)\b/,
+    ],
+  },
+  {
+    intent: 'negotiate',
+    patterns: [
+      /\b(parcel|dividir|negoci|acordo|abat|desconto|juros|multa)/,
+      /\b(mais prazo|prorrog|adiar|pagar (depois|mais tarde|so (no|na|em))|outra data)/,
+      /\bpagar (uma )?parte\b/,
+    ],
+  },
+  {
+    intent: 'promise_to_pay',
+    patterns: [
+      /\b(pago|pagarei|vou pagar|consigo pagar|posso pagar|da pra pagar|acerto|vou acertar|quito|faco o (pix|pagamento))\b.*\b(amanha|dia \d{1,2}|\d{1,2}\/\d{1,2}|segunda|terca|quarta|quinta|sexta|sabado|domingo|semana que vem|proxima semana|(fim|final) do mes)\b/,
+      /\b(recebo|vou receber|cai o salario|sai o salario|quando (eu )?receber)\b/,
+      /\b(dia \d{1,2}|\d{1,2}\/\d{1,2}|(na|no|ate) (segunda|terca|quarta|quinta|sexta|sabado|domingo))\b/,
+    ],
+  },
+  {
+    intent: 'payment_method_choice',
+    patterns: [
+      /\b(pix|cartao|credito|boleto|debito)\b/,
+    ],
+  },
+  {
+    intent: 'wants_to_pay',
+    patterns: [
+      /\b(quero|vou|posso|gostaria de|preciso) (pagar|quitar|resolver|regularizar)/,
+      /\bcomo (eu )?(pago|faco (para|pra) pagar|posso pagar)/,
+      /\b(vamos|bora) resolver/,
+      /\b(pode mandar|manda|me envia|envia) (a fatura|o link|o boleto|o codigo)/,
+      /^\s*(sim|claro|ok|okay|pode ser|bora|beleza|blz|combinado|fechado|perfeito|vamos|quero)\s*[.!]*\s*$/,
+    ],
+  },
+];
+
+const PAYMENT_METHOD_PATTERNS: Array<[PaymentMethodOption, RegExp]> = [
+  ['pix', /\bpix\b/],
+  ['credit', /\b(cartao|credito)\b/],
+  ['boleto', /\bboleto\b/],
+];
+
+export function normalizeText(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+export function detectPaymentMethod(text: string): PaymentMethodOption | undefined {
+  const normalized = normalizeText(text);
+  return PAYMENT_METHOD_PATTERNS.find(([, pattern]) => pattern.test(normalized))?.[0];
+}
+
+// Keyword/regex classifier tuned for pt-BR collection chats. Deterministic and
+// free, so it is the default and the fallback for the LLM classifier.
+export class RuleBasedIntentClassifier implements IntentClassifier {
+  readonly name = 'rule' as const;
+
+  async classify(text: string): Promise<IntentClassification> {
+    const normalized = normalizeText(text);
+
+    let best: { intent: MessageIntent; matches: number } | null = null;
+    for (const rule of INTENT_RULES) {
+      const matches = rule.patterns.filter(pattern => pattern.test(normalized)).length;
+      if (matches > 0 && (!best || matches > best.matches)) {
+        best = { intent: rule.intent, matches };
+      }
+    }
+
+    if (!best) {
+      return { intent: 'off_topic', confidence: 0.3, classifier: this.name };
+    }
+
+    const classification: IntentClassification = {
+      intent: best.intent,
+      confidence: Math.round(Math.min(0.95, 0.6 + 0.15 * best.matches) * 100) / 100,
+      classifier: this.name,
+    };
+
+    const paymentMethod = detectPaymentMethod(text);
+    if (paymentMethod && (best.intent === 'payment_method_choice' || best.intent === 'wants_to_pay')) {
+      classification.paymentMethod = paymentMethod;
+    }
+
+    return classification;
+  }
+}
+
+const CLASSIFY_TOOL: LlmToolDefinition = {
+  name: 'classify_intent',
+  description: 'Registra a intenção da última mensagem do cliente.',
+  parameters: {
+    type: 'object',
+    properties: {
+      intent: { type: 'string', enum: MESSAGE_INTENTS },
+      confidence: { type: 'number', description: 'Confiança entre 0 e 1.' },
+      paymentMethod: { type: 'string', enum: ['credit', 'pix', 'boleto'] },
+    },
+    required: ['intent', 'confidence'],
+  },
+};
+
+const classificationSchema = Joi.object({
+  intent: Joi.string().valid(...MESSAGE_INTENTS).required(),
+  confidence: Joi.number().min(0).max(1).required(),
+  paymentMethod: Joi.string().valid('credit', 'pix', 'boleto'),
+});
+
+const CLASSIFIER_PROMPT = `Você classifica mensagens de clientes em um atendimento de cobrança via WhatsApp.
+Intenções possíveis:
+- wants_to_pay: quer pagar ou concorda em pagar
+- payment_method_choice: escolheu Pix, cartão de crédito ou boleto
+- already_paid: diz que já pagou
+- dispute: contesta a cobrança ou o valor
+- negotiate: pede parcelamento, desconto ou mais prazo
+- promise_to_pay: promete pagar em uma data (ex.: "pago na sexta", "recebo dia 10")
+- hardship: relata dificuldade financeira ou pessoal
+- opt_out: pede para não ser mais contatado
+- wrong_person: diz que não é a pessoa ou que o número está errado
+- off_topic: qualquer outra coisa
+Sempre chame classify_intent.`;
+
+// Asks the model to classify, falling back to the rule-based classifier when
+// it doesn't call the tool or returns something invalid
+export class LlmIntentClassifier implements IntentClassifier {
+  readonly name = 'llm' as const;
+  private provider: LlmProvider;
+  private fallback: IntentClassifier;
+
+  constructor(provider: LlmProvider, fallback: IntentClassifier = new RuleBasedIntentClassifier()) {
+    this.provider = provider;
+    this.fallback = fallback;
+  }
+
+  async classify(text: string, history: ChatMessage[] = []): Promise<IntentClassification> {
+    try {
+      const lastAgentMessage = [...history].reverse().find(msg => msg.sender === 'ai');
+      const context = lastAgentMessage ? `Última mensagem do agente: ${lastAgentMessage.content}\n` : '';
+
+      const result = await this.provider.invoke([
+        new SystemMessage(CLASSIFIER_PROMPT),
+        new HumanMessage(`${context}Mensagem do cliente: ${text}`),
+      ], {
+        tools: [CLASSIFY_TOOL],
+        trace: { purpose: 'intent_classification', chatSessionId: history[0]?.chatSessionId },
+      });
+
+      const call = result.toolCalls.find(toolCall => toolCall.name === CLASSIFY_TOOL.name);
+      const { error, value } = classificationSchema.validate(call?.args || {}, { stripUnknown: true });
+
+      if (!call || error) {
+        return this.fallback.classify(text, history);
+      }
+
+      return { ...value, classifier: this.name } as IntentClassification;
+    } catch (error) {
+      console.error('Error classifying intent with LLM, using rule-based classifier:', error);
+      return this.fallback.classify(text, history);
+    }
+  }
+}
+
+export function createIntentClassifier(provider: LlmProvider, env: typeof process.env = process.env): IntentClassifier {
+  return (env.INTENT_CLASSIFIER || '').toLowerCase() === 'llm'
+    ? new LlmIntentClassifier(provider)
+    : new RuleBasedIntentClassifier();
+}
@@ -0,0 +1,178 @@
+import { PolicyDocument } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { Bm25Index, chunkDocument, IndexedPassage, ScoredPassage } from './policyRetrieval';
+import { serviceProviderService } from './serviceProviderService';
+
+export interface PolicyDocumentInput {
+  title: string;
+  content: string;
+  vertical?: string | null;
+  serviceProvider?: string | null;
+  sourceName?: string | null;
+  isActive?: boolean;
+}
+
+export interface KnowledgeConfig {
+  // Passages given to the model per reply
+  topK: number;
+  // BM25 score below which a passage is not relevant enough to cite
+  minScore: number;
+}
+
+export interface KnowledgeScope {
+  serviceProvider?: string | null;
+  vertical?: string | null;
+}
+
+// Finds policy passages for a customer question; injected into the reply
+// generation so evaluations and tests can run without the database
+export interface PolicyRetriever {
+  retrieve(query: string, scope: KnowledgeScope): Promise<ScoredPassage[]>;
+}
+
+export type PolicyDocumentWithChunkCount = PolicyDocument & { _count: { chunks: number } };
+
+export function getKnowledgeConfig(env: typeof process.env = process.env): KnowledgeConfig {
+  return {
+    topK: Number(env.KNOWLEDGE_TOP_K) || 3,
+    minScore: Number(env.KNOWLEDGE_MIN_SCORE) || 1,
+  };
+}
+
+// Provider policy documents and the BM25 index the agent retrieves from. The
+// index is built from the stored chunks on first use and dropped whenever a
+// document changes, so the next question rebuilds it.
+export class KnowledgeBaseService implements PolicyRetriever {
+  private config: KnowledgeConfig;
+  private index: Bm25Index | null = null;
+
+  constructor(config: KnowledgeConfig = getKnowledgeConfig()) {
+    this.config = config;
+  }
+
+  async list(filters: { vertical?: string; serviceProvider?: string; active?: boolean } = {}): Promise<PolicyDocumentWithChunkCount[]> {
+    return prisma.policyDocument.findMany({
+      where: {
+        vertical: filters.vertical,
+        serviceProvider: filters.serviceProvider,
+        isActive: filters.active,
+      },
+      include: { _count: { select: { chunks: true } } },
+      orderBy: [{ serviceProvider: 'asc' }, { vertical: 'asc' }, { title: 'asc' }]
+    });
+  }
+
+  async get(id: string) {
+    return prisma.policyDocument.findUnique({
+      where: { id },
+      include: { chunks: { orderBy: { position: 'asc' } } }
+    });
+  }
+
+  // Stores the document and indexes it right away
+  async create(input: PolicyDocumentInput): Promise<PolicyDocumentWithChunkCount> {
+    const document = await prisma.policyDocument.create({ data: input });
+    return this.reindexDocument(document.id);
+  }
+
+  // Content changes rebuild the document's chunks; other edits only refresh the index
+  async update(id: string, input: Partial<PolicyDocumentInput>): Promise<PolicyDocumentWithChunkCount> {
+    const document = await prisma.policyDocument.update({ where: { id }, data: input });
+    if (input.content !== undefined) {
+      return this.reindexDocument(document.id);
+    }
+
+    this.invalidate();
+    return prisma.policyDocument.findUniqueOrThrow({
+      where: { id },
+      include: { _count: { select: { chunks: true } } }
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.policyDocument.delete({ where: { id } });
+    this.invalidate();
+  }
+
+  // Re-chunks one document from its stored content
+  async reindexDocument(id: string): Promise<PolicyDocumentWithChunkCount> {
+    const document = await prisma.policyDocument.findUniqueOrThrow({ where: { id } });
+    const chunks = chunkDocument(document.content);
+
+    const [, , updated] = await prisma.$transaction([
+      prisma.policyChunk.deleteMany({ where: { documentId: id } }),
+      prisma.policyChunk.createMany({
+        data: chunks.map(chunk => ({ documentId: id, ...chunk }))
+      }),
+      prisma.policyDocument.update({
+        where: { id },
+        data: { indexedAt: new Date() },
+        include: { _count: { select: { chunks: true } } }
+      }),
+    ]);
+
+    this.invalidate();
+    console.log(`Policy document "${document.title}" indexed: ${chunks.length} passages`);
+    return updated;
+  }
+
+  // Re-chunks every document, e.g. after the chunking rules change
+  async reindexAll(): Promise<{ documents: number; passages: number }> {
+    const documents = await prisma.policyDocument.findMany({ select: { id: true } });
+    let passages = 0;
+    for (const document of documents) {
+      const updated = await this.reindexDocument(document.id);
+      passages += updated._count.chunks;
+    }
+    return { documents: documents.length, passages };
+  }
+
+  // Passages relevant to the question within the customer's scope: their
+  // provider's documents, their vertical's, and those that apply to everyone.
+  // Returns nothing rather than failing the reply when the index is unavailable.
+  async retrieve(query: string, scope: KnowledgeScope): Promise<ScoredPassage[]> {
+    try {
+      const index = await this.getIndex();
+      if (index.size === 0) return [];
+
+      const vertical = scope.vertical ?? await serviceProviderService.getVertical(scope.serviceProvider);
+      const inScope = (passage: IndexedPassage) =>
+        passage.serviceProvider
+          ? passage.serviceProvider === scope.serviceProvider
+          : !passage.vertical || passage.vertical === vertical;
+
+      return index.search(query, this.config.topK, inScope)
+        .filter(passage => passage.score >= this.config.minScore);
+    } catch (error) {
+      console.error('Error retrieving policy passages:', error);
+      return [];
+    }
+  }
+
+  private async getIndex(): Promise<Bm25Index> {
+    if (this.index) return this.index;
+
+    const chunks = await prisma.policyChunk.findMany({
+      where: { document: { isActive: true } },
+      include: { document: { select: { title: true, serviceProvider: true, vertical: true } } },
+      orderBy: [{ documentId: 'asc' }, { position: 'asc' }]
+    });
+
+    this.index = new Bm25Index(chunks.map(chunk => ({
+      id: chunk.id,
+      documentId: chunk.documentId,
+      title: chunk.document.title,
+      heading: chunk.heading,
+      content: chunk.content,
+      serviceProvider: chunk.document.serviceProvider,
+      vertical: chunk.document.vertical,
+    })));
+    return this.index;
+  }
+
+  private invalidate(): void {
+    this.index = null;
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
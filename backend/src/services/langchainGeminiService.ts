@@ -1,11 +1,20 @@
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { BaseMessage, HumanMessage, AIMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { Client } from 'langsmith';
-import ChatMessage from '../models/chatMessage';
-import { TemplateService } from './templateService';
-
-interface CustomerData {
+import ChatMessage, { ChatAction, IntentClassification, InvoiceData, KnowledgeCitation, MessageIntent, PromptInjectionMetadata } from '../models/chatMessage';
+import { LlmCallTrace, LlmProvider, LlmResponse, createLlmProvider } from './llmProvider';
+import { CHAT_ACTION_TOOLS, buildInstallmentOffer, buildPaymentPromise, getActionCaption, validateChatAction } from './chatActions';
+import { PromptTemplateService, promptTemplateService } from './promptTemplateService';
+import { IntentClassifier, createIntentClassifier } from './intentClassifier';
+import { PromptInjectionDetector, createInjectionDetector, sanitizeCustomerText } from './promptInjectionDetector';
+import { GuardrailContext, OPENING_MAX_SENTENCES, outputGuardrails } from './outputGuardrails';
+import { ServiceProviderProfile, serviceProviderService } from './serviceProviderService';
+import { NegotiationTerms } from './negotiationPolicyService';
+import { ActiveSpan, tracingService } from './tracingService';
+import { CircuitOpenError } from './resilientLlmProvider';
+import { describeDate, extractPaymentPromise, toDateKey } from './paymentPromiseParser';
+import { PolicyRetriever, knowledgeBaseService } from './knowledgeBaseService';
+import { ScoredPassage } from './policyRetrieval';
+
+export interface CustomerData {
   id: string;
   name: string;
   email: string;
@@ -20,254 +29,561 @@ interface CustomerData {
   currentPaymentStatus?: string;
 }
 
-const geminiApiKey = process.env.GEMINI_API_KEY;
-const langsmithApiKey = process.env.LANGCHAIN_API_KEY;
-const langsmithProject = process.env.LANGCHAIN_PROJECT || 'gemini-churn-prevention';
+interface GenerateResponseOptions {
+  // Receives streamed text deltas that passed the guardrails; a reply replaced
+  // by them is not re-streamed
+  onToken?: (delta: string) => void;
+  serviceProvider?: string | null;
+  customer?: GuardrailContext['customer'];
+  // The customer's negotiation terms; without them the agent can't offer plans
+  negotiation?: NegotiationTerms | null;
+  // Id the reply will be saved under, so its model calls can be linked to it
+  messageId?: string;
+  // Assembled by customerContextService: profile, payment situation and history
+  customerContext?: string | null;
+}
 
-if (!geminiApiKey) {
-  throw new Error('GEMINI_API_KEY is not set in environment variables.');
+// Server-side data the agent's actions are filled from
+interface ActionContext {
+  invoice: InvoiceData | null;
+  negotiation: NegotiationTerms | null;
 }
 
+// Rule-based replies for intents that don't map to an action
+const FALLBACK_REPLIES: Partial<Record<MessageIntent, string>> = {
+  already_paid: 'Obrigado por avisar, vou verificar o seu pagamento por aqui. Se tiver o comprovante, pode me enviar?',
+  dispute: 'Entendi sua contestação. Vou registrar para revisarmos o valor com você.',
+  negotiate: 'Entendo, vamos encontrar uma forma de pagamento que caiba no seu orçamento. Prefere pagar com Pix, cartão ou boleto?',
+  promise_to_pay: 'Combinado! Para qual dia posso registrar o seu pagamento?',
+  hardship: 'Sinto muito pela situação. Vamos ver juntos uma forma de regularizar sem pesar no seu orçamento.',
+  wrong_person: 'Desculpe o incômodo! Vamos corrigir nosso cadastro.',
+  off_topic: 'Posso te ajudar com a sua fatura em aberto. Quer regularizar agora por Pix, cartão ou boleto?',
+};
+
 export class LangchainGeminiService {
-  private model: ChatGoogleGenerativeAI;
-  private templateService: TemplateService;
-  private langsmithClient: Client | null;
-
-  constructor() {
-    this.model = new ChatGoogleGenerativeAI({
-      model: 'gemini-2.5-flash',
-      apiKey: geminiApiKey,
-      temperature: 0.7,
-      maxOutputTokens: 1024,
-    });
+  private provider: LlmProvider;
+  private intentClassifier: IntentClassifier;
+  private prompts: PromptTemplateService;
+  private knowledgeBase: PolicyRetriever;
+  private injectionDetector: PromptInjectionDetector;
+
+  constructor(
+    provider: LlmProvider = createLlmProvider(),
+    intentClassifier: IntentClassifier = createIntentClassifier(provider),
+    prompts: PromptTemplateService = promptTemplateService,
+    knowledgeBase: PolicyRetriever = knowledgeBaseService,
+    injectionDetector: PromptInjectionDetector = createInjectionDetector(provider)
+  ) {
+    this.provider = provider;
+    this.intentClassifier = intentClassifier;
+    this.prompts = prompts;
+    this.knowledgeBase = knowledgeBase;
+    this.injectionDetector = injectionDetector;
+  }
 
-    this.templateService = new TemplateService();
+  // Which LLM backend this service is wired to (for health/debug endpoints)
+  public getProviderInfo(): { provider: string; model: string; intentClassifier: string } {
+    return { provider: this.provider.name, model: this.provider.model, intentClassifier: this.intentClassifier.name };
+  }
 
-    // Initialize LangSmith client if API key is available
-    this.langsmithClient = langsmithApiKey
-      ? new Client({ apiKey: langsmithApiKey })
-      : null;
+  // Classifies a customer message; stored on the message and used to route the reply
+  public async classifyIntent(content: string, history: ChatMessage[] = []): Promise<IntentClassification> {
+    return this.intentClassifier.classify(sanitizeCustomerText(content), history);
+  }
 
-    if (this.langsmithClient) {
-      console.log(`LangSmith tracing enabled for project: ${langsmithProject}`);
-    } else {
-      console.log('LangSmith tracing disabled - no API key provided');
-    }
+  // Checked before anything else sees a customer message; a flagged message
+  // must not be classified or answered by the model
+  public async detectInjection(content: string, history: ChatMessage[] = []): Promise<PromptInjectionMetadata> {
+    return this.injectionDetector.detect(content, history);
   }
 
-  public async generateInitialMessage(chatSession: any, customerData: CustomerData | null = null): Promise<ChatMessage> {
-    const runId = this.langsmithClient ? await this.startLangSmithRun('generate_initial_message', {
-      customerId: customerData?.id,
-      customerName: customerData?.name,
-      serviceProvider: customerData?.serviceProvider,
-      riskCategory: customerData?.riskCategory,
-    }) : null;
+  // customerContext is the assembled customer context; without it the prompt
+  // only gets the basic fields of customerData
+  public async generateInitialMessage(chatSession: any, customerData: CustomerData | null = null, customerContext: string | null = null): Promise<ChatMessage> {
+    return tracingService.withSpan({
+      name: 'generate_initial_message',
+      chatSessionId: chatSession.id,
+      inputs: {
+        customerId: customerData?.id,
+        customerName: customerData?.name,
+        serviceProvider: customerData?.serviceProvider,
+        riskCategory: customerData?.riskCategory,
+      },
+    }, span => this.createInitialMessage(span, chatSession, customerData, customerContext));
+  }
 
+  private async createInitialMessage(
+    span: ActiveSpan,
+    chatSession: any,
+    customerData: CustomerData | null,
+    assembledContext: string | null
+  ): Promise<ChatMessage> {
     try {
-      const customerContext = this.buildCustomerContext(customerData);
-      const serviceCategory = customerData?.serviceProvider ? this.getServiceCategory(customerData.serviceProvider) : 'telecom';
-      const systemPrompt = this.templateService.getSystemPrompt(serviceCategory);
+      const { prompt, messages } = await tracingService.withSpan({
+        name: 'prompt_build',
+        inputs: { template: 'initial_message' },
+      }, async promptSpan => {
+        const customerContext = assembledContext || this.buildCustomerContext(customerData);
+        const provider = await serviceProviderService.resolve(customerData?.serviceProvider);
+        const vertical = provider?.vertical ?? null;
+        const prompt = await this.prompts.resolve('initial_message', {
+          vertical,
+          serviceProvider: customerData?.serviceProvider,
+        }, {
+          customerName: customerData?.name,
+          serviceProvider: customerData?.serviceProvider,
+        });
 
-      const prompt = ChatPromptTemplate.fromMessages([
-        ['system', systemPrompt],
-        ['human', `Inicie uma conversa com o cliente. Contexto:\n${customerContext}\n\nENVIE APENAS uma saudação curta e direta, Seja empático, educado e use linguagem coloquial brasileira. Explique o motivo do contato deixando claro que é um problema no pagamento. NÃO mencione fatura ou cartão nesta mensagem - isso será enviado automaticamente na próxima mensagem.`],
-      ]);
+        const messages: BaseMessage[] = [
+          new SystemMessage([prompt.content, provider ? this.describeBrand(provider) : null].filter(Boolean).join('\n\n')),
+          new HumanMessage(`Inicie uma conversa com o cliente. Contexto:\n${customerContext}\n\nENVIE APENAS uma saudação curta e direta, Seja empático, educado e use linguagem coloquial brasileira. Explique o motivo do contato deixando claro que é um problema no pagamento. NÃO mencione fatura ou cartão nesta mensagem - isso será enviado automaticamente na próxima mensagem.`),
+        ];
 
-      const chain = prompt.pipe(this.model);
-      const result = await chain.invoke({});
+        promptSpan.setOutputs({ promptVersion: prompt.version, vertical });
+        return { prompt, messages };
+      });
 
-      let aiResponseContent = '';
-      if (result.content) {
-        aiResponseContent = typeof result.content === 'string' ? result.content : String(result.content);
-      }
+      const result = await this.provider.invoke(messages, {
+        trace: { purpose: 'initial_message', chatSessionId: chatSession.id },
+      });
+      const aiResponseContent = result.content;
 
       if (!aiResponseContent || aiResponseContent.trim() === '') {
         console.warn('AI returned empty initial message, using fallback');
-        if (runId) await this.endLangSmithRun(runId, { error: 'Empty response, using fallback' });
+        span.fail('Empty response, using fallback');
         return this.generateFallbackMessage(chatSession, customerData);
       }
 
+      // The opening goes through the same checks as replies; one that fails
+      // is replaced by the deterministic greeting
+      const violations = await outputGuardrails.check(aiResponseContent.trim(), {
+        customer: customerData,
+        maxSentences: OPENING_MAX_SENTENCES,
+      });
+      if (violations.length > 0) {
+        await outputGuardrails.recordViolations({
+          chatSessionId: chatSession.id,
+          content: aiResponseContent.trim(),
+          violations,
+          resolution: 'fallback',
+          attempt: 1,
+        });
+        span.fail('Guardrail violations, using fallback');
+        const fallback = this.generateFallbackMessage(chatSession, customerData);
+        fallback.metadata.guardrails = { violations, resolution: 'fallback' };
+        return fallback;
+      }
+
       const chatMessage = new ChatMessage({
         chatSessionId: chatSession.id,
         sender: 'ai',
         content: aiResponseContent.trim(),
         timestamp: new Date(),
         messageType: 'greeting',
+        metadata: { prompt: this.prompts.toVersionRef(prompt) },
       });
 
-      if (runId) {
-        await this.endLangSmithRun(runId, {
-          output: aiResponseContent.trim(),
-          messageType: 'greeting',
-          success: true,
-        });
-      }
+      span.setOutputs({
+        output: aiResponseContent.trim(),
+        messageType: 'greeting',
+        promptVersion: prompt.version,
+      });
 
       return chatMessage;
     } catch (error) {
-      console.error('Error generating AI message with Gemini:', error);
-      if (runId) await this.endLangSmithRun(runId, { error: error instanceof Error ? error.message : 'Unknown error' });
+      console.error(`Error generating AI message with ${this.provider.name}:`, error);
+      span.fail(error);
       return this.generateFallbackMessage(chatSession, customerData);
     }
   }
 
-  public generateInvoiceCardMessage(chatSession: any, customerData: CustomerData | null = null): ChatMessage {
+  public generateInvoiceCardMessage(chatSession: any, customerData: CustomerData | null = null, negotiation: NegotiationTerms | null = null): ChatMessage {
     // Calcula a data de vencimento (15 dias a partir de hoje como exemplo)
     const dueDate = new Date();
     dueDate.setDate(dueDate.getDate() + 15);
     const formattedDueDate = dueDate.toLocaleDateString('pt-BR');
 
-    // Gera dados do cartão de fatura
-    const invoiceData = {
+    // Gera dados do cartão de fatura, com a marca do catálogo de provedores
+    const provider = serviceProviderService.lookup(customerData?.serviceProvider);
+    const invoiceData: InvoiceData = {
       customerName: chatSession.customerName || customerData?.name || 'Cliente',
       accountNumber: customerData?.id ? customerData.id.substring(0, 9) : '123423453',
-      brandName: customerData?.serviceProvider || 'Vivo',
+      brandName: provider?.brandName || customerData?.serviceProvider || 'Vivo',
       dueDate: formattedDueDate,
       amount: customerData?.accountValue ? (customerData.accountValue / 100) : 49.90,
       billPeriod: this.getCurrentMonthName()
     };
+    if (provider?.primaryColor) invoiceData.brandColor = provider.primaryColor;
+    if (provider?.textColor) invoiceData.brandTextColor = provider.textColor;
+    if (provider?.logoUrl) invoiceData.logoUrl = provider.logoUrl;
+    if (negotiation && negotiation.maxInstallments >= 2) {
+      invoiceData.maxInstallments = negotiation.maxInstallments;
+    }
 
     console.log('Gerando invoice card com dados:', invoiceData);
 
-    const content = `[INVOICE_CARD]${JSON.stringify(invoiceData)}`;
-
-    return new ChatMessage({
-      chatSessionId: chatSession.id,
-      sender: 'ai',
-      content: content,
-      timestamp: new Date(),
-      messageType: 'response',
-    });
+    return this.buildActionMessage(chatSession.id, { type: 'send_invoice', payload: invoiceData });
   }
 
   public async generateResponse(
     history: ChatMessage[],
-    currentMessage: ChatMessage
+    currentMessage: ChatMessage,
+    options: GenerateResponseOptions = {}
   ): Promise<ChatMessage> {
-    const runId = this.langsmithClient ? await this.startLangSmithRun('generate_response', {
-      sessionId: currentMessage.chatSessionId,
-      messageContent: currentMessage.content,
-      historyLength: history.length,
-    }) : null;
+    return tracingService.withSpan({
+      name: 'generate_response',
+      chatSessionId: currentMessage.chatSessionId,
+      inputs: {
+        messageContent: currentMessage.content,
+        historyLength: history.length,
+        intent: currentMessage.metadata.intent?.intent,
+      },
+    }, span => this.createResponse(span, history, currentMessage, options));
+  }
+
+  private async createResponse(
+    span: ActiveSpan,
+    history: ChatMessage[],
+    currentMessage: ChatMessage,
+    options: GenerateResponseOptions
+  ): Promise<ChatMessage> {
+    const actionContext: ActionContext = {
+      invoice: this.findLastInvoice(history),
+      negotiation: options.negotiation || null,
+    };
 
     try {
-      const systemPrompt = `Você é um assistente de atendimento da Bemobi via WhatsApp, especializado em resolver problemas de pagamento de forma rápida e amigável. Sempre tente convencer o cliente a fazer o pagamento.
-
-#REGRAS OBRIGATÓRIAS:
-1. SEMPRE responda com conteúdo útil e positivo - nunca deixe a resposta vazia
-2. NUNCA ofereça links ou URLs
-3. APENAS use o botão de pagamento quando o cliente concordar em pagar
-4. Seja empático, educado e use linguagem coloquial brasileira
-5. Mantenha respostas curtas (máximo 2 frases quando muito necessário)
-6. NUNCA diga que tem dificuldades para processar mensagens
-
-FLUXO DE PAGAMENTO WHATSAPP:
-- Se o cliente concordar em pagar ou escolher um método de pagamento, responda EXATAMENTE: [PAYMENT_BUTTON]
-- NUNCA adicione texto extra com [PAYMENT_BUTTON]
-- Se receber mensagem sobre "PAYMENT_CONFIRMED", SEMPRE confirme o sucesso do pagamento, agradeça e se despeça educadamente
-
-RESPOSTA PARA MÉTODOS DE PAGAMENTO:
-- Se cliente escolher Pix, Cartão de Crédito ou Boleto, responda apenas: [PAYMENT_BUTTON]
-- Se cliente disser "pix", "cartão", "boleto", ou similar, responda: [PAYMENT_BUTTON]
-
-EXEMPLOS DE RESPOSTAS:
-- Para "quero pagar com pix": "[PAYMENT_BUTTON]"
-- Para "vou pagar no cartão": "[PAYMENT_BUTTON]"
-- Para "escolho boleto": "[PAYMENT_BUTTON]"
-- Pós-pagamento: "Perfeito! ✅ Seu pagamento foi processado com sucesso. Muito obrigado e tenha um ótimo dia!"
-
-IMPORTANTE:
-- Este é um atendimento via WhatsApp
-- SEMPRE seja positivo e útil
-- Quando o pagamento for confirmado, SEMPRE celebre o sucesso e agradeça
-- NUNCA mencione dificuldades técnicas`;
-
-      const messages: BaseMessage[] = [
-        new SystemMessage(systemPrompt),
-        ...history.map(msg =>
-          msg.sender === 'customer'
-            ? new HumanMessage(msg.content)
-            : new AIMessage(msg.content)
-        ),
-        new HumanMessage(currentMessage.content)
-      ];
-
-      const result = await this.model.invoke(messages);
-
-      let aiResponseContent = '';
-      if (result.content) {
-        aiResponseContent = typeof result.content === 'string' ? result.content : String(result.content);
-      }
+      const { prompt, messages, passages } = await tracingService.withSpan({
+        name: 'prompt_build',
+        inputs: { template: 'chat_response', historyLength: history.length },
+      }, async promptSpan => {
+        const intent = currentMessage.metadata.intent;
+        const provider = await serviceProviderService.resolve(options.serviceProvider);
+        const vertical = provider?.vertical ?? null;
+        const prompt = await this.prompts.resolve('chat_response', {
+          vertical,
+          serviceProvider: options.serviceProvider,
+        }, { serviceProvider: options.serviceProvider });
+        const passages = await this.retrieveKnowledge(currentMessage, options.serviceProvider || null, vertical);
+
+        const systemContext = [
+          prompt.content,
+          provider ? this.describeBrand(provider) : null,
+          this.describeToday(),
+          options.customerContext ? `CONTEXTO DO CLIENTE:\n${options.customerContext}` : null,
+          intent ? this.describeIntent(intent) : null,
+          intent?.intent === 'promise_to_pay' ? this.describePromise(currentMessage.content) : null,
+          options.negotiation ? this.describeNegotiation(options.negotiation) : null,
+          passages.length > 0 ? this.describeKnowledge(passages) : null,
+        ].filter(Boolean).join('\n\n');
+
+        const messages: BaseMessage[] = [
+          new SystemMessage(systemContext),
+          // Customer text is sanitized, and flagged attempts are left out entirely
+          ...history
+            .filter(msg => !msg.metadata?.injection?.flagged)
+            .map(msg =>
+              msg.sender === 'customer'
+                ? new HumanMessage(sanitizeCustomerText(msg.content))
+                : new AIMessage(msg.content)
+            ),
+          new HumanMessage(sanitizeCustomerText(currentMessage.content))
+        ];
+
+        promptSpan.setOutputs({
+          promptVersion: prompt.version,
+          withNegotiation: !!options.negotiation,
+          knowledgePassages: passages.length,
+        });
+        return { prompt, messages, passages };
+      });
 
-      if (!aiResponseContent || aiResponseContent.trim() === '') {
+      const guardrailContext: GuardrailContext = {
+        customer: options.customer,
+        allowDiscounts: (options.negotiation?.maxDiscountPercent || 0) > 0,
+        maxInstallments: options.negotiation?.maxInstallments,
+      };
+
+      // Streamed text is checked as it grows; nothing unchecked reaches the customer
+      const stream = options.onToken ? outputGuardrails.guardStream(guardrailContext, options.onToken) : null;
+      const trace = { chatSessionId: currentMessage.chatSessionId, chatMessageId: options.messageId };
+      const result = await this.provider.invoke(messages, {
+        tools: CHAT_ACTION_TOOLS,
+        onToken: stream?.onToken,
+        trace: { ...trace, purpose: 'chat_response' },
+      }).finally(() => stream?.settle());
+
+      let reply = this.toReplyMessage(result, currentMessage.chatSessionId, actionContext);
+      if (!reply) {
         console.warn('AI returned empty response, using context fallback');
+        reply = this.buildFallbackReply(currentMessage, actionContext);
+      }
 
-        if (currentMessage.content.includes('PAYMENT_CONFIRMED')) {
-          return new ChatMessage({
-            chatSessionId: currentMessage.chatSessionId,
-            sender: 'ai',
-            content: 'Perfeito! ✅ Seu pagamento foi processado com sucesso. Muito obrigado e tenha um ótimo dia!',
-            timestamp: new Date(),
-            messageType: 'response',
-          });
-        }
-
-        // Verifica se é uma escolha de método de pagamento
-        const lowerContent = currentMessage.content.toLowerCase();
-        if (lowerContent.includes('pix') || lowerContent.includes('cartão') || lowerContent.includes('boleto') || 
-            lowerContent.includes('credito') || lowerContent.includes('crédito')) {
-          return new ChatMessage({
-            chatSessionId: currentMessage.chatSessionId,
-            sender: 'ai',
-            content: '[PAYMENT_BUTTON]',
-            timestamp: new Date(),
-            messageType: 'response',
-          });
-        }
-
-        return new ChatMessage({
-          chatSessionId: currentMessage.chatSessionId,
-          sender: 'ai',
-          content: 'Entendi! Como posso te ajudar com sua questão de pagamento?',
-          timestamp: new Date(),
-          messageType: 'response',
+      // Replies may only promise what the negotiation policy allows
+      const draft = reply;
+      const chatMessage = await tracingService.withSpan({
+        name: 'guardrails',
+        inputs: { content: draft.content, action: draft.metadata.action?.type },
+      }, async guardrailSpan => {
+        const checked = await this.enforceGuardrails(draft, messages, currentMessage, actionContext, trace, guardrailContext);
+        guardrailSpan.setOutputs({
+          resolution: checked.metadata.guardrails?.resolution || 'passed',
+          violations: checked.metadata.guardrails?.violations.map(violation => violation.rule) || [],
         });
+        return checked;
+      });
+      // Every reply records the prompt version that produced it, and the
+      // policy passages it was grounded on
+      chatMessage.metadata.prompt = this.prompts.toVersionRef(prompt);
+      if (passages.length > 0) {
+        chatMessage.metadata.knowledge = passages.map(passage => this.toCitation(passage));
       }
 
-      const chatMessage = new ChatMessage({
+      span.setOutputs({
+        output: chatMessage.content,
+        action: chatMessage.metadata.action?.type,
+        guardrails: chatMessage.metadata.guardrails?.resolution,
+        promptVersion: prompt.version,
+        messageType: 'response',
+      });
+
+      return chatMessage;
+    } catch (error) {
+      // The customer never hears about technical problems: the rule-based
+      // path answers instead, and takes over entirely while the circuit is open
+      const reason = error instanceof CircuitOpenError ? 'circuit_open' : 'model_error';
+      if (reason === 'model_error') {
+        console.error(`Error communicating with ${this.provider.name} LLM provider:`, error);
+      }
+      span.fail(error);
+
+      const fallback = this.buildFallbackReply(currentMessage, actionContext);
+      fallback.metadata.fallback = { reason };
+      return fallback;
+    }
+  }
+
+  // Builds an AI message carrying a validated action; content is the text the
+  // model wrote alongside the tool call, or a default caption for the action
+  private buildActionMessage(chatSessionId: string, action: ChatAction, content?: string): ChatMessage {
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content: content || getActionCaption(action.type),
+      timestamp: new Date(),
+      messageType: action.type === 'show_payment_options' ? 'payment-request' : 'response',
+      metadata: { action },
+    });
+  }
+
+  // Turns a model result into a reply, or null when it produced neither text nor a valid action
+  private toReplyMessage(result: LlmResponse, chatSessionId: string, actionContext: ActionContext): ChatMessage | null {
+    const content = result.content.trim();
+    const action = result.toolCalls
+      .map(toolCall => validateChatAction(toolCall, actionContext))
+      .find((validated): validated is ChatAction => validated !== null);
+
+    if (action) return this.buildActionMessage(chatSessionId, action, content);
+    if (!content) return null;
+
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content,
+      timestamp: new Date(),
+      messageType: 'response',
+    });
+  }
+
+  // Deterministic reply for when the model gives nothing usable
+  private buildFallbackReply(currentMessage: ChatMessage, actionContext: ActionContext): ChatMessage {
+    if (currentMessage.content.includes('PAYMENT_CONFIRMED')) {
+      return new ChatMessage({
         chatSessionId: currentMessage.chatSessionId,
         sender: 'ai',
-        content: aiResponseContent.trim(),
+        content: 'Perfeito, seu pagamento foi processado com sucesso! ✅ Muito obrigado e tenha um ótimo dia!',
         timestamp: new Date(),
         messageType: 'response',
+        metadata: { action: { type: 'close_conversation', payload: { reason: 'payment_completed' } } },
       });
+    }
 
-      if (runId) {
-        await this.endLangSmithRun(runId, {
-          output: aiResponseContent.trim(),
-          messageType: 'response',
-          success: true,
-        });
-      }
+    const fallbackAction = this.getIntentFallbackAction(currentMessage, actionContext);
+    if (fallbackAction) {
+      return this.buildActionMessage(currentMessage.chatSessionId, fallbackAction);
+    }
 
-      return chatMessage;
+    const intent = currentMessage.metadata.intent?.intent;
+    return new ChatMessage({
+      chatSessionId: currentMessage.chatSessionId,
+      sender: 'ai',
+      content: (intent && FALLBACK_REPLIES[intent]) || 'Entendi! Como posso te ajudar com sua questão de pagamento?',
+      timestamp: new Date(),
+      messageType: 'response',
+    });
+  }
+
+  // Runs the output guardrails. A failing reply is regenerated once with the
+  // violations as feedback (not streamed: the client swaps the streamed draft
+  // on message-complete); if that fails too, the deterministic fallback is used.
+  private async enforceGuardrails(
+    reply: ChatMessage,
+    messages: BaseMessage[],
+    currentMessage: ChatMessage,
+    actionContext: ActionContext,
+    trace: Omit<LlmCallTrace, 'purpose'>,
+    context: GuardrailContext
+  ): Promise<ChatMessage> {
+    const violations = await outputGuardrails.check(reply.content, context);
+    if (violations.length === 0) return reply;
+
+    let retry: ChatMessage | null = null;
+    try {
+      const result = await this.provider.invoke([
+        ...messages,
+        new AIMessage(reply.content),
+        new HumanMessage(outputGuardrails.buildRegenerationInstruction(violations)),
+      ], { tools: CHAT_ACTION_TOOLS, trace: { ...trace, purpose: 'guardrail_regeneration' } });
+      retry = this.toReplyMessage(result, currentMessage.chatSessionId, actionContext);
     } catch (error) {
-      console.error('Error communicating with Gemini AI:', error);
+      console.error('Error regenerating reply after guardrail violations:', error);
+    }
+
+    const retryViolations = retry ? await outputGuardrails.check(retry.content, context) : [];
+    const regenerated = retry !== null && retryViolations.length === 0;
+
+    await outputGuardrails.recordViolations({
+      chatSessionId: currentMessage.chatSessionId,
+      content: reply.content,
+      violations,
+      resolution: regenerated ? 'regenerated' : 'fallback',
+      attempt: 1,
+    });
 
-      const errorMessage = new ChatMessage({
+    if (retry && regenerated) {
+      retry.metadata.guardrails = { violations, resolution: 'regenerated' };
+      return retry;
+    }
+
+    if (retry && retryViolations.length > 0) {
+      await outputGuardrails.recordViolations({
         chatSessionId: currentMessage.chatSessionId,
-        sender: 'ai',
-        content: "Desculpe, estou com dificuldades para processar sua mensagem no momento. Pode tentar novamente?",
-        timestamp: new Date(),
-        messageType: 'error',
+        content: retry.content,
+        violations: retryViolations,
+        resolution: 'fallback',
+        attempt: 2,
       });
+    }
+
+    const fallback = this.buildFallbackReply(currentMessage, actionContext);
+    fallback.metadata.guardrails = { violations: [...violations, ...retryViolations], resolution: 'fallback' };
+    return fallback;
+  }
+
+  // Context line appended to the system prompt so the model knows what the classifier saw
+  private describeIntent(intent: IntentClassification): string {
+    const method = intent.paymentMethod ? `, método: ${intent.paymentMethod}` : '';
+    return `INTENÇÃO DETECTADA NA ÚLTIMA MENSAGEM: ${intent.intent} (confiança ${intent.confidence.toFixed(2)}${method})`;
+  }
+
+  // The provider's tone of voice; shapes how the agent writes, never what it offers
+  private describeBrand(provider: ServiceProviderProfile): string | null {
+    if (!provider.brandVoice) return null;
+    return `VOZ DA MARCA (${provider.brandName}): ${provider.brandVoice}`;
+  }
+
+  // Lets the model turn "sexta" or "dia 10" into a date for record_payment_promise
+  private describeToday(): string {
+    const today = toDateKey(new Date());
+    return `DATA DE HOJE: ${today} (${describeDate(today)})`;
+  }
+
+  // What the rule-based parser read from a promise, as a hint; the model decides
+  private describePromise(content: string): string | null {
+    const promise = extractPaymentPromise(content);
+    if (!promise) return null;
+    const amount = promise.amount !== undefined ? `R$ ${promise.amount.toFixed(2)}` : 'não informado';
+    return `PROMESSA DE PAGAMENTO DETECTADA: ${promise.promisedDate} (${describeDate(promise.promisedDate)}), valor ${amount}`;
+  }
+
+  // Provider policy passages relevant to the customer's question. Payment
+  // confirmations are answered without them.
+  private async retrieveKnowledge(currentMessage: ChatMessage, serviceProvider: string | null, vertical: string | null): Promise<ScoredPassage[]> {
+    if (currentMessage.content.includes('PAYMENT_CONFIRMED')) return [];
+
+    return tracingService.withSpan({
+      name: 'knowledge_retrieval',
+      inputs: { query: currentMessage.content, serviceProvider, vertical },
+    }, async retrievalSpan => {
+      const passages = await this.knowledgeBase.retrieve(currentMessage.content, { serviceProvider, vertical });
+      retrievalSpan.setOutputs({ passages: passages.map(passage => ({ id: passage.id, score: passage.score })) });
+      return passages;
+    });
+  }
+
+  // Passages are labelled so the model can tell them apart; the labels are
+  // internal and the output guardrails catch them if they leak
+  private describeKnowledge(passages: ScoredPassage[]): string {
+    const lines = passages.map((passage, index) => {
+      const source = passage.heading ? `${passage.title} — ${passage.heading}` : passage.title;
+      return `[DOC-${index + 1}] ${source}: ${passage.content}`;
+    });
+    return [
+      'TRECHOS DA BASE DE CONHECIMENTO (políticas da operadora):',
+      ...lines,
+      'Responda dúvidas sobre taxas, prazos e consequências apenas com base nestes trechos e nunca mencione os códigos [DOC-n].',
+    ].join('\n');
+  }
+
+  private toCitation(passage: ScoredPassage): KnowledgeCitation {
+    return { documentId: passage.documentId, title: passage.title, chunkId: passage.id, score: passage.score };
+  }
 
-      if (runId) {
-        await this.endLangSmithRun(runId, { error: error instanceof Error ? error.message : 'Unknown error' });
+  // Limits the model must stay within; the plans themselves are shown by offer_installments
+  private describeNegotiation(terms: NegotiationTerms): string {
+    const lines = [
+      `POLÍTICA DE NEGOCIAÇÃO DO CLIENTE (dívida de R$ ${terms.debtAmount.toFixed(2)}):`,
+      terms.maxInstallments >= 2 ? `- Parcelamento em até ${terms.maxInstallments}x` : '- Parcelamento não disponível',
+      terms.minDownPayment > 0 ? `- Entrada mínima de R$ ${terms.minDownPayment.toFixed(2)}` : null,
+      terms.maxDiscountPercent > 0 ? `- Desconto de até ${terms.maxDiscountPercent}% apenas para pagamento à vista` : '- Sem descontos',
+      terms.maxExtensionDays > 0 ? `- Prorrogação do vencimento em até ${terms.maxExtensionDays} dias` : null,
+      'Nunca ofereça condições fora desta política; use offer_installments para mostrar os planos.',
+    ];
+    return lines.filter(Boolean).join('\n');
+  }
+
+  // Deterministic action used when the model returns nothing
+  private getIntentFallbackAction(currentMessage: ChatMessage, actionContext: ActionContext): ChatAction | null {
+    const intent = currentMessage.metadata.intent;
+    switch (intent?.intent) {
+      case 'payment_method_choice':
+        return {
+          type: 'show_payment_options',
+          payload: { methods: intent.paymentMethod ? [intent.paymentMethod] : ['credit', 'pix', 'boleto'] },
+        };
+      case 'wants_to_pay':
+        return { type: 'show_payment_options', payload: { methods: ['credit', 'pix', 'boleto'] } };
+      case 'negotiate':
+      case 'hardship':
+        return actionContext.negotiation ? buildInstallmentOffer(actionContext.negotiation) : null;
+      case 'promise_to_pay': {
+        const promise = extractPaymentPromise(currentMessage.content);
+        return promise ? buildPaymentPromise(promise.promisedDate, promise.amount, actionContext) : null;
       }
+      default:
+        return null;
+    }
+  }
 
-      return errorMessage;
+  // The invoice sent earlier in the session is the only source send_invoice may reuse
+  private findLastInvoice(history: ChatMessage[]): InvoiceData | null {
+    for (let i = history.length - 1; i >= 0; i--) {
+      const action = history[i]?.metadata?.action;
+      if (action?.type === 'send_invoice') {
+        return action.payload;
+      }
     }
+    return null;
   }
 
   private buildCustomerContext(customerData: CustomerData | null): string {
@@ -284,18 +600,6 @@ IMPORTANTE:
     return context;
   }
 
-  private getServiceCategory(serviceProvider: string): string {
-    const telecom = ['TIM', 'Vivo', 'Claro', 'Oi'];
-    const utilities = ['Light', 'Enel', 'Energisa'];
-    const education = ['YDUQS/Estácio', 'Salta', 'Inspira'];
-
-    if (telecom.includes(serviceProvider)) return 'telecom';
-    if (utilities.includes(serviceProvider)) return 'utilities';
-    if (education.includes(serviceProvider)) return 'education';
-
-    return 'telecom';
-  }
-
   private getCurrentMonthName(): string {
     const months = [
       'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
@@ -321,77 +625,4 @@ IMPORTANTE:
       messageType: 'greeting',
     });
   }
-
-  // LangSmith helper methods
-  private async startLangSmithRun(runType: string, inputs: any): Promise<string | null> {
-    if (!this.langsmithClient) return null;
-
-    try {
-      const run = await this.langsmithClient.createRun({
-        name: runType,
-        run_type: 'llm',
-        inputs,
-        project_name: langsmithProject,
-      } as any);
-      return (run as any)?.id || null;
-    } catch (error) {
-      console.error('Error starting LangSmith run:', error);
-      return null;
-    }
-  }
-
-  private async endLangSmithRun(runId: string, outputs: any): Promise<void> {
-    if (!this.langsmithClient) return;
-
-    try {
-      await this.langsmithClient.updateRun(runId, {
-        outputs,
-        end_time: new Date().toISOString(),
-      });
-    } catch (error) {
-      console.error('Error ending LangSmith run:', error);
-    }
-  }
-
-  // Get LangSmith project stats
-  public async getLangSmithStats(): Promise<any> {
-    if (!this.langsmithClient) {
-      return { error: 'LangSmith not configured' };
-    }
-
-    try {
-      // Get recent runs for the project
-      const runs = this.langsmithClient.listRuns({
-        projectName: langsmithProject,
-        limit: 20,
-      });
-
-      const recentRuns: any[] = [];
-      let count = 0;
-      for await (const run of runs) {
-        if (count >= 20) break;
-        recentRuns.push(run);
-        count++;
-      }
-
-      return {
-        projectName: langsmithProject,
-        totalRuns: recentRuns.length,
-        recentRuns: recentRuns.map(run => ({
-          id: run.id,
-          name: run.name,
-          status: run.status,
-          startTime: run.start_time,
-          endTime: run.end_time,
-          inputs: run.inputs,
-          outputs: run.outputs,
-          error: run.error,
-        })),
-        successRate: recentRuns.filter(run => !run.error).length / Math.max(recentRuns.length, 1),
-      };
-    } catch (error) {
-      console.error('Error getting LangSmith stats:', error);
-      return { error: error instanceof Error ? error.message : 'Unknown error' };
-    }
-  }
-}
\ No newline at end of file
+}
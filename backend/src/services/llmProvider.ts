@@ -0,0 +1,215 @@
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ScriptedLlmProvider } from './scriptedLlmProvider';
+import { MeteredLlmProvider } from './llmUsageService';
+import { TracedLlmProvider } from './tracingService';
+import { ResilientLlmProvider } from './resilientLlmProvider';
+
+export type LlmProviderType = 'gemini' | 'langchain' | 'scripted';
+
+// Function/tool the model may call instead of (or alongside) replying with text.
+// `parameters` is a JSON Schema object.
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export type LlmCallPurpose = 'initial_message' | 'chat_response' | 'guardrail_regeneration' | 'intent_classification' | 'injection_detection';
+
+// What a call was for; recorded with its token usage and cost
+export interface LlmCallTrace {
+  purpose: LlmCallPurpose;
+  chatSessionId?: string;
+  chatMessageId?: string;
+}
+
+export interface LlmInvokeOptions {
+  tools?: LlmToolDefinition[];
+  // Called with each partial text delta as the model produces it
+  onToken?: (delta: string) => void;
+  trace?: LlmCallTrace;
+  // Aborts the request, e.g. when it times out
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  toolCalls: LlmToolCall[];
+  // Token counts reported by the provider, when it reports them
+  usage?: LlmUsage;
+}
+
+// Minimal contract every chat model backend must satisfy. The AI service only
+// ever talks to this interface, never to a concrete SDK.
+export interface LlmProvider {
+  readonly name: LlmProviderType;
+  readonly model: string;
+  invoke(messages: BaseMessage[], options?: LlmInvokeOptions): Promise<LlmResponse>;
+}
+
+export interface LlmProviderConfig {
+  provider: LlmProviderType;
+  model?: string;
+  temperature: number;
+  maxOutputTokens: number;
+  apiKey?: string;
+  // Used by the generic 'langchain' provider, e.g. '@langchain/openai' + 'ChatOpenAI'
+  langchainPackage?: string;
+  langchainClass?: string;
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Extracts plain text from a LangChain message content (string or content parts)
+export function messageContentToText(content: BaseMessage['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return String(content ?? '');
+
+  return content
+    .map((part: any) => (typeof part === 'string' ? part : part?.text || ''))
+    .join('');
+}
+
+// Adapter for any LangChain chat model (Gemini, OpenAI, Anthropic, Ollama...)
+export class LangchainChatProvider implements LlmProvider {
+  readonly name: LlmProviderType;
+  readonly model: string;
+  private chatModel: BaseChatModel;
+
+  constructor(name: LlmProviderType, model: string, chatModel: BaseChatModel) {
+    this.name = name;
+    this.model = model;
+    this.chatModel = chatModel;
+  }
+
+  async invoke(messages: BaseMessage[], options: LlmInvokeOptions = {}): Promise<LlmResponse> {
+    const tools = options.tools || [];
+    const runnable = tools.length > 0 && this.chatModel.bindTools
+      ? this.chatModel.bindTools(tools.map(tool => ({
+        type: 'function' as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })))
+      : this.chatModel;
+
+    const result = options.onToken
+      ? await this.stream(runnable, messages, options.onToken, options.signal)
+      : await runnable.invoke(messages, { signal: options.signal }) as AIMessageChunk;
+
+    return {
+      content: messageContentToText(result.content),
+      toolCalls: (result.tool_calls || []).map(call => ({ name: call.name, args: call.args || {} })),
+      usage: result.usage_metadata && {
+        promptTokens: result.usage_metadata.input_tokens,
+        completionTokens: result.usage_metadata.output_tokens,
+        totalTokens: result.usage_metadata.total_tokens,
+      },
+    };
+  }
+
+  // Streams the reply, forwarding text deltas and merging the chunks back into
+  // one message so tool calls are assembled the same way as with invoke()
+  private async stream(
+    runnable: Pick<BaseChatModel, 'stream'>,
+    messages: BaseMessage[],
+    onToken: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIMessageChunk> {
+    let result: AIMessageChunk | undefined;
+
+    for await (const chunk of await runnable.stream(messages, { signal })) {
+      const delta = messageContentToText(chunk.content);
+      if (delta) onToken(delta);
+      result = result ? result.concat(chunk) : chunk;
+    }
+
+    return result || new AIMessageChunk({ content: '' });
+  }
+}
+
+export function getLlmProviderConfig(env: typeof process.env = process.env): LlmProviderConfig {
+  const requested = (env.LLM_PROVIDER || '').toLowerCase();
+  let provider: LlmProviderType;
+
+  if (requested === 'gemini' || requested === 'langchain' || requested === 'scripted') {
+    provider = requested;
+  } else {
+    if (requested) {
+      console.warn(`Unknown LLM_PROVIDER "${requested}", falling back to automatic selection`);
+    }
+    // Without an explicit choice, use Gemini when a key is present and the
+    // offline provider otherwise, so dev/CI never needs network access
+    provider = env.GEMINI_API_KEY ? 'gemini' : 'scripted';
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || undefined,
+    temperature: env.LLM_TEMPERATURE ? Number(env.LLM_TEMPERATURE) : 0.7,
+    maxOutputTokens: env.LLM_MAX_OUTPUT_TOKENS ? Number(env.LLM_MAX_OUTPUT_TOKENS) : 1024,
+    apiKey: provider === 'gemini' ? env.GEMINI_API_KEY : env.LLM_API_KEY,
+    langchainPackage: env.LLM_LANGCHAIN_PACKAGE,
+    langchainClass: env.LLM_LANGCHAIN_CLASS,
+  };
+}
+
+// Every provider is traced, guarded by timeouts, retries and the circuit
+// breaker, and metered per attempt so retried calls are billed correctly
+export function createLlmProvider(config: LlmProviderConfig = getLlmProviderConfig()): LlmProvider {
+  return new TracedLlmProvider(new ResilientLlmProvider(new MeteredLlmProvider(createBaseLlmProvider(config))));
+}
+
+function createBaseLlmProvider(config: LlmProviderConfig): LlmProvider {
+  switch (config.provider) {
+    case 'gemini': {
+      if (!config.apiKey) {
+        throw new Error('GEMINI_API_KEY is required when LLM_PROVIDER=gemini.');
+      }
+      const model = config.model || DEFAULT_GEMINI_MODEL;
+      return new LangchainChatProvider('gemini', model, new ChatGoogleGenerativeAI({
+        model,
+        apiKey: config.apiKey,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxOutputTokens,
+      }));
+    }
+
+    case 'langchain': {
+      if (!config.langchainPackage || !config.langchainClass || !config.model) {
+        throw new Error('LLM_LANGCHAIN_PACKAGE, LLM_LANGCHAIN_CLASS and LLM_MODEL are required when LLM_PROVIDER=langchain.');
+      }
+      // Loaded lazily so optional LangChain integrations don't have to be installed
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const chatModelModule = require(config.langchainPackage);
+      const ChatModelClass = chatModelModule[config.langchainClass];
+      if (typeof ChatModelClass !== 'function') {
+        throw new Error(`${config.langchainClass} is not exported by ${config.langchainPackage}.`);
+      }
+      return new LangchainChatProvider('langchain', config.model, new ChatModelClass({
+        model: config.model,
+        apiKey: config.apiKey,
+        temperature: config.temperature,
+        maxTokens: config.maxOutputTokens,
+      }));
+    }
+
+    case 'scripted':
+      return new ScriptedLlmProvider();
+  }
+}
@@ -0,0 +1,263 @@
+import { BaseMessage } from '@langchain/core/messages';
+import { prisma } from '../lib/prisma';
+import {
+  LlmCallTrace,
+  LlmInvokeOptions,
+  LlmProvider,
+  LlmResponse,
+  LlmUsage,
+  messageContentToText,
+} from './llmProvider';
+
+// USD per million tokens
+export interface LlmPrice {
+  input: number;
+  output: number;
+}
+
+export type LlmPriceTable = Record<string, LlmPrice>;
+
+export interface LlmCallRecord {
+  trace?: LlmCallTrace;
+  provider: string;
+  model: string;
+  usage: LlmUsage;
+  latencyMs: number;
+  estimated: boolean;
+  error?: string;
+}
+
+export interface LlmUsageSummary {
+  calls: number;
+  failedCalls: number;
+  totalTokens: number;
+  averageTokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+export interface LlmCallSample {
+  createdAt: Date;
+  totalTokens: number;
+  cost: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+// Public list prices, keyed by model name prefix; the longest matching prefix wins.
+// Override or extend with LLM_PRICES, e.g. {"gemini-2.5-pro": {"input": 1.25, "output": 10}}
+const DEFAULT_PRICES: LlmPriceTable = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'scripted': { input: 0, output: 0 },
+};
+
+// Rough chars-per-token ratio used when the provider doesn't report usage
+const CHARS_PER_TOKEN = 4;
+
+export function getLlmPriceTable(env: typeof process.env = process.env): LlmPriceTable {
+  if (!env.LLM_PRICES) return DEFAULT_PRICES;
+
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(env.LLM_PRICES) };
+  } catch (error) {
+    console.warn('Invalid LLM_PRICES, using default price table:', error);
+    return DEFAULT_PRICES;
+  }
+}
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export class LlmUsageService {
+  private prices: LlmPriceTable;
+  private unpricedModels = new Set<string>();
+
+  constructor(prices: LlmPriceTable = getLlmPriceTable()) {
+    this.prices = prices;
+  }
+
+  getPrice(model: string): LlmPrice | null {
+    const prefix = Object.keys(this.prices)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.prices[prefix] || null : null;
+  }
+
+  // Cost in USD; models missing from the price table cost nothing (with a warning)
+  computeCost(model: string, usage: LlmUsage): number {
+    const price = this.getPrice(model);
+    if (!price) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        console.warn(`No price configured for model "${model}", recording its calls at zero cost`);
+      }
+      return 0;
+    }
+
+    const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+    return Math.round(cost * 1_000_000) / 1_000_000;
+  }
+
+  async record(call: LlmCallRecord): Promise<void> {
+    try {
+      await prisma.llmCall.create({
+        data: {
+          chatSessionId: call.trace?.chatSessionId,
+          chatMessageId: call.trace?.chatMessageId,
+          purpose: call.trace?.purpose || 'unknown',
+          provider: call.provider,
+          model: call.model,
+          promptTokens: call.usage.promptTokens,
+          completionTokens: call.usage.completionTokens,
+          totalTokens: call.usage.totalTokens,
+          latencyMs: Math.round(call.latencyMs),
+          cost: this.computeCost(call.model, call.usage),
+          estimated: call.estimated,
+          success: !call.error,
+          error: call.error,
+        }
+      });
+    } catch (error) {
+      console.error('Error recording LLM call:', error);
+    }
+  }
+
+  async getCalls(startDate: Date, endDate: Date): Promise<LlmCallSample[]> {
+    const calls = await prisma.llmCall.findMany({
+      where: { createdAt: { gte: startDate, lte: endDate } },
+      select: { createdAt: true, totalTokens: true, cost: true, latencyMs: true, success: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return calls.map(call => ({ ...call, cost: Number(call.cost) }));
+  }
+
+  summarize(calls: LlmCallSample[]): LlmUsageSummary {
+    const totalTokens = calls.reduce((sum, call) => sum + call.totalTokens, 0);
+    const cost = calls.reduce((sum, call) => sum + call.cost, 0);
+    const latency = calls.reduce((sum, call) => sum + call.latencyMs, 0);
+
+    return {
+      calls: calls.length,
+      failedCalls: calls.filter(call => !call.success).length,
+      totalTokens,
+      averageTokens: calls.length > 0 ? totalTokens / calls.length : 0,
+      cost: Math.round(cost * 1_000_000) / 1_000_000,
+      averageLatencyMs: calls.length > 0 ? latency / calls.length : 0,
+    };
+  }
+
+  async getTotalCost(startDate: Date, endDate: Date): Promise<number> {
+    const result = await prisma.llmCall.aggregate({
+      where: { createdAt: { gte: startDate, lte: endDate } },
+      _sum: { cost: true }
+    });
+    return Number(result._sum.cost || 0);
+  }
+
+  // Average latency of the most recent successful calls, in milliseconds
+  async getRecentAverageLatency(limit: number): Promise<number> {
+    const calls = await prisma.llmCall.findMany({
+      where: { success: true },
+      select: { latencyMs: true },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+    if (calls.length === 0) return 0;
+    return calls.reduce((sum, call) => sum + call.latencyMs, 0) / calls.length;
+  }
+
+  // Usage and cost broken down by model and by purpose
+  async getUsageBreakdown(startDate: Date, endDate: Date): Promise<{
+    total: LlmUsageSummary;
+    byModel: { [model: string]: LlmUsageSummary };
+    byPurpose: { [purpose: string]: LlmUsageSummary };
+    estimatedCalls: number;
+  }> {
+    const calls = await prisma.llmCall.findMany({
+      where: { createdAt: { gte: startDate, lte: endDate } },
+      select: { createdAt: true, model: true, purpose: true, totalTokens: true, cost: true, latencyMs: true, success: true, estimated: true }
+    });
+
+    const samples = calls.map(call => ({ ...call, cost: Number(call.cost) }));
+    const groupBy = (key: 'model' | 'purpose') => {
+      const groups: { [name: string]: LlmCallSample[] } = {};
+      samples.forEach(call => {
+        (groups[call[key]] ||= []).push(call);
+      });
+      return Object.fromEntries(Object.entries(groups).map(([name, group]) => [name, this.summarize(group)]));
+    };
+
+    return {
+      total: this.summarize(samples),
+      byModel: groupBy('model'),
+      byPurpose: groupBy('purpose'),
+      estimatedCalls: samples.filter(call => call.estimated).length,
+    };
+  }
+}
+
+export const llmUsageService = new LlmUsageService();
+
+// Wraps a provider to time every call and record its usage. Providers that
+// don't report token counts get an estimate, flagged as such.
+export class MeteredLlmProvider implements LlmProvider {
+  private inner: LlmProvider;
+  private usageService: LlmUsageService;
+
+  constructor(inner: LlmProvider, usageService: LlmUsageService = llmUsageService) {
+    this.inner = inner;
+    this.usageService = usageService;
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  async invoke(messages: BaseMessage[], options: LlmInvokeOptions = {}): Promise<LlmResponse> {
+    const startedAt = Date.now();
+    const call = { trace: options.trace, provider: this.inner.name, model: this.inner.model };
+
+    try {
+      const result = await this.inner.invoke(messages, options);
+      const usage = result.usage || this.estimateUsage(messages, result);
+
+      await this.usageService.record({
+        ...call,
+        usage,
+        latencyMs: Date.now() - startedAt,
+        estimated: !result.usage,
+      });
+
+      return { ...result, usage };
+    } catch (error) {
+      await this.usageService.record({
+        ...call,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        latencyMs: Date.now() - startedAt,
+        estimated: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  private estimateUsage(messages: BaseMessage[], result: LlmResponse): LlmUsage {
+    const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(messageContentToText(message.content)), 0);
+    const toolCalls = result.toolCalls.length > 0 ? JSON.stringify(result.toolCalls) : '';
+    const completionTokens = estimateTokens(result.content + toolCalls);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
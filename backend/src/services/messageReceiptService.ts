@@ -0,0 +1,141 @@
+import { Server } from 'socket.io';
+import { MessageSender } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export type DeliveryStatus = 'sent' | 'delivered' | 'read';
+
+// Sent to supervisors and to the session room when messages are delivered or read
+export interface MessageStatusUpdate {
+  sessionId: string;
+  messageIds: string[];
+  status: Exclude<DeliveryStatus, 'sent'>;
+  timestamp: Date;
+}
+
+export interface MessageReceiptConfig {
+  // How long the customer's chat has to acknowledge a message
+  ackTimeoutMs: number;
+}
+
+// How an abandoned session's unanswered agent messages ended up
+export interface AbandonmentStats {
+  total: number;
+  // None of them reached the customer's chat
+  neverDelivered: number;
+  // Delivered, but the chat was never open on a visible page
+  deliveredNotRead: number;
+  // neverDelivered + deliveredNotRead
+  neverRead: number;
+  // The customer saw them and didn't answer
+  readButIgnored: number;
+}
+
+// Messages written on the agent's side, the ones receipts are tracked for
+const AGENT_SENDERS: MessageSender[] = ['AI', 'HUMAN'];
+
+export function getMessageReceiptConfig(env: typeof process.env = process.env): MessageReceiptConfig {
+  return {
+    ackTimeoutMs: Number(env.MESSAGE_ACK_TIMEOUT_MS) || 10000,
+  };
+}
+
+// Tracks whether the customer got and saw the agent's messages. Messages are
+// emitted with a Socket.io acknowledgement: only the customer's chat answers
+// it (supervisor panels in the same room don't), so an ack means delivered.
+// The chat reports messages as read while its page is visible.
+export class MessageReceiptService {
+  private config: MessageReceiptConfig;
+
+  constructor(config: MessageReceiptConfig = getMessageReceiptConfig()) {
+    this.config = config;
+  }
+
+  // Replaced by the server to broadcast over Socket.io
+  private emitStatus(update: MessageStatusUpdate): void {
+    console.log(`Messages ${update.status}: ${update.messageIds.length} in session ${update.sessionId}`);
+  }
+
+  public setEventEmitter(emitter: (update: MessageStatusUpdate) => void): void {
+    this.emitStatus = emitter;
+  }
+
+  // Emits an agent message to the session room and marks it delivered once a
+  // customer's chat acknowledges it
+  deliver(io: Server, sessionId: string, event: string, payload: unknown, messageId: string): void {
+    io.to(sessionId).timeout(this.config.ackTimeoutMs).emit(event, payload, (_error: Error | null, acks: unknown[]) => {
+      // The error only says some sockets didn't answer before the timeout
+      if (!acks || acks.length === 0) return;
+      this.markDelivered(sessionId, [messageId]).catch(error => {
+        console.error('Error marking message delivered:', error);
+      });
+    });
+  }
+
+  // Returns the ids that weren't delivered before
+  async markDelivered(sessionId: string, messageIds: string[]): Promise<string[]> {
+    const pending = await prisma.chatMessage.findMany({
+      where: { id: { in: messageIds }, chatSessionId: sessionId, sender: { in: AGENT_SENDERS }, deliveredAt: null },
+      select: { id: true }
+    });
+    if (pending.length === 0) return [];
+
+    const ids = pending.map(message => message.id);
+    const timestamp = new Date();
+    await prisma.chatMessage.updateMany({ where: { id: { in: ids }, deliveredAt: null }, data: { deliveredAt: timestamp } });
+
+    this.emitStatus({ sessionId, messageIds: ids, status: 'delivered', timestamp });
+    return ids;
+  }
+
+  // A read message counts as delivered too. Returns the ids that weren't read before.
+  async markRead(sessionId: string, messageIds: string[]): Promise<string[]> {
+    const unread = await prisma.chatMessage.findMany({
+      where: { id: { in: messageIds }, chatSessionId: sessionId, sender: { in: AGENT_SENDERS }, readAt: null },
+      select: { id: true }
+    });
+    if (unread.length === 0) return [];
+
+    const ids = unread.map(message => message.id);
+    const timestamp = new Date();
+    await prisma.chatMessage.updateMany({ where: { id: { in: ids }, deliveredAt: null }, data: { deliveredAt: timestamp } });
+    await prisma.chatMessage.updateMany({ where: { id: { in: ids }, readAt: null }, data: { readAt: timestamp } });
+
+    this.emitStatus({ sessionId, messageIds: ids, status: 'read', timestamp });
+    return ids;
+  }
+
+  // Sessions abandoned in the period, by what happened to the agent messages
+  // the customer left unanswered (those after their last message)
+  async getAbandonmentStats(startDate: Date, endDate: Date): Promise<AbandonmentStats> {
+    const sessions = await prisma.chatSession.findMany({
+      where: { state: 'abandoned', endTime: { gte: startDate, lte: endDate } },
+      select: {
+        messages: {
+          orderBy: { timestamp: 'asc' },
+          select: { sender: true, deliveredAt: true, readAt: true }
+        }
+      }
+    });
+
+    const stats: AbandonmentStats = { total: sessions.length, neverDelivered: 0, deliveredNotRead: 0, neverRead: 0, readButIgnored: 0 };
+    sessions.forEach(session => {
+      const lastCustomerMessage = session.messages.map(message => message.sender).lastIndexOf('CUSTOMER');
+      const unanswered = session.messages
+        .slice(lastCustomerMessage + 1)
+        .filter(message => AGENT_SENDERS.includes(message.sender));
+
+      if (unanswered.some(message => message.readAt)) {
+        stats.readButIgnored++;
+      } else if (unanswered.some(message => message.deliveredAt)) {
+        stats.deliveredNotRead++;
+      } else {
+        stats.neverDelivered++;
+      }
+    });
+    stats.neverRead = stats.neverDelivered + stats.deliveredNotRead;
+
+    return stats;
+  }
+}
+
+export const messageReceiptService = new MessageReceiptService();
@@ -0,0 +1,313 @@
+import { NegotiationPolicy, PaymentPlan, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { PaymentPlanOption } from '../models/chatMessage';
+import { serviceProviderService } from './serviceProviderService';
+
+export interface NegotiationPolicyInput {
+  name: string;
+  vertical?: string | null;
+  serviceProvider?: string | null;
+  maxInstallments: number;
+  minInstallmentAmount: number;
+  minDownPaymentPercent: number;
+  maxDiscountPercent: number;
+  maxExtensionDays: number;
+  isActive?: boolean;
+  description?: string | null;
+}
+
+// The limits that apply to one customer right now, and the plans they allow.
+// This is the only source of installment terms the agent can offer.
+export interface NegotiationTerms {
+  policyId: string | null;
+  policyName: string;
+  debtAmount: number;
+  maxInstallments: number;
+  minDownPayment: number;
+  maxDiscountPercent: number;
+  maxExtensionDays: number;
+  plans: PaymentPlanOption[];
+}
+
+export interface ScheduledPayment {
+  installmentNumber: number;
+  amount: number;
+  dueDate: Date;
+}
+
+type PolicyLimits = Pick<NegotiationPolicyInput,
+  'name' | 'maxInstallments' | 'minInstallmentAmount' | 'minDownPaymentPercent' | 'maxDiscountPercent' | 'maxExtensionDays'>;
+
+interface CustomerProfile {
+  serviceProvider: string;
+  riskCategory: string;
+  riskSeverity: string | null;
+}
+
+// Used when no policy is configured for the provider or its vertical
+const BUILTIN_POLICIES: { [vertical: string]: PolicyLimits } = {
+  telecom: { name: 'Padrão telecom', maxInstallments: 12, minInstallmentAmount: 20, minDownPaymentPercent: 0, maxDiscountPercent: 10, maxExtensionDays: 7 },
+  utilities: { name: 'Padrão serviços essenciais', maxInstallments: 6, minInstallmentAmount: 30, minDownPaymentPercent: 20, maxDiscountPercent: 0, maxExtensionDays: 10 },
+  education: { name: 'Padrão educação', maxInstallments: 12, minInstallmentAmount: 50, minDownPaymentPercent: 10, maxDiscountPercent: 5, maxExtensionDays: 15 },
+};
+
+// For providers missing from the catalog: the most conservative of the verticals
+const DEFAULT_POLICY: PolicyLimits = { name: 'Padrão', maxInstallments: 6, minInstallmentAmount: 50, minDownPaymentPercent: 20, maxDiscountPercent: 0, maxExtensionDays: 7 };
+
+// Share of the policy's discount ceiling unlocked by risk severity: the closer
+// the customer is to churning, the more room there is to negotiate
+const DISCOUNT_SHARE_BY_SEVERITY: { [severity: string]: number } = { LOW: 0, MEDIUM: 0.25, HIGH: 0.5, CRITICAL: 1 };
+
+// Customers with repeated failed payments put more down on installment plans
+const MULTIPLE_FAILURES_EXTRA_DOWN_PAYMENT_PERCENT = 10;
+
+// Installment counts offered below the customer's maximum, which is always offered
+const INSTALLMENT_STEPS = [2, 3, 4, 6, 10, 12, 18, 24];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+export class NegotiationPolicyService {
+  // Picks the active policy for a provider, preferring provider scope over
+  // vertical scope over an unscoped default; null means use the built-in one
+  async resolvePolicy(serviceProvider: string): Promise<NegotiationPolicy | null> {
+    const vertical = await serviceProviderService.getVertical(serviceProvider);
+    const active = await prisma.negotiationPolicy.findMany({
+      where: { isActive: true },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    return active.find(p => p.serviceProvider === serviceProvider) ||
+      active.find(p => !p.serviceProvider && p.vertical && p.vertical === vertical) ||
+      active.find(p => !p.serviceProvider && !p.vertical) ||
+      null;
+  }
+
+  // Terms for a customer's current debt: outstanding transactions that are not
+  // already part of a plan, or the account value when there are none.
+  // Returns null when the customer doesn't exist or the terms can't be loaded.
+  async getTermsForCustomer(customerId: string): Promise<NegotiationTerms | null> {
+    try {
+      const customer = await prisma.customer.findUnique({
+        where: { id: customerId },
+        include: {
+          paymentTransactions: {
+            where: { status: { in: ['PENDING', 'FAILED'] }, paymentPlanId: null }
+          }
+        }
+      });
+      if (!customer) return null;
+
+      const outstanding = customer.paymentTransactions.reduce((sum, t) => sum + Number(t.amount), 0);
+      // accountValue is stored in cents
+      const debtAmount = round2(outstanding > 0 ? outstanding : Number(customer.accountValue) / 100);
+
+      const policy = await this.resolvePolicy(customer.serviceProvider);
+      return this.computeTerms(policy, customer, debtAmount);
+    } catch (error) {
+      console.error('Error computing negotiation terms:', error);
+      return null;
+    }
+  }
+
+  computeTerms(policy: NegotiationPolicy | null, customer: CustomerProfile, debtAmount: number, today: Date = new Date()): NegotiationTerms {
+    const limits: PolicyLimits = policy
+      ? { ...policy, minInstallmentAmount: Number(policy.minInstallmentAmount) }
+      : this.getBuiltinPolicy(serviceProviderService.lookup(customer.serviceProvider)?.vertical ?? null);
+
+    const discountShare = DISCOUNT_SHARE_BY_SEVERITY[customer.riskSeverity || 'MEDIUM'] ?? 0;
+    const maxDiscountPercent = round2(limits.maxDiscountPercent * discountShare);
+
+    const downPaymentPercent = Math.min(90, limits.minDownPaymentPercent +
+      (customer.riskCategory === 'MULTIPLE_FAILURES' ? MULTIPLE_FAILURES_EXTRA_DOWN_PAYMENT_PERCENT : 0));
+    const minDownPayment = round2(debtAmount * downPaymentPercent / 100);
+
+    // No installment may fall below the policy's minimum amount
+    const affordable = Math.floor((debtAmount - minDownPayment) / limits.minInstallmentAmount);
+    const maxInstallments = Math.max(1, Math.min(limits.maxInstallments, affordable));
+
+    const plans: PaymentPlanOption[] = [];
+    const fullAmount = round2(debtAmount * (1 - maxDiscountPercent / 100));
+    plans.push({
+      id: 'full',
+      installments: 1,
+      downPayment: 0,
+      installmentAmount: fullAmount,
+      discountPercent: maxDiscountPercent,
+      totalAmount: fullAmount,
+      firstDueDate: toDateString(today),
+    });
+
+    if (limits.maxExtensionDays > 0) {
+      plans.push({
+        id: 'extension',
+        installments: 1,
+        downPayment: 0,
+        installmentAmount: debtAmount,
+        discountPercent: 0,
+        totalAmount: debtAmount,
+        firstDueDate: toDateString(new Date(today.getTime() + limits.maxExtensionDays * DAY_MS)),
+      });
+    }
+
+    // With a down payment due today, the first installment is due in a month
+    const firstInstallmentDate = minDownPayment > 0 ? new Date(today.getTime() + 30 * DAY_MS) : today;
+    const installmentCounts = INSTALLMENT_STEPS.filter(n => n < maxInstallments);
+    if (maxInstallments >= 2) installmentCounts.push(maxInstallments);
+    installmentCounts.forEach(n => {
+      plans.push({
+        id: `${n}x`,
+        installments: n,
+        downPayment: minDownPayment,
+        installmentAmount: round2((debtAmount - minDownPayment) / n),
+        discountPercent: 0,
+        totalAmount: debtAmount,
+        firstDueDate: toDateString(firstInstallmentDate),
+      });
+    });
+
+    return {
+      policyId: policy?.id || null,
+      policyName: limits.name,
+      debtAmount,
+      maxInstallments,
+      minDownPayment,
+      maxDiscountPercent,
+      maxExtensionDays: limits.maxExtensionDays,
+      plans,
+    };
+  }
+
+  // Down payment (installment 0) due today, then monthly installments. The
+  // last installment absorbs rounding so the schedule adds up to the total.
+  buildSchedule(option: PaymentPlanOption, today: Date = new Date()): ScheduledPayment[] {
+    const schedule: ScheduledPayment[] = [];
+    if (option.downPayment > 0) {
+      schedule.push({ installmentNumber: 0, amount: option.downPayment, dueDate: today });
+    }
+
+    const firstDueDate = new Date(`${option.firstDueDate}T12:00:00`);
+    for (let n = 1; n <= option.installments; n++) {
+      const dueDate = new Date(firstDueDate);
+      dueDate.setMonth(dueDate.getMonth() + n - 1);
+      const amount = n === option.installments
+        ? round2(option.totalAmount - option.downPayment - option.installmentAmount * (option.installments - 1))
+        : option.installmentAmount;
+      schedule.push({ installmentNumber: n, amount, dueDate });
+    }
+
+    return schedule;
+  }
+
+  // Creates the plan and its PaymentTransaction schedule. Terms are recomputed
+  // here, so a plan id from an old message only works if it is still allowed.
+  // Any previous active plan and the outstanding transactions it replaces are
+  // cancelled. Returns null when the plan isn't available to the customer.
+  async acceptPlan(customerId: string, planOptionId: string, chatSessionId?: string): Promise<{
+    plan: PaymentPlan;
+    option: PaymentPlanOption;
+    schedule: ScheduledPayment[];
+  } | null> {
+    const terms = await this.getTermsForCustomer(customerId);
+    const option = terms?.plans.find(plan => plan.id === planOptionId);
+    if (!terms || !option) return null;
+
+    const schedule = this.buildSchedule(option);
+
+    const plan = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const previousPlans = await tx.paymentPlan.findMany({
+        where: { customerId, status: 'ACTIVE' },
+        select: { id: true }
+      });
+      await tx.paymentPlan.updateMany({
+        where: { id: { in: previousPlans.map(p => p.id) } },
+        data: { status: 'CANCELLED' }
+      });
+      await tx.paymentTransaction.updateMany({
+        where: {
+          customerId,
+          status: { in: ['PENDING', 'FAILED'] },
+          OR: [{ paymentPlanId: null }, { paymentPlanId: { in: previousPlans.map(p => p.id) } }]
+        },
+        data: { status: 'CANCELLED' }
+      });
+
+      return tx.paymentPlan.create({
+        data: {
+          customerId,
+          chatSessionId: chatSessionId || null,
+          policyId: terms.policyId,
+          planOptionId: option.id,
+          debtAmount: terms.debtAmount,
+          discountPercent: option.discountPercent,
+          totalAmount: option.totalAmount,
+          downPayment: option.downPayment,
+          installments: option.installments,
+          installmentAmount: option.installmentAmount,
+          transactions: {
+            create: schedule.map(payment => ({
+              customerId,
+              amount: payment.amount,
+              status: 'PENDING' as const,
+              transactionDate: payment.dueDate,
+              installmentNumber: payment.installmentNumber,
+              description: payment.installmentNumber === 0
+                ? 'Entrada do acordo'
+                : `Parcela ${payment.installmentNumber}/${option.installments} do acordo`
+            }))
+          }
+        }
+      });
+    });
+
+    console.log(`Payment plan ${option.id} accepted by customer ${customerId}: ${schedule.length} payments, R$ ${option.totalAmount}`);
+    return { plan, option, schedule };
+  }
+
+  // Customer-facing summary sent when a plan is accepted
+  describeAcceptedPlan(option: PaymentPlanOption): string {
+    const money = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+    const date = new Date(`${option.firstDueDate}T12:00:00`).toLocaleDateString('pt-BR');
+
+    if (option.id === 'full') {
+      const discount = option.discountPercent > 0 ? ` com ${option.discountPercent}% de desconto` : '';
+      return `Fechado, pagamento à vista de ${money(option.totalAmount)}${discount}. Como você prefere pagar?`;
+    }
+    if (option.id === 'extension') {
+      return `Fechado! Seu vencimento foi prorrogado para ${date}, no valor de ${money(option.totalAmount)}.`;
+    }
+
+    const downPayment = option.downPayment > 0 ? `entrada de ${money(option.downPayment)} hoje e ` : '';
+    return `Fechado! Seu acordo ficou com ${downPayment}${option.installments}x de ${money(option.installmentAmount)}, a primeira em ${date}.`;
+  }
+
+  getBuiltinPolicy(vertical: string | null): PolicyLimits {
+    return (vertical && BUILTIN_POLICIES[vertical]) || DEFAULT_POLICY;
+  }
+
+  async list(): Promise<NegotiationPolicy[]> {
+    return prisma.negotiationPolicy.findMany({
+      orderBy: [{ isActive: 'desc' }, { updatedAt: 'desc' }]
+    });
+  }
+
+  async get(id: string): Promise<NegotiationPolicy | null> {
+    return prisma.negotiationPolicy.findUnique({ where: { id } });
+  }
+
+  async create(input: NegotiationPolicyInput): Promise<NegotiationPolicy> {
+    return prisma.negotiationPolicy.create({ data: input });
+  }
+
+  async update(id: string, changes: Partial<NegotiationPolicyInput>): Promise<NegotiationPolicy> {
+    return prisma.negotiationPolicy.update({ where: { id }, data: changes });
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.negotiationPolicy.delete({ where: { id } });
+  }
+}
+
+export const negotiationPolicyService = new NegotiationPolicyService();
@@ -0,0 +1,83 @@
+import ChatMessage, { IntentClassification } from '../models/chatMessage';
+import { contactLogService } from './contactLogService';
+import { normalizeText } from './intentClassifier';
+import { sessionStateMachine } from './sessionStateMachine';
+
+export type OptOutStep = 'request_confirmation' | 'confirmed';
+
+const CONFIRMATION_REQUEST = 'Entendi, você confirma que não quer mais receber nossas mensagens? Responda SIM para confirmar ou NÃO para continuar a conversa.';
+const FAREWELL = 'Pronto, não vamos mais entrar em contato por aqui. Se precisar de algo, é só nos chamar!';
+
+// Matched against normalized (lowercase, accent-free) text. The whole message
+// must be the yes: "pode me mandar o boleto?" is not a confirmation.
+const AFFIRMATIVE_PATTERN = /^\s*(sim|s|confirmo|pode sim|isso mesmo|com certeza|yes)[\s.!]*$/;
+
+// Opt-out requests are handled without the model: the customer is asked to
+// confirm, and a confirmation blocks every future contact.
+export class OptOutService {
+  // Minimum classifier confidence to ask for confirmation
+  private minConfidence = 0.6;
+
+  // What to do with a customer message, or null to let the agent reply
+  // normally. Anything but a yes to the confirmation question cancels it.
+  evaluate(content: string, intent: IntentClassification | undefined, history: ChatMessage[]): OptOutStep | null {
+    if (this.isAwaitingConfirmation(history)) {
+      if (intent?.intent === 'opt_out' || AFFIRMATIVE_PATTERN.test(normalizeText(content))) return 'confirmed';
+      return null;
+    }
+
+    if (intent?.intent === 'opt_out' && intent.confidence >= this.minConfidence) {
+      return 'request_confirmation';
+    }
+
+    return null;
+  }
+
+  // True when the agent's last message asked the customer to confirm an opt-out
+  isAwaitingConfirmation(history: ChatMessage[]): boolean {
+    const lastAgentMessage = [...history].reverse().find(msg => msg.sender === 'ai');
+    return lastAgentMessage?.metadata.optOut?.status === 'pending_confirmation';
+  }
+
+  buildConfirmationRequest(chatSessionId: string): ChatMessage {
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content: CONFIRMATION_REQUEST,
+      timestamp: new Date(),
+      messageType: 'question',
+      metadata: { optOut: { status: 'pending_confirmation' } }
+    });
+  }
+
+  buildFarewell(chatSessionId: string): ChatMessage {
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content: FAREWELL,
+      timestamp: new Date(),
+      messageType: 'response',
+      metadata: { optOut: { status: 'confirmed' } }
+    });
+  }
+
+  // Blocks future contact, logs the outcome and closes the session. Removing
+  // the customer from the in-memory queue is up to the caller.
+  async applyOptOut(customerId: string, sessionId: string, reason: string): Promise<void> {
+    await contactLogService.addContactRestriction(customerId, 'DO_NOT_CONTACT', reason);
+
+    await contactLogService.logContact({
+      customerId,
+      contactMethod: 'AI_CHAT',
+      outcome: 'DO_NOT_CONTACT',
+      notes: `Customer opted out: ${reason}`,
+      agentId: 'ai_opt_out',
+      sessionId,
+      successful: false
+    });
+
+    await sessionStateMachine.transition(sessionId, 'completed', { reason: 'opted_out', outcome: 'opted_out', where: { status: 'ACTIVE' } });
+  }
+}
+
+export const optOutService = new OptOutService();
@@ -0,0 +1,277 @@
+import { prisma } from '../lib/prisma';
+import { GuardrailRule, GuardrailViolationDetail } from '../models/chatMessage';
+import { normalizeText } from './intentClassifier';
+
+export interface GuardrailContext {
+  // The customer the agent is talking to; their own data is allowed in replies
+  customer?: { name?: string | null; email?: string | null; phone?: string | null } | null;
+  allowDiscounts?: boolean;
+  maxInstallments?: number;
+  // Overrides the sentence limit, for the opening greeting
+  maxSentences?: number;
+}
+
+export interface GuardrailLimits {
+  maxChars: number;
+  maxSentences: number;
+}
+
+// Streams a reply while it is generated, releasing only text that passed the checks
+export interface StreamGuard {
+  onToken: (delta: string) => void;
+  // Waits for the checks still running; nothing is released after it resolves
+  settle: () => Promise<void>;
+}
+
+export interface GuardrailViolationRecord {
+  chatSessionId: string;
+  content: string;
+  violations: GuardrailViolationDetail[];
+  resolution: 'regenerated' | 'fallback';
+  attempt: number;
+}
+
+const URL_PATTERN = /\b(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|br|io|app|link|ly|me)(\.br)?(\/\S*)?\b/i;
+
+const LEAKED_TOKEN_PATTERN = new RegExp([
+  'PAYMENT_CONFIRMED',
+  '\\[(PAYMENT_BUTTON|INVOICE_CARD)\\]',
+  '\\b(show_payment_options|send_invoice|offer_installments|escalate_to_human|close_conversation|record_payment_promise|classify_intent)\\b',
+  'INTEN[CÇ][AÃ]O DETECTADA',
+  'PROMESSA DE PAGAMENTO DETECTADA',
+  'DATA DE HOJE',
+  'CONTEXTO DO CLIENTE',
+  'VOZ DA MARCA',
+  'TRECHOS DA BASE DE CONHECIMENTO',
+  '\\[DOC-\\d+\\]',
+  'REGRAS OBRIGAT[OÓ]RIAS',
+  '\\{[a-zA-Z_]+\\}',
+  '\\b(system prompt|prompt do sistema)\\b',
+].join('|'), 'i');
+
+// Matched against normalized (lowercase, accent-free) text
+const TECHNICAL_DIFFICULTY_PATTERN = /\b(dificuldades? (tecnica|para processar)|problemas? tecnico|erro (no|do|de) sistema|sistema (fora do ar|instavel|com problema)|falha tecnica)/;
+const DISCOUNT_PATTERN = /\b(desconto|abatimento|isencao|isentar|perdoar|perdao|anistia|sem juros|sem multa|(retirar|tirar|zerar) (a |os )?(multa|juros))/;
+const GUARANTEE_PATTERN = /\b(garanto|garantimos|prometo|prometemos)\b/;
+const INSTALLMENTS_PATTERN = /\b(\d{1,2})\s*(x|vezes|parcelas)\b/g;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /(?:\+?55\s?)?\(?\d{2}\)?\s?9?\d{4}[-\s]?\d{4}\b/g;
+const DOCUMENT_PATTERN = /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b|\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b|\b(?:\d[ -]?){13,19}\b/;
+
+// The opening greets, says who is writing and why, so it gets more room than a reply
+export const OPENING_MAX_SENTENCES = 4;
+
+const NAMES_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Where streamed text is released: after punctuation followed by whitespace,
+// so a link or number is never checked half-written
+const SENTENCE_END_PATTERN = /[.!?]+\s+/g;
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+// Masks emails, phone numbers and document or card numbers, for free text
+// (notes, descriptions) that is sent to the model
+export function redactPersonalData(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, '[email]')
+    .replace(new RegExp(DOCUMENT_PATTERN.source, 'g'), '[documento]')
+    .replace(PHONE_PATTERN, '[telefone]');
+}
+
+// Post-generation checks on AI replies. The prompt asks the model to behave;
+// this is what actually enforces it before a message reaches the customer.
+export class OutputGuardrails {
+  private limits: GuardrailLimits;
+  private customerNames: { names: string[]; loadedAt: number } | null = null;
+
+  constructor(limits: GuardrailLimits = { maxChars: 350, maxSentences: 2 }) {
+    this.limits = limits;
+  }
+
+  async check(content: string, context: GuardrailContext = {}): Promise<GuardrailViolationDetail[]> {
+    const violations: GuardrailViolationDetail[] = [];
+    const normalized = normalizeText(content);
+    const add = (rule: GuardrailRule, detail: string) => violations.push({ rule, detail });
+
+    // Email domains are handled by the personal data check, not as links
+    const url = content.replace(EMAIL_PATTERN, '').match(URL_PATTERN);
+    if (url) add('link', `Contains link: ${url[0]}`);
+
+    const sentences = content.split(/[.!?]+(?:\s|$)/).filter(sentence => sentence.trim()).length;
+    const maxSentences = context.maxSentences ?? this.limits.maxSentences;
+    if (content.length > this.limits.maxChars) {
+      add('length', `${content.length} characters (max ${this.limits.maxChars})`);
+    } else if (sentences > maxSentences) {
+      add('length', `${sentences} sentences (max ${maxSentences})`);
+    }
+
+    const discount = normalized.match(DISCOUNT_PATTERN);
+    if (discount && !context.allowDiscounts) {
+      add('policy_promise', `Offers "${discount[0]}" but the account isn't eligible for discounts`);
+    }
+
+    const guarantee = normalized.match(GUARANTEE_PATTERN);
+    if (guarantee) add('policy_promise', `Makes a promise: "${guarantee[0]}"`);
+
+    const maxInstallments = context.maxInstallments ?? 12;
+    for (const match of normalized.matchAll(INSTALLMENTS_PATTERN)) {
+      if (Number(match[1]) > maxInstallments) {
+        add('policy_promise', `Offers ${match[1]} installments (max ${maxInstallments})`);
+      }
+    }
+
+    const token = content.match(LEAKED_TOKEN_PATTERN);
+    if (token) add('leaked_token', `Leaks internal token: ${token[0]}`);
+
+    const technical = normalized.match(TECHNICAL_DIFFICULTY_PATTERN);
+    if (technical) add('technical_difficulty', `Mentions "${technical[0]}"`);
+
+    violations.push(...await this.checkOtherCustomerData(content, context));
+
+    return violations;
+  }
+
+  // Anything that looks like personal data and isn't the current customer's
+  private async checkOtherCustomerData(content: string, context: GuardrailContext): Promise<GuardrailViolationDetail[]> {
+    const violations: GuardrailViolationDetail[] = [];
+    const customer = context.customer || {};
+
+    const ownEmail = customer.email?.toLowerCase();
+    const email = (content.match(EMAIL_PATTERN) || []).find(found => found.toLowerCase() !== ownEmail);
+    if (email) violations.push({ rule: 'other_customer_data', detail: `Contains email ${email}` });
+
+    const ownPhone = digitsOnly(customer.phone || '');
+    const phone = (content.match(PHONE_PATTERN) || [])
+      .find(found => !ownPhone || !ownPhone.endsWith(digitsOnly(found).slice(-8)));
+    if (phone) violations.push({ rule: 'other_customer_data', detail: 'Contains a phone number' });
+
+    if (DOCUMENT_PATTERN.test(content)) {
+      violations.push({ rule: 'other_customer_data', detail: 'Contains a document or card number' });
+    }
+
+    const normalized = normalizeText(content);
+    const ownName = normalizeText(customer.name || '');
+    const otherName = (await this.getCustomerNames())
+      .find(name => name !== ownName && normalized.includes(name));
+    if (otherName) violations.push({ rule: 'other_customer_data', detail: 'Mentions another customer by name' });
+
+    return violations;
+  }
+
+  // Full names of every customer, normalized; single names are too ambiguous to flag
+  private async getCustomerNames(): Promise<string[]> {
+    if (this.customerNames && Date.now() - this.customerNames.loadedAt < NAMES_CACHE_TTL_MS) {
+      return this.customerNames.names;
+    }
+
+    try {
+      const customers = await prisma.customer.findMany({ select: { name: true } });
+      const names = customers
+        .map(customer => normalizeText(customer.name).trim())
+        .filter(name => name.includes(' '));
+      this.customerNames = { names, loadedAt: Date.now() };
+      return names;
+    } catch (error) {
+      console.error('Error loading customer names for guardrails:', error);
+      return this.customerNames?.names || [];
+    }
+  }
+
+  // Wraps a streaming callback so the customer only sees checked text. Tokens
+  // are held until a sentence ends, the reply so far is checked, and the
+  // stream stops at the first violation. Text still held when the model
+  // finishes arrives with the final message, which is checked as a whole.
+  guardStream(context: GuardrailContext, onToken: (delta: string) => void): StreamGuard {
+    let buffer = '';
+    let released = 0;
+    let stopped = false;
+    let pending = Promise.resolve();
+
+    const release = async (end: number) => {
+      if (stopped || end <= released) return;
+      const violations = await this.check(buffer.slice(0, end), context);
+      if (violations.length > 0) {
+        stopped = true;
+        return;
+      }
+      if (stopped) return;
+      onToken(buffer.slice(released, end));
+      released = end;
+    };
+
+    return {
+      onToken: (delta: string) => {
+        if (stopped) return;
+        buffer += delta;
+
+        let end = released;
+        for (const match of buffer.matchAll(SENTENCE_END_PATTERN)) {
+          end = (match.index ?? 0) + match[0].length;
+        }
+        if (end <= released) return;
+
+        pending = pending.then(() => release(end)).catch(error => {
+          stopped = true;
+          console.error('Error checking streamed reply:', error);
+        });
+      },
+      settle: async () => {
+        await pending;
+        stopped = true;
+      },
+    };
+  }
+
+  // Feedback appended to the conversation when asking the model to rewrite
+  buildRegenerationInstruction(violations: GuardrailViolationDetail[]): string {
+    const reasons = violations.map(violation => `- ${violation.rule}: ${violation.detail}`).join('\n');
+    return `Sua resposta anterior foi bloqueada pelas regras de atendimento:\n${reasons}\n\nReescreva a resposta em no máximo ${this.limits.maxSentences} frases curtas, sem links, sem prometer descontos ou condições fora da política, sem dados de outros clientes e sem mencionar problemas técnicos.`;
+  }
+
+  async recordViolations(record: GuardrailViolationRecord): Promise<void> {
+    try {
+      await prisma.guardrailViolation.createMany({
+        data: record.violations.map(violation => ({
+          chatSessionId: record.chatSessionId,
+          rule: violation.rule,
+          detail: violation.detail,
+          content: record.content,
+          resolution: record.resolution,
+          attempt: record.attempt
+        }))
+      });
+      console.warn(`Guardrail violations in session ${record.chatSessionId}: ${record.violations.map(v => v.rule).join(', ')} (${record.resolution})`);
+    } catch (error) {
+      console.error('Error recording guardrail violations:', error);
+    }
+  }
+
+  async getViolationStats(startDate: Date, endDate: Date): Promise<{
+    total: number;
+    byRule: { [rule: string]: number };
+    byResolution: { [resolution: string]: number };
+    affectedSessions: number;
+  }> {
+    const violations = await prisma.guardrailViolation.findMany({
+      where: { createdAt: { gte: startDate, lte: endDate } },
+      select: { rule: true, resolution: true, chatSessionId: true }
+    });
+
+    const byRule: { [rule: string]: number } = {};
+    const byResolution: { [resolution: string]: number } = {};
+    violations.forEach(violation => {
+      byRule[violation.rule] = (byRule[violation.rule] || 0) + 1;
+      byResolution[violation.resolution] = (byResolution[violation.resolution] || 0) + 1;
+    });
+
+    return {
+      total: violations.length,
+      byRule,
+      byResolution,
+      affectedSessions: new Set(violations.map(violation => violation.chatSessionId)).size,
+    };
+  }
+}
+
+export const outputGuardrails = new OutputGuardrails();
@@ -0,0 +1,207 @@
+import { PaymentDispute, PaymentTransaction } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import ChatMessage, { IntentClassification, PaymentDisputeResolution } from '../models/chatMessage';
+import { contactLogService } from './contactLogService';
+import { paymentTransactionService } from './paymentTransactionService';
+
+export interface PaymentDisputeConfig {
+  // How far back a payment counts as the one the customer means
+  lookbackDays: number;
+  // Contact is held this long while a payment waits for reconciliation
+  reconciliationHoldHours: number;
+}
+
+export interface PaymentDisputeResult {
+  dispute: PaymentDispute;
+  resolution: PaymentDisputeResolution;
+  // The payment found, or the one awaiting reconciliation
+  transaction: PaymentTransaction | null;
+}
+
+const RESOLUTIONS: Record<PaymentDisputeResolution, PaymentDispute['resolution']> = {
+  payment_found: 'PAYMENT_FOUND',
+  pending_reconciliation: 'PENDING_RECONCILIATION',
+  no_record: 'NO_RECORD',
+};
+
+// The bill's own transaction: a paid date on it means the bill was paid
+const BILL_STATUSES: PaymentTransaction['status'][] = ['PENDING', 'PROCESSING', 'FAILED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The bill the customer is being charged for, and the earliest a payment of
+// it can have been made
+interface OutstandingInvoice {
+  amount: number;
+  paidAfter: Date | null;
+}
+
+const money = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+const day = (date: Date) => date.toLocaleDateString('pt-BR');
+
+export function getPaymentDisputeConfig(env: typeof process.env = process.env): PaymentDisputeConfig {
+  return {
+    lookbackDays: Number(env.PAYMENT_DISPUTE_LOOKBACK_DAYS) || 15,
+    reconciliationHoldHours: Number(env.PAYMENT_RECONCILIATION_HOLD_HOURS) || 72,
+  };
+}
+
+// "Já paguei" claims are checked against the payment records instead of going
+// to the model. A payment received in the lookback window settles the account
+// only if it pays the outstanding bill (an earlier bill's payment doesn't);
+// one still processing holds contact until it clears; with neither, the
+// customer is asked for the receipt.
+export class PaymentDisputeService {
+  private config: PaymentDisputeConfig;
+  // Minimum classifier confidence to look the payment up
+  private minConfidence = 0.6;
+
+  constructor(config: PaymentDisputeConfig = getPaymentDisputeConfig()) {
+    this.config = config;
+  }
+
+  // Whether the message should be verified. Each session is checked once;
+  // after that the agent handles the conversation (e.g. the receipt) normally.
+  shouldVerify(intent: IntentClassification | undefined, history: ChatMessage[]): boolean {
+    if (intent?.intent !== 'already_paid' || intent.confidence < this.minConfidence) return false;
+    return !history.some(msg => msg.sender === 'ai' && msg.metadata.paymentDispute);
+  }
+
+  // Looks the payment up, applies the outcome and records the dispute
+  async verify(customerId: string, chatSessionId: string, claimText: string): Promise<PaymentDisputeResult> {
+    const since = new Date(Date.now() - this.config.lookbackDays * 24 * 60 * 60 * 1000);
+
+    // A paid date means the money arrived, whatever the status says
+    const payments = await prisma.paymentTransaction.findMany({
+      where: {
+        customerId,
+        paidDate: { gte: since },
+        status: { notIn: ['CANCELLED', 'REFUNDED'] }
+      },
+      orderBy: { paidDate: 'desc' }
+    });
+    const invoices = payments.length > 0 ? await this.getOutstandingInvoices(customerId) : [];
+    const found = payments.find(payment => this.paysInvoice(payment, invoices)) || null;
+    const processing = found ? null : await prisma.paymentTransaction.findFirst({
+      where: {
+        customerId,
+        status: 'PROCESSING',
+        paidDate: null,
+        transactionDate: { gte: since }
+      },
+      orderBy: { transactionDate: 'desc' }
+    });
+
+    const transaction = found || processing;
+    const resolution: PaymentDisputeResolution = found
+      ? 'payment_found'
+      : processing ? 'pending_reconciliation' : 'no_record';
+
+    if (found?.paidDate) {
+      await paymentTransactionService.recordPaymentReceipt({
+        customerId,
+        amount: Number(found.amount),
+        transactionDate: found.paidDate,
+        transactionId: found.id
+      });
+
+      await contactLogService.logContact({
+        customerId,
+        contactMethod: 'AI_CHAT',
+        outcome: 'PAYMENT_RESOLVED',
+        notes: `Customer said they had paid; payment of R$ ${Number(found.amount).toFixed(2)} on ${found.paidDate.toISOString().slice(0, 10)} found`,
+        agentId: 'ai_payment_dispute',
+        sessionId: chatSessionId,
+        successful: true,
+        paymentResolved: true,
+        metadata: { paymentTransactionId: found.id }
+      });
+    } else if (processing) {
+      await contactLogService.addContactRestriction(
+        customerId,
+        'TEMPORARY_COOLDOWN',
+        `Payment ${processing.id} awaiting reconciliation`,
+        this.config.reconciliationHoldHours
+      );
+    }
+
+    const dispute = await prisma.paymentDispute.create({
+      data: {
+        customerId,
+        chatSessionId,
+        claimText,
+        resolution: RESOLUTIONS[resolution],
+        paymentTransactionId: transaction?.id,
+        receiptRequested: resolution === 'no_record'
+      }
+    });
+
+    console.log(`Payment dispute ${dispute.id} for customer ${customerId}: ${resolution}`);
+    return { dispute, resolution, transaction };
+  }
+
+  // Unpaid charges, or the account value when none is recorded. A customer
+  // already marked paid after a payment has nothing left that it could pay.
+  private async getOutstandingInvoices(customerId: string): Promise<OutstandingInvoice[]> {
+    const charges = await prisma.paymentTransaction.findMany({
+      where: { customerId, status: { in: ['PENDING', 'FAILED'] }, paidDate: null },
+      orderBy: { transactionDate: 'asc' }
+    });
+    if (charges.length > 0) {
+      // Paying up to a week before the due date counts
+      return charges.map(charge => ({
+        amount: Number(charge.amount),
+        paidAfter: new Date(charge.transactionDate.getTime() - 7 * DAY_MS)
+      }));
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { accountValue: true, lastPaymentDate: true }
+    });
+    if (!customer) return [];
+
+    // accountValue is stored in cents
+    return [{ amount: Number(customer.accountValue) / 100, paidAfter: customer.lastPaymentDate }];
+  }
+
+  // A payment settles the claim when it is the bill's own transaction, or
+  // pays an outstanding bill: about the same amount (5%), paid no earlier than
+  // the bill allows
+  private paysInvoice(payment: PaymentTransaction, invoices: OutstandingInvoice[]): boolean {
+    if (BILL_STATUSES.includes(payment.status)) return true;
+    if (!payment.paidDate) return false;
+
+    const amount = Number(payment.amount);
+    const paidDate = payment.paidDate;
+    return invoices.some(invoice => {
+      if (Math.abs(amount - invoice.amount) > invoice.amount * 0.05) return false;
+      return !invoice.paidAfter || paidDate > invoice.paidAfter;
+    });
+  }
+
+  // The agent's answer to the claim
+  buildReply(chatSessionId: string, result: PaymentDisputeResult): ChatMessage {
+    const { dispute, resolution, transaction } = result;
+    const amount = transaction ? money(Number(transaction.amount)) : '';
+
+    const content = {
+      payment_found: `Encontrei aqui o seu pagamento de ${amount} do dia ${day(transaction?.paidDate || new Date())}. Já atualizei o seu cadastro e está tudo certo, desculpe pelo incômodo!`,
+      pending_reconciliation: `Encontrei o seu pagamento de ${amount} do dia ${day(transaction?.transactionDate || new Date())}, que ainda está em compensação. Assim que ele for confirmado, o seu cadastro é atualizado automaticamente.`,
+      no_record: 'Não encontrei nenhum pagamento recente no seu cadastro. Pode me enviar o comprovante por aqui para a gente conferir?',
+    }[resolution];
+
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content,
+      timestamp: new Date(),
+      messageType: resolution === 'no_record' ? 'question' : 'response',
+      metadata: {
+        paymentDispute: { disputeId: dispute.id, resolution, receiptRequested: dispute.receiptRequested }
+      }
+    });
+  }
+}
+
+export const paymentDisputeService = new PaymentDisputeService();
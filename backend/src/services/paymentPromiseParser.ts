@@ -0,0 +1,130 @@
+import { normalizeText } from './intentClassifier';
+
+// A date (YYYY-MM-DD) and, when the customer named one, an amount in reais
+export interface ExtractedPaymentPromise {
+  promisedDate: string;
+  amount?: number;
+}
+
+// Promises further out than this are treated as a negotiation, not a promise
+export const MAX_PROMISE_DAYS = 30;
+
+const WEEKDAYS = ['domingo', 'segunda', 'terca', 'quarta', 'quinta', 'sexta', 'sabado'];
+const WEEKDAY_NAMES = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+// Matched against normalized text: the customer committing to pay (or to get
+// the money) rather than asking about it
+const PROMISE_CUE_PATTERN = /\b(pago|pagarei|vou pagar|consigo pagar|posso pagar|da pra pagar|acerto|vou acertar|quito|vou quitar|faco o (pix|pagamento)|recebo|vou receber|cai o (salario|pagamento)|sai o (salario|pagamento))\b/;
+
+const AMOUNT_PATTERNS = [
+  /r\$\s*(\d{1,3}(?:\.\d{3})*(?:,\d{1,2})?|\d+(?:[.,]\d{1,2})?)/,
+  /\b(\d{1,3}(?:\.\d{3})*(?:,\d{1,2})?|\d+(?:[.,]\d{1,2})?)\s*(?:reais|conto)\b/,
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar date in local time, the way the customer means it
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function fromDateKey(key: string): Date {
+  return new Date(`${key}T12:00:00`);
+}
+
+// "segunda-feira, 19/10/2026": for prompts and customer-facing confirmations
+export function describeDate(key: string): string {
+  const date = fromDateKey(key);
+  return `${WEEKDAY_NAMES[date.getDay()]}, ${date.toLocaleDateString('pt-BR')}`;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12);
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, 12);
+const lastDayOfMonth = (year: number, month: number) => new Date(year, month + 1, 0, 12).getDate();
+
+// Day N of this month, or of next month when it already passed; clamped for short months
+function nextDayOfMonth(day: number, today: Date): Date {
+  let year = today.getFullYear();
+  let month = today.getMonth();
+  if (day < today.getDate()) {
+    month++;
+    if (month > 11) {
+      month = 0;
+      year++;
+    }
+  }
+  return new Date(year, month, Math.min(day, lastDayOfMonth(year, month)), 12);
+}
+
+// Most specific first: in "hoje não dá, pago na sexta" the promise is the sexta
+function extractDate(text: string, today: Date): Date | null {
+  const explicit = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
+  if (explicit) {
+    const day = Number(explicit[1]);
+    const month = Number(explicit[2]) - 1;
+    let year = explicit[3] ? Number(explicit[3].length === 2 ? `20${explicit[3]}` : explicit[3]) : today.getFullYear();
+    if (month < 0 || month > 11 || day < 1 || day > lastDayOfMonth(year, month)) return null;
+    let date = new Date(year, month, day, 12);
+    if (!explicit[3] && date < startOfDay(today)) {
+      year++;
+      date = new Date(year, month, day, 12);
+    }
+    return date;
+  }
+
+  const dayOfMonth = text.match(/\bdia (\d{1,2})\b/);
+  if (dayOfMonth) {
+    const day = Number(dayOfMonth[1]);
+    return day >= 1 && day <= 31 ? nextDayOfMonth(day, today) : null;
+  }
+
+  const weekday = text.match(/\b(domingo|segunda|terca|quarta|quinta|sexta|sabado)\b/);
+  if (weekday?.[1]) {
+    // "pago na sexta" said on a Friday means next week's
+    const target = WEEKDAYS.indexOf(weekday[1]);
+    const days = (target - today.getDay() + 7) % 7 || 7;
+    return addDays(today, days);
+  }
+
+  if (/\bdepois de amanha\b/.test(text)) return addDays(today, 2);
+  if (/\bamanha\b/.test(text)) return addDays(today, 1);
+  if (/\b(semana que vem|proxima semana)\b/.test(text)) return addDays(today, 7);
+  if (/\b(fim|final) do mes\b/.test(text)) return new Date(today.getFullYear(), today.getMonth(), lastDayOfMonth(today.getFullYear(), today.getMonth()), 12);
+  if (/\bhoje\b/.test(text)) return startOfDay(today);
+
+  return null;
+}
+
+export function extractAmount(text: string): number | undefined {
+  for (const pattern of AMOUNT_PATTERNS) {
+    const match = text.match(pattern);
+    if (match?.[1]) {
+      const amount = Number(match[1].replace(/\.(?=\d{3}\b)/g, '').replace(',', '.'));
+      if (amount > 0) return Math.round(amount * 100) / 100;
+    }
+  }
+  return undefined;
+}
+
+// True for a real calendar date from today to MAX_PROMISE_DAYS ahead
+export function isPromiseDateAllowed(promisedDate: string, today: Date = new Date()): boolean {
+  const date = fromDateKey(promisedDate);
+  if (Number.isNaN(date.getTime()) || toDateKey(date) !== promisedDate) return false;
+  return promisedDate >= toDateKey(today) && promisedDate <= toDateKey(addDays(today, MAX_PROMISE_DAYS));
+}
+
+// Rule-based extraction for pt-BR messages like "pago na sexta" or "recebo dia
+// 10, aí pago R$ 50". Returns null unless the message commits to a date.
+export function extractPaymentPromise(text: string, today: Date = new Date()): ExtractedPaymentPromise | null {
+  const normalized = normalizeText(text);
+  if (!PROMISE_CUE_PATTERN.test(normalized)) return null;
+
+  const date = extractDate(normalized, today);
+  if (!date) return null;
+
+  const promisedDate = toDateKey(date);
+  if (!isPromiseDateAllowed(promisedDate, today)) return null;
+
+  const amount = extractAmount(normalized);
+  return amount !== undefined ? { promisedDate, amount } : { promisedDate };
+}
@@ -0,0 +1,160 @@
+import { PaymentPromise, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { contactLogService } from './contactLogService';
+import { describeDate, fromDateKey } from './paymentPromiseParser';
+
+export interface PaymentPromiseData {
+  customerId: string;
+  chatSessionId?: string;
+  // YYYY-MM-DD
+  promisedDate: string;
+  // In reais
+  amount: number;
+  sourceText?: string;
+}
+
+export interface PaymentPromiseStats {
+  total: number;
+  pending: number;
+  kept: number;
+  broken: number;
+  cancelled: number;
+  // kept / (kept + broken); null until a promise comes due
+  keptRate: number | null;
+  promisedAmount: number;
+  keptAmount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Promises the customer makes in chat ("pago na sexta"). Until the day after
+// the promised date the customer is left alone; then the promise is kept if a
+// payment arrived, or broken and handed back to the queue for a follow-up.
+export class PaymentPromiseService {
+  // Follow-ups go out at the start of the next day's contact hours
+  private followUpHour = 9;
+
+  getFollowUpDate(promisedDate: string): Date {
+    const followUp = fromDateKey(promisedDate);
+    followUp.setDate(followUp.getDate() + 1);
+    followUp.setHours(this.followUpHour, 0, 0, 0);
+    return followUp;
+  }
+
+  // Replaces any pending promise of the customer, holds contact until the
+  // follow-up and logs the conversation as rescheduled
+  async createPromise(data: PaymentPromiseData): Promise<PaymentPromise> {
+    const followUpAt = this.getFollowUpDate(data.promisedDate);
+
+    const promise = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.paymentPromise.updateMany({
+        where: { customerId: data.customerId, status: 'PENDING' },
+        data: { status: 'CANCELLED', resolvedAt: new Date() }
+      });
+
+      return tx.paymentPromise.create({
+        data: {
+          customerId: data.customerId,
+          chatSessionId: data.chatSessionId,
+          // @db.Date keeps the UTC calendar day
+          promisedDate: new Date(`${data.promisedDate}T00:00:00.000Z`),
+          amount: data.amount,
+          sourceText: data.sourceText,
+          followUpAt
+        }
+      });
+    });
+
+    const hoursUntilFollowUp = Math.max(1, (followUpAt.getTime() - Date.now()) / (1000 * 60 * 60));
+    await contactLogService.addContactRestriction(
+      data.customerId,
+      'TEMPORARY_COOLDOWN',
+      `Payment promised for ${data.promisedDate}`,
+      hoursUntilFollowUp
+    );
+
+    await contactLogService.logContact({
+      customerId: data.customerId,
+      contactMethod: 'AI_CHAT',
+      outcome: 'RESCHEDULED',
+      notes: `Customer promised to pay R$ ${data.amount.toFixed(2)} by ${describeDate(data.promisedDate)}`,
+      agentId: 'ai_payment_promise',
+      sessionId: data.chatSessionId,
+      nextContactDate: followUpAt,
+      successful: true,
+      metadata: { paymentPromiseId: promise.id }
+    });
+
+    console.log(`Payment promise recorded for customer ${data.customerId}: R$ ${data.amount} by ${data.promisedDate}`);
+    return promise;
+  }
+
+  // Called when a payment is received; returns how many promises it kept
+  async markKept(customerId: string, paymentTransactionId: string, db: Prisma.TransactionClient = prisma): Promise<number> {
+    const { count } = await db.paymentPromise.updateMany({
+      where: { customerId, status: 'PENDING' },
+      data: { status: 'KEPT', resolvedAt: new Date(), paymentTransactionId }
+    });
+    return count;
+  }
+
+  // Resolves the promises whose follow-up time has come. A completed payment
+  // since the promise keeps it; otherwise it is broken. Returns the broken
+  // ones, which the queue contacts again.
+  async processDuePromises(now: Date = new Date()): Promise<PaymentPromise[]> {
+    const due = await prisma.paymentPromise.findMany({
+      where: { status: 'PENDING', followUpAt: { lte: now } },
+      orderBy: { followUpAt: 'asc' }
+    });
+
+    const broken: PaymentPromise[] = [];
+    for (const promise of due) {
+      const payment = await prisma.paymentTransaction.findFirst({
+        where: { customerId: promise.customerId, status: 'COMPLETED', paidDate: { gte: promise.createdAt } },
+        orderBy: { paidDate: 'asc' },
+        select: { id: true }
+      });
+
+      const resolved = await prisma.paymentPromise.update({
+        where: { id: promise.id },
+        data: payment
+          ? { status: 'KEPT', resolvedAt: now, paymentTransactionId: payment.id }
+          : { status: 'BROKEN', resolvedAt: now }
+      });
+
+      if (!payment) broken.push(resolved);
+    }
+
+    if (due.length > 0) {
+      console.log(`Payment promises due: ${due.length - broken.length} kept, ${broken.length} broken`);
+    }
+    return broken;
+  }
+
+  // Promises made in the period, by how they turned out
+  async getPromiseStats(startDate: Date, endDate: Date): Promise<PaymentPromiseStats> {
+    const promises = await prisma.paymentPromise.findMany({
+      where: { createdAt: { gte: startDate, lte: endDate } },
+      select: { status: true, amount: true }
+    });
+
+    const count = (status: PaymentPromise['status']) => promises.filter(promise => promise.status === status).length;
+    const kept = count('KEPT');
+    const broken = count('BROKEN');
+
+    return {
+      total: promises.length,
+      pending: count('PENDING'),
+      kept,
+      broken,
+      cancelled: count('CANCELLED'),
+      keptRate: kept + broken > 0 ? round2(kept / (kept + broken)) : null,
+      promisedAmount: round2(promises.reduce((sum, promise) => sum + Number(promise.amount), 0)),
+      keptAmount: round2(promises
+        .filter(promise => promise.status === 'KEPT')
+        .reduce((sum, promise) => sum + Number(promise.amount), 0)),
+    };
+  }
+}
+
+export const paymentPromiseService = new PaymentPromiseService();
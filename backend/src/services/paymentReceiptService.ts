@@ -0,0 +1,354 @@
+import { PaymentReceipt, PaymentTransaction, Prisma, ReceiptReviewStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import ChatMessage from '../models/chatMessage';
+import { contactLogService } from './contactLogService';
+import { FileStorage, baseContentType, fileStorage } from './fileStorage';
+import { getPaymentDisputeConfig } from './paymentDisputeService';
+import { paymentTransactionService } from './paymentTransactionService';
+import { ExtractedReceipt, extractPdfText, parseReceiptText } from './receiptParser';
+import { ReceiptOcr, createReceiptOcr } from './receiptOcr';
+
+export interface PaymentReceiptConfig {
+  // Largest receipt accepted, in bytes
+  maxBytes: number;
+  // Minimum score (0 to 1) for a transaction to be proposed as the one paid
+  matchThreshold: number;
+  // A payment up to this many days after the due date still counts as paying it
+  matchWindowDays: number;
+  // Contact is held this long while the receipt waits for review
+  reviewHoldHours: number;
+}
+
+export interface ReceiptUpload {
+  customerId: string;
+  chatSessionId: string;
+  chatMessageId?: string;
+  data: Buffer;
+  contentType: string;
+  fileName?: string;
+}
+
+export interface ReceiptMatch {
+  transaction: PaymentTransaction;
+  score: number;
+}
+
+export interface ReceiptReview {
+  reviewedBy: string;
+  notes?: string;
+  // Approve against this transaction instead of the proposed one
+  transactionId?: string;
+}
+
+export type PaymentReceiptDetails = PaymentReceipt & {
+  customer: { id: string; name: string; serviceProvider: string };
+  matchedTransaction: PaymentTransaction | null;
+};
+
+export const RECEIPT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+
+// Transactions a receipt can pay
+const OUTSTANDING_STATUSES: PaymentTransaction['status'][] = ['PENDING', 'PROCESSING', 'FAILED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const money = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+const day = (date: Date) => date.toLocaleDateString('pt-BR');
+
+export function getPaymentReceiptConfig(env: typeof process.env = process.env): PaymentReceiptConfig {
+  return {
+    maxBytes: Number(env.RECEIPT_MAX_BYTES) || 10 * 1024 * 1024,
+    matchThreshold: Number(env.RECEIPT_MATCH_THRESHOLD) || 0.6,
+    matchWindowDays: Number(env.RECEIPT_MATCH_WINDOW_DAYS) || 60,
+    reviewHoldHours: getPaymentDisputeConfig(env).reconciliationHoldHours,
+  };
+}
+
+// How well a receipt fits an outstanding transaction: the amount carries most
+// of the weight, a payment date close to the due date and a Pix or boleto
+// identifier (a real bank receipt rather than a typed note) add to it
+export function scoreReceiptMatch(receipt: ExtractedReceipt, transaction: PaymentTransaction, windowDays: number): number {
+  let score = 0;
+
+  if (receipt.amount !== undefined) {
+    const expected = Number(transaction.amount);
+    const difference = Math.abs(receipt.amount - expected);
+    if (difference < 0.01) score += 0.6;
+    else if (difference <= expected * 0.05) score += 0.3;
+  }
+
+  if (receipt.paidAt) {
+    const daysAfterDue = (receipt.paidAt.getTime() - transaction.transactionDate.getTime()) / DAY_MS;
+    if (daysAfterDue >= -7 && daysAfterDue <= windowDays) score += 0.2;
+  }
+
+  if (receipt.pixEndToEndId || receipt.boletoLine) score += 0.2;
+
+  return Math.round(score * 100) / 100;
+}
+
+// Receipts (comprovantes) customers upload in chat. The file is stored, its
+// amount, date and Pix or boleto identifier are read and matched against the
+// customer's outstanding transactions. Nothing is paid until a supervisor
+// approves the receipt; meanwhile contact with the customer is held.
+export class PaymentReceiptService {
+  private storage: FileStorage;
+  private ocr: ReceiptOcr;
+  readonly config: PaymentReceiptConfig;
+
+  constructor(
+    storage: FileStorage = fileStorage,
+    ocr: ReceiptOcr = createReceiptOcr(),
+    config: PaymentReceiptConfig = getPaymentReceiptConfig()
+  ) {
+    this.storage = storage;
+    this.ocr = ocr;
+    this.config = config;
+  }
+
+  isSupported(contentType: string | undefined): boolean {
+    return !!contentType && RECEIPT_CONTENT_TYPES.includes(baseContentType(contentType));
+  }
+
+  // Text of the receipt: PDFs are read directly, images go through OCR. A
+  // failure leaves the receipt for the supervisor to read.
+  async extractText(data: Buffer, contentType: string): Promise<string> {
+    try {
+      return baseContentType(contentType) === 'application/pdf'
+        ? extractPdfText(data)
+        : await this.ocr.recognize(data);
+    } catch (error) {
+      console.error('Error extracting receipt text:', error);
+      return '';
+    }
+  }
+
+  // The outstanding transaction the receipt most likely pays, if any scores
+  // above the threshold. Ties go to the oldest debt.
+  matchTransaction(receipt: ExtractedReceipt, candidates: PaymentTransaction[]): ReceiptMatch | null {
+    let best: ReceiptMatch | null = null;
+    for (const transaction of candidates) {
+      const score = scoreReceiptMatch(receipt, transaction, this.config.matchWindowDays);
+      if (score < this.config.matchThreshold) continue;
+      if (!best || score > best.score || (score === best.score && transaction.transactionDate < best.transaction.transactionDate)) {
+        best = { transaction, score };
+      }
+    }
+    return best;
+  }
+
+  // Whether a receipt can still pay this transaction
+  isOutstanding(transaction: PaymentTransaction): boolean {
+    return OUTSTANDING_STATUSES.includes(transaction.status) && transaction.paidDate === null;
+  }
+
+  // Unpaid transactions, oldest first
+  async getOutstandingTransactions(customerId: string): Promise<PaymentTransaction[]> {
+    return prisma.paymentTransaction.findMany({
+      where: { customerId, status: { in: OUTSTANDING_STATUSES }, paidDate: null },
+      orderBy: { transactionDate: 'asc' }
+    });
+  }
+
+  // Stores and reads the receipt, proposes a match and queues it for review
+  async submit(upload: ReceiptUpload): Promise<PaymentReceipt> {
+    const stored = await this.storage.save(upload.data, {
+      folder: `receipts/${upload.chatSessionId}`,
+      contentType: upload.contentType
+    });
+
+    const text = await this.extractText(upload.data, stored.contentType);
+    const extracted = parseReceiptText(text);
+
+    const candidates = await this.getOutstandingTransactions(upload.customerId);
+    const match = this.matchTransaction(extracted, candidates);
+
+    // The "already paid" claim in this session that asked for the receipt
+    const dispute = await prisma.paymentDispute.findFirst({
+      where: { chatSessionId: upload.chatSessionId, receiptRequested: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const receipt = await prisma.paymentReceipt.create({
+      data: {
+        customerId: upload.customerId,
+        chatSessionId: upload.chatSessionId,
+        chatMessageId: upload.chatMessageId,
+        paymentDisputeId: dispute?.id,
+        storageKey: stored.key,
+        contentType: stored.contentType,
+        fileName: upload.fileName,
+        sizeBytes: stored.sizeBytes,
+        extractedText: text.trim() || null,
+        amount: extracted.amount,
+        paidAt: extracted.paidAt,
+        pixEndToEndId: extracted.pixEndToEndId,
+        boletoLine: extracted.boletoLine,
+        matchedTransactionId: match?.transaction.id,
+        matchScore: match?.score
+      }
+    });
+
+    await contactLogService.addContactRestriction(
+      upload.customerId,
+      'TEMPORARY_COOLDOWN',
+      `Payment receipt ${receipt.id} awaiting review`,
+      this.config.reviewHoldHours
+    );
+
+    console.log(`Payment receipt ${receipt.id} for customer ${upload.customerId}: ${match ? `matches ${match.transaction.id} (${match.score})` : 'no match'}`);
+    return receipt;
+  }
+
+  // The agent's answer to an uploaded receipt
+  buildReply(chatSessionId: string, receipt: PaymentReceipt): ChatMessage {
+    const details = receipt.amount
+      ? ` de ${money(Number(receipt.amount))}${receipt.paidAt ? ` do dia ${day(receipt.paidAt)}` : ''}`
+      : '';
+
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content: `Recebi o seu comprovante${details}. A nossa equipe vai conferir e, enquanto isso, não vamos te cobrar.`,
+      timestamp: new Date(),
+      messageType: 'response',
+    });
+  }
+
+  // The message the customer gets once the receipt was reviewed. A rejection
+  // only promises a follow-up when a human agent has the conversation.
+  buildReviewReply(chatSessionId: string, receipt: PaymentReceipt, withAgent = false): ChatMessage {
+    const rejection = 'Conferimos o comprovante que você enviou, mas não conseguimos confirmar o pagamento.';
+    const content = receipt.status === 'APPROVED'
+      ? 'Conferimos o seu comprovante e o pagamento foi confirmado. O seu cadastro já está atualizado, obrigado!'
+      : withAgent
+        ? `${rejection} Um dos nossos atendentes vai continuar a conversa por aqui para te ajudar.`
+        : `${rejection} Se você já pagou, fale com a nossa central de atendimento.`;
+
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content,
+      timestamp: new Date(),
+      messageType: 'response',
+    });
+  }
+
+  async list(status?: ReceiptReviewStatus): Promise<PaymentReceiptDetails[]> {
+    return prisma.paymentReceipt.findMany({
+      where: status ? { status } : undefined,
+      include: {
+        customer: { select: { id: true, name: true, serviceProvider: true } },
+        matchedTransaction: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200
+    });
+  }
+
+  async get(id: string): Promise<PaymentReceiptDetails | null> {
+    return prisma.paymentReceipt.findUnique({
+      where: { id },
+      include: {
+        customer: { select: { id: true, name: true, serviceProvider: true } },
+        matchedTransaction: true
+      }
+    });
+  }
+
+  async read(receipt: PaymentReceipt): Promise<Buffer> {
+    return this.storage.read(receipt.storageKey);
+  }
+
+  // Turns the receipt into a resolved payment: the transaction (the one given,
+  // else the proposed match, else a new one for the receipt's amount) is
+  // completed and the claim that asked for it is settled. Null when the receipt
+  // was already reviewed; the route checks the transaction is still
+  // outstanding before calling.
+  // The receipt is only approved together with the payment it records.
+  async approve(id: string, review: ReceiptReview): Promise<PaymentReceipt | null> {
+    const receipt = await prisma.paymentReceipt.findUnique({ where: { id } });
+    if (!receipt || receipt.status !== 'PENDING_REVIEW') return null;
+
+    const transactionId = review.transactionId || receipt.matchedTransactionId;
+    const transaction = transactionId
+      ? await prisma.paymentTransaction.findFirst({
+        where: { id: transactionId, customerId: receipt.customerId, status: { in: OUTSTANDING_STATUSES }, paidDate: null }
+      })
+      : null;
+    if (transactionId && !transaction) {
+      throw new Error(`Payment transaction ${transactionId} is not outstanding for customer ${receipt.customerId}`);
+    }
+    if (!transaction && receipt.amount === null) {
+      throw new Error(`Payment receipt ${id} has no amount and no transaction`);
+    }
+
+    const paidAt = receipt.paidAt || receipt.createdAt;
+    const amount = transaction ? Number(transaction.amount) : Number(receipt.amount);
+    const paid = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.paymentReceipt.updateMany({
+        where: { id, status: 'PENDING_REVIEW' },
+        data: {
+          status: 'APPROVED',
+          reviewedBy: review.reviewedBy,
+          reviewedAt: new Date(),
+          reviewNotes: review.notes
+        }
+      });
+      if (claimed.count === 0) return null;
+
+      const payment = await paymentTransactionService.recordPaymentReceipt({
+        customerId: receipt.customerId,
+        amount,
+        transactionDate: paidAt,
+        transactionId: transaction?.id,
+        description: 'Payment confirmed by receipt'
+      }, tx);
+
+      await tx.paymentReceipt.update({ where: { id }, data: { matchedTransactionId: payment.id } });
+      if (receipt.paymentDisputeId) {
+        await tx.paymentDispute.update({
+          where: { id: receipt.paymentDisputeId },
+          data: { resolution: 'PAYMENT_FOUND', paymentTransactionId: payment.id }
+        });
+      }
+      return payment;
+    });
+    if (!paid) return null;
+
+    await contactLogService.logContact({
+      customerId: receipt.customerId,
+      contactMethod: 'AI_CHAT',
+      outcome: 'PAYMENT_RESOLVED',
+      notes: `Payment receipt of R$ ${amount.toFixed(2)} on ${paidAt.toISOString().slice(0, 10)} approved by ${review.reviewedBy}`,
+      agentId: review.reviewedBy,
+      sessionId: receipt.chatSessionId ?? undefined,
+      successful: true,
+      paymentResolved: true,
+      metadata: { paymentReceiptId: id, paymentTransactionId: paid.id }
+    });
+
+    console.log(`Payment receipt ${id} approved by ${review.reviewedBy}`);
+    return prisma.paymentReceipt.findUnique({ where: { id } });
+  }
+
+  // The receipt doesn't prove a payment; the account stays as it was. Null
+  // when the receipt was already reviewed.
+  async reject(id: string, review: ReceiptReview): Promise<PaymentReceipt | null> {
+    const rejected = await prisma.paymentReceipt.updateMany({
+      where: { id, status: 'PENDING_REVIEW' },
+      data: {
+        status: 'REJECTED',
+        reviewedBy: review.reviewedBy,
+        reviewedAt: new Date(),
+        reviewNotes: review.notes
+      }
+    });
+    if (rejected.count === 0) return null;
+
+    console.log(`Payment receipt ${id} rejected by ${review.reviewedBy}`);
+    return prisma.paymentReceipt.findUnique({ where: { id } });
+  }
+}
+
+export const paymentReceiptService = new PaymentReceiptService();
@@ -1,11 +1,15 @@
+import { PaymentTransaction, Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { customerCache } from './customerCacheService';
+import { paymentPromiseService } from './paymentPromiseService';
 
 export interface PaymentReceiptData {
   customerId: string;
   amount: number;
   transactionDate: Date;
   description?: string;
+  // Settles this existing transaction instead of recording a new one
+  transactionId?: string;
 }
 
 export interface PendingPaymentData {
@@ -16,28 +20,36 @@ export interface PendingPaymentData {
 
 export class PaymentTransactionService {
 
-  // Record a successful payment receipt
-  async recordPaymentReceipt(data: PaymentReceiptData): Promise<void> {
+  // Record a successful payment receipt; returns the completed transaction.
+  // Pass a transaction client to record it together with the caller's writes.
+  async recordPaymentReceipt(data: PaymentReceiptData, db: Prisma.TransactionClient = prisma): Promise<PaymentTransaction> {
     try {
       console.log(`Recording payment receipt for customer ${data.customerId}: R$ ${data.amount}`);
 
-      // Create payment transaction record
-      await prisma.paymentTransaction.create({
-        data: {
-          customerId: data.customerId,
-          amount: data.amount,
-          status: 'COMPLETED',
-          transactionDate: data.transactionDate,
-          paidDate: data.transactionDate,
-          description: data.description || 'Monthly subscription payment',
-        }
-      });
+      // Create payment transaction record, or complete the one the payment was found on
+      const transaction = data.transactionId
+        ? await db.paymentTransaction.update({
+          where: { id: data.transactionId },
+          data: { status: 'COMPLETED', paidDate: data.transactionDate }
+        })
+        : await db.paymentTransaction.create({
+          data: {
+            customerId: data.customerId,
+            amount: data.amount,
+            status: 'COMPLETED',
+            transactionDate: data.transactionDate,
+            paidDate: data.transactionDate,
+            description: data.description || 'Monthly subscription payment',
+          }
+        });
 
-      // Find and mark corresponding payment due as paid
+      // A payment before the follow-up keeps the customer's promise
+      await paymentPromiseService.markKept(data.customerId, transaction.id, db);
 
+      // Find and mark corresponding payment due as paid
 
       // Update customer status to active
-      await prisma.customer.update({
+      await db.customer.update({
         where: { id: data.customerId },
         data: {
           accountStatus: 'ACTIVE',
@@ -52,9 +64,10 @@ export class PaymentTransactionService {
       customerCache.invalidate(data.customerId);
 
       // Add contact restriction to prevent unnecessary contact
-      await this.addPaymentResolvedRestriction(data.customerId);
+      await this.addPaymentResolvedRestriction(data.customerId, db);
 
       console.log(`Payment receipt recorded successfully for customer ${data.customerId}`);
+      return transaction;
 
     } catch (error) {
       console.error('Error recording payment receipt:', error);
@@ -130,14 +143,16 @@ export class PaymentTransactionService {
   // Mark payment due as paid
 
 
-  // Add contact restriction for resolved payments
-  private async addPaymentResolvedRestriction(customerId: string): Promise<void> {
+  // Add contact restriction for resolved payments. Inside a transaction a
+  // failure is rethrown so the payment is rolled back with it.
+  private async addPaymentResolvedRestriction(customerId: string, db: Prisma.TransactionClient = prisma): Promise<void> {
     try {
-      // Deactivate any existing active restrictions
-      await prisma.contactRestriction.updateMany({
+      // Deactivate any existing active restrictions; an opt-out outlives the payment
+      await db.contactRestriction.updateMany({
         where: {
           customerId,
-          isActive: true
+          isActive: true,
+          restrictionType: { not: 'DO_NOT_CONTACT' }
         },
         data: {
           isActive: false,
@@ -149,7 +164,7 @@ export class PaymentTransactionService {
       const endDate = new Date();
       endDate.setHours(endDate.getHours() + 24);
 
-      await prisma.contactRestriction.create({
+      await db.contactRestriction.create({
         data: {
           customerId,
           restrictionType: 'PAYMENT_RESOLVED',
@@ -163,6 +178,7 @@ export class PaymentTransactionService {
         }
       });
     } catch (error) {
+      if (db !== prisma) throw error;
       console.error('Error adding payment resolved restriction:', error);
     }
   }
@@ -0,0 +1,183 @@
+import { normalizeText } from './intentClassifier';
+
+// A passage cut from a policy document, before it is stored
+export interface DocumentChunk {
+  position: number;
+  heading: string | null;
+  content: string;
+}
+
+// What the index scores: a stored chunk plus the text that makes it findable
+export interface IndexedPassage {
+  id: string;
+  documentId: string;
+  title: string;
+  heading: string | null;
+  content: string;
+  serviceProvider: string | null;
+  vertical: string | null;
+}
+
+export interface ScoredPassage extends IndexedPassage {
+  score: number;
+}
+
+// Passages stay around a WhatsApp-sized answer; longer paragraphs are split
+const MAX_CHUNK_WORDS = 120;
+
+// Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Matched against normalized text. Function words, plus the words every
+// collections conversation has, so they don't drown out the topic
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas',
+  'por', 'pelo', 'pela', 'pelos', 'pelas', 'para', 'pra', 'pro', 'com', 'sem', 'sob', 'sobre', 'ao', 'aos', 'e', 'ou',
+  'que', 'se', 'mas', 'como', 'quando', 'onde', 'qual', 'quais', 'quem', 'porque', 'pois', 'entao', 'ja', 'ainda',
+  'eu', 'voce', 'voces', 'ele', 'ela', 'eles', 'elas', 'me', 'te', 'lhe', 'meu', 'minha', 'meus', 'minhas',
+  'seu', 'sua', 'seus', 'suas', 'isso', 'isto', 'esse', 'essa', 'este', 'esta', 'aquele', 'aquela', 'aqui', 'ai', 'la',
+  'era', 'ser', 'sao', 'foi', 'ter', 'tem', 'tenho', 'tinha', 'vai', 'vou', 'estou', 'estar', 'fica', 'ficar',
+  'nao', 'sim', 'muito', 'mais', 'menos', 'so', 'tambem', 'tudo', 'todo', 'toda', 'oi', 'ola', 'bom', 'dia', 'tarde', 'noite',
+  'acontece', 'quero', 'queria', 'gostaria', 'saber', 'favor', 'obrigado', 'obrigada',
+]);
+
+// Lowercase, accent-free terms without stopwords; trailing plural "s" is
+// dropped so "taxas" matches "taxa"
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+    .map(term => (term.length > 3 && term.endsWith('s') ? term.slice(0, -1) : term));
+}
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Splits a paragraph that is too long at sentence boundaries, and a sentence
+// that is still too long at word boundaries
+function splitLongParagraph(paragraph: string): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph];
+  const parts: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && wordCount(current) + wordCount(sentence) > MAX_CHUNK_WORDS) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts.flatMap(part => {
+    const words = part.split(/\s+/);
+    if (words.length <= MAX_CHUNK_WORDS) return [part];
+    const pieces: string[] = [];
+    for (let i = 0; i < words.length; i += MAX_CHUNK_WORDS) {
+      pieces.push(words.slice(i, i + MAX_CHUNK_WORDS).join(' '));
+    }
+    return pieces;
+  });
+}
+
+// Cuts a plain-text or markdown document into passages. Paragraphs are kept
+// whole and merged up to MAX_CHUNK_WORDS within a section; each passage
+// remembers the heading it sits under.
+export function chunkDocument(content: string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let heading: string | null = null;
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push({ position: chunks.length, heading, content: current.trim() });
+    }
+    current = '';
+  };
+
+  for (const block of content.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+    const lines = block.trim().split('\n');
+    // A markdown heading starts a new section; any text under it stays in the block
+    const headingMatch = lines[0]?.match(/^#{1,6}\s+(.+)$/);
+    if (headingMatch?.[1]) {
+      flush();
+      heading = headingMatch[1].trim().slice(0, 255);
+      lines.shift();
+    }
+
+    const paragraph = lines.join(' ').replace(/\s+/g, ' ').trim();
+    if (!paragraph) continue;
+
+    for (const part of splitLongParagraph(paragraph)) {
+      if (current && wordCount(current) + wordCount(part) > MAX_CHUNK_WORDS) flush();
+      current = current ? `${current}\n\n${part}` : part;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+// In-memory Okapi BM25 over policy passages. Titles and headings are indexed
+// with the passage text, so a question about "religação" finds the passage
+// under a "Religação" heading even when the body says "restabelecimento".
+export class Bm25Index {
+  private passages: IndexedPassage[];
+  private termFrequencies: Map<string, number>[];
+  private lengths: number[];
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(passages: IndexedPassage[]) {
+    this.passages = passages;
+    this.termFrequencies = passages.map(passage => {
+      const frequencies = new Map<string, number>();
+      for (const term of tokenize(`${passage.title} ${passage.heading || ''} ${passage.content}`)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+      return frequencies;
+    });
+    this.lengths = this.termFrequencies.map(frequencies =>
+      Array.from(frequencies.values()).reduce((sum, count) => sum + count, 0));
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / (passages.length || 1);
+
+    for (const frequencies of this.termFrequencies) {
+      for (const term of frequencies.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.passages.length;
+  }
+
+  // Best passages for the query, highest score first. filter restricts the
+  // candidates (e.g. to the customer's provider) without changing the scores.
+  search(query: string, limit: number, filter: (passage: IndexedPassage) => boolean = () => true): ScoredPassage[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const total = this.passages.length;
+    const results: ScoredPassage[] = [];
+
+    this.passages.forEach((passage, index) => {
+      if (!filter(passage)) return;
+      const frequencies = this.termFrequencies[index]!;
+      const length = this.lengths[index]!;
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+        const documents = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / (this.averageLength || 1)));
+      }
+
+      if (score > 0) results.push({ ...passage, score: Math.round(score * 1000) / 1000 });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
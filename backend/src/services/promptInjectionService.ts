@@ -0,0 +1,112 @@
+import { Prisma, PromptInjectionAttempt } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import ChatMessage, { PromptInjectionMetadata } from '../models/chatMessage';
+
+export type InjectionVerdict = 'confirmed' | 'false_positive';
+
+export interface PromptInjectionRecord {
+  chatSessionId: string;
+  customerId: string;
+  chatMessageId?: string;
+  content: string;
+  injection: PromptInjectionMetadata;
+}
+
+export type PromptInjectionAttemptDetails = PromptInjectionAttempt & {
+  customer: { id: string; name: string; serviceProvider: string };
+};
+
+// Same answer whatever was attempted, so probing learns nothing about the agent
+const CANNED_REPLY = 'Por aqui eu só consigo te ajudar com a sua conta e os seus pagamentos. Quer ver as opções para regularizar a sua fatura?';
+
+// Customer messages flagged by the injection detector are answered with a
+// canned reply instead of going to the model, and recorded for security review
+export class PromptInjectionService {
+  async record(record: PromptInjectionRecord): Promise<PromptInjectionAttempt | null> {
+    try {
+      const attempt = await prisma.promptInjectionAttempt.create({
+        data: {
+          chatSessionId: record.chatSessionId,
+          customerId: record.customerId,
+          chatMessageId: record.chatMessageId,
+          content: record.content,
+          categories: record.injection.categories,
+          score: record.injection.score,
+          detector: record.injection.detector
+        }
+      });
+      console.warn(`Prompt injection attempt in session ${record.chatSessionId}: ${record.injection.categories.join(', ')} (${record.injection.score})`);
+      return attempt;
+    } catch (error) {
+      console.error('Error recording prompt injection attempt:', error);
+      return null;
+    }
+  }
+
+  // The agent's answer to a flagged message
+  buildReply(chatSessionId: string): ChatMessage {
+    return new ChatMessage({
+      chatSessionId,
+      sender: 'ai',
+      content: CANNED_REPLY,
+      timestamp: new Date(),
+      messageType: 'response',
+    });
+  }
+
+  // Attempts waiting for review (no verdict yet), or all of them, newest first
+  async list(options: { pendingOnly?: boolean; chatSessionId?: string } = {}): Promise<PromptInjectionAttemptDetails[]> {
+    const where: Prisma.PromptInjectionAttemptWhereInput = {};
+    if (options.pendingOnly) where.verdict = null;
+    if (options.chatSessionId) where.chatSessionId = options.chatSessionId;
+
+    return prisma.promptInjectionAttempt.findMany({
+      where,
+      include: { customer: { select: { id: true, name: true, serviceProvider: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 200
+    });
+  }
+
+  async get(id: string): Promise<PromptInjectionAttempt | null> {
+    return prisma.promptInjectionAttempt.findUnique({ where: { id } });
+  }
+
+  async review(id: string, verdict: InjectionVerdict, reviewedBy: string): Promise<PromptInjectionAttempt> {
+    return prisma.promptInjectionAttempt.update({
+      where: { id },
+      data: { verdict, reviewedBy, reviewedAt: new Date() }
+    });
+  }
+
+  async getStats(startDate: Date, endDate: Date): Promise<{
+    total: number;
+    byCategory: { [category: string]: number };
+    byVerdict: { [verdict: string]: number };
+    affectedCustomers: number;
+  }> {
+    const attempts = await prisma.promptInjectionAttempt.findMany({
+      where: { createdAt: { gte: startDate, lte: endDate } },
+      select: { categories: true, verdict: true, customerId: true }
+    });
+
+    const byCategory: { [category: string]: number } = {};
+    const byVerdict: { [verdict: string]: number } = {};
+    attempts.forEach(attempt => {
+      attempt.categories.forEach(category => {
+        byCategory[category] = (byCategory[category] || 0) + 1;
+      });
+      const verdict = attempt.verdict || 'pending';
+      byVerdict[verdict] = (byVerdict[verdict] || 0) + 1;
+    });
+
+    return {
+      total: attempts.length,
+      byCategory,
+      byVerdict,
+      affectedCustomers: new Set(attempts.map(attempt => attempt.customerId)).size,
+    };
+  }
+}
+
+export const promptInjectionService = new PromptInjectionService();
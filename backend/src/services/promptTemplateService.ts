@@ -0,0 +1,252 @@
+import { PromptTemplate } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { PromptVersionMetadata } from '../models/chatMessage';
+
+export type PromptKey = 'chat_response' | 'initial_message';
+
+export const PROMPT_KEYS: PromptKey[] = ['chat_response', 'initial_message'];
+
+export interface PromptScope {
+  vertical?: string | null;
+  serviceProvider?: string | null;
+}
+
+// What gets recorded in ChatMessage.metadata.prompt. Built-in prompts have
+// version 0 and no id.
+export interface PromptVersionRef extends PromptVersionMetadata {
+  key: PromptKey;
+}
+
+export interface ResolvedPrompt extends PromptVersionRef {
+  content: string;
+}
+
+export interface PromptTemplateInput {
+  key: PromptKey;
+  content: string;
+  variables?: string[];
+  vertical?: string | null;
+  serviceProvider?: string | null;
+  description?: string | null;
+  createdBy?: string | null;
+}
+
+const CHAT_RESPONSE_PROMPT = `Você é um assistente de atendimento da Bemobi via WhatsApp, especializado em resolver problemas de pagamento de forma rápida e amigável. Sempre tente convencer o cliente a fazer o pagamento.
+
+#REGRAS OBRIGATÓRIAS:
+1. SEMPRE responda com conteúdo útil e positivo - nunca deixe a resposta vazia
+2. NUNCA ofereça links ou URLs
+3. APENAS mostre as opções de pagamento quando o cliente concordar em pagar
+4. Seja empático, educado e use linguagem coloquial brasileira
+5. Mantenha respostas curtas (máximo 2 frases quando muito necessário)
+6. NUNCA diga que tem dificuldades para processar mensagens
+7. Dúvidas sobre taxas, multas, prazos ou consequências do atraso: responda só com o que estiver nos TRECHOS DA BASE DE CONHECIMENTO; se não estiver lá, diga que vai confirmar a informação, nunca invente
+
+AÇÕES DISPONÍVEIS (use as ferramentas, nunca escreva o nome delas no texto):
+- show_payment_options: quando o cliente concordar em pagar ou escolher Pix, Cartão de Crédito ou Boleto
+- send_invoice: quando o cliente pedir a fatura, o valor ou o vencimento
+- offer_installments: quando o cliente pedir para parcelar ou disser que não consegue pagar tudo de uma vez
+- escalate_to_human: quando o cliente pedir um atendente humano ou o problema fugir do pagamento
+- close_conversation: quando o pagamento for confirmado ou o cliente encerrar a conversa
+- record_payment_promise: quando o cliente prometer pagar em uma data ("pago na sexta", "recebo dia 10"); calcule a data a partir da DATA DE HOJE. Se ele não disser o dia, pergunte antes de registrar
+
+FLUXO DE PAGAMENTO WHATSAPP:
+- Se receber mensagem sobre "PAYMENT_CONFIRMED", SEMPRE confirme o sucesso do pagamento, agradeça, se despeça educadamente e use close_conversation
+
+EXEMPLOS:
+- Para "quero pagar com pix": show_payment_options
+- Para "dá pra parcelar?": offer_installments
+- Para "pago na sexta": "Combinado! Fico no aguardo do pagamento na sexta. Obrigado!" + record_payment_promise
+- Pós-pagamento: "Perfeito, seu pagamento foi processado com sucesso! ✅ Muito obrigado e tenha um ótimo dia!" + close_conversation
+
+IMPORTANTE:
+- Este é um atendimento via WhatsApp
+- SEMPRE seja positivo e útil
+- Quando o pagamento for confirmado, SEMPRE celebre o sucesso e agradeça
+- NUNCA mencione dificuldades técnicas`;
+
+const INITIAL_MESSAGE_PROMPTS: { [vertical: string]: string } = {
+  telecom: `Você é um especialista em retenção de clientes de operadora de telefonia/internet.
+      Foque em manter a linha/internet ativa e evitar perda do número. Use linguagem informal e amigável.
+      Enfatize a conveniência e a necessidade de manter a conectividade.`,
+
+  utilities: `Você é um especialista em retenção de clientes de serviços essenciais (energia, água).
+      Foque na importância do serviço essencial e no risco de corte. Use tom mais sério mas empático.
+      Enfatize as consequências práticas de interrupção do serviço.`,
+
+  education: `Você é um especialista em retenção de alunos de instituições de ensino.
+      Foque no impacto acadêmico e na continuidade dos estudos. Use tom respeitoso e profissional.
+      Enfatize a importância de manter os estudos em dia e o investimento no futuro.`
+};
+
+// For providers whose vertical isn't known
+const DEFAULT_INITIAL_MESSAGE_PROMPT = `Você é um especialista em retenção de clientes de serviços por assinatura.
+      Foque em manter o serviço do cliente ativo sem interrupções. Use linguagem amigável e respeitosa.
+      Enfatize a facilidade de resolver a pendência agora.`;
+
+const CACHE_TTL_MS = 30 * 1000;
+
+export class PromptTemplateService {
+  private cache = new Map<PromptKey, { templates: PromptTemplate[]; loadedAt: number }>();
+
+  // Picks the active template for a key, preferring the most specific scope:
+  // provider, then vertical, then unscoped. Falls back to the built-in prompt
+  // when nothing is active or the database is unavailable.
+  async resolve(key: PromptKey, scope: PromptScope = {}, variables: Record<string, string | number | null | undefined> = {}): Promise<ResolvedPrompt> {
+    let template: PromptTemplate | undefined;
+
+    try {
+      const active = await this.getActiveTemplates(key);
+      template =
+        active.find(t => t.serviceProvider && t.serviceProvider === scope.serviceProvider) ||
+        active.find(t => !t.serviceProvider && t.vertical && t.vertical === scope.vertical) ||
+        active.find(t => !t.serviceProvider && !t.vertical);
+    } catch (error) {
+      console.error(`Error loading prompt templates for ${key}, using built-in prompt:`, error);
+    }
+
+    if (!template) {
+      return this.resolveBuiltin(key, scope, variables);
+    }
+
+    return {
+      id: template.id,
+      key,
+      version: template.version,
+      vertical: template.vertical,
+      serviceProvider: template.serviceProvider,
+      content: this.render(template.content, variables, template.variables),
+    };
+  }
+
+  // Replaces {variable} placeholders. Only declared variables are substituted
+  // so literal braces in a prompt are left alone.
+  render(content: string, variables: Record<string, string | number | null | undefined>, declared: string[] = Object.keys(variables)): string {
+    return declared.reduce((text, name) => {
+      const value = variables[name];
+      return value === undefined || value === null ? text : text.split(`{${name}}`).join(String(value));
+    }, content);
+  }
+
+  // The prompt shipped with the code, used when no template is active
+  resolveBuiltin(key: PromptKey, scope: PromptScope = {}, variables: Record<string, string | number | null | undefined> = {}): ResolvedPrompt {
+    return {
+      id: null,
+      key,
+      version: 0,
+      vertical: key === 'initial_message' && scope.vertical && INITIAL_MESSAGE_PROMPTS[scope.vertical] ? scope.vertical : null,
+      serviceProvider: null,
+      content: this.render(this.getBuiltinPrompt(key, scope.vertical), variables),
+    };
+  }
+
+  getBuiltinPrompt(key: PromptKey, vertical?: string | null): string {
+    if (key === 'chat_response') return CHAT_RESPONSE_PROMPT;
+    return (vertical && INITIAL_MESSAGE_PROMPTS[vertical]) || DEFAULT_INITIAL_MESSAGE_PROMPT;
+  }
+
+  async list(filter: { key?: PromptKey; activeOnly?: boolean } = {}): Promise<PromptTemplate[]> {
+    return prisma.promptTemplate.findMany({
+      where: {
+        key: filter.key,
+        isActive: filter.activeOnly ? true : undefined
+      },
+      orderBy: [{ key: 'asc' }, { version: 'desc' }]
+    });
+  }
+
+  async get(id: string): Promise<PromptTemplate | null> {
+    return prisma.promptTemplate.findUnique({ where: { id } });
+  }
+
+  // Every create is a new version of the key; versions are never rewritten
+  async create(input: PromptTemplateInput): Promise<PromptTemplate> {
+    const latest = await prisma.promptTemplate.findFirst({
+      where: { key: input.key },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    return prisma.promptTemplate.create({
+      data: {
+        key: input.key,
+        version: (latest?.version || 0) + 1,
+        content: input.content,
+        variables: input.variables || [],
+        vertical: input.vertical || null,
+        serviceProvider: input.serviceProvider || null,
+        description: input.description || null,
+        createdBy: input.createdBy || null,
+        isActive: false
+      }
+    });
+  }
+
+  // Only metadata can change in place; content changes must create a new version
+  async update(id: string, changes: { description?: string | null }): Promise<PromptTemplate> {
+    return prisma.promptTemplate.update({
+      where: { id },
+      data: { description: changes.description }
+    });
+  }
+
+  // Activates a version and deactivates any other version with the same key and scope
+  async activate(id: string): Promise<PromptTemplate> {
+    const template = await prisma.promptTemplate.findUniqueOrThrow({ where: { id } });
+
+    const [, activated] = await prisma.$transaction([
+      prisma.promptTemplate.updateMany({
+        where: {
+          key: template.key,
+          vertical: template.vertical,
+          serviceProvider: template.serviceProvider,
+          isActive: true,
+          NOT: { id }
+        },
+        data: { isActive: false }
+      }),
+      prisma.promptTemplate.update({ where: { id }, data: { isActive: true } })
+    ]);
+
+    this.cache.delete(template.key as PromptKey);
+    return activated;
+  }
+
+  async deactivate(id: string): Promise<PromptTemplate> {
+    const template = await prisma.promptTemplate.update({ where: { id }, data: { isActive: false } });
+    this.cache.delete(template.key as PromptKey);
+    return template;
+  }
+
+  // Active versions can't be deleted: messages in flight may still reference them
+  async delete(id: string): Promise<boolean> {
+    const result = await prisma.promptTemplate.deleteMany({ where: { id, isActive: false } });
+    return result.count > 0;
+  }
+
+  toVersionRef(prompt: ResolvedPrompt): PromptVersionRef {
+    return {
+      id: prompt.id,
+      key: prompt.key,
+      version: prompt.version,
+      vertical: prompt.vertical,
+      serviceProvider: prompt.serviceProvider,
+    };
+  }
+
+  private async getActiveTemplates(key: PromptKey): Promise<PromptTemplate[]> {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.templates;
+    }
+
+    const templates = await prisma.promptTemplate.findMany({
+      where: { key, isActive: true },
+      orderBy: { version: 'desc' }
+    });
+    this.cache.set(key, { templates, loadedAt: Date.now() });
+    return templates;
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
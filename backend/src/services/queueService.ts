@@ -1,12 +1,15 @@
 import Customer from '../models/customer';
 import { LangchainGeminiService } from './langchainGeminiService';
 import { TemplateService } from './templateService';
+import { ConversationOrchestrator } from './conversationOrchestrator';
 import ChatSession from '../models/chatSession';
-import ChatMessage from '../models/chatMessage';
 import { prisma } from '../lib/prisma';
-import { v4 as uuidv4 } from 'uuid';
 import { paymentTransactionService } from './paymentTransactionService';
 import { contactLogService } from './contactLogService';
+import { tracingService } from './tracingService';
+import { llmCircuitBreaker } from './resilientLlmProvider';
+import { paymentPromiseService } from './paymentPromiseService';
+import { describeDate } from './paymentPromiseParser';
 import { Intervention, Customer as PrismaCustomer, RiskFactor } from '@prisma/client';
 
 
@@ -34,8 +37,15 @@ interface CustomerData {
   riskSeverity?: string;
   lastPaymentDate: string;
   nextBillingDate: string;
+  currentPaymentStatus?: string;
 }
 
+// A broken promise the next contact follows up on
+interface PromiseFollowUp {
+  promiseId: string;
+  promisedDate: string;
+  amount: number;
+}
 
 interface QueuedCustomer {
   customer: Customer;
@@ -45,6 +55,7 @@ interface QueuedCustomer {
   lastContactedAt?: Date;
   contactAttempts: number;
   nextContactTime?: Date;
+  promiseFollowUp?: PromiseFollowUp;
 }
 
 interface QueueConfig {
@@ -62,6 +73,7 @@ export class QueueService {
   private activeSessions = new Map<string, ChatSession>();
   private processingTimer: ReturnType<typeof setInterval> | null = null;
   private aiService: LangchainGeminiService;
+  private orchestrator: ConversationOrchestrator | null = null;
   private templateService: TemplateService;
   private config: QueueConfig = {
     enabled: false,
@@ -177,7 +189,7 @@ export class QueueService {
   }
 
   // Add customer to queue or update existing entry
-  public addCustomerToQueue(customer: Customer): void {
+  public addCustomerToQueue(customer: Customer, promiseFollowUp?: PromiseFollowUp): void {
     const existingIndex = this.queue.findIndex(qc => qc.customer.id === customer.id);
     const { priority, urgencyScore } = this.calculatePriorityScore(customer);
 
@@ -186,6 +198,9 @@ export class QueueService {
       this.queue[existingIndex].priority = priority;
       this.queue[existingIndex].urgencyScore = urgencyScore;
       this.queue[existingIndex].customer = customer;
+      if (promiseFollowUp) {
+        this.queue[existingIndex].promiseFollowUp = promiseFollowUp;
+      }
     } else {
       // Add new queue entry
       const queuedCustomer: QueuedCustomer = {
@@ -193,7 +208,8 @@ export class QueueService {
         priority,
         urgencyScore,
         queuedAt: new Date(),
-        contactAttempts: 0
+        contactAttempts: 0,
+        promiseFollowUp
       };
       this.queue.push(queuedCustomer);
     }
@@ -275,12 +291,46 @@ export class QueueService {
     }
   }
 
+  // Resolves promises whose follow-up time has come and queues the customers
+  // who didn't pay. Kept promises need nothing: the payment already lifted
+  // the contact hold.
+  private async queuePromiseFollowUps(): Promise<void> {
+    try {
+      const broken = await paymentPromiseService.processDuePromises();
+
+      for (const promise of broken) {
+        const customer = await this.refreshCustomerData(promise.customerId);
+        if (!customer) continue;
+
+        const promiseFollowUp: PromiseFollowUp = {
+          promiseId: promise.id,
+          // @db.Date comes back as UTC midnight
+          promisedDate: promise.promisedDate.toISOString().slice(0, 10),
+          amount: Number(promise.amount)
+        };
+        this.addCustomerToQueue(customer, promiseFollowUp);
+        this.emitQueueEvent('promise-follow-up-queued', { customerId: promise.customerId, ...promiseFollowUp });
+      }
+    } catch (error) {
+      console.error('Error processing due payment promises:', error);
+    }
+  }
+
   // Process the queue and initiate contacts
   private async processQueue(): Promise<void> {
     if (!this.config.enabled || !this.isContactingHoursActive()) {
       return;
     }
 
+    await this.queuePromiseFollowUps();
+
+    // No new conversations while the model is unavailable; a half-open
+    // breaker lets the next contact through as the trial call
+    if (llmCircuitBreaker.isOpen()) {
+      console.log('Queue processing paused: LLM circuit breaker is open');
+      return;
+    }
+
     const currentActiveSessions = this.activeSessions.size;
     const availableSlots = this.config.maxConcurrentSessions - currentActiveSessions;
 
@@ -301,7 +351,15 @@ export class QueueService {
       }
 
       try {
-        await this.initiateContact(queuedCustomer);
+        await tracingService.withSpan({
+          name: 'queue_contact',
+          inputs: {
+            customerId: queuedCustomer.customer.id,
+            priority: queuedCustomer.priority,
+            contactAttempts: queuedCustomer.contactAttempts,
+          },
+          metadata: { availableSlots: availableSlots - contactsInitiated, queueLength: this.queue.length },
+        }, () => this.initiateContact(queuedCustomer));
         contactsInitiated++;
       } catch (error) {
         console.error(`Failed to initiate contact with customer ${queuedCustomer.customer.id}:`, error);
@@ -313,179 +371,115 @@ export class QueueService {
     }
   }
 
-  // Initiate contact with a customer
+  // Initiate contact with a customer. The session itself is opened by the
+  // conversation orchestrator, like the ones started from the chat API.
   private async initiateContact(queuedCustomer: QueuedCustomer): Promise<void> {
     const customer = queuedCustomer.customer;
-    const sessionId = uuidv4();
 
     console.log(`=== Initiating Contact Debug ===`);
     console.log(`Customer: ${customer.name} (${customer.id})`);
     console.log(`AI Service: ${this.aiService.constructor.name}`);
 
+    if (!this.orchestrator) {
+      console.warn(`No conversation orchestrator set, cannot contact customer ${customer.id}`);
+      return;
+    }
+
     // Determine payment issue based on risk category
     let paymentIssue = 'payment-failure';
     if (customer.riskCategory === 'multiple-failures') {
       paymentIssue = 'multiple-payment-failures';
     }
+    const { promiseFollowUp } = queuedCustomer;
+    if (promiseFollowUp) {
+      paymentIssue = 'promise-follow-up';
+    }
 
     try {
-      // Create chat session in database
-      const dbChatSession = await prisma.chatSession.create({
-        data: {
-          id: sessionId,
-          customerId: customer.id!,
-          customerName: customer.name,
-          status: 'ACTIVE',
-          paymentIssue
-        }
-      });
-
-      // Create chat session model for compatibility
-      const chatSession = new ChatSession({
-        id: sessionId,
-        customerId: customer.id!,
-        customerName: customer.name,
-        status: 'active',
-        startTime: dbChatSession.startTime,
-        paymentIssue
-      });
-
-      // Store customer data for AI access
-      (chatSession as any).customerData = customer;
-
-      // Log the contact attempt
-      await contactLogService.logContact({
-        customerId: customer.id!,
-        contactMethod: 'AI_CHAT',
-        notes: `Autonomous AI contact initiated for ${paymentIssue}`,
-        agentId: 'ai_queue_service',
-        sessionId: sessionId
-      });
-
-      try {
-        // Generate initial AI message using the AI service
-        console.log('Generating initial message...');
-
-        // Fetch fresh customer data from database before AI interaction
+      // Fetch fresh customer data from database before AI interaction
+      const freshCustomer = await tracingService.withSpan({
+        name: 'queue_decision',
+        inputs: { customerId: customer.id, paymentIssue },
+      }, async decisionSpan => {
         const freshCustomer = await this.refreshCustomerData(customer.id!);
-        const customerData = freshCustomer ? this.convertCustomerToCustomerData(freshCustomer) : this.convertCustomerToCustomerData(customer);
-
-        // Check if customer still needs intervention after fresh data fetch
-        if (freshCustomer && !freshCustomer.requiresIntervention()) {
-          console.log(`Customer ${customer.id} no longer requires intervention after data refresh. Skipping AI contact.`);
-
-          // Remove from queue since problem is resolved
-          this.removeCustomerFromQueue(customer.id!);
-
-          // Create intervention record indicating no action needed
-          await prisma.intervention.create({
-            data: {
-              customerId: customer.id!,
-              outcome: 'SUCCESS',
-              notes: 'Customer payment issue resolved before AI contact. No intervention needed.',
-              agentId: 'ai_queue_service_auto_resolved'
-            }
-          });
-
-          return; // Exit early
-        }
-
-        const initialMessage = await this.aiService.generateInitialMessage(chatSession, customerData);
-        console.log('Initial message generated:', initialMessage.content);
-
-        // Store initial message in database
-        await prisma.chatMessage.create({
-          data: {
-            chatSessionId: sessionId,
-            sender: 'AI',
-            content: initialMessage.content,
-            messageType: 'TEXT'
-          }
+        decisionSpan.setOutputs({
+          decision: freshCustomer && !freshCustomer.requiresIntervention() ? 'skip_resolved' : 'contact',
         });
+        return freshCustomer;
+      });
 
-        // Store initial message in session for compatibility
-        if (!chatSession.messages) {
-          chatSession.messages = [];
-        }
-        chatSession.messages.push(initialMessage);
-
-        // Add to active sessions
-        this.activeSessions.set(sessionId, chatSession);
+      // Check if customer still needs intervention after fresh data fetch
+      if (freshCustomer && !freshCustomer.requiresIntervention()) {
+        console.log(`Customer ${customer.id} no longer requires intervention after data refresh. Skipping AI contact.`);
 
-        // Update queue entry
-        queuedCustomer.lastContactedAt = new Date();
-        queuedCustomer.contactAttempts++;
+        // Remove from queue since problem is resolved
+        this.removeCustomerFromQueue(customer.id!);
 
-        // Create intervention record
+        // Create intervention record indicating no action needed
         await prisma.intervention.create({
           data: {
             customerId: customer.id!,
-            outcome: 'SCHEDULED',
-            notes: `Autonomous contact initiated via queue service. Initial message: ${initialMessage.content.substring(0, 100)}...`,
-            agentId: 'ai_queue_service'
+            outcome: 'SUCCESS',
+            notes: 'Customer payment issue resolved before AI contact. No intervention needed.',
+            agentId: 'ai_queue_service_auto_resolved'
           }
         });
 
-        console.log(`Autonomous contact initiated: ${customer.name} (${customer.id}) - Priority: ${queuedCustomer.priority} - Provider: ${customer.serviceProvider}`);
+        return; // Exit early
+      }
 
-        // Emit event for real-time updates (will be connected to Socket.io)
-        this.emitQueueEvent('contact-initiated', {
-          sessionId,
-          customer,
-          queuedCustomer,
-          initialMessage
-        });
+      const situation = promiseFollowUp
+        ? `Prometeu pagar R$ ${promiseFollowUp.amount.toFixed(2)} até ${describeDate(promiseFollowUp.promisedDate)} e o pagamento não foi identificado`
+        : null;
+      const started = await this.orchestrator.startSession(customer.id!, customer.name, paymentIssue, situation);
+      if (!started) {
+        console.warn(`Customer ${customer.id} not found, removing from queue`);
+        this.removeCustomerFromQueue(customer.id!);
+        return;
+      }
 
-      } catch (error) {
-        console.error(`Error generating initial message for customer ${customer.id}:`, error);
+      const { sessionId, chatSession, initialMessage } = started;
+      console.log('Initial message generated:', initialMessage.content);
 
-        // Create fallback message if AI fails
-        const fallbackContent = `Olá ${customer.name}! Aqui é da ${customer.serviceProvider}. Tivemos um problema com seu pagamento. Vamos resolver juntos?`;
+      // Log the contact attempt
+      await contactLogService.logContact({
+        customerId: customer.id!,
+        contactMethod: 'AI_CHAT',
+        notes: `Autonomous AI contact initiated for ${paymentIssue}`,
+        agentId: 'ai_queue_service',
+        sessionId
+      });
 
-        // Store fallback message in database
-        await prisma.chatMessage.create({
-          data: {
-            chatSessionId: sessionId,
-            sender: 'AI',
-            content: fallbackContent,
-            messageType: 'TEXT'
-          }
-        });
+      // Store customer data for AI access
+      (chatSession as any).customerData = customer;
 
-        const fallbackMessage = new ChatMessage({
-          chatSessionId: sessionId,
-          sender: 'ai',
-          content: fallbackContent,
-          timestamp: new Date(),
-          messageType: 'greeting',
-        });
+      // Add to active sessions
+      this.activeSessions.set(sessionId, chatSession);
 
-        if (!chatSession.messages) {
-          chatSession.messages = [];
-        }
-        chatSession.messages.push(fallbackMessage);
-        this.activeSessions.set(sessionId, chatSession);
+      // Update queue entry
+      queuedCustomer.lastContactedAt = new Date();
+      queuedCustomer.contactAttempts++;
+      queuedCustomer.promiseFollowUp = undefined;
 
-        queuedCustomer.lastContactedAt = new Date();
-        queuedCustomer.contactAttempts++;
+      // Create intervention record
+      await prisma.intervention.create({
+        data: {
+          customerId: customer.id!,
+          outcome: 'SCHEDULED',
+          notes: `Autonomous contact initiated via queue service. Initial message: ${initialMessage.content.substring(0, 100)}...`,
+          agentId: 'ai_queue_service'
+        }
+      });
 
-        // Create intervention record for fallback
-        await prisma.intervention.create({
-          data: {
-            customerId: customer.id!,
-            outcome: 'SCHEDULED',
-            notes: `Autonomous contact initiated with fallback message due to AI error: ${error}`,
-            agentId: 'ai_queue_service_fallback'
-          }
-        });
+      console.log(`Autonomous contact initiated: ${customer.name} (${customer.id}) - Priority: ${queuedCustomer.priority} - Provider: ${customer.serviceProvider}`);
 
-        this.emitQueueEvent('contact-initiated', {
-          sessionId,
-          customer,
-          queuedCustomer,
-          initialMessage: fallbackMessage
-        });
-      }
+      // Emit event for real-time updates (will be connected to Socket.io)
+      this.emitQueueEvent('contact-initiated', {
+        sessionId,
+        customer,
+        queuedCustomer,
+        initialMessage
+      });
     } catch (dbError) {
       console.error(`Database error during contact initiation for customer ${customer.id}:`, dbError);
       throw dbError;
@@ -606,7 +600,8 @@ export class QueueService {
         lastContactedAt: qc.lastContactedAt,
         contactAttempts: qc.contactAttempts,
         riskCategory: qc.customer.riskCategory,
-        accountValue: qc.customer.accountValue
+        accountValue: qc.customer.accountValue,
+        promiseFollowUp: qc.promiseFollowUp
       })),
       activeSessions: Array.from(this.activeSessions.values()).map(session => ({
         sessionId: session.id,
@@ -620,7 +615,8 @@ export class QueueService {
         queueLength: this.queue.length,
         activeSessionsCount: this.activeSessions.size,
         availableSlots: this.config.maxConcurrentSessions - this.activeSessions.size,
-        isProcessingActive: this.config.enabled && this.isContactingHoursActive()
+        isProcessingActive: this.config.enabled && this.isContactingHoursActive() && !llmCircuitBreaker.isOpen(),
+        pausedByCircuitBreaker: llmCircuitBreaker.isOpen()
       }
     };
   }
@@ -630,12 +626,23 @@ export class QueueService {
     this.activeSessions.delete(sessionId);
   }
 
+  // Count a session the AI handles again, e.g. one a human agent handed back
+  public addActiveSession(chatSession: ChatSession): void {
+    this.activeSessions.set(chatSession.id, chatSession);
+  }
+
   // Event emitter placeholder (will be connected to Socket.io)
   private emitQueueEvent(event: string, data: any): void {
     // This will be connected to Socket.io in the main server
     console.log(`Queue event: ${event}`, data);
   }
 
+  // Set the orchestrator that opens queue-started sessions (to be called
+  // from server, which builds it with this queue)
+  public setConversationOrchestrator(orchestrator: ConversationOrchestrator): void {
+    this.orchestrator = orchestrator;
+  }
+
   // Set event emitter (to be called from server)
   public setEventEmitter(emitter: (event: string, data: any) => void): void {
     this.emitQueueEvent = emitter;
@@ -0,0 +1,86 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export type ReceiptOcrType = 'none' | 'tesseract';
+
+export interface ReceiptOcrConfig {
+  provider: ReceiptOcrType;
+  // Tesseract language codes, e.g. "por" or "por+eng"
+  language: string;
+  timeoutMs: number;
+  tesseractBinary: string;
+}
+
+// Reads the text of a receipt photo or screenshot. PDFs don't need it: their
+// text is extracted directly.
+export interface ReceiptOcr {
+  readonly name: ReceiptOcrType;
+  recognize(image: Buffer): Promise<string>;
+}
+
+export function getReceiptOcrConfig(env: typeof process.env = process.env): ReceiptOcrConfig {
+  const requested = (env.RECEIPT_OCR || 'none').toLowerCase();
+  let provider: ReceiptOcrType = 'none';
+  if (requested === 'tesseract' || requested === 'none') {
+    provider = requested;
+  } else {
+    console.warn(`Unknown RECEIPT_OCR "${requested}", image receipts will not be read`);
+  }
+
+  return {
+    provider,
+    language: env.RECEIPT_OCR_LANGUAGE || 'por',
+    timeoutMs: Number(env.RECEIPT_OCR_TIMEOUT_MS) || 30000,
+    tesseractBinary: env.TESSERACT_BIN || 'tesseract',
+  };
+}
+
+// No OCR: image receipts are stored with nothing extracted and the supervisor
+// reads them
+export class NoReceiptOcr implements ReceiptOcr {
+  readonly name = 'none' as const;
+
+  async recognize(): Promise<string> {
+    return '';
+  }
+}
+
+// The tesseract CLI on the server's CPU
+export class TesseractReceiptOcr implements ReceiptOcr {
+  readonly name = 'tesseract' as const;
+  private config: ReceiptOcrConfig;
+
+  constructor(config: ReceiptOcrConfig) {
+    this.config = config;
+  }
+
+  async recognize(image: Buffer): Promise<string> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ocr-'));
+    const inputPath = path.join(workDir, 'receipt');
+
+    try {
+      await fs.writeFile(inputPath, image);
+      const { stdout } = await execFileAsync(this.config.tesseractBinary, [inputPath, 'stdout', '-l', this.config.language], {
+        timeout: this.config.timeoutMs,
+        maxBuffer: 1024 * 1024,
+      });
+      return stdout;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+export function createReceiptOcr(config: ReceiptOcrConfig = getReceiptOcrConfig()): ReceiptOcr {
+  switch (config.provider) {
+    case 'tesseract':
+      return new TesseractReceiptOcr(config);
+    case 'none':
+      return new NoReceiptOcr();
+  }
+}
@@ -0,0 +1,150 @@
+import { inflateSync } from 'zlib';
+import { normalizeText } from './intentClassifier';
+
+// What could be read from a payment receipt; any field may be missing
+export interface ExtractedReceipt {
+  // In reais
+  amount?: number;
+  paidAt?: Date;
+  // Pix end-to-end ID: "E", the payer bank's ISPB, yyyyMMddHHmm and 11 characters
+  pixEndToEndId?: string;
+  // Boleto digitable line, digits only (47 for bank slips, 48 for utility bills)
+  boletoLine?: string;
+}
+
+const AMOUNT_PATTERN = /R\$\s*(\d{1,3}(?:\.\d{3})+,\d{2}|\d+,\d{2})/i;
+const DATE_PATTERN = /\b(\d{2})\/(\d{2})\/(\d{4})(?:\D{1,5}(\d{2}):(\d{2})(?::(\d{2}))?)?/;
+const PIX_E2E_PATTERN = /\bE(\d{8})(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})[A-Za-z0-9]{11}\b/;
+const BANK_SLIP_PATTERN = /\b(\d{5})\.?(\d{5})\s*(\d{5})\.?(\d{6})\s*(\d{5})\.?(\d{6})\s*(\d)\s*(\d{14})\b/;
+const UTILITY_BILL_PATTERN = /\b(8\d{10})[-\s]?(\d)\s*(\d{11})[-\s]?(\d)\s*(\d{11})[-\s]?(\d)\s*(\d{11})[-\s]?(\d)\b/;
+
+// Matched against normalized text: lines that label the paid amount or the payment date
+const AMOUNT_LABEL_PATTERN = /\b(valor|total|pago|quantia)\b/;
+const DATE_LABEL_PATTERN = /\b(data|pago|pagamento|realizad[oa]|efetuad[oa]|transferencia)\b/;
+
+const parseAmount = (value: string) => Number(value.replace(/\./g, '').replace(',', '.'));
+
+// A labelled line wins over the first match anywhere, so "Valor pago" beats a
+// balance printed above it
+function findLabelled(lines: string[], pattern: RegExp, label: RegExp): RegExpMatchArray | null {
+  const labelled = lines.find(line => pattern.test(line) && label.test(normalizeText(line)));
+  return (labelled || lines.find(line => pattern.test(line)))?.match(pattern) || null;
+}
+
+function toDate(year: number, month: number, day: number, hour = 12, minute = 0, second = 0): Date | undefined {
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+}
+
+// Reads the amount, payment date, Pix end-to-end ID and boleto line from the
+// text of a receipt (bank app screenshots and PDF comprovantes)
+export function parseReceiptText(text: string): ExtractedReceipt {
+  const receipt: ExtractedReceipt = {};
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const flat = lines.join(' ');
+
+  const amount = findLabelled(lines, AMOUNT_PATTERN, AMOUNT_LABEL_PATTERN);
+  if (amount?.[1]) receipt.amount = parseAmount(amount[1]);
+
+  const date = findLabelled(lines, DATE_PATTERN, DATE_LABEL_PATTERN);
+  if (date) {
+    const [, day, month, year, hour, minute, second] = date.map(part => (part === undefined ? undefined : Number(part)));
+    receipt.paidAt = toDate(year!, month!, day!, hour, minute, second);
+  }
+
+  const e2e = flat.match(PIX_E2E_PATTERN);
+  if (e2e) {
+    receipt.pixEndToEndId = e2e[0];
+    // The ID carries the UTC time the transfer was made
+    if (!receipt.paidAt) {
+      const [, , year, month, day, hour, minute] = e2e.map(Number);
+      const paidAt = new Date(Date.UTC(year!, month! - 1, day!, hour, minute));
+      if (!isNaN(paidAt.getTime())) receipt.paidAt = paidAt;
+    }
+  }
+
+  const bankSlip = flat.match(BANK_SLIP_PATTERN);
+  const utilityBill = bankSlip ? null : flat.match(UTILITY_BILL_PATTERN);
+  const boleto = bankSlip || utilityBill;
+  if (boleto) {
+    receipt.boletoLine = boleto.slice(1).join('');
+    // A bank slip line ends with the due factor and the amount in cents
+    if (bankSlip && receipt.amount === undefined) {
+      const cents = Number(receipt.boletoLine.slice(-10));
+      if (cents > 0) receipt.amount = cents / 100;
+    }
+  }
+
+  return receipt;
+}
+
+// Decodes the escapes of a PDF literal string: \n, \(, \\, \ddd octal
+function decodePdfString(value: string): string {
+  return value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+    const named: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+    return named[escape] ?? String.fromCharCode(parseInt(escape, 8));
+  });
+}
+
+// Text shown by one content stream: Tj/TJ strings, with a new line at each
+// text positioning operator. Kerning gaps wide enough to be a space become one.
+function textFromContentStream(content: string): string {
+  const lines: string[] = [];
+  let current = '';
+  const operators = /\[((?:[^\]\\]|\\.)*)\]\s*TJ|\(((?:[^)\\]|\\.)*)\)\s*(?:Tj|'|")|\b(T\*|Td|TD|ET)\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = operators.exec(content))) {
+    if (match[1] !== undefined) {
+      const pieces = /\(((?:[^)\\]|\\.)*)\)|(-?\d+(?:\.\d+)?)/g;
+      let piece: RegExpExecArray | null;
+      while ((piece = pieces.exec(match[1]))) {
+        if (piece[1] !== undefined) current += decodePdfString(piece[1]);
+        else if (Number(piece[2]) < -200) current += ' ';
+      }
+    } else if (match[2] !== undefined) {
+      current += decodePdfString(match[2]);
+    } else if (current.trim()) {
+      lines.push(current.trim());
+      current = '';
+    }
+  }
+  if (current.trim()) lines.push(current.trim());
+
+  return lines.join('\n');
+}
+
+// Text of a PDF with plain (non-CID) fonts, the way bank apps generate
+// comprovantes. Scanned PDFs have no text and yield an empty string.
+export function extractPdfText(pdf: Buffer): string {
+  const raw = pdf.toString('latin1');
+  const texts: string[] = [];
+  const streams = /stream\r?\n/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = streams.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    streams.lastIndex = end + 'endstream'.length;
+
+    const dictionary = raw.slice(raw.lastIndexOf('obj', match.index), match.index);
+    if (/\/Subtype\s*\/Image/.test(dictionary)) continue;
+
+    let data = pdf.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        data = inflateSync(data);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const text = textFromContentStream(data.toString('latin1'));
+    if (text) texts.push(text);
+  }
+
+  return texts.join('\n');
+}
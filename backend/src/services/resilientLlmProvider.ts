@@ -0,0 +1,216 @@
+import { BaseMessage } from '@langchain/core/messages';
+import { LlmInvokeOptions, LlmProvider, LlmResponse } from './llmProvider';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  // Consecutive failed calls that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial call is let through
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  retryAt: Date | null;
+  lastError: string | null;
+}
+
+export interface RetryConfig {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export class LlmTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms`);
+    this.name = 'LlmTimeoutError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(retryAt: Date | null) {
+    super(`LLM circuit breaker is open${retryAt ? ` until ${retryAt.toISOString()}` : ''}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Shared by every model call in the process: after too many consecutive
+// failures calls are rejected without reaching the provider, then a single
+// trial call decides whether to close the circuit again.
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: Date | null = null;
+  private lastError: string | null = null;
+  private trialInFlight = false;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.config = config;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.openedAt && Date.now() - this.openedAt.getTime() >= this.config.resetTimeoutMs) {
+      this.state = 'half_open';
+    }
+    return this.state;
+  }
+
+  isOpen(): boolean {
+    return this.getState() === 'open';
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const state = this.getState();
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      retryAt: state === 'open' && this.openedAt ? new Date(this.openedAt.getTime() + this.config.resetTimeoutMs) : null,
+      lastError: this.lastError,
+    };
+  }
+
+  // Whether a call may go through now; in half-open only one trial at a time
+  tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log('LLM circuit breaker closed');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`LLM circuit breaker opened after ${this.consecutiveFailures} consecutive failures: ${this.lastError}`);
+      }
+      this.state = 'open';
+      this.openedAt = new Date();
+    }
+  }
+}
+
+export function getRetryConfig(env: typeof process.env = process.env): RetryConfig {
+  return {
+    timeoutMs: Number(env.LLM_TIMEOUT_MS) || 20000,
+    maxRetries: env.LLM_MAX_RETRIES !== undefined ? Number(env.LLM_MAX_RETRIES) : 2,
+    baseDelayMs: Number(env.LLM_RETRY_BASE_DELAY_MS) || 500,
+    maxDelayMs: Number(env.LLM_RETRY_MAX_DELAY_MS) || 5000,
+  };
+}
+
+export function getCircuitBreakerConfig(env: typeof process.env = process.env): CircuitBreakerConfig {
+  return {
+    failureThreshold: Number(env.LLM_BREAKER_FAILURE_THRESHOLD) || 5,
+    resetTimeoutMs: Number(env.LLM_BREAKER_RESET_MS) || 30000,
+  };
+}
+
+export const llmCircuitBreaker = new CircuitBreaker(getCircuitBreakerConfig());
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Client errors (bad request, auth) won't succeed on retry; timeouts, rate
+// limits and server errors might
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LlmTimeoutError) return true;
+  const status = (error as { status?: number; response?: { status?: number } })?.status
+    ?? (error as { response?: { status?: number } })?.response?.status
+    ?? Number((error instanceof Error ? error.message : '').match(/\[(\d{3})[^\]]*\]/)?.[1]);
+  if (!status) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Wraps a provider with a per-attempt timeout, retries with full jitter and
+// the shared circuit breaker. A streamed call that already sent tokens is not
+// retried, since the customer has seen part of the reply.
+export class ResilientLlmProvider implements LlmProvider {
+  private inner: LlmProvider;
+  private breaker: CircuitBreaker;
+  private config: RetryConfig;
+
+  constructor(inner: LlmProvider, breaker: CircuitBreaker = llmCircuitBreaker, config: RetryConfig = getRetryConfig()) {
+    this.inner = inner;
+    this.breaker = breaker;
+    this.config = config;
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  async invoke(messages: BaseMessage[], options: LlmInvokeOptions = {}): Promise<LlmResponse> {
+    if (!this.breaker.tryAcquire()) {
+      throw new CircuitOpenError(this.breaker.getStatus().retryAt);
+    }
+
+    let streamed = false;
+    const onToken = options.onToken;
+    const attemptOptions: LlmInvokeOptions = onToken
+      ? { ...options, onToken: (delta) => { streamed = true; onToken(delta); } }
+      : options;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.invokeWithTimeout(messages, attemptOptions);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (streamed || attempt >= this.config.maxRetries || !isRetryable(error)) {
+          this.breaker.recordFailure(error);
+          throw error;
+        }
+
+        const delay = Math.random() * Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** attempt);
+        console.warn(`LLM call failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms:`, error instanceof Error ? error.message : error);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async invokeWithTimeout(messages: BaseMessage[], options: LlmInvokeOptions): Promise<LlmResponse> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LlmTimeoutError(this.config.timeoutMs));
+      }, this.config.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        this.inner.invoke(messages, { ...options, signal: controller.signal }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { BaseMessage, SystemMessage } from '@langchain/core/messages';
+import { LlmInvokeOptions, LlmProvider, LlmResponse, LlmToolCall, messageContentToText } from './llmProvider';
+import { describeDate, extractPaymentPromise } from './paymentPromiseParser';
+
+// Deterministic, offline provider used in dev, demos and CI. It follows the same
+// conversational protocol the real model is prompted with, so the rest of the
+// stack (queue, chat, analytics) behaves the same without network access.
+export class ScriptedLlmProvider implements LlmProvider {
+  readonly name = 'scripted' as const;
+  readonly model = 'scripted-pt-br-v1';
+
+  async invoke(messages: BaseMessage[], options: LlmInvokeOptions = {}): Promise<LlmResponse> {
+    const lastMessage = messages[messages.length - 1];
+    const input = lastMessage ? messageContentToText(lastMessage.content) : '';
+    const availableTools = new Set((options.tools || []).map(tool => tool.name));
+    const systemPrompt = messages
+      .filter(message => message instanceof SystemMessage)
+      .map(message => messageContentToText(message.content))
+      .join('\n');
+
+    const response = this.reply(
+      input,
+      this.extractField(systemPrompt, 'INTENÇÃO DETECTADA NA ÚLTIMA MENSAGEM'),
+      this.extractPassage(systemPrompt)
+    );
+    const toolCalls = response.toolCalls.filter(call => availableTools.has(call.name));
+
+    if (options.onToken) {
+      // Emit word by word so streaming consumers see the same shape as a real model
+      for (const delta of response.content.match(/\S+\s*/g) || []) {
+        options.onToken(delta);
+      }
+    }
+
+    return { content: response.content, toolCalls };
+  }
+
+  private reply(input: string, detectedIntent: string | null, passage: string | null): LlmResponse {
+    if (input.includes('Inicie uma conversa')) {
+      return { content: this.greeting(input), toolCalls: [] };
+    }
+
+    if (input.includes('PAYMENT_CONFIRMED')) {
+      return {
+        content: 'Perfeito, seu pagamento foi processado com sucesso! ✅ Muito obrigado e tenha um ótimo dia!',
+        toolCalls: [{ name: 'close_conversation', args: { reason: 'payment_completed' } }],
+      };
+    }
+
+    const text = input.toLowerCase();
+
+    if (['atendente', 'humano', 'pessoa de verdade'].some(word => text.includes(word))) {
+      return this.toolCall({ name: 'escalate_to_human', args: { reason: 'Cliente pediu atendimento humano' } });
+    }
+
+    // Like the real model, follow the classifier for messages where pushing
+    // payment would be wrong
+    const intent = detectedIntent?.split(' ')[0];
+    if (intent === 'already_paid') {
+      return { content: 'Obrigado por avisar, vou conferir o seu pagamento por aqui. Pode me enviar o comprovante?', toolCalls: [] };
+    }
+    if (intent === 'dispute') {
+      return { content: 'Entendo sua contestação. Vou registrar para revisarmos o valor com você.', toolCalls: [] };
+    }
+    if (intent === 'wrong_person') {
+      return {
+        content: 'Desculpe o incômodo! Vamos corrigir nosso cadastro.',
+        toolCalls: [{ name: 'close_conversation', args: { reason: 'other' } }],
+      };
+    }
+    if (intent === 'hardship') {
+      return {
+        content: 'Sinto muito pela situação. Vamos ver juntos uma forma de regularizar que caiba no seu orçamento.',
+        toolCalls: [{ name: 'offer_installments', args: { maxInstallments: 12 } }],
+      };
+    }
+
+    if (intent === 'promise_to_pay') {
+      const promise = extractPaymentPromise(input);
+      if (!promise) {
+        return { content: 'Combinado! Para qual dia posso registrar o seu pagamento?', toolCalls: [] };
+      }
+      return {
+        content: `Combinado, fico no aguardo do seu pagamento até ${describeDate(promise.promisedDate)}. Obrigado e até breve!`,
+        toolCalls: [{ name: 'record_payment_promise', args: { ...promise } }],
+      };
+    }
+
+    if (['parcela', 'parcelar', 'parcelado'].some(word => text.includes(word))) {
+      return this.toolCall({ name: 'offer_installments', args: { maxInstallments: 12 } });
+    }
+
+    // Questions about the provider's rules are answered from the knowledge base
+    if (passage && (intent === 'off_topic' || text.includes('?'))) {
+      return { content: `Pelo que consta na política da sua operadora: ${passage}`, toolCalls: [] };
+    }
+
+    if (['fatura', 'valor', 'quanto'].some(word => text.includes(word))) {
+      return this.toolCall({ name: 'send_invoice', args: {} });
+    }
+
+    const paymentMethods = ['pix', 'cartão', 'cartao', 'boleto', 'crédito', 'credito'];
+    const agreement = ['quero pagar', 'vou pagar', 'pode ser', 'vamos resolver', 'sim', 'claro', 'ok'];
+
+    if (paymentMethods.some(word => text.includes(word)) || agreement.some(word => this.hasWord(text, word))) {
+      return this.toolCall({ name: 'show_payment_options', args: {} });
+    }
+
+    return {
+      content: 'Entendi, posso te ajudar a regularizar isso agora mesmo. Prefere pagar com Pix, cartão ou boleto?',
+      toolCalls: [],
+    };
+  }
+
+  private toolCall(call: LlmToolCall): LlmResponse {
+    return { content: '', toolCalls: [call] };
+  }
+
+  private greeting(prompt: string): string {
+    const name = this.extractField(prompt, 'Cliente');
+    const provider = this.extractField(prompt, 'Provedor');
+
+    let message = name ? `Oi ${name}, tudo bem?` : 'Oi, tudo bem?';
+    if (provider) message += ` Aqui é da ${provider}.`;
+    message += ' Notamos um problema no pagamento da sua última fatura e queremos te ajudar a resolver rapidinho.';
+
+    return message;
+  }
+
+  private extractField(prompt: string, label: string): string | null {
+    const match = prompt.match(new RegExp(`${label}: (.+)`));
+    return match?.[1]?.trim() || null;
+  }
+
+  // First sentence of the best knowledge base passage, if any was retrieved
+  private extractPassage(prompt: string): string | null {
+    const text = prompt.match(/\[DOC-1\] [^:\n]+: (.+)/)?.[1];
+    const sentence = text?.match(/^.+?[.!?](?=\s|$)/)?.[0] || text;
+    return sentence?.trim().slice(0, 240) || null;
+  }
+
+  private hasWord(text: string, word: string): boolean {
+    return new RegExp(`(^|[^\\p{L}])${word}([^\\p{L}]|$)`, 'u').test(text);
+  }
+}
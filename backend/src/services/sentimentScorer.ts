@@ -0,0 +1,98 @@
+import { SentimentScore } from '../models/chatMessage';
+import { normalizeText } from './intentClassifier';
+
+export type SentimentScorerType = SentimentScore['scorer'];
+
+// Scores a customer message for sentiment and frustration
+export interface SentimentScorer {
+  readonly name: SentimentScorerType;
+  score(text: string): Promise<SentimentScore>;
+}
+
+// Word valences from -3 to 3, keyed by normalized (lowercase, accent-free) form
+const LEXICON: Record<string, number> = {
+  obrigado: 2, obrigada: 2, valeu: 2, agradeco: 2, otimo: 2, otima: 2, perfeito: 2, excelente: 3,
+  adorei: 3, gostei: 2, feliz: 2, bom: 1, boa: 1, legal: 1, tranquilo: 1, beleza: 1, show: 1,
+  ajudou: 2, resolvido: 2, resolveu: 2, facil: 1, rapido: 1, certo: 1, combinado: 1, top: 2,
+
+  ruim: -2, pessimo: -3, pessima: -3, horrivel: -3, absurdo: -3, absurda: -3, ridiculo: -3,
+  vergonha: -3, raiva: -3, odeio: -3, cansado: -2, cansada: -2, chateado: -2, chateada: -2,
+  irritado: -3, irritada: -3, triste: -2, preocupado: -1, preocupada: -1, problema: -1,
+  errado: -2, errada: -2, injusto: -2, abusivo: -3, abusiva: -3, lixo: -3, palhacada: -3,
+  descaso: -3, demora: -2, enganado: -3, enganada: -3, roubo: -3, ladrao: -3, ladroes: -3,
+  golpe: -3, merda: -3, porra: -3, droga: -2, saco: -2, incompetente: -3, incompetentes: -3,
+  desrespeito: -3, reclamacao: -2, reclamar: -2, procon: -3, processar: -3, cancelar: -2,
+  insuportavel: -3, chato: -2, chata: -2, inaceitavel: -3, nojo: -3,
+};
+
+const NEGATORS = new Set(['nao', 'nunca', 'jamais', 'nem', 'sem']);
+const INTENSIFIERS = new Set(['muito', 'muita', 'super', 'extremamente', 'totalmente', 'mega', 'demais', 'bem', 'tao']);
+
+// Phrases that signal the customer is fed up rather than just unhappy
+const FRUSTRATION_PATTERNS = [
+  /\b(de novo|outra vez|toda hora|todo dia|todo mes)\b/,
+  /\b(ja (falei|disse|expliquei|avisei|paguei)|quantas vezes)\b/,
+  /\bninguem (resolve|responde|ajuda)/,
+  /\b(cansad[oa]|cheio|cheia|farto|farta) d[eo]/,
+  /\b(que|isso e (um|uma)?) ?(absurdo|palhacada|vergonha|descaso|piada)\b/,
+  /\b(procon|reclame aqui|advogado|processar|justica)\b/,
+  /\b(para|parem) de (me )?(encher|perturbar|incomodar)/,
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Offline pt-BR scorer: a valence lexicon with negation and intensifiers for
+// sentiment, plus fed-up phrases, shouting and punctuation for frustration.
+// Cheap and deterministic, so every customer message can be scored.
+export class LexiconSentimentScorer implements SentimentScorer {
+  readonly name = 'lexicon' as const;
+
+  async score(text: string): Promise<SentimentScore> {
+    const normalized = normalizeText(text);
+    const words = normalized.match(/[a-z]+/g) || [];
+
+    let total = 0;
+    let negativeHits = 0;
+    words.forEach((word, index) => {
+      let valence = LEXICON[word];
+      if (valence === undefined) return;
+
+      const previous = words.slice(Math.max(0, index - 2), index);
+      if (previous.some(w => INTENSIFIERS.has(w))) valence *= 1.5;
+      // "não é ruim" is mildly positive, "não gostei" is negative
+      if (previous.some(w => NEGATORS.has(w))) valence *= -0.5;
+
+      if (valence < 0) negativeHits++;
+      total += valence;
+    });
+
+    // Same normalization VADER uses: maps an unbounded sum into (-1, 1)
+    const sentiment = total / Math.sqrt(total * total + 15);
+
+    const phraseHits = FRUSTRATION_PATTERNS.filter(pattern => pattern.test(normalized)).length;
+    const longWords = text.match(/\p{L}{3,}/gu) || [];
+    const shouting = longWords.length >= 2 && longWords.filter(w => w === w.toUpperCase()).length / longWords.length > 0.6;
+    const emphaticPunctuation = /[!?]{2,}/.test(text);
+
+    const frustration = clamp(
+      0.3 * phraseHits +
+      0.4 * Math.max(0, -sentiment) +
+      0.1 * Math.min(negativeHits, 3) +
+      (shouting ? 0.2 : 0) +
+      (emphaticPunctuation ? 0.1 : 0),
+      0,
+      1
+    );
+
+    return { sentiment: round(sentiment), frustration: round(frustration), scorer: this.name };
+  }
+}
+
+export function createSentimentScorer(env: typeof process.env = process.env): SentimentScorer {
+  const type = (env.SENTIMENT_SCORER || 'lexicon').toLowerCase();
+  if (type !== 'lexicon') {
+    console.warn(`Unknown SENTIMENT_SCORER "${type}", using lexicon scorer`);
+  }
+  return new LexiconSentimentScorer();
+}
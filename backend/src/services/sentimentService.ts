@@ -0,0 +1,110 @@
+import { prisma } from '../lib/prisma';
+import { ChatMessageMetadata, SentimentScore } from '../models/chatMessage';
+import { createSentimentScorer, SentimentScorer } from './sentimentScorer';
+
+export interface SessionSentiment {
+  sentimentScore: number;
+  frustrationScore: number;
+  scoredMessages: number;
+}
+
+// Sent to supervisors (queue-monitoring room) when a session gets too frustrated
+export interface FrustrationAlert {
+  type: 'frustration';
+  sessionId: string;
+  customerId: string;
+  customerName: string;
+  sentimentScore: number;
+  frustrationScore: number;
+  lastMessage: string;
+  timestamp: Date;
+}
+
+// Weight of the newest message in the session frustration average; recent
+// messages matter more than how the conversation started
+const FRUSTRATION_SMOOTHING = 0.5;
+
+export class SentimentService {
+  private scorer: SentimentScorer;
+  private frustrationThreshold: number;
+
+  constructor(scorer: SentimentScorer = createSentimentScorer(), frustrationThreshold = Number(process.env.SENTIMENT_FRUSTRATION_THRESHOLD) || 0.6) {
+    this.scorer = scorer;
+    this.frustrationThreshold = frustrationThreshold;
+  }
+
+  async scoreMessage(text: string): Promise<SentimentScore | undefined> {
+    try {
+      return await this.scorer.score(text);
+    } catch (error) {
+      console.error('Error scoring message sentiment:', error);
+      return undefined;
+    }
+  }
+
+  // Session sentiment is the mean of its customer messages; frustration is an
+  // exponential moving average so it reflects where the conversation is now
+  rollUp(scores: SentimentScore[]): SessionSentiment {
+    const sentimentScore = scores.reduce((sum, score) => sum + score.sentiment, 0) / (scores.length || 1);
+    const frustrationScore = scores.reduce((average, score, index) =>
+      index === 0 ? score.frustration : FRUSTRATION_SMOOTHING * score.frustration + (1 - FRUSTRATION_SMOOTHING) * average, 0);
+
+    return {
+      sentimentScore: Math.round(sentimentScore * 100) / 100,
+      frustrationScore: Math.round(frustrationScore * 100) / 100,
+      scoredMessages: scores.length,
+    };
+  }
+
+  // Recomputes the session rollup from its scored messages. Returns an alert
+  // the first time frustration crosses the threshold; one alert per session.
+  async updateSession(sessionId: string): Promise<FrustrationAlert | null> {
+    try {
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId },
+        include: {
+          messages: {
+            where: { sender: 'CUSTOMER' },
+            orderBy: { timestamp: 'asc' }
+          }
+        }
+      });
+      if (!session) return null;
+
+      const scores = session.messages
+        .map(msg => ((msg.metadata || {}) as ChatMessageMetadata).sentiment)
+        .filter((score): score is SentimentScore => !!score);
+      if (scores.length === 0) return null;
+
+      const rollup = this.rollUp(scores);
+      const shouldAlert = rollup.frustrationScore >= this.frustrationThreshold && !session.frustrationAlertedAt;
+
+      await prisma.chatSession.update({
+        where: { id: sessionId },
+        data: {
+          sentimentScore: rollup.sentimentScore,
+          frustrationScore: rollup.frustrationScore,
+          frustrationAlertedAt: shouldAlert ? new Date() : undefined
+        }
+      });
+
+      if (!shouldAlert) return null;
+
+      return {
+        type: 'frustration',
+        sessionId,
+        customerId: session.customerId,
+        customerName: session.customerName,
+        sentimentScore: rollup.sentimentScore,
+        frustrationScore: rollup.frustrationScore,
+        lastMessage: session.messages[session.messages.length - 1]?.content || '',
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      console.error('Error updating session sentiment:', error);
+      return null;
+    }
+  }
+}
+
+export const sentimentService = new SentimentService();
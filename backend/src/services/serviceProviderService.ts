@@ -0,0 +1,152 @@
+import { ServiceProvider } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export interface ServiceProviderInput {
+  name: string;
+  vertical: string;
+  brandName: string;
+  primaryColor?: string | null;
+  textColor?: string | null;
+  logoUrl?: string | null;
+  brandVoice?: string | null;
+  maxContactsPerDay?: number | null;
+  minHoursBetweenContacts?: number | null;
+  quietHoursStart?: number | null;
+  quietHoursEnd?: number | null;
+  isActive?: boolean;
+}
+
+// A catalog entry as the rest of the code sees it. Built-in entries have no id.
+export type ServiceProviderProfile = Omit<ServiceProvider, 'id' | 'createdAt' | 'updatedAt'> & { id: string | null };
+
+type BuiltinProvider = Pick<ServiceProviderProfile, 'name' | 'vertical' | 'brandName' | 'primaryColor' | 'textColor'>;
+
+// The providers shipped with the code. A row with the same name replaces the entry.
+const BUILTIN_PROVIDERS: BuiltinProvider[] = [
+  { name: 'TIM', vertical: 'telecom', brandName: 'TIM', primaryColor: '#004691', textColor: '#ffffff' },
+  { name: 'Vivo', vertical: 'telecom', brandName: 'Vivo', primaryColor: '#660099', textColor: '#ffffff' },
+  { name: 'Claro', vertical: 'telecom', brandName: 'Claro', primaryColor: '#da291c', textColor: '#ffffff' },
+  { name: 'Oi', vertical: 'telecom', brandName: 'Oi', primaryColor: '#ffb81c', textColor: '#1f1f1f' },
+  { name: 'Light', vertical: 'utilities', brandName: 'Light', primaryColor: '#0072bc', textColor: '#ffffff' },
+  { name: 'Enel', vertical: 'utilities', brandName: 'Enel', primaryColor: '#0555fa', textColor: '#ffffff' },
+  { name: 'Energisa', vertical: 'utilities', brandName: 'Energisa', primaryColor: '#00a651', textColor: '#ffffff' },
+  { name: 'YDUQS/Estácio', vertical: 'education', brandName: 'Estácio', primaryColor: '#003c71', textColor: '#ffffff' },
+  { name: 'Salta', vertical: 'education', brandName: 'Salta', primaryColor: '#ff6b00', textColor: '#ffffff' },
+  { name: 'Inspira', vertical: 'education', brandName: 'Inspira', primaryColor: '#5b2d8e', textColor: '#ffffff' },
+];
+
+const CACHE_TTL_MS = 30 * 1000;
+
+function buildCatalog(rows: ServiceProvider[]): Map<string, ServiceProviderProfile> {
+  const catalog = new Map<string, ServiceProviderProfile>();
+  for (const builtin of BUILTIN_PROVIDERS) {
+    catalog.set(builtin.name, {
+      id: null,
+      ...builtin,
+      logoUrl: null,
+      brandVoice: null,
+      maxContactsPerDay: null,
+      minHoursBetweenContacts: null,
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      isActive: true,
+    });
+  }
+  for (const row of rows) {
+    catalog.set(row.name, row);
+  }
+  return catalog;
+}
+
+// The one place provider metadata comes from: vertical (which scopes prompts,
+// negotiation policies and the knowledge base), branding and contact-policy
+// defaults. Lookups are synchronous against a cached catalog that is re-read
+// from the database at most every CACHE_TTL_MS; the built-in entries are used
+// while the database is unavailable. A provider that isn't in the catalog
+// resolves to null instead of being treated as any particular vertical.
+export class ServiceProviderService {
+  private catalog: Map<string, ServiceProviderProfile> = buildCatalog([]);
+  private loadedAt = 0;
+  // Unknown providers are reported once, not on every message
+  private reported = new Set<string>();
+
+  async resolve(name: string | null | undefined): Promise<ServiceProviderProfile | null> {
+    await this.load();
+    return this.lookup(name);
+  }
+
+  async getVertical(name: string | null | undefined): Promise<string | null> {
+    return (await this.resolve(name))?.vertical ?? null;
+  }
+
+  // From the catalog as last loaded, for callers that can't wait on the database
+  lookup(name: string | null | undefined): ServiceProviderProfile | null {
+    if (!name) return null;
+
+    const provider = this.catalog.get(name);
+    if (provider?.isActive) return provider;
+
+    if (!this.reported.has(name)) {
+      this.reported.add(name);
+      console.warn(`Service provider "${name}" is ${provider ? 'inactive' : 'not in the catalog'}; no vertical or branding applied`);
+    }
+    return null;
+  }
+
+  // Re-reads the catalog when it is older than the TTL, or always with force
+  async load(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+
+    try {
+      const rows = await prisma.serviceProvider.findMany();
+      this.catalog = buildCatalog(rows);
+      this.reported.clear();
+    } catch (error) {
+      console.error('Error loading service providers, using the cached catalog:', error);
+    }
+    this.loadedAt = Date.now();
+  }
+
+  // Every entry, stored or built-in, as the agent sees it
+  async getCatalog(): Promise<ServiceProviderProfile[]> {
+    await this.load(true);
+    return Array.from(this.catalog.values())
+      .sort((a, b) => a.vertical.localeCompare(b.vertical) || a.name.localeCompare(b.name));
+  }
+
+  async list(): Promise<ServiceProvider[]> {
+    return prisma.serviceProvider.findMany({ orderBy: [{ vertical: 'asc' }, { name: 'asc' }] });
+  }
+
+  async get(id: string): Promise<ServiceProvider | null> {
+    return prisma.serviceProvider.findUnique({ where: { id } });
+  }
+
+  async getByName(name: string): Promise<ServiceProvider | null> {
+    return prisma.serviceProvider.findUnique({ where: { name } });
+  }
+
+  async create(input: ServiceProviderInput): Promise<ServiceProvider> {
+    const provider = await prisma.serviceProvider.create({ data: input });
+    this.invalidate();
+    return provider;
+  }
+
+  async update(id: string, changes: Partial<ServiceProviderInput>): Promise<ServiceProvider> {
+    const provider = await prisma.serviceProvider.update({ where: { id }, data: changes });
+    this.invalidate();
+    return provider;
+  }
+
+  // A deleted row that overrode a built-in entry falls back to it
+  async delete(id: string): Promise<void> {
+    await prisma.serviceProvider.delete({ where: { id } });
+    this.invalidate();
+  }
+
+  private invalidate(): void {
+    this.loadedAt = 0;
+  }
+}
+
+export const serviceProviderService = new ServiceProviderService();
@@ -0,0 +1,109 @@
+import { ChatSession, ChatSessionStatus as PrismaChatSessionStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ChatSessionStatus } from '../models/chatSession';
+
+// Sent to supervisors and to the session room on every state change
+export interface SessionTransition {
+  sessionId: string;
+  customerId: string;
+  from: ChatSessionStatus;
+  to: ChatSessionStatus;
+  reason?: string;
+  timestamp: Date;
+}
+
+export interface TransitionOptions {
+  reason?: string;
+  // Stored as the session outcome when it ends
+  outcome?: string;
+  // Extra fields written with the new state
+  data?: Prisma.ChatSessionUpdateManyMutationInput;
+  // Extra conditions the session must meet, e.g. the agent holding it
+  where?: Prisma.ChatSessionWhereInput;
+}
+
+// Where a conversation can go from each state. completed and abandoned are final.
+export const SESSION_TRANSITIONS: Record<ChatSessionStatus, ChatSessionStatus[]> = {
+  // Created, opening message not delivered yet
+  'initiated': ['active', 'escalated', 'completed', 'abandoned'],
+  // Opening delivered, waiting for the customer
+  'active': ['in-progress', 'payment-requested', 'escalated', 'completed', 'abandoned'],
+  // The customer is talking to the agent
+  'in-progress': ['payment-requested', 'escalated', 'completed', 'abandoned'],
+  // The agent offered a way to pay
+  'payment-requested': ['in-progress', 'payment-processing', 'escalated', 'completed', 'abandoned'],
+  // A payment was started and hasn't gone through yet
+  'payment-processing': ['in-progress', 'escalated', 'completed', 'abandoned'],
+  // A human agent has the conversation; the AI is paused
+  'escalated': ['in-progress', 'completed', 'abandoned'],
+  'completed': [],
+  'abandoned': [],
+};
+
+// The coarse status the rest of the app filters on
+const STATUS_BY_STATE: Record<ChatSessionStatus, PrismaChatSessionStatus> = {
+  'initiated': 'ACTIVE',
+  'active': 'ACTIVE',
+  'in-progress': 'ACTIVE',
+  'payment-requested': 'ACTIVE',
+  'payment-processing': 'ACTIVE',
+  'escalated': 'ESCALATED',
+  'completed': 'COMPLETED',
+  'abandoned': 'ABANDONED',
+};
+
+export function canTransition(from: ChatSessionStatus, to: ChatSessionStatus): boolean {
+  return SESSION_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isFinalState(state: ChatSessionStatus): boolean {
+  return SESSION_TRANSITIONS[state].length === 0;
+}
+
+// Persists chat session state changes. A change the table doesn't allow, or
+// one that loses a race with another change, is refused rather than applied.
+export class SessionStateMachine {
+  // Replaced by the server to broadcast over Socket.io
+  private emitTransition(transition: SessionTransition): void {
+    console.log(`Session ${transition.sessionId}: ${transition.from} -> ${transition.to}`);
+  }
+
+  public setEventEmitter(emitter: (transition: SessionTransition) => void): void {
+    this.emitTransition = emitter;
+  }
+
+  async getState(sessionId: string): Promise<ChatSessionStatus | null> {
+    const session = await prisma.chatSession.findUnique({ where: { id: sessionId }, select: { state: true } });
+    return session ? session.state as ChatSessionStatus : null;
+  }
+
+  // Moves the session to a new state. Returns the updated session, or null
+  // when nothing changed: the session is missing or already in that state, the
+  // transition isn't allowed or the extra conditions don't hold.
+  async transition(sessionId: string, to: ChatSessionStatus, options: TransitionOptions = {}): Promise<ChatSession | null> {
+    const session = await prisma.chatSession.findFirst({ where: { id: sessionId, ...options.where } });
+    if (!session) return null;
+
+    const from = session.state as ChatSessionStatus;
+    if (!canTransition(from, to)) return null;
+
+    const now = new Date();
+    const { count } = await prisma.chatSession.updateMany({
+      where: { id: sessionId, state: from, ...options.where },
+      data: {
+        ...options.data,
+        state: to,
+        status: STATUS_BY_STATE[to],
+        stateChangedAt: now,
+        ...(options.outcome !== undefined ? { outcome: options.outcome } : {}),
+        ...(isFinalState(to) ? { endTime: now } : {})
+      }
+    });
+    if (count === 0) return null;
+
+    this.emitTransition({ sessionId, customerId: session.customerId, from, to, reason: options.reason, timestamp: now });
+    return prisma.chatSession.findUnique({ where: { id: sessionId } });
+  }
+}
+
+export const sessionStateMachine = new SessionStateMachine();
@@ -0,0 +1,125 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export type TranscriberType = 'stub' | 'whisper_cpp';
+
+export interface TranscriberConfig {
+  provider: TranscriberType;
+  // Language spoken in the voice notes, as an ISO 639-1 code
+  language: string;
+  timeoutMs: number;
+  // Returned by the stub for every voice note; empty means "heard nothing"
+  stubTranscript: string;
+  whisperBinary: string;
+  whisperModel?: string;
+  ffmpegBinary: string;
+}
+
+export interface TranscriptionResult {
+  // Empty when nothing intelligible was said
+  text: string;
+  transcriber: TranscriberType;
+  language: string;
+  durationMs: number;
+}
+
+// Turns a customer voice note into text for the normal message pipeline
+export interface Transcriber {
+  readonly name: TranscriberType;
+  transcribe(audio: Buffer, contentType: string): Promise<TranscriptionResult>;
+}
+
+export function getTranscriberConfig(env: typeof process.env = process.env): TranscriberConfig {
+  const requested = (env.STT_PROVIDER || 'stub').toLowerCase();
+  let provider: TranscriberType = 'stub';
+  if (requested === 'whisper_cpp' || requested === 'stub') {
+    provider = requested;
+  } else {
+    console.warn(`Unknown STT_PROVIDER "${requested}", using the stub transcriber`);
+  }
+
+  return {
+    provider,
+    language: env.STT_LANGUAGE || 'pt',
+    timeoutMs: Number(env.STT_TIMEOUT_MS) || 60000,
+    stubTranscript: env.STT_STUB_TRANSCRIPT || '',
+    whisperBinary: env.WHISPER_CPP_BIN || 'whisper-cli',
+    whisperModel: env.WHISPER_CPP_MODEL || undefined,
+    ffmpegBinary: env.FFMPEG_BIN || 'ffmpeg',
+  };
+}
+
+// For dev, demos and CI: no model, the same configured transcript every time
+export class StubTranscriber implements Transcriber {
+  readonly name = 'stub' as const;
+  private transcript: string;
+  private language: string;
+
+  constructor(transcript: string, language: string) {
+    this.transcript = transcript;
+    this.language = language;
+  }
+
+  async transcribe(): Promise<TranscriptionResult> {
+    return { text: this.transcript, transcriber: this.name, language: this.language, durationMs: 0 };
+  }
+}
+
+// whisper.cpp on the server's CPU. Browser voice notes (webm/ogg) are
+// converted with ffmpeg to the 16 kHz mono WAV whisper.cpp expects.
+export class WhisperCppTranscriber implements Transcriber {
+  readonly name = 'whisper_cpp' as const;
+  private config: TranscriberConfig;
+
+  constructor(config: TranscriberConfig) {
+    if (!config.whisperModel) {
+      throw new Error('WHISPER_CPP_MODEL is required when STT_PROVIDER=whisper_cpp.');
+    }
+    this.config = config;
+  }
+
+  async transcribe(audio: Buffer): Promise<TranscriptionResult> {
+    const started = Date.now();
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'stt-'));
+    const inputPath = path.join(workDir, 'input');
+    const wavPath = path.join(workDir, 'audio.wav');
+
+    try {
+      await fs.writeFile(inputPath, audio);
+      await execFileAsync(this.config.ffmpegBinary, ['-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath], {
+        timeout: this.config.timeoutMs,
+      });
+
+      const { stdout } = await execFileAsync(this.config.whisperBinary, [
+        '-m', this.config.whisperModel!,
+        '-f', wavPath,
+        '-l', this.config.language,
+        '--no-timestamps',
+        '--no-prints',
+      ], { timeout: this.config.timeoutMs, maxBuffer: 1024 * 1024 });
+
+      return {
+        text: stdout.replace(/\s+/g, ' ').trim(),
+        transcriber: this.name,
+        language: this.config.language,
+        durationMs: Date.now() - started,
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+export function createTranscriber(config: TranscriberConfig = getTranscriberConfig()): Transcriber {
+  switch (config.provider) {
+    case 'whisper_cpp':
+      return new WhisperCppTranscriber(config);
+    case 'stub':
+      return new StubTranscriber(config.stubTranscript, config.language);
+  }
+}
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { serviceProviderService } from './serviceProviderService';
 
 interface PaymentMethod {
   id: string;
@@ -35,7 +36,6 @@ interface ConversationTemplates {
 
 export class TemplateService {
   private templates: ConversationTemplates = {};
-  private serviceProviders: { [category: string]: string[] } = {};
 
   constructor() {
     this.loadTemplates();
@@ -47,7 +47,6 @@ export class TemplateService {
       const jsonData = JSON.parse(fs.readFileSync(dataPath, 'utf8'));
 
       this.templates = jsonData.conversationTemplates || {};
-      this.serviceProviders = jsonData.serviceProviders || {};
 
       console.log('Conversation templates loaded successfully');
     } catch (error) {
@@ -71,14 +70,9 @@ export class TemplateService {
     }
   }
 
-  private getServiceCategory(serviceProvider: string): string {
-    for (const [category, providers] of Object.entries(this.serviceProviders)) {
-      if (providers.includes(serviceProvider)) {
-        return category;
-      }
-    }
-    // Default fallback
-    return 'telecom';
+  // Vertical from the provider catalog; unknown providers get the generic messages
+  private getServiceCategory(serviceProvider: string): string | null {
+    return serviceProviderService.lookup(serviceProvider)?.vertical ?? null;
   }
 
   private calculateDaysUntilExpiry(expiryMonth: number, expiryYear: number): number {
@@ -94,7 +88,7 @@ export class TemplateService {
 
   public generateMessage(customer: CustomerData, scenario: 'cardExpiring' | 'paymentFailed'): string {
     const serviceCategory = this.getServiceCategory(customer.serviceProvider);
-    const template = this.templates[serviceCategory]?.[scenario];
+    const template = serviceCategory ? this.templates[serviceCategory]?.[scenario] : undefined;
 
     if (!template) {
       console.warn(`Template not found for ${serviceCategory}.${scenario}`);
@@ -130,24 +124,6 @@ export class TemplateService {
     }
   }
 
-  public getSystemPrompt(serviceCategory: string): string {
-    const prompts: { [key: string]: string } = {
-      telecom: `Você é um especialista em retenção de clientes de operadora de telefonia/internet.
-      Foque em manter a linha/internet ativa e evitar perda do número. Use linguagem informal e amigável.
-      Enfatize a conveniência e a necessidade de manter a conectividade.`,
-
-      utilities: `Você é um especialista em retenção de clientes de serviços essenciais (energia, água).
-      Foque na importância do serviço essencial e no risco de corte. Use tom mais sério mas empático.
-      Enfatize as consequências práticas de interrupção do serviço.`,
-
-      education: `Você é um especialista em retenção de alunos de instituições de ensino.
-      Foque no impacto acadêmico e na continuidade dos estudos. Use tom respeitoso e profissional.
-      Enfatize a importância de manter os estudos em dia e o investimento no futuro.`
-    };
-
-    return prompts[serviceCategory] || prompts.telecom!
-  }
-
   public shouldTriggerIntervention(customer: CustomerData): boolean {
     const now = new Date();
 
@@ -182,7 +158,7 @@ export class TemplateService {
       telecom: 20        // Important but not critical
     };
 
-    priority += servicePriority[serviceCategory] || 20;
+    priority += (serviceCategory && servicePriority[serviceCategory]) || 20;
 
     // Risk category multiplier
     const riskMultiplier: { [key: string]: number } = {
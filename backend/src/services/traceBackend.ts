@@ -0,0 +1,302 @@
+import { Client } from 'langsmith';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export type TraceBackendType = 'local' | 'langsmith';
+export type SpanRunType = 'chain' | 'llm' | 'tool';
+export type SpanStatus = 'running' | 'success' | 'error';
+
+export interface SpanRecord {
+  id: string;
+  traceId: string;
+  parentId: string | null;
+  chatSessionId?: string;
+  name: string;
+  runType: SpanRunType;
+  inputs: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+  error?: string;
+  startTime: Date;
+  endTime?: Date;
+}
+
+// Root spans as listed on the dashboard; same shape LangSmith runs were mapped to
+export interface TraceRunSummary {
+  id: string;
+  traceId: string;
+  name: string;
+  status: string;
+  startTime: string;
+  endTime?: string;
+  inputs: unknown;
+  outputs: unknown;
+  error?: string | null;
+}
+
+export interface TraceStats {
+  backend: TraceBackendType;
+  projectName: string;
+  totalRuns: number;
+  recentRuns: TraceRunSummary[];
+  successRate: number;
+  error?: string;
+}
+
+export interface TraceSpanNode {
+  id: string;
+  parentId: string | null;
+  name: string;
+  runType: string;
+  status: string;
+  startTime: string;
+  endTime?: string;
+  durationMs: number | null;
+  inputs: unknown;
+  outputs: unknown;
+  metadata: unknown;
+  error?: string | null;
+  children: TraceSpanNode[];
+}
+
+export interface TraceDetail {
+  traceId: string;
+  spanCount: number;
+  // Top-level spans; a single root unless the trace is still being written
+  spans: TraceSpanNode[];
+}
+
+// Where finished spans go and where the dashboard reads them from
+export interface TraceBackend {
+  readonly name: TraceBackendType;
+  startSpan(span: SpanRecord): Promise<void>;
+  endSpan(span: SpanRecord): Promise<void>;
+  getStats(limit: number): Promise<TraceStats>;
+  getTrace(traceId: string): Promise<TraceDetail | null>;
+}
+
+const projectName = process.env.LANGCHAIN_PROJECT || 'gemini-churn-prevention';
+
+// Strips undefined values and non-JSON types before storing
+const toJson = (value: unknown): Prisma.InputJsonValue | undefined =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+// Nests a flat list of spans under their parents, ordered by start time
+export function buildSpanTree(traceId: string, spans: Omit<TraceSpanNode, 'children'>[]): TraceDetail {
+  const nodes = new Map<string, TraceSpanNode>();
+  [...spans]
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    .forEach(span => nodes.set(span.id, { ...span, children: [] }));
+
+  const roots: TraceSpanNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+
+  return { traceId, spanCount: nodes.size, spans: roots };
+}
+
+// Self-hosted store: spans are written to Postgres once they finish, so a
+// trace only needs the database and works fully offline
+export class LocalTraceBackend implements TraceBackend {
+  readonly name = 'local' as const;
+
+  async startSpan(): Promise<void> {
+    // Nothing to do; spans are written in one go when they end
+  }
+
+  async endSpan(span: SpanRecord): Promise<void> {
+    const endTime = span.endTime || new Date();
+
+    try {
+      await prisma.traceSpan.create({
+        data: {
+          id: span.id,
+          traceId: span.traceId,
+          parentId: span.parentId,
+          chatSessionId: span.chatSessionId,
+          name: span.name,
+          runType: span.runType,
+          status: span.error ? 'error' : 'success',
+          inputs: toJson(span.inputs),
+          outputs: toJson(span.outputs),
+          metadata: toJson(span.metadata),
+          error: span.error,
+          startTime: span.startTime,
+          endTime,
+          durationMs: endTime.getTime() - span.startTime.getTime(),
+        }
+      });
+    } catch (error) {
+      console.error('Error writing trace span:', error);
+    }
+  }
+
+  async getStats(limit: number): Promise<TraceStats> {
+    try {
+      const roots = await prisma.traceSpan.findMany({
+        where: { parentId: null },
+        orderBy: { startTime: 'desc' },
+        take: limit
+      });
+
+      return {
+        backend: this.name,
+        projectName,
+        totalRuns: roots.length,
+        recentRuns: roots.map(span => ({
+          id: span.id,
+          traceId: span.traceId,
+          name: span.name,
+          status: span.status,
+          startTime: span.startTime.toISOString(),
+          endTime: span.endTime.toISOString(),
+          inputs: span.inputs,
+          outputs: span.outputs,
+          error: span.error,
+        })),
+        successRate: roots.filter(span => span.status !== 'error').length / Math.max(roots.length, 1),
+      };
+    } catch (error) {
+      console.error('Error getting local trace stats:', error);
+      return { backend: this.name, projectName, totalRuns: 0, recentRuns: [], successRate: 0, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async getTrace(traceId: string): Promise<TraceDetail | null> {
+    const spans = await prisma.traceSpan.findMany({ where: { traceId } });
+    if (spans.length === 0) return null;
+
+    return buildSpanTree(traceId, spans.map(span => ({
+      id: span.id,
+      parentId: span.parentId,
+      name: span.name,
+      runType: span.runType,
+      status: span.status,
+      startTime: span.startTime.toISOString(),
+      endTime: span.endTime.toISOString(),
+      durationMs: span.durationMs,
+      inputs: span.inputs,
+      outputs: span.outputs,
+      metadata: span.metadata,
+      error: span.error,
+    })));
+  }
+}
+
+// Sends spans to LangSmith as nested runs
+export class LangSmithTraceBackend implements TraceBackend {
+  readonly name = 'langsmith' as const;
+  private client: Client;
+
+  constructor(apiKey: string) {
+    this.client = new Client({ apiKey });
+  }
+
+  async startSpan(span: SpanRecord): Promise<void> {
+    try {
+      await this.client.createRun({
+        id: span.id,
+        name: span.name,
+        run_type: span.runType,
+        inputs: span.inputs,
+        parent_run_id: span.parentId || undefined,
+        start_time: span.startTime.getTime(),
+        project_name: projectName,
+        extra: { metadata: { ...span.metadata, chatSessionId: span.chatSessionId } },
+      });
+    } catch (error) {
+      console.error('Error starting LangSmith run:', error);
+    }
+  }
+
+  async endSpan(span: SpanRecord): Promise<void> {
+    try {
+      await this.client.updateRun(span.id, {
+        outputs: span.outputs,
+        error: span.error,
+        end_time: (span.endTime || new Date()).getTime(),
+      });
+    } catch (error) {
+      console.error('Error ending LangSmith run:', error);
+    }
+  }
+
+  async getStats(limit: number): Promise<TraceStats> {
+    try {
+      const runs = this.client.listRuns({ projectName, isRoot: true, limit });
+
+      const recentRuns: TraceRunSummary[] = [];
+      for await (const run of runs) {
+        if (recentRuns.length >= limit) break;
+        recentRuns.push({
+          id: run.id,
+          traceId: run.trace_id || run.id,
+          name: run.name,
+          status: run.status || 'pending',
+          startTime: new Date(run.start_time || Date.now()).toISOString(),
+          endTime: run.end_time ? new Date(run.end_time).toISOString() : undefined,
+          inputs: run.inputs,
+          outputs: run.outputs,
+          error: run.error,
+        });
+      }
+
+      return {
+        backend: this.name,
+        projectName,
+        totalRuns: recentRuns.length,
+        recentRuns,
+        successRate: recentRuns.filter(run => !run.error).length / Math.max(recentRuns.length, 1),
+      };
+    } catch (error) {
+      console.error('Error getting LangSmith stats:', error);
+      return { backend: this.name, projectName, totalRuns: 0, recentRuns: [], successRate: 0, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async getTrace(traceId: string): Promise<TraceDetail | null> {
+    const spans: Omit<TraceSpanNode, 'children'>[] = [];
+    for await (const run of this.client.listRuns({ projectName, traceId })) {
+      const startTime = new Date(run.start_time || Date.now());
+      const endTime = run.end_time ? new Date(run.end_time) : undefined;
+      spans.push({
+        id: run.id,
+        parentId: run.parent_run_id || null,
+        name: run.name,
+        runType: run.run_type,
+        status: run.error ? 'error' : (run.status || 'pending'),
+        startTime: startTime.toISOString(),
+        endTime: endTime?.toISOString(),
+        durationMs: endTime ? endTime.getTime() - startTime.getTime() : null,
+        inputs: run.inputs,
+        outputs: run.outputs,
+        metadata: run.extra?.metadata,
+        error: run.error,
+      });
+    }
+
+    return spans.length > 0 ? buildSpanTree(traceId, spans) : null;
+  }
+}
+
+// TRACING_BACKEND=local | langsmith | none. Without it, LangSmith is used when
+// an API key is present and the local store otherwise.
+export function createTraceBackend(env: typeof process.env = process.env): TraceBackend | null {
+  const requested = (env.TRACING_BACKEND || '').toLowerCase();
+
+  if (requested === 'none') return null;
+  if (requested === 'local') return new LocalTraceBackend();
+  if (requested === 'langsmith') {
+    if (env.LANGCHAIN_API_KEY) return new LangSmithTraceBackend(env.LANGCHAIN_API_KEY);
+    console.warn('TRACING_BACKEND=langsmith requires LANGCHAIN_API_KEY, using the local trace store');
+    return new LocalTraceBackend();
+  }
+
+  if (requested) {
+    console.warn(`Unknown TRACING_BACKEND "${requested}", falling back to automatic selection`);
+  }
+  return env.LANGCHAIN_API_KEY ? new LangSmithTraceBackend(env.LANGCHAIN_API_KEY) : new LocalTraceBackend();
+}
@@ -0,0 +1,150 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { BaseMessage } from '@langchain/core/messages';
+import { v4 as uuidv4 } from 'uuid';
+import { LlmInvokeOptions, LlmProvider, LlmResponse } from './llmProvider';
+import {
+  createTraceBackend,
+  SpanRecord,
+  SpanRunType,
+  TraceBackend,
+  TraceBackendType,
+  TraceDetail,
+  TraceStats,
+} from './traceBackend';
+
+export interface SpanOptions {
+  name: string;
+  runType?: SpanRunType;
+  inputs?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+  // Inherited from the parent span when omitted
+  chatSessionId?: string;
+}
+
+// A span in progress. Outputs and errors are recorded on it and written to
+// the backend when the span's callback settles.
+export class ActiveSpan {
+  readonly record: SpanRecord;
+
+  constructor(options: SpanOptions, parent?: ActiveSpan) {
+    const id = uuidv4();
+    this.record = {
+      id,
+      traceId: parent?.record.traceId || id,
+      parentId: parent?.record.id || null,
+      chatSessionId: options.chatSessionId || parent?.record.chatSessionId,
+      name: options.name,
+      runType: options.runType || 'chain',
+      inputs: options.inputs || {},
+      metadata: options.metadata,
+      startTime: new Date(),
+    };
+  }
+
+  get traceId(): string {
+    return this.record.traceId;
+  }
+
+  setOutputs(outputs: Record<string, unknown>): void {
+    this.record.outputs = { ...this.record.outputs, ...outputs };
+  }
+
+  // Marks the span as failed without throwing, for errors the caller recovers from
+  fail(error: unknown): void {
+    this.record.error = error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Nested spans for one unit of work (a queue contact, a chat reply). The
+// current span follows the async call chain, so callees only open their own
+// span and it lands under whatever is running.
+export class TracingService {
+  private backend: TraceBackend | null;
+  private context = new AsyncLocalStorage<ActiveSpan>();
+
+  constructor(backend: TraceBackend | null = createTraceBackend()) {
+    this.backend = backend;
+
+    if (backend) {
+      console.log(`Tracing enabled (${backend.name} backend)`);
+    } else {
+      console.log('Tracing disabled');
+    }
+  }
+
+  get backendName(): TraceBackendType | null {
+    return this.backend?.name || null;
+  }
+
+  async withSpan<T>(options: SpanOptions, fn: (span: ActiveSpan) => Promise<T>): Promise<T> {
+    const span = new ActiveSpan(options, this.context.getStore());
+    if (!this.backend) return fn(span);
+
+    const backend = this.backend;
+    // Tracing must never slow down or break the traced work
+    const started = backend.startSpan(span.record);
+
+    try {
+      return await this.context.run(span, () => fn(span));
+    } catch (error) {
+      span.fail(error);
+      throw error;
+    } finally {
+      span.record.endTime = new Date();
+      void started.then(() => backend.endSpan(span.record));
+    }
+  }
+
+  async getStats(limit = 20): Promise<TraceStats | { error: string }> {
+    if (!this.backend) return { error: 'Tracing is disabled (TRACING_BACKEND=none)' };
+    return this.backend.getStats(limit);
+  }
+
+  async getTrace(traceId: string): Promise<TraceDetail | null> {
+    return this.backend ? this.backend.getTrace(traceId) : null;
+  }
+}
+
+export const tracingService = new TracingService();
+
+// Records every model call as an llm span under the current span
+export class TracedLlmProvider implements LlmProvider {
+  private inner: LlmProvider;
+  private tracing: TracingService;
+
+  constructor(inner: LlmProvider, tracing: TracingService = tracingService) {
+    this.inner = inner;
+    this.tracing = tracing;
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  async invoke(messages: BaseMessage[], options: LlmInvokeOptions = {}): Promise<LlmResponse> {
+    return this.tracing.withSpan({
+      name: 'model_call',
+      runType: 'llm',
+      chatSessionId: options.trace?.chatSessionId,
+      inputs: {
+        purpose: options.trace?.purpose,
+        messages: messages.length,
+        tools: (options.tools || []).map(tool => tool.name),
+        lastMessage: messages[messages.length - 1]?.content,
+      },
+      metadata: { provider: this.inner.name, model: this.inner.model },
+    }, async span => {
+      const result = await this.inner.invoke(messages, options);
+      span.setOutputs({
+        output: result.content,
+        toolCalls: result.toolCalls.map(call => call.name),
+        usage: result.usage,
+      });
+      return result;
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { CustomerContactLog, PaymentTransaction, Prisma } from '@prisma/client';
+import { prisma } from '../../src/lib/prisma';
+import { contactLogService } from '../../src/services/contactLogService';
+import { CustomerContextService } from '../../src/services/customerContextService';
+import { paymentTransactionService } from '../../src/services/paymentTransactionService';
+
+jest.mock('../../src/lib/prisma', () => {
+  const prisma = { customer: { findUnique: jest.fn() } };
+  return { __esModule: true, prisma, default: prisma };
+});
+
+const findCustomer = prisma.customer.findUnique as jest.Mock;
+
+const CUSTOMER = {
+  id: 'cust_test_001',
+  name: 'Maria Souza',
+  email: 'maria@example.com',
+  phone: '(11) 98765-4321',
+  serviceProvider: 'Fibra Net',
+  serviceType: 'Internet 500MB',
+  accountValue: new Prisma.Decimal(9990),
+  riskCategory: 'PAYMENT_FAILED',
+  riskSeverity: 'HIGH',
+  lastPaymentDate: new Date(2026, 7, 10, 12),
+  nextBillingDate: new Date(2026, 10, 10, 12),
+  customerSince: new Date(2024, 0, 15, 12),
+  riskFactors: [{ factor: 'Cartão recusado' }],
+  interventions: [],
+};
+
+const charge = (day: number): PaymentTransaction => ({
+  id: `txn_${day}`,
+  customerId: CUSTOMER.id,
+  amount: new Prisma.Decimal('99.90'),
+  currency: 'BRL',
+  status: 'FAILED',
+  transactionDate: new Date(2026, 8, day, 12),
+  paidDate: null,
+  description: 'Mensalidade',
+  chatSessionId: null,
+  paymentPlanId: null,
+  installmentNumber: null,
+});
+
+const contact = (day: number, notes: string | null = null) => ({
+  id: `log_${day}`,
+  customerId: CUSTOMER.id,
+  contactMethod: 'AI_CHAT',
+  contactDate: new Date(2026, 8, day, 12),
+  outcome: 'NO_ANSWER',
+  notes,
+}) as CustomerContactLog;
+
+const mockData = (charges: PaymentTransaction[], contacts: CustomerContactLog[]) => {
+  findCustomer.mockResolvedValue(CUSTOMER);
+  jest.spyOn(paymentTransactionService, 'getCustomerPaymentSummary')
+    .mockResolvedValue({ outstandingPayments: charges, lastPaymentDate: null } as never);
+  jest.spyOn(contactLogService, 'getContactHistory').mockResolvedValue(contacts);
+};
+
+describe('CustomerContextService', () => {
+  it('renders every section when the budget allows', async () => {
+    mockData([charge(1), charge(2)], [contact(3)]);
+    const service = new CustomerContextService({ tokenBudget: 1000, historyLimit: 5 });
+
+    const context = await service.build(CUSTOMER.id, { paymentIssue: 'paymentFailed' });
+
+    expect(context?.truncated).toEqual([]);
+    expect(context?.text).toContain('Cliente: Maria Souza');
+    expect(context?.text).toContain('Motivo do contato: paymentFailed');
+    expect(context?.text).toContain('Status Pagamento: 2 cobranças em aberto somando R$ 199.80');
+    expect(context?.text).toContain('Cobranças em aberto:');
+    expect(context?.text).toContain('Contatos anteriores:');
+    expect(context?.text).toContain('Fatores de risco:\nCartão recusado');
+    expect(context?.tokens).toBeLessThanOrEqual(1000);
+  });
+
+  it('shortens a section line by line and drops the ones that no longer fit', async () => {
+    mockData([charge(1), charge(2), charge(3), charge(4), charge(5)], [contact(6), contact(7)]);
+    const full = await new CustomerContextService({ tokenBudget: 1000, historyLimit: 5 }).build(CUSTOMER.id);
+    const profileTokens = Math.ceil(full!.text.split('\nCobranças em aberto:')[0]!.length / 4);
+
+    // Room for the profile, the header and about two charges
+    const service = new CustomerContextService({ tokenBudget: profileTokens + 30, historyLimit: 5 });
+    const context = await service.build(CUSTOMER.id);
+
+    const charges = context!.text.split('\n').filter(line => line.startsWith('- ') && line.includes('FAILED'));
+    expect(charges.length).toBeGreaterThan(0);
+    expect(charges.length).toBeLessThan(5);
+    expect(context?.text).not.toContain('Contatos anteriores:');
+    expect(context?.truncated).toEqual(['Cobranças em aberto:', 'Contatos anteriores:', 'Fatores de risco:']);
+    expect(context?.tokens).toBeLessThanOrEqual(profileTokens + 30);
+  });
+
+  it('keeps the profile whole even over budget', async () => {
+    mockData([charge(1)], [contact(2)]);
+    const service = new CustomerContextService({ tokenBudget: 10, historyLimit: 5 });
+
+    const context = await service.build(CUSTOMER.id);
+
+    expect(context?.text).toContain('Cliente: Maria Souza');
+    expect(context?.text).toContain('Último pagamento:');
+    expect(context?.text).not.toContain('Cobranças em aberto:');
+    expect(context?.truncated).toEqual(['Cobranças em aberto:', 'Contatos anteriores:', 'Fatores de risco:']);
+  });
+
+  it('leaves contact data out and redacts notes', async () => {
+    mockData([], [contact(2, 'Cliente pediu retorno no joao@example.com ou (21) 91234-5678')]);
+    const service = new CustomerContextService({ tokenBudget: 1000, historyLimit: 5 });
+
+    const context = await service.build(CUSTOMER.id, { situation: 'Promessa quebrada, avisar maria@example.com' });
+
+    expect(context?.text).not.toMatch(/@example\.com|98765|91234/);
+    expect(context?.text).toContain('[email]');
+    expect(context?.text).toContain('[telefone]');
+    expect(context?.customer.email).toBe(CUSTOMER.email);
+  });
+
+  it('returns null for an unknown customer', async () => {
+    mockData([], []);
+    findCustomer.mockResolvedValue(null);
+
+    expect(await new CustomerContextService().build('missing')).toBeNull();
+  });
+});
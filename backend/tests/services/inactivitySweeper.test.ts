@@ -0,0 +1,94 @@
+import { prisma } from '../../src/lib/prisma';
+import { ConversationOrchestrator } from '../../src/services/conversationOrchestrator';
+import { InactivitySweeper } from '../../src/services/inactivitySweeper';
+
+jest.mock('../../src/lib/prisma', () => {
+  const prisma = { chatSession: { findMany: jest.fn() } };
+  return { __esModule: true, prisma, default: prisma };
+});
+
+const findSessions = prisma.chatSession.findMany as jest.Mock;
+
+const NOW = new Date(2026, 9, 14, 12);
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+const session = (id: string, lastMessage?: { sender: string; minutesAgo: number; nudge?: boolean }) => ({
+  id,
+  customerId: `cust_${id}`,
+  startTime: minutesAgo(120),
+  messages: lastMessage
+    ? [{
+      sender: lastMessage.sender,
+      timestamp: minutesAgo(lastMessage.minutesAgo),
+      metadata: lastMessage.nudge ? { nudge: true } : {},
+    }]
+    : [],
+});
+
+describe('InactivitySweeper', () => {
+  const orchestrator = {
+    nudge: jest.fn().mockResolvedValue(undefined),
+    abandonSession: jest.fn().mockResolvedValue(true),
+  };
+  let sweeper: InactivitySweeper;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    sweeper = new InactivitySweeper(orchestrator as unknown as ConversationOrchestrator, {
+      enabled: true,
+      nudgeAfterMinutes: 10,
+      abandonAfterMinutes: 20,
+      sweepIntervalMs: 60000,
+    });
+  });
+
+  it('nudges once the agent has waited long enough', async () => {
+    findSessions.mockResolvedValue([
+      session('ai', { sender: 'AI', minutesAgo: 15 }),
+      session('human', { sender: 'HUMAN', minutesAgo: 11 }),
+      session('recent', { sender: 'AI', minutesAgo: 5 }),
+    ]);
+
+    expect(await sweeper.sweep(NOW)).toEqual({ nudged: ['ai', 'human'], abandoned: [] });
+    expect(orchestrator.nudge).toHaveBeenCalledTimes(2);
+  });
+
+  it('abandons a session whose nudge went unanswered', async () => {
+    findSessions.mockResolvedValue([
+      session('expired', { sender: 'AI', minutesAgo: 25, nudge: true }),
+      session('waiting', { sender: 'AI', minutesAgo: 15, nudge: true }),
+    ]);
+
+    expect(await sweeper.sweep(NOW)).toEqual({ nudged: [], abandoned: ['expired'] });
+    expect(orchestrator.abandonSession).toHaveBeenCalledWith('expired', 'inactivity');
+  });
+
+  it('leaves sessions alone while the customer spoke last', async () => {
+    findSessions.mockResolvedValue([
+      session('customer', { sender: 'CUSTOMER', minutesAgo: 60 }),
+      session('system', { sender: 'SYSTEM', minutesAgo: 60 }),
+    ]);
+
+    expect(await sweeper.sweep(NOW)).toEqual({ nudged: [], abandoned: [] });
+    expect(orchestrator.nudge).not.toHaveBeenCalled();
+    expect(orchestrator.abandonSession).not.toHaveBeenCalled();
+  });
+
+  it('abandons a session without messages after both thresholds', async () => {
+    findSessions.mockResolvedValue([session('silent')]);
+
+    expect(await sweeper.sweep(NOW)).toEqual({ nudged: [], abandoned: ['silent'] });
+    expect(orchestrator.nudge).not.toHaveBeenCalled();
+  });
+
+  it('keeps sweeping after a session fails', async () => {
+    findSessions.mockResolvedValue([
+      session('broken', { sender: 'AI', minutesAgo: 15 }),
+      session('fine', { sender: 'AI', minutesAgo: 15 }),
+    ]);
+    orchestrator.nudge.mockRejectedValueOnce(new Error('socket closed'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await sweeper.sweep(NOW)).toEqual({ nudged: ['fine'], abandoned: [] });
+  });
+});
@@ -0,0 +1,75 @@
+import ChatMessage, { IntentClassification } from '../../src/models/chatMessage';
+import { OptOutService } from '../../src/services/optOutService';
+
+const SESSION_ID = 'session_test_001';
+
+const optOutIntent = (confidence: number): IntentClassification => ({ intent: 'opt_out', confidence, classifier: 'rule' });
+const otherIntent: IntentClassification = { intent: 'off_topic', confidence: 0.9, classifier: 'rule' };
+
+const customerMessage = (content: string) => new ChatMessage({
+  chatSessionId: SESSION_ID,
+  sender: 'customer',
+  content,
+  timestamp: new Date(),
+});
+
+describe('OptOutService', () => {
+  const service = new OptOutService();
+  const awaitingConfirmation = [
+    customerMessage('Não quero mais receber mensagens'),
+    service.buildConfirmationRequest(SESSION_ID),
+  ];
+
+  describe('before the confirmation question', () => {
+    it('asks for confirmation when the classifier is confident', () => {
+      expect(service.evaluate('para de me mandar mensagem', optOutIntent(0.8), [])).toBe('request_confirmation');
+    });
+
+    it('ignores a low-confidence opt-out', () => {
+      expect(service.evaluate('para', optOutIntent(0.4), [])).toBeNull();
+    });
+
+    it('ignores other intents, and a yes out of context', () => {
+      expect(service.evaluate('sim', otherIntent, [])).toBeNull();
+      expect(service.evaluate('sim', undefined, [])).toBeNull();
+    });
+  });
+
+  describe('after the confirmation question', () => {
+    it('knows the agent is waiting for an answer', () => {
+      expect(service.isAwaitingConfirmation(awaitingConfirmation)).toBe(true);
+      expect(service.isAwaitingConfirmation([customerMessage('oi')])).toBe(false);
+    });
+
+    it.each(['sim', 'Sim!', 'S', 'confirmo.', 'pode sim', 'Isso mesmo', 'com certeza', 'yes'])(
+      'confirms on "%s"',
+      (answer) => {
+        expect(service.evaluate(answer, undefined, awaitingConfirmation)).toBe('confirmed');
+      }
+    );
+
+    it('confirms when the answer repeats the opt-out', () => {
+      expect(service.evaluate('já disse, me tira da lista', optOutIntent(0.5), awaitingConfirmation)).toBe('confirmed');
+    });
+
+    it.each([
+      'não',
+      'pode me mandar o boleto?',
+      'isso é um absurdo',
+      'sim, mas antes quero saber o valor',
+      'simplesmente não entendi',
+    ])('cancels on "%s"', (answer) => {
+      expect(service.evaluate(answer, otherIntent, awaitingConfirmation)).toBeNull();
+    });
+
+    it('stops waiting once the agent says something else', () => {
+      const history = [
+        ...awaitingConfirmation,
+        customerMessage('não'),
+        new ChatMessage({ chatSessionId: SESSION_ID, sender: 'ai', content: 'Tudo bem!', timestamp: new Date() }),
+      ];
+
+      expect(service.evaluate('sim', undefined, history)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { prisma } from '../../src/lib/prisma';
+import { OutputGuardrails, redactPersonalData } from '../../src/services/outputGuardrails';
+
+jest.mock('../../src/lib/prisma', () => {
+  const prisma = { customer: { findMany: jest.fn() } };
+  return { __esModule: true, prisma, default: prisma };
+});
+
+const findCustomers = prisma.customer.findMany as jest.Mock;
+
+const CUSTOMER = { name: 'Maria Souza', email: 'maria@example.com', phone: '(11) 98765-4321' };
+
+describe('OutputGuardrails', () => {
+  let guardrails: OutputGuardrails;
+
+  const rules = async (content: string, context = {}) =>
+    (await guardrails.check(content, { customer: CUSTOMER, ...context })).map(violation => violation.rule);
+
+  beforeEach(() => {
+    findCustomers.mockResolvedValue([{ name: 'Maria Souza' }, { name: 'João Pereira' }, { name: 'Ana' }]);
+    guardrails = new OutputGuardrails({ maxChars: 200, maxSentences: 2 });
+  });
+
+  it('accepts a short, policy-compliant reply', async () => {
+    expect(await rules('Oi Maria! Posso te mandar o Pix agora?')).toEqual([]);
+  });
+
+  it('flags links but not email domains', async () => {
+    expect(await rules('Pague em https://pague.example.com hoje.')).toEqual(['link']);
+    expect(await rules('Acesse pagamentos.com.br para pagar.')).toEqual(['link']);
+    expect(await rules('Enviamos para maria@example.com.')).toEqual([]);
+  });
+
+  it('limits characters and sentences', async () => {
+    expect(await rules('a'.repeat(201))).toEqual(['length']);
+    expect(await rules('Oi. Tudo bem? Vamos pagar!')).toEqual(['length']);
+    expect(await rules('Oi. Tudo bem? Vamos pagar!', { maxSentences: 4 })).toEqual([]);
+  });
+
+  it('only offers discounts to eligible accounts', async () => {
+    expect(await rules('Consigo um desconto pra você.')).toEqual(['policy_promise']);
+    expect(await rules('Consigo um desconto pra você.', { allowDiscounts: true })).toEqual([]);
+  });
+
+  it('flags guarantees', async () => {
+    expect(await rules('Garanto que não vai acontecer de novo.')).toEqual(['policy_promise']);
+  });
+
+  it('caps installments at the account limit', async () => {
+    expect(await rules('Dá pra parcelar em 10x.')).toEqual([]);
+    expect(await rules('Dá pra parcelar em 18 vezes.')).toEqual(['policy_promise']);
+    expect(await rules('Dá pra parcelar em 6 parcelas.', { maxInstallments: 3 })).toEqual(['policy_promise']);
+  });
+
+  it('flags leaked internal tokens', async () => {
+    expect(await rules('PAYMENT_CONFIRMED')).toEqual(['leaked_token']);
+    expect(await rules('Segue o [PAYMENT_BUTTON]')).toEqual(['leaked_token']);
+    expect(await rules('Olá {customerName}')).toEqual(['leaked_token']);
+  });
+
+  it('flags talk of technical difficulties', async () => {
+    expect(await rules('Estamos com dificuldade técnica agora.')).toEqual(['technical_difficulty']);
+  });
+
+  describe('personal data', () => {
+    it("allows the customer's own email and phone", async () => {
+      expect(await rules('Confirmo o e-mail maria@example.com e o telefone 98765-4321.')).toEqual([]);
+    });
+
+    it("flags someone else's email, phone or documents", async () => {
+      expect(await rules('Mandei para jose@example.com')).toEqual(['other_customer_data']);
+      expect(await rules('Ligue para (21) 91234-5678')).toEqual(['other_customer_data']);
+      expect(await rules('O CPF é 123.456.789-09')).toEqual(['other_customer_data']);
+    });
+
+    it('flags another customer by full name only', async () => {
+      expect(await rules('Falei com o João Pereira ontem.')).toEqual(['other_customer_data']);
+      expect(await rules('A Ana vai te ajudar.')).toEqual([]);
+    });
+
+    it('still checks the rest when customer names cannot be loaded', async () => {
+      findCustomers.mockRejectedValue(new Error('connection refused'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect(await rules('Mandei para jose@example.com')).toEqual(['other_customer_data']);
+    });
+  });
+});
+
+describe('redactPersonalData', () => {
+  it('masks emails, documents and phone numbers', () => {
+    expect(redactPersonalData('Cliente ana@example.com, CPF 123.456.789-09, tel (11) 98765-4321'))
+      .toBe('Cliente [email], CPF [documento], tel [telefone]');
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  MAX_PROMISE_DAYS,
+  describeDate,
+  extractAmount,
+  extractPaymentPromise,
+  isPromiseDateAllowed,
+  toDateKey,
+} from '../../src/services/paymentPromiseParser';
+
+// Wednesday, 14 October 2026, midday local time
+const TODAY = new Date(2026, 9, 14, 12);
+
+describe('extractPaymentPromise', () => {
+  it.each([
+    ['Pago amanhã', '2026-10-15'],
+    ['vou pagar depois de amanhã', '2026-10-16'],
+    ['Pago na sexta', '2026-10-16'],
+    ['pago na quarta', '2026-10-21'],
+    ['Recebo dia 20 e pago', '2026-10-20'],
+    ['consigo pagar dia 5', '2026-11-05'],
+    ['Pago no dia 31', '2026-10-31'],
+    ['vou pagar 02/11', '2026-11-02'],
+    ['pago semana que vem', '2026-10-21'],
+    ['acerto no fim do mês', '2026-10-31'],
+    ['faço o pix hoje', '2026-10-14'],
+  ])('reads "%s" as %s', (text, promisedDate) => {
+    expect(extractPaymentPromise(text, TODAY)).toEqual({ promisedDate });
+  });
+
+  it('prefers the most specific date in the message', () => {
+    expect(extractPaymentPromise('hoje não dá, pago na sexta', TODAY)).toEqual({ promisedDate: '2026-10-16' });
+  });
+
+  it('keeps the amount the customer names', () => {
+    expect(extractPaymentPromise('recebo dia 20, aí pago R$ 50', TODAY)).toEqual({ promisedDate: '2026-10-20', amount: 50 });
+  });
+
+  it('needs the customer to commit, not ask', () => {
+    expect(extractPaymentPromise('posso parcelar na sexta?', TODAY)).toBeNull();
+    expect(extractPaymentPromise('qual o valor de amanhã?', TODAY)).toBeNull();
+  });
+
+  it('needs a date', () => {
+    expect(extractPaymentPromise('vou pagar', TODAY)).toBeNull();
+  });
+
+  it('rejects dates that do not exist or are too far out', () => {
+    expect(extractPaymentPromise('pago 31/02', TODAY)).toBeNull();
+    expect(extractPaymentPromise('pago 20/03/2027', TODAY)).toBeNull();
+  });
+
+  it('moves a day already passed to next month, clamped to its length', () => {
+    const endOfJanuary = new Date(2027, 0, 31, 12);
+
+    expect(extractPaymentPromise('pago dia 30', endOfJanuary)).toEqual({ promisedDate: '2027-02-28' });
+  });
+});
+
+describe('extractAmount', () => {
+  it.each([
+    ['r$ 1.234,56', 1234.56],
+    ['r$50', 50],
+    ['pago 80 reais', 80],
+    ['uns 49,90 conto', 49.9],
+  ])('reads "%s" as %d', (text, amount) => {
+    expect(extractAmount(text)).toBe(amount);
+  });
+
+  it('ignores numbers that are not money', () => {
+    expect(extractAmount('pago dia 10')).toBeUndefined();
+  });
+});
+
+describe('isPromiseDateAllowed', () => {
+  it(`allows today through ${MAX_PROMISE_DAYS} days ahead`, () => {
+    expect(isPromiseDateAllowed('2026-10-14', TODAY)).toBe(true);
+    expect(isPromiseDateAllowed('2026-11-13', TODAY)).toBe(true);
+    expect(isPromiseDateAllowed('2026-11-14', TODAY)).toBe(false);
+    expect(isPromiseDateAllowed('2026-10-13', TODAY)).toBe(false);
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    expect(isPromiseDateAllowed('2026-10-32', TODAY)).toBe(false);
+    expect(isPromiseDateAllowed('amanhã', TODAY)).toBe(false);
+  });
+});
+
+describe('date keys', () => {
+  it('formats local calendar dates', () => {
+    expect(toDateKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+  });
+
+  it('describes a date for the customer', () => {
+    expect(describeDate('2026-10-16')).toBe('sexta-feira, 16/10/2026');
+  });
+});
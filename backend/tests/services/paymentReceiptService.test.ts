@@ -0,0 +1,97 @@
+import { PaymentTransaction, Prisma } from '@prisma/client';
+import { NoReceiptOcr } from '../../src/services/receiptOcr';
+import { FileStorage } from '../../src/services/fileStorage';
+import { ExtractedReceipt } from '../../src/services/receiptParser';
+import { PaymentReceiptService, scoreReceiptMatch } from '../../src/services/paymentReceiptService';
+
+const transaction = (overrides: Partial<PaymentTransaction> = {}): PaymentTransaction => ({
+  id: 'txn_test_001',
+  customerId: 'cust_test_001',
+  amount: new Prisma.Decimal('49.90'),
+  currency: 'BRL',
+  status: 'FAILED',
+  transactionDate: new Date(2026, 9, 1, 12),
+  paidDate: null,
+  description: null,
+  chatSessionId: null,
+  paymentPlanId: null,
+  installmentNumber: null,
+  ...overrides,
+});
+
+const WINDOW_DAYS = 60;
+
+describe('scoreReceiptMatch', () => {
+  it('gives full marks to the exact amount, paid on time, with a Pix ID', () => {
+    const receipt: ExtractedReceipt = {
+      amount: 49.9,
+      paidAt: new Date(2026, 9, 3, 10),
+      pixEndToEndId: 'E1234567820261003100012345678901',
+    };
+
+    expect(scoreReceiptMatch(receipt, transaction(), WINDOW_DAYS)).toBe(1);
+  });
+
+  it('gives partial credit to an amount within 5%', () => {
+    expect(scoreReceiptMatch({ amount: 48 }, transaction(), WINDOW_DAYS)).toBe(0.3);
+    expect(scoreReceiptMatch({ amount: 40 }, transaction(), WINDOW_DAYS)).toBe(0);
+  });
+
+  it('counts the payment date from a week before the due date to the end of the window', () => {
+    const due = transaction();
+
+    expect(scoreReceiptMatch({ paidAt: new Date(2026, 8, 25, 12) }, due, WINDOW_DAYS)).toBe(0.2);
+    expect(scoreReceiptMatch({ paidAt: new Date(2026, 8, 20, 12) }, due, WINDOW_DAYS)).toBe(0);
+    expect(scoreReceiptMatch({ paidAt: new Date(2026, 10, 30, 12) }, due, WINDOW_DAYS)).toBe(0.2);
+    expect(scoreReceiptMatch({ paidAt: new Date(2026, 11, 5, 12) }, due, WINDOW_DAYS)).toBe(0);
+  });
+
+  it('scores an empty receipt as no match', () => {
+    expect(scoreReceiptMatch({}, transaction(), WINDOW_DAYS)).toBe(0);
+  });
+});
+
+describe('PaymentReceiptService', () => {
+  const service = new PaymentReceiptService(
+    {} as FileStorage,
+    new NoReceiptOcr(),
+    { maxBytes: 1024, matchThreshold: 0.6, matchWindowDays: WINDOW_DAYS, reviewHoldHours: 48 }
+  );
+
+  describe('matchTransaction', () => {
+    const older = transaction({ id: 'txn_older', transactionDate: new Date(2026, 8, 1, 12) });
+    const newer = transaction({ id: 'txn_newer' });
+    const other = transaction({ id: 'txn_other', amount: new Prisma.Decimal('99.90') });
+
+    it('proposes the best scoring transaction', () => {
+      const match = service.matchTransaction({ amount: 99.9 }, [older, newer, other]);
+
+      expect(match).toEqual({ transaction: other, score: 0.6 });
+    });
+
+    it('breaks ties with the oldest debt', () => {
+      expect(service.matchTransaction({ amount: 49.9 }, [newer, older])?.transaction.id).toBe('txn_older');
+    });
+
+    it('proposes nothing below the threshold', () => {
+      expect(service.matchTransaction({ amount: 48, paidAt: new Date(2026, 9, 2, 12) }, [newer])).toBeNull();
+      expect(service.matchTransaction({ amount: 49.9 }, [])).toBeNull();
+    });
+  });
+
+  describe('isOutstanding', () => {
+    it('accepts unpaid transactions only', () => {
+      expect(service.isOutstanding(transaction({ status: 'PENDING' }))).toBe(true);
+      expect(service.isOutstanding(transaction({ status: 'PROCESSING' }))).toBe(true);
+      expect(service.isOutstanding(transaction({ status: 'COMPLETED', paidDate: new Date() }))).toBe(false);
+      expect(service.isOutstanding(transaction({ status: 'FAILED', paidDate: new Date() }))).toBe(false);
+    });
+  });
+
+  it('accepts images and PDFs only', () => {
+    expect(service.isSupported('image/png')).toBe(true);
+    expect(service.isSupported('application/pdf; charset=binary')).toBe(true);
+    expect(service.isSupported('text/plain')).toBe(false);
+    expect(service.isSupported(undefined)).toBe(false);
+  });
+});
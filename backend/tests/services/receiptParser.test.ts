@@ -0,0 +1,42 @@
+import { parseReceiptText } from '../../src/services/receiptParser';
+
+describe('parseReceiptText', () => {
+  it('reads a Pix receipt', () => {
+    const receipt = parseReceiptText([
+      'Comprovante de transferência',
+      'Saldo disponível R$ 1.050,00',
+      'Valor pago R$ 49,90',
+      'Data da transferência 03/10/2026 - 10:15:30',
+      'ID da transação: E12345678202610031315abcdefghijk',
+    ].join('\n'));
+
+    expect(receipt.amount).toBe(49.9);
+    expect(receipt.paidAt).toEqual(new Date(2026, 9, 3, 10, 15, 30));
+    expect(receipt.pixEndToEndId).toBe('E12345678202610031315abcdefghijk');
+  });
+
+  it('prefers a labelled amount over the first one printed', () => {
+    expect(parseReceiptText('Saldo R$ 2.000,00\nTotal R$ 120,00').amount).toBe(120);
+  });
+
+  it('takes the date from the Pix ID when none is printed', () => {
+    const receipt = parseReceiptText('Pix enviado\nE12345678202610031315abcdefghijk');
+
+    expect(receipt.paidAt).toEqual(new Date(Date.UTC(2026, 9, 3, 13, 15)));
+  });
+
+  it('ignores dates that do not exist', () => {
+    expect(parseReceiptText('Pago em 31/02/2026').paidAt).toBeUndefined();
+  });
+
+  it('reads the amount from a bank slip line', () => {
+    const receipt = parseReceiptText('Pagamento de boleto\n23793.38128 60000.000003 00000.000400 1 98760000004990');
+
+    expect(receipt.boletoLine).toBe('23793381286000000000300000000400198760000004990');
+    expect(receipt.amount).toBe(49.9);
+  });
+
+  it('returns nothing for unrelated text', () => {
+    expect(parseReceiptText('foto do meu cachorro')).toEqual({});
+  });
+});
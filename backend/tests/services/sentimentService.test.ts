@@ -0,0 +1,86 @@
+import { SentimentScore } from '../../src/models/chatMessage';
+import { LexiconSentimentScorer } from '../../src/services/sentimentScorer';
+import { SentimentService } from '../../src/services/sentimentService';
+
+const score = (sentiment: number, frustration: number): SentimentScore => ({ sentiment, frustration, scorer: 'lexicon' });
+
+describe('LexiconSentimentScorer', () => {
+  const scorer = new LexiconSentimentScorer();
+
+  it('scores thanks as positive and calm', async () => {
+    const result = await scorer.score('Obrigado, resolveu meu problema, ótimo atendimento');
+
+    expect(result.sentiment).toBeGreaterThan(0.3);
+    expect(result.frustration).toBe(0.1);
+    expect(result.scorer).toBe('lexicon');
+  });
+
+  it('scores neutral messages as zero', async () => {
+    expect(await scorer.score('Qual é o valor da fatura?')).toEqual({ sentiment: 0, frustration: 0, scorer: 'lexicon' });
+  });
+
+  it('flips and softens negated words', async () => {
+    const liked = await scorer.score('gostei');
+    const notLiked = await scorer.score('não gostei');
+
+    expect(liked.sentiment).toBeGreaterThan(0);
+    expect(notLiked.sentiment).toBeLessThan(0);
+    expect(Math.abs(notLiked.sentiment)).toBeLessThan(liked.sentiment);
+  });
+
+  it('strengthens intensified words', async () => {
+    const bad = await scorer.score('ruim');
+    const veryBad = await scorer.score('muito ruim');
+
+    expect(veryBad.sentiment).toBeLessThan(bad.sentiment);
+  });
+
+  it('reads fed-up phrases, shouting and emphatic punctuation as frustration', async () => {
+    const calm = await scorer.score('isso é ruim');
+    const fedUp = await scorer.score('JÁ FALEI QUE PAGUEI, QUE ABSURDO!!');
+
+    expect(fedUp.frustration).toBeGreaterThan(calm.frustration);
+    expect(fedUp.frustration).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('keeps scores within bounds', async () => {
+    const result = await scorer.score('PÉSSIMO, HORRÍVEL, RIDÍCULO, VERGONHA, vou no procon e no reclame aqui, ninguém resolve!!!');
+
+    expect(result.sentiment).toBeGreaterThanOrEqual(-1);
+    expect(result.frustration).toBe(1);
+  });
+});
+
+describe('SentimentService.rollUp', () => {
+  const service = new SentimentService(new LexiconSentimentScorer(), 0.6);
+
+  it('averages sentiment over the session', () => {
+    expect(service.rollUp([score(0.5, 0), score(-0.1, 0), score(0.2, 0)]).sentimentScore).toBe(0.2);
+  });
+
+  it('smooths frustration so the latest messages weigh most', () => {
+    // Calming: 0.8, then 0.5 * 0.2 + 0.5 * 0.8 = 0.5, then 0.5 * 0 + 0.5 * 0.5 = 0.25
+    const rising = service.rollUp([score(0, 0), score(0, 0), score(0, 0.8)]);
+    const calming = service.rollUp([score(0, 0.8), score(0, 0.2), score(0, 0)]);
+
+    expect(rising.frustrationScore).toBe(0.4);
+    expect(calming.frustrationScore).toBe(0.25);
+  });
+
+  it('starts from the first message', () => {
+    expect(service.rollUp([score(-0.4, 0.7)])).toEqual({ sentimentScore: -0.4, frustrationScore: 0.7, scoredMessages: 1 });
+  });
+
+  it('rolls up an unscored session as neutral', () => {
+    expect(service.rollUp([])).toEqual({ sentimentScore: 0, frustrationScore: 0, scoredMessages: 0 });
+  });
+});
+
+describe('SentimentService.scoreMessage', () => {
+  it('leaves the message unscored when the scorer fails', async () => {
+    const service = new SentimentService({ name: 'lexicon', score: () => Promise.reject(new Error('boom')) }, 0.6);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await service.scoreMessage('oi')).toBeUndefined();
+  });
+});
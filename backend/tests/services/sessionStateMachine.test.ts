@@ -0,0 +1,42 @@
+import { SESSION_TRANSITIONS, canTransition, isFinalState } from '../../src/services/sessionStateMachine';
+import { ChatSessionStatus } from '../../src/models/chatSession';
+
+const STATES = Object.keys(SESSION_TRANSITIONS) as ChatSessionStatus[];
+
+describe('SESSION_TRANSITIONS', () => {
+  it('only leads to known states', () => {
+    for (const state of STATES) {
+      for (const next of SESSION_TRANSITIONS[state]) {
+        expect(STATES).toContain(next);
+      }
+    }
+  });
+
+  it('never goes back to initiated', () => {
+    for (const state of STATES) {
+      expect(canTransition(state, 'initiated')).toBe(false);
+    }
+  });
+
+  it('lets every open session be escalated, completed or abandoned', () => {
+    for (const state of STATES.filter(state => !isFinalState(state))) {
+      if (state !== 'escalated') expect(canTransition(state, 'escalated')).toBe(true);
+      expect(canTransition(state, 'completed')).toBe(true);
+      expect(canTransition(state, 'abandoned')).toBe(true);
+    }
+  });
+
+  it('treats only completed and abandoned as final', () => {
+    expect(STATES.filter(isFinalState)).toEqual(['completed', 'abandoned']);
+  });
+
+  it('hands an escalated session back to the AI as in-progress', () => {
+    expect(canTransition('escalated', 'in-progress')).toBe(true);
+    expect(canTransition('escalated', 'active')).toBe(false);
+  });
+
+  it('only reaches payment-processing through a payment request', () => {
+    const sources = STATES.filter(state => canTransition(state, 'payment-processing'));
+    expect(sources).toEqual(['payment-requested']);
+  });
+});
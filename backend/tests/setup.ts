@@ -1,5 +1,12 @@
 import { beforeEach, afterEach, beforeAll, afterAll } from '@jest/globals';
 
+// Unit tests never reach the database: services get a client without models,
+// and a test that needs queries mocks the ones it uses
+jest.mock('../src/lib/prisma', () => {
+  const prisma = {};
+  return { __esModule: true, prisma, default: prisma };
+});
+
 // Test environment setup
 beforeAll(async () => {
   // Set test environment variables
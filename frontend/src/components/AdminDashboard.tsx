@@ -2,12 +2,18 @@ import React, { useEffect, useState } from 'react';
 import { Customer } from '../types/customer';
 import CustomerCard from './CustomerCard';
 import QueueDashboard from './QueueDashboard';
-import { Users, List } from 'lucide-react'; // Using lucide-react for icons
+import HumanHandoffPanel from './HumanHandoffPanel';
+import ReceiptReviewPanel from './ReceiptReviewPanel';
+import SecurityReviewPanel from './SecurityReviewPanel';
+import DeliveryTicks from './DeliveryTicks';
+import { useLastAgentMessages } from '../hooks/useLastAgentMessages';
+import { Users, List, Headphones, Receipt, ShieldAlert } from 'lucide-react'; // Using lucide-react for icons
 
 const AdminDashboard: React.FC = () => {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [activeSessions, setActiveSessions] = useState<string[]>([]);
-  const [activeTab, setActiveTab] = useState<'manual' | 'queue'>('queue');
+  const [activeTab, setActiveTab] = useState<'manual' | 'queue' | 'handoff' | 'receipts' | 'security'>('queue');
+  const lastAgentMessages = useLastAgentMessages(activeTab === 'manual' ? activeSessions : []);
 
   useEffect(() => {
     const fetchCustomers = async () => {
@@ -46,6 +52,39 @@ const AdminDashboard: React.FC = () => {
               <List className="w-5 h-5 mr-2" />
               AI Queue Management
             </button>
+            <button
+              onClick={() => setActiveTab('handoff')}
+              className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ease-in-out ${
+                activeTab === 'handoff'
+                  ? 'bg-white/20 text-white shadow-md'
+                  : 'text-gray-300 hover:bg-white/10'
+              }`}
+            >
+              <Headphones className="w-5 h-5 mr-2" />
+              Human Handoff
+            </button>
+            <button
+              onClick={() => setActiveTab('receipts')}
+              className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ease-in-out ${
+                activeTab === 'receipts'
+                  ? 'bg-white/20 text-white shadow-md'
+                  : 'text-gray-300 hover:bg-white/10'
+              }`}
+            >
+              <Receipt className="w-5 h-5 mr-2" />
+              Receipts
+            </button>
+            <button
+              onClick={() => setActiveTab('security')}
+              className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ease-in-out ${
+                activeTab === 'security'
+                  ? 'bg-white/20 text-white shadow-md'
+                  : 'text-gray-300 hover:bg-white/10'
+              }`}
+            >
+              <ShieldAlert className="w-5 h-5 mr-2" />
+              Security
+            </button>
             <button
               onClick={() => setActiveTab('manual')}
               className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ease-in-out ${
@@ -63,6 +102,12 @@ const AdminDashboard: React.FC = () => {
         <main>
           {activeTab === 'queue' ? (
             <QueueDashboard />
+          ) : activeTab === 'handoff' ? (
+            <HumanHandoffPanel />
+          ) : activeTab === 'receipts' ? (
+            <ReceiptReviewPanel />
+          ) : activeTab === 'security' ? (
+            <SecurityReviewPanel />
           ) : (
             <div>
               {activeSessions.length > 0 && (
@@ -72,11 +117,20 @@ const AdminDashboard: React.FC = () => {
                     {activeSessions.length} session(s) currently active.
                   </p>
                   <div className="mt-3 space-y-2">
-                    {activeSessions.map((sessionId, index) => (
-                      <div key={sessionId} className="text-sm text-blue-200 bg-blue-500/20 rounded px-3 py-1">
-                        <span className="font-semibold">Session {index + 1}:</span> {sessionId}
-                      </div>
-                    ))}
+                    {activeSessions.map((sessionId, index) => {
+                      const lastMessage = lastAgentMessages[sessionId];
+                      return (
+                        <div key={sessionId} className="text-sm text-blue-200 bg-blue-500/20 rounded px-3 py-1">
+                          <span className="font-semibold">Session {index + 1}:</span> {sessionId}
+                          {lastMessage && (
+                            <div className="flex items-center text-xs text-blue-300">
+                              <span className="truncate">{lastMessage.content}</span>
+                              <DeliveryTicks message={lastMessage} />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               )}
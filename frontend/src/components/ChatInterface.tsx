@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
-import ChatMessage from '../../../backend/src/models/chatMessage';
+import ChatMessage, { ChatAction, PaymentMethodOption, PaymentPlanOption } from '../../../backend/src/models/chatMessage';
 import InvoiceCard from './InvoiceCard';
 
 interface ChatInterfaceProps {
@@ -14,8 +14,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
   const [input, setInput] = useState('');
   const [connected, setConnected] = useState(false);
   const [typing, setTyping] = useState(false);
+  // Set while a human agent has taken over the conversation
+  const [humanAgentName, setHumanAgentName] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
   const socketRef = useRef<Socket | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Agent messages already reported as read, and streamed replies not stored yet
+  const reportedReadRef = useRef<Set<string>>(new Set());
+  const streamingIdsRef = useRef<Set<string>>(new Set());
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -25,6 +33,27 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
     scrollToBottom();
   }, [messages]);
 
+  // Agent messages count as read while the page is visible
+  useEffect(() => {
+    const reportRead = () => {
+      if (document.visibilityState !== 'visible' || !connected) return;
+
+      const messageIds = messages
+        .filter((msg) => (msg.sender === 'ai' || msg.sender === 'human')
+          && !reportedReadRef.current.has(msg.id)
+          && !streamingIdsRef.current.has(msg.id))
+        .map((msg) => msg.id);
+      if (messageIds.length === 0) return;
+
+      messageIds.forEach((id) => reportedReadRef.current.add(id));
+      socketRef.current?.emit('messages-read', { sessionId, messageIds });
+    };
+
+    reportRead();
+    document.addEventListener('visibilitychange', reportRead);
+    return () => document.removeEventListener('visibilitychange', reportRead);
+  }, [messages, connected, sessionId]);
+
   useEffect(() => {
     // Updated to use Render backend
     socketRef.current = io('https://hackthon-bemobi-1.onrender.com');
@@ -37,21 +66,51 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
       console.log('Disconnected from server');
       setConnected(false);
     });
-    socketRef.current.on('receive-message', (message: ChatMessage) => {
-      // If this is an agent message, show typing indicator first, then show message after delay
-      if (message.sender === 'ai') {
-        setTyping(true);
-        setTimeout(() => {
-          setMessages((prevMessages) => [...prevMessages, message]);
-          setTyping(false);
-        }, 1500); // 1.5 second typing delay for agent messages
-      } else {
-        // For customer messages, show immediately
-        setMessages((prevMessages) => [...prevMessages, message]);
+    // Agent messages ask for an acknowledgement, which marks them delivered
+    socketRef.current.on('receive-message', (message: ChatMessage, ack?: () => void) => {
+      ack?.();
+      setMessages((prevMessages) => [...prevMessages, message]);
+      if (message.sender === 'ai' || message.sender === 'human') {
         setTyping(false);
       }
     });
-    socketRef.current.on('chat-initiated', (data: { sessionId: string; customerName: string; initialMessage: ChatMessage }) => {
+    socketRef.current.on('handoff-status', (data: { event: string; agentName?: string | null }) => {
+      setHumanAgentName(data.event === 'claimed' ? data.agentName || 'Atendente' : null);
+    });
+    // Agent replies are streamed: chunks grow a draft bubble, which the final message replaces
+    socketRef.current.on('message-chunk', (data: { sessionId: string; messageId: string; delta: string }) => {
+      setTyping(false);
+      streamingIdsRef.current.add(data.messageId);
+      setMessages((prevMessages) => {
+        const draft = prevMessages.find((msg) => msg.id === data.messageId);
+        if (!draft) {
+          return [...prevMessages, new ChatMessage({
+            id: data.messageId,
+            chatSessionId: data.sessionId,
+            sender: 'ai',
+            content: data.delta,
+            timestamp: new Date(),
+            messageType: 'response'
+          })];
+        }
+        return prevMessages.map((msg) =>
+          msg.id === data.messageId ? new ChatMessage({ ...msg, content: msg.content + data.delta }) : msg
+        );
+      });
+    });
+    socketRef.current.on('message-complete', (data: { sessionId: string; messageId: string; message: ChatMessage }, ack?: () => void) => {
+      ack?.();
+      setTyping(false);
+      streamingIdsRef.current.delete(data.messageId);
+      setMessages((prevMessages) => {
+        const hasDraft = prevMessages.some((msg) => msg.id === data.messageId);
+        return hasDraft
+          ? prevMessages.map((msg) => (msg.id === data.messageId ? data.message : msg))
+          : [...prevMessages, data.message];
+      });
+    });
+    socketRef.current.on('chat-initiated', (data: { sessionId: string; customerName: string; initialMessage: ChatMessage }, ack?: () => void) => {
+      ack?.();
       setMessages([data.initialMessage]);
 
       // Show typing indicator for the upcoming invoice card after a small delay
@@ -87,6 +146,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
 
     const messageContent = input;
     setInput('');
+    setTyping(true);
 
     try {
       const response = await fetch('https://hackthon-bemobi-1.onrender.com/api/chat/send-message', {
@@ -96,13 +156,103 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
       });
       if (!response.ok) {
         console.error('Failed to send message');
+        setTyping(false);
+        return;
+      }
+      // No AI reply while a human agent is handling the conversation
+      const data = await response.json();
+      if (!data.aiResponse) {
+        setTyping(false);
       }
     } catch (error) {
       console.error('Error sending message:', error);
+      setTyping(false);
+    }
+  };
+
+  // Voice notes are recorded in the browser and sent whole when the customer stops
+  const sendVoiceNote = async (audio: Blob) => {
+    setTyping(true);
+    try {
+      const response = await fetch(`https://hackthon-bemobi-1.onrender.com/api/chat/sessions/${sessionId}/audio`, {
+        method: 'POST',
+        headers: { 'Content-Type': audio.type || 'audio/webm' },
+        body: audio,
+      });
+      if (!response.ok) {
+        console.error('Failed to send voice note');
+        setTyping(false);
+        return;
+      }
+      const data = await response.json();
+      if (!data.aiResponse) {
+        setTyping(false);
+      }
+    } catch (error) {
+      console.error('Error sending voice note:', error);
+      setTyping(false);
+    }
+  };
+
+  // Payment receipts (comprovantes) go to supervisor review; the agent acknowledges them
+  const sendReceipt = async (file: File) => {
+    setTyping(true);
+    try {
+      const response = await fetch(`https://hackthon-bemobi-1.onrender.com/api/chat/sessions/${sessionId}/receipts?fileName=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      if (!response.ok) {
+        console.error('Failed to send receipt');
+        setTyping(false);
+        return;
+      }
+      const data = await response.json();
+      if (!data.aiResponse) {
+        setTyping(false);
+      }
+    } catch (error) {
+      console.error('Error sending receipt:', error);
+      setTyping(false);
+    }
+  };
+
+  const handleReceiptSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      sendReceipt(file);
     }
   };
 
-  const handlePaymentMethodSelection = async (method: 'credit' | 'pix' | 'boleto') => {
+  const handleToggleRecording = async () => {
+    if (recording) {
+      recorderRef.current?.stop();
+      setRecording(false);
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        if (chunks.length > 0) {
+          sendVoiceNote(new Blob(chunks, { type: recorder.mimeType }));
+        }
+      };
+      recorder.start();
+      recorderRef.current = recorder;
+      setRecording(true);
+    } catch (error) {
+      console.error('Microphone unavailable:', error);
+    }
+  };
+
+  const handlePaymentMethodSelection = async (method: PaymentMethodOption) => {
     const methodNames = { 'credit': 'Cartão de Crédito', 'pix': 'Pix', 'boleto': 'Boleto' };
     const paymentMethodMessage = new ChatMessage({
       id: `payment-method-${Date.now()}`,
@@ -140,26 +290,114 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
     }
   };
 
-  const parseInvoiceData = (content: string) => {
+  const formatMoney = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+  const describePlan = (plan: PaymentPlanOption) => {
+    if (plan.id === 'full') {
+      return plan.discountPercent > 0
+        ? `À vista: ${formatMoney(plan.totalAmount)} (${plan.discountPercent}% de desconto)`
+        : `À vista: ${formatMoney(plan.totalAmount)}`;
+    }
+    if (plan.id === 'extension') {
+      return `Pagar ${formatMoney(plan.totalAmount)} em ${new Date(`${plan.firstDueDate}T12:00:00`).toLocaleDateString('pt-BR')}`;
+    }
+    const downPayment = plan.downPayment > 0 ? `Entrada de ${formatMoney(plan.downPayment)} + ` : '';
+    return `${downPayment}${plan.installments}x de ${formatMoney(plan.installmentAmount)}`;
+  };
+
+  const handlePlanSelection = async (plan: PaymentPlanOption) => {
+    const planMessage = new ChatMessage({
+      id: `payment-plan-${Date.now()}`,
+      chatSessionId: sessionId,
+      sender: 'customer',
+      content: `Escolhi: ${describePlan(plan)}`,
+      timestamp: new Date(),
+      messageType: 'question'
+    });
+    setMessages(prev => [...prev, planMessage]);
+    setTyping(true);
+
     try {
-      const jsonStart = content.indexOf('{');
-      const jsonEnd = content.lastIndexOf('}') + 1;
-      if (jsonStart !== -1 && jsonEnd > jsonStart) {
-        const jsonStr = content.slice(jsonStart, jsonEnd);
-        return JSON.parse(jsonStr);
+      const response = await fetch('https://hackthon-bemobi-1.onrender.com/api/chat/accept-plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, planId: plan.id }),
+      });
+      setTyping(false);
+      if (!response.ok) {
+        throw new Error('Plan not accepted');
       }
     } catch (error) {
-      console.error('Error parsing invoice data:', error);
+      setTyping(false);
+      const errorMessage = new ChatMessage({
+        id: `payment-plan-error-${Date.now()}`,
+        chatSessionId: sessionId,
+        sender: 'ai',
+        content: 'Essa condição não está mais disponível. Posso te mostrar as opções atualizadas?',
+        timestamp: new Date(),
+        messageType: 'error'
+      });
+      setMessages(prev => [...prev, errorMessage]);
     }
-    return null;
   };
 
   const formatTimestamp = (timestamp: Date) => {
     return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const INVOICE_TRIGGER = '[INVOICE_CARD]';
-  const PAYMENT_TRIGGER = '[PAYMENT_BUTTON]';
+  const paymentButtons: Record<PaymentMethodOption, { label: string; className: string }> = {
+    credit: { label: '💳 Cartão de Crédito', className: 'bg-blue-500 hover:bg-blue-600' },
+    pix: { label: '💰 Pix', className: 'bg-teal-500 hover:bg-teal-600' },
+    boleto: { label: '📄 Boleto', className: 'bg-blue-600 hover:bg-blue-700' },
+  };
+
+  // Renders the structured action attached to an agent message
+  const renderAction = (action: ChatAction, content: string) => {
+    switch (action.type) {
+      case 'send_invoice':
+        return (
+          <InvoiceCard
+            {...action.payload}
+            customerName={action.payload.customerName || customerName || 'Cliente'}
+            onPaymentMethod={handlePaymentMethodSelection}
+          />
+        );
+      case 'show_payment_options':
+        return (
+          <div className="flex flex-col space-y-2">
+            <p className="text-sm mb-2">{content}</p>
+            {action.payload.methods.map((method) => (
+              <button
+                key={method}
+                onClick={() => handlePaymentMethodSelection(method)}
+                className={`w-full text-white py-3 rounded-md font-medium transition-colors ${paymentButtons[method].className}`}
+              >
+                {paymentButtons[method].label}
+              </button>
+            ))}
+          </div>
+        );
+      case 'offer_installments':
+        return (
+          <div className="flex flex-col space-y-2">
+            <p className="text-sm mb-2">{content}</p>
+            {action.payload.plans.map((plan) => (
+              <button
+                key={plan.id}
+                onClick={() => handlePlanSelection(plan)}
+                className={`w-full text-white py-3 rounded-md font-medium transition-colors ${paymentButtons.credit.className}`}
+              >
+                {describePlan(plan)}
+              </button>
+            ))}
+          </div>
+        );
+      case 'escalate_to_human':
+      case 'close_conversation':
+      case 'record_payment_promise':
+        return <p className="whitespace-pre-wrap italic">{content}</p>;
+    }
+  };
 
   return (
     <div className="flex flex-col w-full h-full rounded-lg shadow-lg">
@@ -172,7 +410,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
           <div>
             <h3 className="font-semibold">Bemobi Atendimento</h3>
             <p className="text-sm opacity-90">
-              {connected ? 'online' : 'conectando...'}
+              {!connected ? 'conectando...' : humanAgentName ? `${humanAgentName} (atendente)` : 'online'}
             </p>
           </div>
         </div>
@@ -182,7 +420,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
       <div className="flex-grow p-4 overflow-y-auto space-y-2 chat-background">
         {messages.map((msg) => {
             // Determina as classes da bolha de mensagem com base no remetente
-            const isAI = msg.sender === 'ai';
+            const isAI = msg.sender === 'ai' || msg.sender === 'human';
             const isSystem = msg.messageType === 'error';
 
             const bubbleClass = isSystem
@@ -204,42 +442,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
             return (
               <div key={msg.id} className={`flex ${justifyContent}`}>
                 <div className={`message-bubble ${bubbleClass}`}>
-                  {msg.content.includes(INVOICE_TRIGGER) ? (
-                    (() => {
-                      const invoiceData = parseInvoiceData(msg.content);
-                      return invoiceData ? (
-                        <InvoiceCard
-                          customerName={invoiceData.customerName || customerName || 'Cliente'}
-                          accountNumber={invoiceData.accountNumber || '123423453'}
-                          brandName={invoiceData.brandName || 'Sua Marca'}
-                          dueDate={invoiceData.dueDate || '11/10/2025'}
-                          amount={invoiceData.amount || 200.00}
-                          billPeriod={invoiceData.billPeriod || 'dezembro'}
-                          onPaymentMethod={handlePaymentMethodSelection}
-                        />
-                      ) : <p className="whitespace-pre-wrap">{msg.content.replace(INVOICE_TRIGGER, '').trim()}</p>;
-                    })()
-                  ) : msg.content.includes(PAYMENT_TRIGGER) ? (
-                    <div className="flex flex-col space-y-2">
-                      <p className="text-sm mb-2">Como você gostaria de pagar?</p>
-                      <button
-                        onClick={() => handlePaymentMethodSelection('credit')}
-                        className="w-full bg-blue-500 text-white py-3 rounded-md font-medium hover:bg-blue-600 transition-colors"
-                      >
-                        💳 Cartão de Crédito em até 24x
-                      </button>
-                      <button
-                        onClick={() => handlePaymentMethodSelection('pix')}
-                        className="w-full bg-teal-500 text-white py-3 rounded-md font-medium hover:bg-teal-600 transition-colors"
-                      >
-                        💰 Pix
-                      </button>
-                      <button
-                        onClick={() => handlePaymentMethodSelection('boleto')}
-                        className="w-full bg-blue-600 text-white py-3 rounded-md font-medium hover:bg-blue-700 transition-colors"
-                      >
-                        📄 Boleto
-                      </button>
+                  {msg.sender === 'human' && (
+                    <p className="text-xs font-semibold mb-1" style={{ color: 'var(--whatsapp-header)' }}>
+                      {msg.metadata?.humanAgent?.name || 'Atendente'}
+                    </p>
+                  )}
+                  {msg.metadata?.action ? (
+                    renderAction(msg.metadata.action, msg.content)
+                  ) : msg.metadata?.audio ? (
+                    <audio controls src={`https://hackthon-bemobi-1.onrender.com/api/chat/messages/${msg.id}/audio`} className="max-w-full" />
+                  ) : msg.metadata?.receipt ? (
+                    <div className="flex items-center space-x-2">
+                      <svg className="w-8 h-8 flex-shrink-0" fill="currentColor" viewBox="0 0 24 24" style={{ color: 'var(--whatsapp-header)' }}>
+                        <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6zm-1 7V3.5L18.5 9H13z" />
+                      </svg>
+                      <div className="min-w-0">
+                        <p className="truncate">{msg.metadata.receipt.fileName || 'Comprovante'}</p>
+                        <p className="text-xs" style={{ color: 'var(--whatsapp-text-meta)' }}>
+                          {msg.metadata.receipt.contentType === 'application/pdf' ? 'PDF' : 'Imagem'} · {Math.max(1, Math.round(msg.metadata.receipt.sizeBytes / 1024))} KB
+                        </p>
+                      </div>
                     </div>
                   ) : (
                     <p className="whitespace-pre-wrap">{msg.content}</p>
@@ -269,26 +491,58 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ sessionId, customerId, cu
       {/* Área de Input no estilo WhatsApp */}
       <div className="p-3 border-t" style={{ backgroundColor: 'var(--whatsapp-input-bg)' }}>
         <div className="flex items-center space-x-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,application/pdf"
+            onChange={handleReceiptSelected}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!connected || recording}
+            title="Enviar comprovante"
+            className="w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0"
+            style={{ color: 'var(--whatsapp-text-meta)' }}
+          >
+            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M16.5 6v11.5a4 4 0 0 1-8 0V5a2.5 2.5 0 0 1 5 0v10.5a1 1 0 0 1-2 0V6H10v9.5a2.5 2.5 0 0 0 5 0V5a4 4 0 0 0-8 0v12.5a5.5 5.5 0 0 0 11 0V6h-1.5z" />
+            </svg>
+          </button>
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
             className="flex-grow text-black p-3 border-none rounded-full focus:ring-2 focus:ring-green-500"
-            placeholder={connected ? "Digite sua mensagem" : "Conectando..."}
-            disabled={!connected}
+            placeholder={!connected ? "Conectando..." : recording ? "Gravando áudio..." : "Digite sua mensagem"}
+            disabled={!connected || recording}
             style={{ backgroundColor: 'var(--whatsapp-bubble-in)' }}
           />
-          <button
-            onClick={handleSendMessage}
-            disabled={!connected || input.trim() === ''}
-            className="w-12 h-12 rounded-full flex items-center justify-center transition-colors"
-            style={{ backgroundColor: 'var(--whatsapp-header)' }}
-          >
-            <svg className="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 24 24">
-              <path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z" />
-            </svg>
-          </button>
+          {input.trim() === '' ? (
+            <button
+              onClick={handleToggleRecording}
+              disabled={!connected}
+              title={recording ? 'Enviar áudio' : 'Gravar áudio'}
+              className={`w-12 h-12 rounded-full flex items-center justify-center transition-colors ${recording ? 'animate-pulse' : ''}`}
+              style={{ backgroundColor: recording ? '#dc2626' : 'var(--whatsapp-header)' }}
+            >
+              <svg className="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M12 14a3 3 0 0 0 3-3V5a3 3 0 0 0-6 0v6a3 3 0 0 0 3 3zm5-3a5 5 0 0 1-10 0H5a7 7 0 0 0 6 6.92V21h2v-3.08A7 7 0 0 0 19 11h-2z" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!connected}
+              className="w-12 h-12 rounded-full flex items-center justify-center transition-colors"
+              style={{ backgroundColor: 'var(--whatsapp-header)' }}
+            >
+              <svg className="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M2.01 21L23 12 2.01 3 2 10l15 2-15 2z" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Check, CheckCheck } from 'lucide-react';
+import { ChatMessage, MessageStatusUpdate } from '../types/chatMessage';
+
+// Applies a message-status event to the messages it names
+export const applyMessageStatus = (messages: ChatMessage[], update: MessageStatusUpdate): ChatMessage[] => {
+  const field = update.status === 'read' ? 'readAt' : 'deliveredAt';
+  return messages.map((msg) => (
+    update.messageIds.includes(msg.id)
+      ? { ...msg, deliveredAt: msg.deliveredAt || update.timestamp, [field]: update.timestamp }
+      : msg
+  ));
+};
+
+// WhatsApp-style ticks for the agent's messages: one grey tick once stored,
+// two grey ones once the customer's chat got it, two blue ones once read
+const DeliveryTicks: React.FC<{ message: ChatMessage }> = ({ message }) => {
+  if (message.readAt) return <CheckCheck className="inline w-4 h-4 ml-1 text-sky-400" aria-label="Read" />;
+  if (message.deliveredAt) return <CheckCheck className="inline w-4 h-4 ml-1 text-gray-400" aria-label="Delivered" />;
+  return <Check className="inline w-4 h-4 ml-1 text-gray-400" aria-label="Sent" />;
+};
+
+export default DeliveryTicks;
@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { ChatMessage, MessageStatusUpdate } from '../types/chatMessage';
+import { HandoffQueueEntry, HandoffEvent, HandoffEventData } from '../types/handoff';
+import DeliveryTicks, { applyMessageStatus } from './DeliveryTicks';
+
+const API_URL = 'https://hackthon-bemobi-1.onrender.com';
+
+const triggerLabels: Record<string, string> = {
+  customer_request: 'Asked for an agent',
+  intent: 'Sensitive intent',
+  frustration: 'Frustrated',
+  loop: 'Conversation loop',
+  agent: 'AI handoff',
+  supervisor: 'Supervisor',
+  receipt_rejected: 'Receipt rejected',
+};
+
+// Conversations escalated away from the AI. An agent claims one, replies to
+// the customer in real time and either closes it or returns it to the AI.
+const HumanHandoffPanel: React.FC = () => {
+  const [queue, setQueue] = useState<HandoffQueueEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [reply, setReply] = useState('');
+  const [agentName, setAgentName] = useState(() => localStorage.getItem('handoffAgentName') || 'Atendente');
+  const [error, setError] = useState<string | null>(null);
+  const socketRef = useRef<Socket | null>(null);
+  const selectedIdRef = useRef<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const agentId = `agent-${agentName.trim().toLowerCase().replace(/\s+/g, '-')}`;
+  const selected = queue.find((entry) => entry.sessionId === selectedId) || null;
+  const heldByMe = selected?.humanAgentId === agentId;
+
+  const fetchQueue = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/admin/handoff/queue`);
+      if (response.ok) {
+        setQueue(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching handoff queue:', error);
+    }
+  };
+
+  useEffect(() => {
+    const socket = io(API_URL);
+    socketRef.current = socket;
+
+    socket.on('connect', () => {
+      socket.emit('join-queue-monitoring');
+      if (selectedIdRef.current) socket.emit('join-chat', selectedIdRef.current);
+    });
+
+    socket.on('handoff-event', (eventData: { event: HandoffEvent; data: HandoffEventData }) => {
+      console.log('Handoff event:', eventData);
+      fetchQueue();
+    });
+
+    // Only the open conversation is shown; rooms joined earlier are ignored
+    socket.on('receive-message', (message: ChatMessage) => {
+      if (message.chatSessionId !== selectedIdRef.current) return;
+      setMessages((prev) => (prev.some((msg) => msg.id === message.id) ? prev : [...prev, message]));
+    });
+    socket.on('message-complete', (data: { sessionId: string; message: ChatMessage }) => {
+      if (data.sessionId !== selectedIdRef.current) return;
+      setMessages((prev) => [...prev, data.message]);
+    });
+    socket.on('message-status', (update: MessageStatusUpdate) => {
+      if (update.sessionId !== selectedIdRef.current) return;
+      setMessages((prev) => applyMessageStatus(prev, update));
+    });
+
+    fetchQueue();
+
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  useEffect(() => {
+    localStorage.setItem('handoffAgentName', agentName);
+  }, [agentName]);
+
+  const openSession = async (sessionId: string) => {
+    setSelectedId(sessionId);
+    selectedIdRef.current = sessionId;
+    setMessages([]);
+    setError(null);
+    socketRef.current?.emit('join-chat', sessionId);
+
+    try {
+      const response = await fetch(`${API_URL}/api/chat/sessions/${sessionId}`);
+      if (response.ok) {
+        const session = await response.json();
+        setMessages(session.messages || []);
+      }
+    } catch (error) {
+      console.error('Error fetching chat session:', error);
+    }
+  };
+
+  // Every handoff action is sent with the agent's identity
+  const postAction = async (action: 'claim' | 'release' | 'close' | 'messages', body: Record<string, unknown> = {}) => {
+    if (!selectedId) return false;
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/admin/handoff/${selectedId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ agentId, agentName: agentName.trim(), ...body }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Request failed');
+        return false;
+      }
+      await fetchQueue();
+      return true;
+    } catch (error) {
+      console.error(`Error on handoff ${action}:`, error);
+      setError('Request failed');
+      return false;
+    }
+  };
+
+  const handleSend = async () => {
+    if (reply.trim() === '') return;
+    const content = reply;
+    setReply('');
+    const sent = await postAction('messages', { content });
+    if (!sent) setReply(content);
+  };
+
+  const handleFinish = async (action: 'release' | 'close') => {
+    if (await postAction(action)) {
+      setSelectedId(null);
+      selectedIdRef.current = null;
+      setMessages([]);
+    }
+  };
+
+  const formatTime = (dateString: string | Date | null) => {
+    return dateString ? new Date(dateString).toLocaleTimeString() : '';
+  };
+
+  const senderStyles: Record<string, string> = {
+    customer: 'bg-white/10 text-gray-100 self-start',
+    ai: 'bg-blue-500/20 text-blue-100 self-end',
+    human: 'bg-green-500/20 text-green-100 self-end',
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Handoff Queue */}
+      <div className="bg-white/5 backdrop-blur-lg rounded-xl border border-white/10 overflow-hidden">
+        <div className="p-4 border-b border-white/10 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-200">Waiting for an Agent ({queue.filter((entry) => !entry.humanAgentId).length})</h3>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Your name</label>
+            <input
+              type="text"
+              value={agentName}
+              onChange={(e) => setAgentName(e.target.value)}
+              className="block w-full bg-white/10 border-white/20 rounded-md px-3 py-2 text-sm text-gray-200"
+            />
+          </div>
+        </div>
+        <div className="divide-y divide-white/10">
+          {queue.map((entry) => (
+            <button
+              key={entry.sessionId}
+              onClick={() => openSession(entry.sessionId)}
+              className={`w-full text-left p-4 transition-colors hover:bg-white/5 ${entry.sessionId === selectedId ? 'bg-white/10' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-200">{entry.customerName}</span>
+                <span className="text-xs text-gray-500">{formatTime(entry.escalatedAt)}</span>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-2">
+                <span className="px-2 py-0.5 text-xs rounded-full bg-orange-500/20 text-orange-300">
+                  {triggerLabels[entry.trigger || ''] || entry.trigger}
+                </span>
+                {entry.humanAgentName ? (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-green-500/20 text-green-300">{entry.humanAgentName}</span>
+                ) : (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-red-500/20 text-red-300">Unassigned</span>
+                )}
+              </div>
+              {entry.lastMessage && (
+                <p className="mt-1 text-sm text-gray-400 italic truncate">"{entry.lastMessage}"</p>
+              )}
+            </button>
+          ))}
+          {queue.length === 0 && (
+            <p className="p-6 text-center text-gray-400">No escalated conversations</p>
+          )}
+        </div>
+      </div>
+
+      {/* Conversation */}
+      <div className="lg:col-span-2 bg-white/5 backdrop-blur-lg rounded-xl border border-white/10 flex flex-col min-h-[32rem]">
+        {selected ? (
+          <>
+            <div className="p-4 border-b border-white/10 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-200">{selected.customerName}</h3>
+                <p className="text-xs text-gray-400">
+                  {selected.serviceProvider} · {selected.reason}
+                  {selected.frustrationScore !== null && ` · Frustration ${Math.round(selected.frustrationScore * 100)}%`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                {!selected.humanAgentId && (
+                  <button
+                    onClick={() => postAction('claim')}
+                    className="px-3 py-1 bg-green-500/50 text-white rounded-lg hover:bg-green-500/80 border border-green-400/50 transition"
+                  >
+                    Take Over
+                  </button>
+                )}
+                <button
+                  onClick={() => handleFinish('release')}
+                  disabled={!!selected.humanAgentId && !heldByMe}
+                  className="px-3 py-1 bg-blue-500/50 text-white rounded-lg hover:bg-blue-500/80 border border-blue-400/50 transition disabled:opacity-40"
+                >
+                  Return to AI
+                </button>
+                <button
+                  onClick={() => handleFinish('close')}
+                  disabled={!!selected.humanAgentId && !heldByMe}
+                  className="px-3 py-1 bg-red-500/50 text-white rounded-lg hover:bg-red-500/80 border border-red-400/50 transition disabled:opacity-40"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-grow p-4 overflow-y-auto flex flex-col space-y-2 max-h-[28rem]">
+              {messages.map((msg) => (
+                <div key={msg.id} className={`max-w-[75%] rounded-lg px-3 py-2 ${senderStyles[msg.sender] || senderStyles.customer}`}>
+                  <p className="text-xs font-semibold opacity-70 mb-1">
+                    {msg.sender === 'human' ? msg.metadata?.humanAgent?.name || 'Agent' : msg.sender === 'ai' ? 'AI' : selected.customerName}
+                    {msg.metadata?.injection?.flagged && <span className="ml-2 text-red-300">Flagged: prompt injection</span>}
+                  </p>
+                  {msg.metadata?.audio ? (
+                    <>
+                      <audio controls src={`${API_URL}/api/chat/messages/${msg.id}/audio`} className="max-w-full" />
+                      <p className="text-sm whitespace-pre-wrap mt-1">
+                        {msg.metadata.audio.transcript
+                          ? <><span className="text-xs opacity-70">Transcript: </span>{msg.metadata.audio.transcript}</>
+                          : <span className="italic opacity-70">Transcription unavailable</span>}
+                      </p>
+                    </>
+                  ) : msg.metadata?.receipt ? (
+                    <a
+                      href={`${API_URL}/api/admin/receipts/${msg.metadata.receipt.receiptId}/file`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-sm underline"
+                    >
+                      {msg.content}
+                    </a>
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                  )}
+                  <p className="text-right text-xs mt-1">
+                    <span className="opacity-50">{formatTime(msg.timestamp)}</span>
+                    {(msg.sender === 'ai' || msg.sender === 'human') && <DeliveryTicks message={msg} />}
+                  </p>
+                </div>
+              ))}
+              <div ref={messagesEndRef} />
+            </div>
+
+            {error && <p className="px-4 text-sm text-red-300">{error}</p>}
+
+            <div className="p-4 border-t border-white/10 flex space-x-2">
+              <input
+                type="text"
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+                disabled={!heldByMe}
+                placeholder={heldByMe ? 'Reply to the customer' : 'Take over the conversation to reply'}
+                className="flex-grow bg-white/10 border-white/20 rounded-md px-3 py-2 text-sm text-gray-200 disabled:opacity-50"
+              />
+              <button
+                onClick={handleSend}
+                disabled={!heldByMe || reply.trim() === ''}
+                className="px-4 py-2 bg-green-500/50 text-white rounded-lg hover:bg-green-500/80 border border-green-400/50 transition disabled:opacity-40"
+              >
+                Send
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex-grow flex items-center justify-center text-gray-400">
+            Select a conversation to take over
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HumanHandoffPanel;
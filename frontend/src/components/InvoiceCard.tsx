@@ -7,6 +7,10 @@ interface InvoiceCardProps {
   dueDate: string;
   amount: number;
   billPeriod?: string;
+  maxInstallments?: number;
+  brandColor?: string;
+  brandTextColor?: string;
+  logoUrl?: string;
   onPaymentMethod: (method: 'credit' | 'pix' | 'boleto') => void;
 }
 
@@ -16,8 +20,16 @@ const InvoiceCard: React.FC<InvoiceCardProps> = ({
   dueDate,
   amount,
   billPeriod = "dezembro",
+  maxInstallments,
+  brandColor,
+  brandTextColor,
+  logoUrl,
   onPaymentMethod
 }) => {
+  // Provider colors come from the catalog; without them the card stays orange
+  const brandStyle = brandColor ? { backgroundColor: brandColor, color: brandTextColor || '#ffffff' } : undefined;
+
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden max-w-sm mx-auto">
       {/* Header with account info */}
@@ -26,11 +38,15 @@ const InvoiceCard: React.FC<InvoiceCardProps> = ({
       </div>
 
       {/* Brand section */}
-      <div className="bg-orange-400 px-4 py-3 flex items-center justify-between">
-        <div className="text-white">
+      <div
+        className={`${brandStyle ? '' : 'bg-orange-400 text-white '}px-4 py-3 flex items-center justify-between`}
+        style={brandStyle}
+      >
+        <div className="flex items-center gap-2">
+          {logoUrl && <img src={logoUrl} alt={brandName} className="h-6 w-auto" />}
           <h3 className="text-lg font-bold">{brandName}</h3>
         </div>
-        <div className="text-white text-xs">
+        <div className="text-xs">
           <p>Sua fatura chegou.</p>
         </div>
       </div>
@@ -63,7 +79,7 @@ const InvoiceCard: React.FC<InvoiceCardProps> = ({
           onClick={() => onPaymentMethod('credit')}
           className="w-full bg-blue-500 text-white py-3 rounded-md font-medium hover:bg-blue-600 transition-colors"
         >
-          Cartão de Crédito em até 24x
+          {maxInstallments ? `Cartão de Crédito em até ${maxInstallments}x` : 'Cartão de Crédito'}
         </button>
 
         <button
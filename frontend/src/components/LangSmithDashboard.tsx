@@ -5,6 +5,7 @@ import PatternOptimization from './analytics/PatternOptimization';
 
 interface LangSmithRun {
   id: string;
+  traceId?: string;
   name: string;
   status: string;
   startTime: string;
@@ -15,6 +16,7 @@ interface LangSmithRun {
 }
 
 interface LangSmithStats {
+  backend?: 'local' | 'langsmith';
   projectName: string;
   totalRuns: number;
   recentRuns: LangSmithRun[];
@@ -25,16 +27,57 @@ interface LangSmithStats {
 interface LangSmithHealth {
   status: string;
   configured: boolean;
+  backend?: 'local' | 'langsmith' | null;
   message: string;
   timestamp: string;
   error?: string;
 }
 
+interface TraceSpan {
+  id: string;
+  name: string;
+  runType: string;
+  status: string;
+  startTime: string;
+  endTime?: string;
+  durationMs: number | null;
+  inputs: any;
+  outputs: any;
+  error?: string | null;
+  children: TraceSpan[];
+}
+
+interface TraceDetail {
+  traceId: string;
+  spanCount: number;
+  spans: TraceSpan[];
+}
+
+const TraceSpanRow: React.FC<{ span: TraceSpan; depth: number }> = ({ span, depth }) => (
+  <>
+    <div className="flex items-center justify-between py-2 border-b border-white/5 text-sm" style={{ paddingLeft: `${depth * 20}px` }}>
+      <div className="flex items-center space-x-2 min-w-0">
+        <span className={`w-2 h-2 rounded-full flex-shrink-0 ${span.status === 'error' ? 'bg-red-400' : 'bg-green-400'}`}></span>
+        <span className="font-medium text-gray-200">{span.name}</span>
+        <span className="text-xs text-gray-500">{span.runType}</span>
+        {span.error && <span className="text-xs text-red-300 truncate">{span.error}</span>}
+      </div>
+      <span className="text-gray-400 flex-shrink-0 ml-4">
+        {span.durationMs !== null ? `${span.durationMs}ms` : 'N/A'}
+      </span>
+    </div>
+    {span.children.map((child) => (
+      <TraceSpanRow key={child.id} span={child} depth={depth + 1} />
+    ))}
+  </>
+);
+
 const LangSmithDashboard: React.FC = () => {
   const [stats, setStats] = useState<LangSmithStats | null>(null);
   const [health, setHealth] = useState<LangSmithHealth | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'monitoring' | 'flows' | 'roi' | 'patterns'>('monitoring');
+  const [selectedTrace, setSelectedTrace] = useState<TraceDetail | null>(null);
 
   useEffect(() => {
     fetchLangSmithData();
@@ -61,6 +104,18 @@ const LangSmithDashboard: React.FC = () => {
     }
   };
 
+  const fetchTrace = async (traceId: string) => {
+    try {
+      const response = await fetch(`https://hackthon-bemobi-1.onrender.com/api/langsmith/traces/${traceId}`);
+      if (!response.ok) {
+        throw new Error('Trace not found');
+      }
+      setSelectedTrace(await response.json());
+    } catch (error) {
+      console.error('Error fetching trace:', error);
+    }
+  };
+
   const formatTime = (dateString: string) => {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleTimeString();
@@ -88,7 +143,9 @@ const LangSmithDashboard: React.FC = () => {
           <h3 className="text-red-300 font-semibold mb-2">Configuration Issue</h3>
           <p className="text-red-200">{stats?.error || health?.error || 'LangSmith is not properly configured'}</p>
           <p className="text-red-200 text-sm mt-2">
-            Please ensure LANGCHAIN_API_KEY is set in your environment variables.
+            {stats?.backend === 'local' || health?.backend === 'local'
+              ? 'Traces are read from the local database; check that it is reachable and migrated.'
+              : 'Please ensure LANGCHAIN_API_KEY is set, or use TRACING_BACKEND=local to store traces in the database.'}
           </p>
         </div>
       </div>
@@ -122,7 +179,9 @@ const LangSmithDashboard: React.FC = () => {
         <div className="flex items-center space-x-2 mt-4 sm:mt-0">
           <div className={`w-3 h-3 rounded-full ${health?.status === 'healthy' ? 'bg-green-400' : 'bg-red-400'}`}></div>
           <span className="text-gray-300 text-sm">
-            {health?.status === 'healthy' ? 'Connected' : 'Disconnected'}
+            {health?.status === 'healthy'
+              ? `Connected${health.backend === 'local' ? ' (local traces)' : ''}`
+              : 'Disconnected'}
           </span>
         </div>
       </div>
@@ -166,7 +225,11 @@ const LangSmithDashboard: React.FC = () => {
                 </thead>
                 <tbody className="divide-y divide-white/10">
                   {stats?.recentRuns?.map((run) => (
-                    <tr key={run.id} className="transition-colors hover:bg-white/5">
+                    <tr
+                      key={run.id}
+                      onClick={() => fetchTrace(run.traceId || run.id)}
+                      className="transition-colors hover:bg-white/5 cursor-pointer"
+                    >
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-200">{run.name}</div>
                         <div className="text-sm text-gray-400">{run.id.substring(0, 8)}...</div>
@@ -210,6 +273,26 @@ const LangSmithDashboard: React.FC = () => {
             </div>
           </div>
 
+          {/* Trace Detail */}
+          {selectedTrace && (
+            <div className="bg-white/5 backdrop-blur-lg p-6 rounded-xl border border-white/10">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-200">
+                  Trace {selectedTrace.traceId.substring(0, 8)}... ({selectedTrace.spanCount} spans)
+                </h3>
+                <button
+                  onClick={() => setSelectedTrace(null)}
+                  className="text-sm text-gray-400 hover:text-white"
+                >
+                  Close
+                </button>
+              </div>
+              {selectedTrace.spans.map((span) => (
+                <TraceSpanRow key={span.id} span={span} depth={0} />
+              ))}
+            </div>
+          )}
+
           {/* Configuration Info */}
           {health && (
             <div className="bg-white/5 backdrop-blur-lg p-6 rounded-xl border border-white/10">
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { io } from 'socket.io-client';
-import { QueueStatus, QueueConfig } from '../types/queue';
+import { QueueStatus, QueueConfig, FrustrationAlert } from '../types/queue';
 import LangSmithDashboard from './LangSmithDashboard';
+import DeliveryTicks from './DeliveryTicks';
+import { useLastAgentMessages } from '../hooks/useLastAgentMessages';
 
 // ... (interfaces remain the same)
 
@@ -11,6 +13,8 @@ const QueueDashboard: React.FC = () => {
   const [configEditing, setConfigEditing] = useState(false);
   const [tempConfig, setTempConfig] = useState<QueueConfig | null>(null);
   const [activeTab, setActiveTab] = useState<'queue' | 'langsmith'>('queue');
+  const [alerts, setAlerts] = useState<FrustrationAlert[]>([]);
+  const lastAgentMessages = useLastAgentMessages(queueStatus?.activeSessions.map((session) => session.sessionId) || []);
 
   useEffect(() => {
     // Initialize socket connection
@@ -33,6 +37,10 @@ const QueueDashboard: React.FC = () => {
       fetchQueueStatus();
     });
 
+    socketInstance.on('supervisor-alert', (alert: FrustrationAlert) => {
+      setAlerts((prev) => [alert, ...prev.filter((a) => a.sessionId !== alert.sessionId)]);
+    });
+
     // Initial fetch
     fetchQueueStatus();
 
@@ -204,6 +212,33 @@ const QueueDashboard: React.FC = () => {
       {/* Tab Content */}
       {activeTab === 'queue' ? (
         <>
+          {/* Frustration Alerts */}
+          {alerts.length > 0 && (
+            <div className="bg-red-500/10 backdrop-blur-lg rounded-xl border border-red-400/30 p-4 space-y-2">
+              <h3 className="text-lg font-semibold text-red-300">Frustrated Customers ({alerts.length})</h3>
+              {alerts.map((alert) => (
+                <div key={alert.sessionId} className="flex items-start justify-between bg-white/5 p-3 rounded-lg">
+                  <div>
+                    <p className="text-gray-200 font-medium">
+                      {alert.customerName}
+                      <span className="ml-2 text-xs text-red-300">
+                        Frustration {Math.round(alert.frustrationScore * 100)}% · Sentiment {alert.sentimentScore.toFixed(2)}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-400 italic">"{alert.lastMessage}"</p>
+                    <p className="text-xs text-gray-500">{formatTime(alert.timestamp)}</p>
+                  </div>
+                  <button
+                    onClick={() => setAlerts((prev) => prev.filter((a) => a.sessionId !== alert.sessionId))}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Status Overview */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         {/* Glassmorphism Stat Cards */}
@@ -226,7 +261,9 @@ const QueueDashboard: React.FC = () => {
           </p>
           {queueStatus.config.enabled && (
             <p className="text-xs text-gray-400">
-              {queueStatus.stats.isProcessingActive ? 'Processing' : 'In quiet hours'}
+              {queueStatus.stats.isProcessingActive
+                ? 'Processing'
+                : queueStatus.stats.pausedByCircuitBreaker ? 'Paused: AI unavailable' : 'In quiet hours'}
             </p>
           )}
         </div>
@@ -348,6 +385,11 @@ const QueueDashboard: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
                     {customer.riskCategory?.replace('-', ' ')}
+                    {customer.promiseFollowUp && (
+                      <div className="text-xs text-orange-300">
+                        Promise follow-up ({new Date(`${customer.promiseFollowUp.promisedDate}T12:00:00`).toLocaleDateString('pt-BR')})
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
                     R$ {(customer.accountValue / 100).toFixed(2)}
@@ -388,13 +430,42 @@ const QueueDashboard: React.FC = () => {
           </div>
           <div className="overflow-x-auto">
             <table className="w-full">
-              {/* ... (table head similar to priority queue) ... */}
+              <thead>
+                <tr className="bg-white/5">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Started</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Last Agent Message</th>
+                </tr>
+              </thead>
               <tbody className="divide-y divide-white/10">
-                {queueStatus.activeSessions.map((session) => (
-                  <tr key={session.sessionId} className="transition-colors hover:bg-white/5">
-                    {/* ... (table cells similar to priority queue) ... */}
-                  </tr>
-                ))}
+                {queueStatus.activeSessions.map((session) => {
+                  const lastMessage = lastAgentMessages[session.sessionId];
+                  return (
+                    <tr key={session.sessionId} className="transition-colors hover:bg-white/5">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-200">{session.customerName}</div>
+                        <div className="text-sm text-gray-400">{session.customerId}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-400">
+                        {formatTime(session.startTime)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                        {session.status}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-300">
+                        {lastMessage ? (
+                          <span className="flex items-center">
+                            <span className="truncate max-w-xs">{lastMessage.content}</span>
+                            <DeliveryTicks message={lastMessage} />
+                          </span>
+                        ) : (
+                          <span className="text-gray-500">None yet</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import { io } from 'socket.io-client';
+import { PaymentReceipt, PaymentReceiptDetails, ReceiptReviewStatus } from '../types/receipt';
+
+const API_URL = 'https://hackthon-bemobi-1.onrender.com';
+
+const statusLabels: Record<ReceiptReviewStatus, string> = {
+  PENDING_REVIEW: 'Pending review',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+const statusStyles: Record<ReceiptReviewStatus, string> = {
+  PENDING_REVIEW: 'bg-yellow-500/20 text-yellow-300',
+  APPROVED: 'bg-green-500/20 text-green-300',
+  REJECTED: 'bg-red-500/20 text-red-300',
+};
+
+const formatMoney = (amount: string | null) => (amount === null ? '—' : `R$ ${Number(amount).toFixed(2).replace('.', ',')}`);
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : '—');
+
+// Payment receipts customers uploaded in chat. A supervisor checks the file
+// against what was read from it and the proposed transaction, then approves
+// it (the payment is recorded) or rejects it.
+const ReceiptReviewPanel: React.FC = () => {
+  const [status, setStatus] = useState<ReceiptReviewStatus>('PENDING_REVIEW');
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([]);
+  const [selected, setSelected] = useState<PaymentReceiptDetails | null>(null);
+  const [transactionId, setTransactionId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem('handoffAgentName') || 'Supervisor');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReceipts = async (filter: ReceiptReviewStatus = status) => {
+    try {
+      const response = await fetch(`${API_URL}/api/admin/receipts?status=${filter}`);
+      if (response.ok) {
+        setReceipts(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching receipts:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchReceipts(status);
+    setSelected(null);
+  }, [status]);
+
+  useEffect(() => {
+    const socket = io(API_URL);
+    socket.on('connect', () => socket.emit('join-queue-monitoring'));
+    socket.on('receipt-submitted', () => fetchReceipts());
+    socket.on('receipt-reviewed', () => fetchReceipts());
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [status]);
+
+  useEffect(() => {
+    localStorage.setItem('handoffAgentName', reviewer);
+  }, [reviewer]);
+
+  const openReceipt = async (id: string) => {
+    setError(null);
+    setNotes('');
+    try {
+      const response = await fetch(`${API_URL}/api/admin/receipts/${id}`);
+      if (response.ok) {
+        const receipt: PaymentReceiptDetails = await response.json();
+        setSelected(receipt);
+        setTransactionId(receipt.matchedTransactionId || '');
+      }
+    } catch (error) {
+      console.error('Error fetching receipt:', error);
+    }
+  };
+
+  const review = async (action: 'approve' | 'reject') => {
+    if (!selected) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/admin/receipts/${selected.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reviewedBy: reviewer.trim(),
+          notes,
+          ...(action === 'approve' && transactionId ? { transactionId } : {}),
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Request failed');
+        return;
+      }
+      setSelected(null);
+      await fetchReceipts();
+    } catch (error) {
+      console.error(`Error on receipt ${action}:`, error);
+      setError('Request failed');
+    }
+  };
+
+  const fileUrl = selected ? `${API_URL}/api/admin/receipts/${selected.id}/file` : '';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Receipts */}
+      <div className="bg-white/5 backdrop-blur-lg rounded-xl border border-white/10 overflow-hidden">
+        <div className="p-4 border-b border-white/10 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-200">Payment Receipts ({receipts.length})</h3>
+          <div className="flex space-x-1">
+            {(Object.keys(statusLabels) as ReceiptReviewStatus[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => setStatus(value)}
+                className={`px-3 py-1 text-xs rounded-lg transition ${status === value ? 'bg-white/20 text-white' : 'text-gray-400 hover:bg-white/10'}`}
+              >
+                {statusLabels[value]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="divide-y divide-white/10">
+          {receipts.map((receipt) => (
+            <button
+              key={receipt.id}
+              onClick={() => openReceipt(receipt.id)}
+              className={`w-full text-left p-4 transition-colors hover:bg-white/5 ${receipt.id === selected?.id ? 'bg-white/10' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-200">{receipt.customer.name}</span>
+                <span className="text-xs text-gray-500">{formatDate(receipt.createdAt)}</span>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-2">
+                <span className="px-2 py-0.5 text-xs rounded-full bg-white/10 text-gray-300">{formatMoney(receipt.amount)}</span>
+                {receipt.matchedTransactionId ? (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-green-500/20 text-green-300">
+                    Match {receipt.matchScore !== null ? `${Math.round(receipt.matchScore * 100)}%` : ''}
+                  </span>
+                ) : (
+                  <span className="px-2 py-0.5 text-xs rounded-full bg-red-500/20 text-red-300">No match</span>
+                )}
+              </div>
+            </button>
+          ))}
+          {receipts.length === 0 && (
+            <p className="p-6 text-center text-gray-400">No receipts</p>
+          )}
+        </div>
+      </div>
+
+      {/* Review */}
+      <div className="lg:col-span-2 bg-white/5 backdrop-blur-lg rounded-xl border border-white/10 flex flex-col min-h-[32rem]">
+        {selected ? (
+          <>
+            <div className="p-4 border-b border-white/10 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-200">{selected.customer.name}</h3>
+                <p className="text-xs text-gray-400">
+                  {selected.customer.serviceProvider} · {selected.fileName || selected.contentType} · {Math.max(1, Math.round(selected.sizeBytes / 1024))} KB
+                </p>
+              </div>
+              <span className={`px-2 py-0.5 text-xs rounded-full ${statusStyles[selected.status]}`}>{statusLabels[selected.status]}</span>
+            </div>
+
+            <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4 flex-grow">
+              <div>
+                {selected.contentType.startsWith('image/') ? (
+                  <img src={fileUrl} alt="Receipt" className="max-h-96 rounded-lg border border-white/10" />
+                ) : (
+                  <a href={fileUrl} target="_blank" rel="noreferrer" className="text-blue-300 underline text-sm">
+                    Open PDF
+                  </a>
+                )}
+                {selected.extractedText && (
+                  <pre className="mt-3 p-2 bg-black/20 rounded text-xs text-gray-300 whitespace-pre-wrap max-h-48 overflow-y-auto">
+                    {selected.extractedText}
+                  </pre>
+                )}
+              </div>
+
+              <div className="space-y-3 text-sm text-gray-300">
+                <dl className="grid grid-cols-3 gap-y-1">
+                  <dt className="text-gray-500">Amount</dt>
+                  <dd className="col-span-2">{formatMoney(selected.amount)}</dd>
+                  <dt className="text-gray-500">Paid at</dt>
+                  <dd className="col-span-2">{formatDate(selected.paidAt)}</dd>
+                  <dt className="text-gray-500">Pix E2E ID</dt>
+                  <dd className="col-span-2 break-all">{selected.pixEndToEndId || '—'}</dd>
+                  <dt className="text-gray-500">Boleto line</dt>
+                  <dd className="col-span-2 break-all">{selected.boletoLine || '—'}</dd>
+                  {selected.reviewedBy && (
+                    <>
+                      <dt className="text-gray-500">Reviewed by</dt>
+                      <dd className="col-span-2">{selected.reviewedBy} · {formatDate(selected.reviewedAt)}</dd>
+                    </>
+                  )}
+                </dl>
+
+                {selected.status === 'PENDING_REVIEW' && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Transaction paid</label>
+                      <select
+                        value={transactionId}
+                        onChange={(e) => setTransactionId(e.target.value)}
+                        className="block w-full bg-white/10 border-white/20 rounded-md px-3 py-2 text-sm text-gray-200"
+                      >
+                        <option value="">New payment for the receipt amount</option>
+                        {selected.outstandingTransactions.map((transaction) => (
+                          <option key={transaction.id} value={transaction.id}>
+                            {formatMoney(transaction.amount)} · due {new Date(transaction.transactionDate).toLocaleDateString()} · {transaction.status}
+                            {transaction.id === selected.matchedTransactionId ? ' (proposed)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Your name</label>
+                      <input
+                        type="text"
+                        value={reviewer}
+                        onChange={(e) => setReviewer(e.target.value)}
+                        className="block w-full bg-white/10 border-white/20 rounded-md px-3 py-2 text-sm text-gray-200"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Notes</label>
+                      <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={2}
+                        className="block w-full bg-white/10 border-white/20 rounded-md px-3 py-2 text-sm text-gray-200"
+                      />
+                    </div>
+                    {error && <p className="text-sm text-red-300">{error}</p>}
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => review('approve')}
+                        disabled={reviewer.trim() === ''}
+                        className="px-3 py-1 bg-green-500/50 text-white rounded-lg hover:bg-green-500/80 border border-green-400/50 transition disabled:opacity-40"
+                      >
+                        Approve Payment
+                      </button>
+                      <button
+                        onClick={() => review('reject')}
+                        disabled={reviewer.trim() === ''}
+                        className="px-3 py-1 bg-red-500/50 text-white rounded-lg hover:bg-red-500/80 border border-red-400/50 transition disabled:opacity-40"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </>
+                )}
+
+                {selected.reviewNotes && <p className="italic text-gray-400">"{selected.reviewNotes}"</p>}
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="flex-grow flex items-center justify-center text-gray-400">
+            Select a receipt to review
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptReviewPanel;
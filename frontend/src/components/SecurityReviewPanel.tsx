@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { io } from 'socket.io-client';
+import { InjectionVerdict, PromptInjectionAttempt } from '../types/security';
+
+const API_URL = 'https://hackthon-bemobi-1.onrender.com';
+
+const categoryLabels: Record<string, string> = {
+  instruction_override: 'Instruction override',
+  prompt_extraction: 'Prompt extraction',
+  fake_authority: 'Fake authority',
+  role_play: 'Role play',
+  tool_spoofing: 'Tool spoofing',
+  forced_outcome: 'Forced outcome',
+};
+
+const verdictStyles: Record<InjectionVerdict, string> = {
+  confirmed: 'bg-red-500/20 text-red-300',
+  false_positive: 'bg-gray-500/20 text-gray-300',
+};
+
+// Customer messages flagged as prompt injection or jailbreak attempts. They
+// were answered with a canned reply; a reviewer confirms each one or marks it
+// as a false positive, which is what the detector thresholds get tuned from.
+const SecurityReviewPanel: React.FC = () => {
+  const [attempts, setAttempts] = useState<PromptInjectionAttempt[]>([]);
+  const [pendingOnly, setPendingOnly] = useState(true);
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem('handoffAgentName') || 'Supervisor');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttempts = async (pending: boolean = pendingOnly) => {
+    try {
+      const response = await fetch(`${API_URL}/api/admin/security/injection-attempts${pending ? '?pending=true' : ''}`);
+      if (response.ok) {
+        setAttempts(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching prompt injection attempts:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchAttempts(pendingOnly);
+
+    const socket = io(API_URL);
+    socket.on('connect', () => socket.emit('join-queue-monitoring'));
+    socket.on('security-alert', () => fetchAttempts(pendingOnly));
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [pendingOnly]);
+
+  useEffect(() => {
+    localStorage.setItem('handoffAgentName', reviewer);
+  }, [reviewer]);
+
+  const review = async (id: string, verdict: InjectionVerdict) => {
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/api/admin/security/injection-attempts/${id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ verdict, reviewedBy: reviewer.trim() }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Request failed');
+        return;
+      }
+      await fetchAttempts();
+    } catch (error) {
+      console.error('Error reviewing prompt injection attempt:', error);
+      setError('Request failed');
+    }
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-lg rounded-xl border border-white/10 overflow-hidden">
+      <div className="p-4 border-b border-white/10 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-200">Prompt Injection Attempts ({attempts.length})</h3>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center text-sm text-gray-300 space-x-2">
+            <input type="checkbox" checked={pendingOnly} onChange={(e) => setPendingOnly(e.target.checked)} />
+            <span>Pending review only</span>
+          </label>
+          <input
+            type="text"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            placeholder="Your name"
+            className="bg-white/10 border-white/20 rounded-md px-3 py-1 text-sm text-gray-200"
+          />
+        </div>
+      </div>
+
+      {error && <p className="px-4 pt-3 text-sm text-red-300">{error}</p>}
+
+      <div className="divide-y divide-white/10">
+        {attempts.map((attempt) => (
+          <div key={attempt.id} className="p-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-200">
+                {attempt.customer.name} <span className="text-gray-500">· {attempt.customer.serviceProvider}</span>
+              </span>
+              <span className="text-xs text-gray-500">{new Date(attempt.createdAt).toLocaleString()}</span>
+            </div>
+            <p className="mt-2 p-2 bg-black/20 rounded text-sm text-gray-300 whitespace-pre-wrap break-words">{attempt.content}</p>
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              {attempt.categories.map((category) => (
+                <span key={category} className="px-2 py-0.5 text-xs rounded-full bg-orange-500/20 text-orange-300">
+                  {categoryLabels[category] || category}
+                </span>
+              ))}
+              <span className="text-xs text-gray-400">
+                Score {Math.round(attempt.score * 100)}% · {attempt.detector}
+              </span>
+              {attempt.verdict ? (
+                <span className={`ml-auto px-2 py-0.5 text-xs rounded-full ${verdictStyles[attempt.verdict]}`}>
+                  {attempt.verdict === 'confirmed' ? 'Confirmed' : 'False positive'} · {attempt.reviewedBy}
+                </span>
+              ) : (
+                <div className="ml-auto flex space-x-2">
+                  <button
+                    onClick={() => review(attempt.id, 'confirmed')}
+                    disabled={reviewer.trim() === ''}
+                    className="px-3 py-1 text-sm bg-red-500/50 text-white rounded-lg hover:bg-red-500/80 border border-red-400/50 transition disabled:opacity-40"
+                  >
+                    Confirm
+                  </button>
+                  <button
+                    onClick={() => review(attempt.id, 'false_positive')}
+                    disabled={reviewer.trim() === ''}
+                    className="px-3 py-1 text-sm bg-gray-500/50 text-white rounded-lg hover:bg-gray-500/80 border border-gray-400/50 transition disabled:opacity-40"
+                  >
+                    False Positive
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+        {attempts.length === 0 && (
+          <p className="p-6 text-center text-gray-400">No flagged messages</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecurityReviewPanel;
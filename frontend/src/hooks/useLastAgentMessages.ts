@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from 'react';
+import { io } from 'socket.io-client';
+import { ChatMessage, MessageStatusUpdate } from '../types/chatMessage';
+import { applyMessageStatus } from '../components/DeliveryTicks';
+
+const API_URL = 'https://hackthon-bemobi-1.onrender.com';
+
+const isAgentMessage = (message: ChatMessage) => message.sender === 'ai' || message.sender === 'human';
+
+// The latest agent message of each session, by session id, for supervisor
+// views. Delivery and read receipts arrive as message-status events on the
+// queue-monitoring room; a receipt for a message not shown yet means the
+// agent said something newer, so the sessions are fetched again.
+export function useLastAgentMessages(sessionIds: string[]): Record<string, ChatMessage> {
+  const [messages, setMessages] = useState<Record<string, ChatMessage>>({});
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const sessionKey = sessionIds.join(',');
+
+  useEffect(() => {
+    const ids = sessionKey ? sessionKey.split(',') : [];
+    if (ids.length === 0) {
+      setMessages({});
+      return;
+    }
+
+    let cancelled = false;
+    const fetchMessages = async () => {
+      try {
+        const sessions = await Promise.all(ids.map(async (id) => {
+          const response = await fetch(`${API_URL}/api/chat/sessions/${id}`);
+          return response.ok ? (await response.json() as { id: string; messages: ChatMessage[] }) : null;
+        }));
+        if (cancelled) return;
+
+        const latest: Record<string, ChatMessage> = {};
+        sessions.forEach((session) => {
+          const message = session?.messages.filter(isAgentMessage).pop();
+          if (session && message) latest[session.id] = message;
+        });
+        setMessages(latest);
+      } catch (error) {
+        console.error('Error fetching session messages:', error);
+      }
+    };
+
+    const socket = io(API_URL);
+    socket.on('connect', () => {
+      socket.emit('join-queue-monitoring');
+    });
+    socket.on('message-status', (update: MessageStatusUpdate) => {
+      if (!ids.includes(update.sessionId)) return;
+      const shown = messagesRef.current[update.sessionId];
+      if (shown && update.messageIds.includes(shown.id)) {
+        setMessages((prev) => {
+          const message = prev[update.sessionId];
+          return message ? { ...prev, [update.sessionId]: applyMessageStatus([message], update)[0] } : prev;
+        });
+      } else {
+        fetchMessages();
+      }
+    });
+
+    fetchMessages();
+
+    return () => {
+      cancelled = true;
+      socket.disconnect();
+    };
+  }, [sessionKey]);
+
+  return messages;
+}
@@ -34,6 +34,18 @@ class ChatService {
       this.socket.on('receive-message', callback);
     }
   }
+
+  onMessageChunk(callback: (chunk: { sessionId: string; messageId: string; delta: string }) => void) {
+    if (this.socket) {
+      this.socket.on('message-chunk', callback);
+    }
+  }
+
+  onMessageComplete(callback: (data: { sessionId: string; messageId: string; message: ChatMessage }) => void) {
+    if (this.socket) {
+      this.socket.on('message-complete', callback);
+    }
+  }
 }
 
 export default new ChatService();
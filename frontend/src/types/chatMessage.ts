@@ -1,4 +1,5 @@
-export type MessageSender = 'ai' | 'customer';
+// 'human' is a human agent who took over an escalated conversation
+export type MessageSender = 'ai' | 'customer' | 'human';
 export type MessageType =
   | 'greeting'
   | 'question'
@@ -7,6 +8,159 @@ export type MessageType =
   | 'confirmation'
   | 'error';
 
+export type ChatActionType =
+  | 'show_payment_options'
+  | 'send_invoice'
+  | 'offer_installments'
+  | 'escalate_to_human'
+  | 'close_conversation'
+  | 'record_payment_promise';
+
+export type PaymentMethodOption = 'credit' | 'pix' | 'boleto';
+
+export interface InvoiceData {
+  customerName: string;
+  accountNumber: string;
+  brandName: string;
+  dueDate: string;
+  amount: number;
+  billPeriod: string;
+  // Card installments allowed by the negotiation policy
+  maxInstallments?: number;
+  // Provider branding from the catalog; the card keeps its default look without them
+  brandColor?: string;
+  brandTextColor?: string;
+  logoUrl?: string;
+}
+
+// A plan computed by the negotiation engine. Single payments (in full or
+// postponed) have installments = 1.
+export interface PaymentPlanOption {
+  id: string;
+  installments: number;
+  downPayment: number;
+  installmentAmount: number;
+  discountPercent: number;
+  totalAmount: number;
+  firstDueDate: string;
+}
+
+export type ChatAction =
+  | { type: 'show_payment_options'; payload: { methods: PaymentMethodOption[] } }
+  | { type: 'send_invoice'; payload: InvoiceData }
+  | { type: 'offer_installments'; payload: { maxInstallments: number; plans: PaymentPlanOption[] } }
+  | { type: 'escalate_to_human'; payload: { reason: string } }
+  | { type: 'close_conversation'; payload: { reason: 'payment_completed' | 'customer_declined' | 'resolved' | 'other' } }
+  // promisedDate is YYYY-MM-DD; amount in reais, the whole debt unless the customer named less
+  | { type: 'record_payment_promise'; payload: { promisedDate: string; amount: number } };
+
+export const MESSAGE_INTENTS = [
+  'wants_to_pay',
+  'payment_method_choice',
+  'already_paid',
+  'dispute',
+  'negotiate',
+  'promise_to_pay',
+  'hardship',
+  'opt_out',
+  'wrong_person',
+  'off_topic',
+] as const;
+
+export type MessageIntent = typeof MESSAGE_INTENTS[number];
+
+// Intent of a customer message, recorded before the agent replies
+export interface IntentClassification {
+  intent: MessageIntent;
+  confidence: number;
+  classifier: 'rule' | 'llm';
+  paymentMethod?: PaymentMethodOption;
+}
+
+// Prompt template version that produced an AI message (version 0 = built-in)
+export interface PromptVersionMetadata {
+  id: string | null;
+  key: string;
+  version: number;
+  vertical: string | null;
+  serviceProvider: string | null;
+}
+
+// Scored on customer messages. sentiment runs from -1 (negative) to 1
+// (positive); frustration from 0 to 1.
+export interface SentimentScore {
+  sentiment: number;
+  frustration: number;
+  scorer: 'lexicon';
+}
+
+// Set on the agent's messages while handling an opt-out request
+export interface OptOutMetadata {
+  status: 'pending_confirmation' | 'confirmed';
+}
+
+// Set on customer voice notes. The message content is the transcript, so
+// the rest of the pipeline treats it like typed text.
+export interface AudioMetadata {
+  storageKey: string;
+  contentType: string;
+  sizeBytes: number;
+  // null when the transcriber heard nothing or failed
+  transcript: string | null;
+  transcriber: string;
+  language?: string;
+  transcriptionError?: boolean;
+}
+
+// Set on a payment receipt (comprovante) the customer uploaded. The file and
+// what was read from it are kept on the receipt for supervisor review.
+export interface ReceiptMetadata {
+  receiptId: string;
+  contentType: string;
+  sizeBytes: number;
+  fileName?: string;
+}
+
+export type PromptInjectionCategory =
+  | 'instruction_override'
+  | 'prompt_extraction'
+  | 'fake_authority'
+  | 'role_play'
+  | 'tool_spoofing'
+  | 'forced_outcome';
+
+// Set on customer messages flagged as a prompt injection or jailbreak attempt.
+// A flagged message is never sent to the model.
+export interface PromptInjectionMetadata {
+  flagged: boolean;
+  // 0 to 1
+  score: number;
+  categories: PromptInjectionCategory[];
+  detector: 'rule' | 'llm';
+}
+
+// Why a conversation was handed to a human agent
+export type EscalationTrigger = 'customer_request' | 'intent' | 'frustration' | 'loop' | 'agent' | 'supervisor' | 'receipt_rejected';
+
+// Set on messages sent by a human agent
+export interface HumanAgentMetadata {
+  id: string;
+  name: string;
+}
+
+export interface ChatMessageMetadata {
+  action?: ChatAction;
+  prompt?: PromptVersionMetadata;
+  intent?: IntentClassification;
+  optOut?: OptOutMetadata;
+  sentiment?: SentimentScore;
+  humanAgent?: HumanAgentMetadata;
+  audio?: AudioMetadata;
+  receipt?: ReceiptMetadata;
+  injection?: PromptInjectionMetadata;
+  [key: string]: unknown;
+}
+
 export interface ChatMessage {
   id: string;
   chatSessionId: string;
@@ -14,4 +168,16 @@ export interface ChatMessage {
   content: string;
   timestamp: Date;
   messageType: MessageType;
+  metadata?: ChatMessageMetadata;
+  // Receipts for ai and human messages: sent until the customer's chat acknowledges it
+  deliveredAt?: string | null;
+  readAt?: string | null;
+}
+
+// Sent to supervisors and to the session room when agent messages are delivered or read
+export interface MessageStatusUpdate {
+  sessionId: string;
+  messageIds: string[];
+  status: 'delivered' | 'read';
+  timestamp: string;
 }
@@ -0,0 +1,28 @@
+// An escalated chat session in the human handoff queue
+export interface HandoffQueueEntry {
+  sessionId: string;
+  customerId: string;
+  customerName: string;
+  serviceProvider: string;
+  trigger: string | null;
+  reason: string | null;
+  escalatedAt: string | null;
+  frustrationScore: number | null;
+  lastMessage: string | null;
+  // Set once an agent claims the session
+  humanAgentId: string | null;
+  humanAgentName: string | null;
+  humanJoinedAt: string | null;
+}
+
+export type HandoffEvent = 'escalated' | 'claimed' | 'returned_to_ai' | 'closed';
+
+export interface HandoffEventData {
+  sessionId: string;
+  customerId: string;
+  customerName: string;
+  trigger?: string | null;
+  reason?: string | null;
+  agentName?: string | null;
+  timestamp: string;
+}
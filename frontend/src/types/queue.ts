@@ -8,6 +8,8 @@ export interface QueuedCustomer {
   contactAttempts: number;
   riskCategory: string;
   accountValue: number;
+  // Set when the customer broke a payment promise and is due a follow-up
+  promiseFollowUp?: { promiseId: string; promisedDate: string; amount: number };
 }
 
 export interface ActiveSession {
@@ -23,6 +25,7 @@ export interface QueueStats {
   activeSessionsCount: number;
   availableSlots: number;
   isProcessingActive: boolean;
+  pausedByCircuitBreaker?: boolean;
 }
 
 export interface QueueConfig {
@@ -41,3 +44,14 @@ export interface QueueStatus {
   config: QueueConfig;
   stats: QueueStats;
 }
+
+export interface FrustrationAlert {
+  type: 'frustration';
+  sessionId: string;
+  customerId: string;
+  customerName: string;
+  sentimentScore: number;
+  frustrationScore: number;
+  lastMessage: string;
+  timestamp: string;
+}
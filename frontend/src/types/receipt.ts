@@ -0,0 +1,39 @@
+export type ReceiptReviewStatus = 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED';
+
+// Decimal amounts arrive as strings
+export interface ReceiptTransaction {
+  id: string;
+  amount: string;
+  status: string;
+  transactionDate: string;
+  description: string | null;
+}
+
+// A payment receipt a customer uploaded in chat, with what was read from it
+export interface PaymentReceipt {
+  id: string;
+  customerId: string;
+  chatSessionId: string | null;
+  contentType: string;
+  fileName: string | null;
+  sizeBytes: number;
+  extractedText: string | null;
+  amount: string | null;
+  paidAt: string | null;
+  pixEndToEndId: string | null;
+  boletoLine: string | null;
+  // Proposed by the matcher until the receipt is reviewed
+  matchedTransactionId: string | null;
+  matchScore: number | null;
+  status: ReceiptReviewStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  createdAt: string;
+  customer: { id: string; name: string; serviceProvider: string };
+  matchedTransaction: ReceiptTransaction | null;
+}
+
+export interface PaymentReceiptDetails extends PaymentReceipt {
+  outstandingTransactions: ReceiptTransaction[];
+}
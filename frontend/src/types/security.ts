@@ -0,0 +1,30 @@
+import { PromptInjectionCategory } from './chatMessage';
+
+export type InjectionVerdict = 'confirmed' | 'false_positive';
+
+// A customer message flagged as a prompt injection attempt; it never reached the model
+export interface PromptInjectionAttempt {
+  id: string;
+  chatSessionId: string;
+  customerId: string;
+  chatMessageId: string | null;
+  content: string;
+  categories: PromptInjectionCategory[];
+  score: number;
+  detector: 'rule' | 'llm';
+  verdict: InjectionVerdict | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  customer: { id: string; name: string; serviceProvider: string };
+}
+
+// Sent to queue-monitoring when a message is flagged
+export interface SecurityAlert {
+  attemptId?: string;
+  sessionId: string;
+  customerId: string;
+  categories: PromptInjectionCategory[];
+  score: number;
+  timestamp: string;
+}